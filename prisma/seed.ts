@@ -1,10 +1,20 @@
 import { PrismaClient, ProductCategory, AvailabilityStatus, UserRole, Permission } from '@prisma/client'
+import { hashPassword } from '../src/lib/encryption'
+import { refreshProductSearchIndex } from '../src/lib/product-search'
+import { parseSpecifications } from '../src/lib/product-specs'
 
 const prisma = new PrismaClient()
 
 async function main() {
   console.log('🌱 Starting database seeding...')
 
+  // Initial password for seeded staff accounts - change it after first login
+  const seedPassword = process.env.SEED_ADMIN_PASSWORD || 'ChangeMe123!'
+  if (!process.env.SEED_ADMIN_PASSWORD) {
+    console.warn('⚠️  SEED_ADMIN_PASSWORD not set, using the default seed password')
+  }
+  const passwordHash = await hashPassword(seedPassword)
+
   // Create admin user
   const adminUser = await prisma.user.upsert({
     where: { email: 'admin@pipesupply.com' },
@@ -12,11 +22,13 @@ async function main() {
     create: {
       email: 'admin@pipesupply.com',
       name: 'System Administrator',
+      passwordHash,
       role: UserRole.ADMIN,
       permissions: [
         Permission.MANAGE_PRODUCTS,
         Permission.MANAGE_QUOTES,
         Permission.MANAGE_USERS,
+        Permission.MANAGE_CONTENT,
         Permission.MANAGE_MEDIA,
         Permission.VIEW_ANALYTICS,
       ],
@@ -30,9 +42,10 @@ async function main() {
     create: {
       email: 'manager@pipesupply.com',
       name: 'Content Manager',
+      passwordHash,
       role: UserRole.CONTENT_MANAGER,
       permissions: [
-        Permission.MANAGE_PRODUCTS,
+        Permission.MANAGE_CONTENT,
         Permission.MANAGE_MEDIA,
         Permission.VIEW_ANALYTICS,
       ],
@@ -104,6 +117,7 @@ async function main() {
       const product = await prisma.product.create({
         data: {
           ...productData,
+          ...parseSpecifications(productData, productData.category),
           bulkDiscounts: {
             create: [
               { minQuantity: 10, discount: 0.05 }, // 5% discount for 10+ items
@@ -120,6 +134,9 @@ async function main() {
     }
   }
 
+  await refreshProductSearchIndex(prisma)
+  console.log('✅ Rebuilt product search index')
+
   // Create sample media files
   const sampleMedia = [
     {
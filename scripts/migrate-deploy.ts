@@ -5,6 +5,8 @@
 
 import { execSync } from 'child_process'
 import { PrismaClient } from '@prisma/client'
+import { refreshProductSearchIndex } from '../src/lib/product-search'
+import { backfillProductSpecifications } from '../src/lib/migration-utils'
 
 const prisma = new PrismaClient()
 
@@ -71,6 +73,28 @@ async function verifyMigrations(): Promise<void> {
   }
 }
 
+async function rebuildSearchIndex(): Promise<void> {
+  console.log('\n🔎 Rebuilding product search index...')
+  try {
+    await refreshProductSearchIndex(prisma)
+    console.log('✅ Search index rebuilt')
+  } catch (error) {
+    console.error('❌ Search index rebuild failed:', error)
+    throw new Error('Failed to rebuild product search index')
+  }
+}
+
+async function backfillSpecifications(): Promise<void> {
+  console.log('\n📐 Parsing product specifications...')
+  try {
+    const count = await backfillProductSpecifications()
+    console.log(`✅ Parsed specifications for ${count} products`)
+  } catch (error) {
+    console.error('❌ Specification backfill failed:', error)
+    throw new Error('Failed to parse product specifications')
+  }
+}
+
 async function main() {
   console.log('🚀 Database Migration Deployment\n')
   console.log('='.repeat(50))
@@ -101,6 +125,14 @@ async function main() {
     console.log('\n5️⃣  Verification phase...')
     await verifyMigrations()
 
+    // Step 6: Index products saved before the search columns existed
+    console.log('\n6️⃣  Search index phase...')
+    await rebuildSearchIndex()
+
+    // Step 7: Fill structured specs for products saved as text only
+    console.log('\n7️⃣  Specification phase...')
+    await backfillSpecifications()
+
     console.log('\n' + '='.repeat(50))
     console.log('✅ Migration deployment completed successfully!')
     console.log('🎉 Database is ready for production\n')
@@ -0,0 +1,32 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Deliver queued emails whose retry time has passed
+ * Schedule via cron/task scheduler, e.g. every minute
+ *
+ * Usage:
+ *   npm run email:process
+ *   or
+ *   ts-node scripts/process-email-queue.ts
+ */
+
+import { processEmailQueue } from '../src/lib/email-queue'
+import { disconnectDatabase } from '../src/lib/prisma'
+
+async function main() {
+  try {
+    const result = await processEmailQueue(100)
+    console.log(
+      `Processed ${result.processed} email(s): ${result.sent} sent, ` +
+      `${result.retrying} will retry, ${result.failed} failed`
+    )
+
+    await disconnectDatabase()
+    process.exit(0)
+  } catch (error) {
+    console.error('❌ Email queue processing failed:', error)
+    process.exit(1)
+  }
+}
+
+main()
@@ -0,0 +1,31 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Queue reminder emails to admins for certifications expiring in 60, 30 or 7 days
+ * Schedule via cron/task scheduler once a day, e.g. at 7:00 AM
+ *
+ * Usage:
+ *   npm run certifications:remind
+ *   or
+ *   ts-node scripts/send-certification-reminders.ts
+ */
+
+import { sendCertificationReminders } from '../src/lib/certifications'
+import { disconnectDatabase } from '../src/lib/prisma'
+
+async function main() {
+  try {
+    const result = await sendCertificationReminders()
+    console.log(
+      `Checked ${result.checked} expiring certification(s): ${result.sent} reminder(s) queued`
+    )
+
+    await disconnectDatabase()
+    process.exit(0)
+  } catch (error) {
+    console.error('❌ Certification reminders failed:', error)
+    process.exit(1)
+  }
+}
+
+main()
@@ -6,7 +6,11 @@ export const metadata = {
   description: 'Learn about Pipe Supply Co. - our history, certifications, service areas, and technical expertise in industrial pipe supply.',
 }
 
-export default function About() {
+interface AboutPageProps {
+  searchParams: { preview?: string }
+}
+
+export default function About({ searchParams }: AboutPageProps) {
   const breadcrumbItems = [
     { name: 'Home', href: '/' },
     { name: 'About Us', href: '/about', current: true }
@@ -14,7 +18,7 @@ export default function About() {
 
   return (
     <Layout breadcrumbItems={breadcrumbItems}>
-      <CompanyShowcase />
+      <CompanyShowcase preview={searchParams.preview === 'draft'} />
     </Layout>
   )
 }
\ No newline at end of file
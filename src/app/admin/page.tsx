@@ -1,7 +1,26 @@
+import { cookies } from 'next/headers'
+import { redirect } from 'next/navigation'
 import AdminDashboard from '@/components/admin/AdminDashboard'
 import { AdminLayout } from '@/components/layout/Layout'
+import { getSessionFromToken } from '@/lib/auth-helper'
+import { hasRole, hasPermission } from '@/lib/auth-utils'
+import { SESSION_COOKIE_NAME } from '@/lib/session-utils'
+import { UserRole, Permission } from '@prisma/client'
+
+export const dynamic = 'force-dynamic'
+
+export default async function AdminPage() {
+  const session = await getSessionFromToken(cookies().get(SESSION_COOKIE_NAME)?.value)
+
+  if (!session) {
+    redirect('/login')
+  }
+
+  // Storefront customers have no business in the admin area
+  if (!hasRole(session.user.role, UserRole.CONTENT_MANAGER)) {
+    redirect('/')
+  }
 
-export default function AdminPage() {
   return (
     <AdminLayout>
       <div className="mb-6">
@@ -15,16 +34,16 @@ export default function AdminPage() {
             </div>
             <div className="text-right">
               <div className="text-sm text-gray-500">Logged in as</div>
-              <div className="font-medium text-gray-900">Admin User</div>
+              <div className="font-medium text-gray-900">{session.user.name}</div>
               <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 mt-1">
-                ADMIN
+                {session.user.role}
               </span>
             </div>
           </div>
         </div>
       </div>
       
-      <AdminDashboard />
+      <AdminDashboard canManageUsers={hasPermission(session.user, Permission.MANAGE_USERS)} />
     </AdminLayout>
   )
-}
\ No newline at end of file
+}
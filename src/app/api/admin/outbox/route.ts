@@ -0,0 +1,62 @@
+import { NextResponse } from 'next/server'
+import { EmailStatus } from '@prisma/client'
+import { withAuth } from '@/lib/auth-utils'
+import { processEmailQueue, queryOutbox, retryEmail } from '@/lib/email-queue'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/admin/outbox - List queued, sent and failed emails (admin only)
+export const GET = withAuth(async (req) => {
+  try {
+    const { searchParams } = new URL(req.url)
+    const status = searchParams.get('status')
+
+    if (status && !Object.values(EmailStatus).includes(status as EmailStatus)) {
+      return NextResponse.json(
+        { error: `status must be one of: ${Object.values(EmailStatus).join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const result = await queryOutbox({
+      status: (status as EmailStatus) || undefined,
+      page: parseInt(searchParams.get('page') || '1'),
+      limit: parseInt(searchParams.get('limit') || '20')
+    })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error fetching outbox:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch outbox' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/admin/outbox - Retry a failed email by id, or deliver all due emails (admin only)
+export const POST = withAuth(async (req) => {
+  try {
+    const body = await req.json().catch(() => ({}))
+
+    if (body.id) {
+      const message = await retryEmail(String(body.id))
+      if (!message) {
+        return NextResponse.json(
+          { error: 'Failed email not found' },
+          { status: 404 }
+        )
+      }
+      return NextResponse.json({ message })
+    }
+
+    const result = await processEmailQueue()
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error processing outbox:', error)
+    return NextResponse.json(
+      { error: 'Failed to process outbox' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server'
+import { AuditAction, AuditEntityType } from '@prisma/client'
+import { withAuth } from '@/lib/auth-utils'
+import { queryAuditLogs } from '@/lib/audit-log'
+
+export const dynamic = 'force-dynamic'
+
+function parseDate(value: string | null): Date | undefined | null {
+  if (!value) return undefined
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+// GET /api/audit - Query the audit trail (admin only)
+export const GET = withAuth(async (req) => {
+  try {
+    const { searchParams } = new URL(req.url)
+    const entityType = searchParams.get('entityType')
+    const action = searchParams.get('action')
+    const dateFrom = parseDate(searchParams.get('dateFrom'))
+    const dateTo = parseDate(searchParams.get('dateTo'))
+
+    if (entityType && !Object.values(AuditEntityType).includes(entityType as AuditEntityType)) {
+      return NextResponse.json(
+        { error: `entityType must be one of: ${Object.values(AuditEntityType).join(', ')}` },
+        { status: 400 }
+      )
+    }
+    if (action && !Object.values(AuditAction).includes(action as AuditAction)) {
+      return NextResponse.json(
+        { error: `action must be one of: ${Object.values(AuditAction).join(', ')}` },
+        { status: 400 }
+      )
+    }
+    if (dateFrom === null || dateTo === null) {
+      return NextResponse.json({ error: 'Invalid date filter' }, { status: 400 })
+    }
+
+    const result = await queryAuditLogs({
+      entityType: (entityType as AuditEntityType) || undefined,
+      entityId: searchParams.get('entityId') || undefined,
+      userId: searchParams.get('userId') || undefined,
+      action: (action as AuditAction) || undefined,
+      dateFrom,
+      dateTo,
+      page: parseInt(searchParams.get('page') || '1'),
+      limit: parseInt(searchParams.get('limit') || '20')
+    })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error fetching audit logs:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch audit logs' },
+      { status: 500 }
+    )
+  }
+})
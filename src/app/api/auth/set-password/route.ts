@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server"
+import { checkRateLimit } from "@/lib/access-control"
+import { getRequestMetadata } from "@/lib/auth-helper"
+import { consumePasswordToken } from "@/lib/user-management"
+
+// POST /api/auth/set-password - Redeem an invite or reset token (public)
+export async function POST(req: NextRequest) {
+  try {
+    const metadata = getRequestMetadata(req)
+
+    const rateLimit = checkRateLimit(`set-password:${metadata.ipAddress || 'unknown'}`, {
+      windowMs: 15 * 60 * 1000,
+      maxRequests: 10
+    })
+    if (!rateLimit.allowed) {
+      return NextResponse.json({ error: "Too many attempts" }, { status: 429 })
+    }
+
+    const { token, password } = (await req.json().catch(() => null)) ?? {}
+
+    if (typeof token !== "string" || !token) {
+      return NextResponse.json({ error: "Token is required" }, { status: 400 })
+    }
+
+    const result = await consumePasswordToken(token, password)
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error("Error setting password:", error)
+    return NextResponse.json({ error: "Failed to set password" }, { status: 500 })
+  }
+}
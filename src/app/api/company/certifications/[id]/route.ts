@@ -0,0 +1,97 @@
+import { NextResponse } from 'next/server'
+import { AuditAction, AuditEntityType } from '@prisma/client'
+import { withAuth } from '@/lib/auth-utils'
+import { prisma } from '@/lib/prisma'
+import { recordAudit } from '@/lib/audit-log'
+import { formatValidationErrors } from '@/lib/quote-validation'
+import {
+  CERTIFICATION_INCLUDE,
+  buildCertificationUpdate,
+  checkCertificateFile,
+  getCertificationStatus,
+  parseCertificationInput
+} from '@/lib/certifications'
+
+export const dynamic = 'force-dynamic'
+
+// PUT /api/company/certifications/[id] - Replace a certification's details, e.g. after renewal (requires MANAGE_CONTENT)
+export const PUT = withAuth<{ params: { id: string } }>(async (req, { params }, session) => {
+  try {
+    const { errors, input } = parseCertificationInput(await req.json())
+    if (!input) {
+      return NextResponse.json(
+        { error: formatValidationErrors(errors), validationErrors: errors },
+        { status: 400 }
+      )
+    }
+
+    const existing = await prisma.certification.findUnique({
+      where: { id: params.id }
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Certification not found' }, { status: 404 })
+    }
+
+    if (input.mediaId && input.mediaId !== existing.mediaId) {
+      const fileError = await checkCertificateFile(input.mediaId)
+      if (fileError) {
+        return NextResponse.json({ error: fileError }, { status: 400 })
+      }
+    }
+
+    const certification = await prisma.certification.update({
+      where: { id: params.id },
+      data: buildCertificationUpdate(existing, input),
+      include: CERTIFICATION_INCLUDE
+    })
+
+    await recordAudit(req, session, {
+      entityType: AuditEntityType.CERTIFICATION,
+      entityId: certification.id,
+      action: AuditAction.UPDATE,
+      before: existing,
+      after: certification
+    })
+
+    return NextResponse.json({ ...certification, status: getCertificationStatus(certification.expiresAt) })
+  } catch (error) {
+    console.error('Error updating certification:', error)
+    return NextResponse.json(
+      { error: 'Failed to update certification' },
+      { status: 500 }
+    )
+  }
+})
+
+// DELETE /api/company/certifications/[id] - Remove a certification; its certificate file stays in the media library (requires MANAGE_CONTENT)
+export const DELETE = withAuth<{ params: { id: string } }>(async (req, { params }, session) => {
+  try {
+    const existing = await prisma.certification.findUnique({
+      where: { id: params.id }
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Certification not found' }, { status: 404 })
+    }
+
+    await prisma.certification.delete({
+      where: { id: params.id }
+    })
+
+    await recordAudit(req, session, {
+      entityType: AuditEntityType.CERTIFICATION,
+      entityId: existing.id,
+      action: AuditAction.DELETE,
+      before: existing
+    })
+
+    return NextResponse.json({ message: 'Certification deleted' })
+  } catch (error) {
+    console.error('Error deleting certification:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete certification' },
+      { status: 500 }
+    )
+  }
+})
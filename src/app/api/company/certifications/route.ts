@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server'
+import { AuditAction, AuditEntityType } from '@prisma/client'
+import { withAuth } from '@/lib/auth-utils'
+import { prisma } from '@/lib/prisma'
+import { recordAudit } from '@/lib/audit-log'
+import { formatValidationErrors } from '@/lib/quote-validation'
+import {
+  CERTIFICATION_INCLUDE,
+  checkCertificateFile,
+  getCertificationStatus,
+  listCertifications,
+  parseCertificationInput
+} from '@/lib/certifications'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/company/certifications - Every certification, including lapsed ones, with its status (requires MANAGE_CONTENT)
+export const GET = withAuth(async () => {
+  try {
+    const certifications = await listCertifications()
+    return NextResponse.json({ certifications })
+  } catch (error) {
+    console.error('Error fetching certifications:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch certifications' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/company/certifications - Add a certification (requires MANAGE_CONTENT)
+export const POST = withAuth(async (req, context, session) => {
+  try {
+    const { errors, input } = parseCertificationInput(await req.json())
+    if (!input) {
+      return NextResponse.json(
+        { error: formatValidationErrors(errors), validationErrors: errors },
+        { status: 400 }
+      )
+    }
+
+    if (input.mediaId) {
+      const fileError = await checkCertificateFile(input.mediaId)
+      if (fileError) {
+        return NextResponse.json({ error: fileError }, { status: 400 })
+      }
+    }
+
+    // New certifications go to the end of the list unless placed explicitly
+    const position = input.position ?? await prisma.certification.count()
+    const certification = await prisma.certification.create({
+      data: { ...input, position },
+      include: CERTIFICATION_INCLUDE
+    })
+
+    await recordAudit(req, session, {
+      entityType: AuditEntityType.CERTIFICATION,
+      entityId: certification.id,
+      action: AuditAction.CREATE,
+      after: certification
+    })
+
+    return NextResponse.json(
+      { ...certification, status: getCertificationStatus(certification.expiresAt) },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Error creating certification:', error)
+    return NextResponse.json(
+      { error: 'Failed to create certification' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server'
+import { AuditAction, AuditEntityType } from '@prisma/client'
+import { withAuth } from '@/lib/auth-utils'
+import { recordAudit } from '@/lib/audit-log'
+import { listPublicCertifications } from '@/lib/certifications'
+import {
+  COMPANY_CONTENT_ID,
+  discardCompanyContentDraft,
+  getCompanyContentDraft,
+  getPublishedCompanyContent
+} from '@/lib/company-content'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/company/draft - The draft, the published content it would replace and the current certifications (requires MANAGE_CONTENT)
+export const GET = withAuth(async () => {
+  try {
+    const [draft, published, certifications] = await Promise.all([
+      getCompanyContentDraft(),
+      getPublishedCompanyContent(),
+      listPublicCertifications()
+    ])
+    return NextResponse.json({ draft, published, certifications })
+  } catch (error) {
+    console.error('Error fetching company draft:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch company draft' },
+      { status: 500 }
+    )
+  }
+})
+
+// DELETE /api/company/draft - Discard the draft (requires MANAGE_CONTENT)
+export const DELETE = withAuth(async (req, context, session) => {
+  try {
+    const draft = await getCompanyContentDraft()
+    if (!draft || !(await discardCompanyContentDraft())) {
+      return NextResponse.json({ error: 'No draft to discard' }, { status: 404 })
+    }
+
+    await recordAudit(req, session, {
+      entityType: AuditEntityType.COMPANY,
+      entityId: COMPANY_CONTENT_ID,
+      action: AuditAction.DELETE,
+      before: { status: draft.status, version: draft.version }
+    })
+
+    return NextResponse.json({ message: 'Draft discarded' })
+  } catch (error) {
+    console.error('Error discarding company draft:', error)
+    return NextResponse.json(
+      { error: 'Failed to discard company draft' },
+      { status: 500 }
+    )
+  }
+})
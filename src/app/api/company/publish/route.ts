@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server'
+import { AuditAction, AuditEntityType } from '@prisma/client'
+import { withAuth } from '@/lib/auth-utils'
+import { recordAudit } from '@/lib/audit-log'
+import { COMPANY_CONTENT_ID, getPublishedCompanyContent, publishCompanyContent } from '@/lib/company-content'
+
+export const dynamic = 'force-dynamic'
+
+// POST /api/company/publish - Publish the draft, or `{ versionId }` to roll back to an earlier version (requires MANAGE_CONTENT)
+export const POST = withAuth(async (req, context, session) => {
+  try {
+    const body = await req.json().catch(() => ({}))
+    const versionId = typeof body?.versionId === 'string' ? body.versionId : undefined
+
+    const before = await getPublishedCompanyContent()
+    const published = await publishCompanyContent(session?.user.id ?? null, versionId)
+
+    if (!published) {
+      return NextResponse.json(
+        { error: versionId ? 'Version not found' : 'No draft to publish' },
+        { status: 404 }
+      )
+    }
+
+    await recordAudit(req, session, {
+      entityType: AuditEntityType.COMPANY,
+      entityId: COMPANY_CONTENT_ID,
+      action: AuditAction.UPDATE,
+      before,
+      after: { ...(published.data as object), publishedVersion: published.version }
+    })
+
+    return NextResponse.json(published)
+  } catch (error) {
+    console.error('Error publishing company content:', error)
+    return NextResponse.json(
+      { error: 'Failed to publish company content' },
+      { status: 500 }
+    )
+  }
+})
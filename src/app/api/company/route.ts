@@ -1,36 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { requireAuth } from '@/lib/auth-helper'
-import { prisma } from '@/lib/prisma'
+import { AuditAction, AuditEntityType } from '@prisma/client'
+import { withAuth } from '@/lib/auth-utils'
+import { recordAudit } from '@/lib/audit-log'
+import { formatValidationErrors } from '@/lib/quote-validation'
+import { listPublicCertifications } from '@/lib/certifications'
+import {
+  COMPANY_CONTENT_ID,
+  getCompanyContentDraft,
+  getPublishedCompanyContent,
+  parseCompanyContent,
+  saveCompanyContentDraft
+} from '@/lib/company-content'
 
-// GET /api/company - Get company information (public)
+export const dynamic = 'force-dynamic'
+
+// GET /api/company - Get published company information with current certifications (public)
 export async function GET() {
   try {
-    // For MVP, return hardcoded company info
-    const companyInfo = {
-      name: "Professional Pipe Supply Co.",
-      description: "Leading supplier of industrial pipes and fittings",
-      address: {
-        street: "123 Industrial Blvd",
-        city: "Manufacturing City",
-        state: "TX",
-        zipCode: "12345",
-        country: "USA"
-      },
-      phone: "(555) 123-4567",
-      email: "info@pipesupply.com",
-      website: "https://pipesupply.com",
-      certifications: [
-        {
-          name: "ISO 9001:2015",
-          issuer: "International Organization for Standardization",
-          validUntil: "2025-12-31"
-        }
-      ],
-      serviceAreas: ["Texas", "Oklahoma", "Louisiana"],
-      specialties: ["Industrial Pipes", "Custom Fittings", "Emergency Supply"]
-    }
-    
-    return NextResponse.json(companyInfo)
+    const [content, certifications] = await Promise.all([getPublishedCompanyContent(), listPublicCertifications()])
+    return NextResponse.json({ ...content, certifications })
   } catch (error) {
     console.error('Error fetching company info:', error)
     return NextResponse.json(
@@ -40,27 +28,34 @@ export async function GET() {
   }
 }
 
-// PUT /api/company - Update company information (admin only)
-export async function PUT(request: NextRequest) {
+// PUT /api/company - Save company information as the draft; publish it with POST /api/company/publish (requires MANAGE_CONTENT)
+export const PUT = withAuth(async (request: NextRequest, context, session) => {
   try {
-    requireAuth(request) // Will throw if not authenticated
-    
-    const data = await request.json()
-    
-    // For MVP, just return success
-    return NextResponse.json({ 
-      message: 'Company information updated successfully',
-      data 
+    const { errors, content } = parseCompanyContent(await request.json())
+    if (!content) {
+      return NextResponse.json(
+        { error: formatValidationErrors(errors), validationErrors: errors },
+        { status: 400 }
+      )
+    }
+
+    const previous = await getCompanyContentDraft()
+    const draft = await saveCompanyContentDraft(content, session?.user.id ?? null)
+
+    await recordAudit(request, session, {
+      entityType: AuditEntityType.COMPANY,
+      entityId: COMPANY_CONTENT_ID,
+      action: previous ? AuditAction.UPDATE : AuditAction.CREATE,
+      before: previous?.data ?? undefined,
+      after: { status: draft.status, version: draft.version, ...content }
     })
+
+    return NextResponse.json(draft)
   } catch (error) {
-    if (error instanceof Error && error.message === 'Unauthorized') {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-    
     console.error('Error updating company info:', error)
     return NextResponse.json(
       { error: 'Failed to update company information' },
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth-utils'
+import { listCompanyContentVersions } from '@/lib/company-content'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/company/versions - Saved versions of the company content, newest first (requires MANAGE_CONTENT)
+export const GET = withAuth(async () => {
+  try {
+    return NextResponse.json({ versions: await listCompanyContentVersions() })
+  } catch (error) {
+    console.error('Error fetching company content versions:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch company content versions' },
+      { status: 500 }
+    )
+  }
+})
@@ -1,31 +1,60 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { getSession } from '@/lib/auth-helper'
+import { NextResponse } from 'next/server'
+import { DocumentVisibility } from '@prisma/client'
+import { withAuth } from '@/lib/auth-utils'
 import { prisma } from '@/lib/prisma'
+import { serveStoredFile } from '@/lib/media-upload'
+import { authorizeDownload, recordDownload } from '@/lib/downloads'
 
-// GET /api/documents/[id]/download - Download document (admin only)
-export async function GET(
-  req: NextRequest,
-  { params }: { params: { id: string } }
-) {
+export const dynamic = 'force-dynamic'
+
+// GET /api/documents/[id]/download - Download product document (public, customer or internal by document visibility, internal once superseded; signed links always work)
+export const GET = withAuth<{ params: { id: string } }>(async (req, { params }) => {
   try {
-    const session = getSession(req)
-    if (!session || session.user.role !== 'ADMIN') {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-    
-    const document = await prisma.media.findUnique({
-      where: { 
-        id: params.id,
-        type: 'DOCUMENT'
-      }
+    const document = await prisma.productDocument.findUnique({
+      where: { id: params.id },
+      include: { media: true }
     })
     
     if (!document) {
       return NextResponse.json({ error: 'Document not found' }, { status: 404 })
     }
-    
-    // For MVP, return redirect to document URL
-    return NextResponse.redirect(document.url)
+
+    // Superseded versions are kept for audit and only staff may fetch them unsigned
+    const access = await authorizeDownload(
+      req,
+      document.supersededById ? DocumentVisibility.INTERNAL : document.visibility
+    )
+    if (!access.authorized) {
+      return NextResponse.json({ error: access.reason }, { status: access.status })
+    }
+
+    // Only a linked file is served under the document's visibility. Documents
+    // linked by URL are redirected, so a URL pointing at a media download
+    // still needs that route's own access.
+    const media = document.media
+    if (!media?.storageKey) {
+      return NextResponse.redirect(new URL(document.url, req.url))
+    }
+
+    // Saved under the document's display name rather than the upload's
+    const extension = media.originalName.match(/\.[a-z0-9]{1,10}$/i)?.[0] ?? ''
+    const originalName = document.name.endsWith(extension) ? document.name : document.name + extension
+
+    const response = await serveStoredFile({ ...media, originalName }, {
+      disposition: 'attachment',
+      cacheControl: 'private, no-store',
+      range: req.headers.get('range')
+    })
+    if (!response) {
+      return NextResponse.json({ error: 'Document file is missing from storage' }, { status: 404 })
+    }
+
+    await recordDownload(req, access, {
+      mediaId: media.id,
+      size: media.size,
+      productDocumentId: document.id
+    })
+    return response
   } catch (error) {
     console.error('Error downloading document:', error)
     return NextResponse.json(
@@ -33,4 +62,4 @@ export async function GET(
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
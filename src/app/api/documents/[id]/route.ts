@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server'
+import { AuditAction, AuditEntityType, DocumentVisibility, Prisma } from '@prisma/client'
+import { withAuth } from '@/lib/auth-utils'
+import { prisma } from '@/lib/prisma'
+import { recordAudit } from '@/lib/audit-log'
+import { getCategoryById } from '@/lib/document-utils'
+
+// PATCH /api/documents/[id] - Rename, recategorize, re-date or change the visibility of a product document (requires MANAGE_MEDIA)
+export const PATCH = withAuth<{ params: { id: string } }>(async (req, { params }, session) => {
+  try {
+    const data = await req.json()
+    const updates: Prisma.ProductDocumentUpdateInput = {}
+
+    if (data.name !== undefined) {
+      if (typeof data.name !== 'string' || !data.name.trim()) {
+        return NextResponse.json({ error: 'Name must be a non-empty string' }, { status: 400 })
+      }
+      updates.name = data.name.trim()
+    }
+    // `type` is the field's name from before documents were versioned
+    const category = data.category ?? data.type
+    if (category !== undefined) {
+      if (typeof category !== 'string' || !getCategoryById(category)) {
+        return NextResponse.json({ error: `Unknown document category: ${category}` }, { status: 400 })
+      }
+      updates.category = category
+    }
+    for (const field of ['effectiveDate', 'expiresAt'] as const) {
+      if (data[field] === undefined) continue
+      const date = data[field] === null ? null : new Date(data[field])
+      if (date && (typeof data[field] !== 'string' || isNaN(date.getTime()))) {
+        return NextResponse.json({ error: `${field} must be a valid date` }, { status: 400 })
+      }
+      updates[field] = date
+    }
+    if (data.visibility !== undefined) {
+      if (!Object.values(DocumentVisibility).includes(data.visibility)) {
+        return NextResponse.json(
+          { error: `Visibility must be one of: ${Object.values(DocumentVisibility).join(', ')}` },
+          { status: 400 }
+        )
+      }
+      updates.visibility = data.visibility
+    }
+
+    const existing = await prisma.productDocument.findUnique({
+      where: { id: params.id }
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    const document = await prisma.productDocument.update({
+      where: { id: params.id },
+      data: updates
+    })
+
+    await recordAudit(req, session, {
+      entityType: AuditEntityType.DOCUMENT,
+      entityId: document.id,
+      action: AuditAction.UPDATE,
+      before: existing,
+      after: document
+    })
+
+    return NextResponse.json(document)
+  } catch (error) {
+    console.error('Error updating document:', error)
+    return NextResponse.json(
+      { error: 'Failed to update document' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,118 @@
+import { NextResponse } from 'next/server'
+import { AuditAction, AuditEntityType } from '@prisma/client'
+import { withAuth } from '@/lib/auth-utils'
+import { prisma, safeTransaction } from '@/lib/prisma'
+import { recordAudit } from '@/lib/audit-log'
+import { validateDocumentForCategory } from '@/lib/document-utils'
+import { buildNextVersion, getDocumentHistory, parseDocumentVersionInput } from '@/lib/document-versions'
+import { formatValidationErrors } from '@/lib/quote-validation'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/documents/[id]/versions - Every version of a document, newest first (requires MANAGE_MEDIA)
+export const GET = withAuth<{ params: { id: string } }>(async (req, { params }) => {
+  try {
+    const versions = await getDocumentHistory(params.id)
+
+    if (!versions) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ versions })
+  } catch (error) {
+    console.error('Error fetching document versions:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch document versions' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/documents/[id]/versions - Publish an uploaded file as the next version, superseding this one (requires MANAGE_MEDIA)
+export const POST = withAuth<{ params: { id: string } }>(async (req, { params }, session) => {
+  try {
+    const { errors, input } = parseDocumentVersionInput(await req.json().catch(() => null))
+    if (!input) {
+      return NextResponse.json(
+        { error: formatValidationErrors(errors), validationErrors: errors },
+        { status: 400 }
+      )
+    }
+
+    const current = await prisma.productDocument.findUnique({
+      where: { id: params.id }
+    })
+
+    if (!current) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+    if (current.supersededById) {
+      return NextResponse.json(
+        { error: 'Document has already been superseded; upload against the latest version' },
+        { status: 409 }
+      )
+    }
+
+    const media = await prisma.media.findUnique({
+      where: { id: input.mediaId }
+    })
+
+    if (!media || media.type !== 'DOCUMENT') {
+      return NextResponse.json({ error: `Invalid media ID: ${input.mediaId}` }, { status: 400 })
+    }
+    if (!validateDocumentForCategory(media.mimeType, current.category)) {
+      return NextResponse.json(
+        { error: `Invalid category ${current.category} for file type ${media.mimeType}` },
+        { status: 400 }
+      )
+    }
+
+    const result = await safeTransaction(async tx => {
+      const document = await tx.productDocument.create({
+        data: buildNextVersion(current, media, input)
+      })
+
+      // Only one upload may supersede a version; the loser's document is discarded
+      const superseded = await tx.productDocument.updateMany({
+        where: { id: current.id, supersededById: null },
+        data: { supersededById: document.id }
+      })
+      if (superseded.count === 0) {
+        await tx.productDocument.delete({ where: { id: document.id } })
+        return null
+      }
+
+      const previous = await tx.productDocument.findUniqueOrThrow({ where: { id: current.id } })
+      return { document, previous }
+    })
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Document was superseded by someone else; reload and try again' },
+        { status: 409 }
+      )
+    }
+
+    await recordAudit(req, session, {
+      entityType: AuditEntityType.DOCUMENT,
+      entityId: result.document.id,
+      action: AuditAction.CREATE,
+      after: result.document
+    })
+    await recordAudit(req, session, {
+      entityType: AuditEntityType.DOCUMENT,
+      entityId: current.id,
+      action: AuditAction.UPDATE,
+      before: current,
+      after: result.previous
+    })
+
+    return NextResponse.json(result, { status: 201 })
+  } catch (error) {
+    console.error('Error publishing document version:', error)
+    return NextResponse.json(
+      { error: 'Failed to publish document version' },
+      { status: 500 }
+    )
+  }
+})
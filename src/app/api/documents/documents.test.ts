@@ -0,0 +1,222 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock('@/lib/prisma', () => {
+  const prisma: any = {
+    productDocument: {
+      findUnique: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+      findMany: jest.fn(),
+      create: jest.fn(),
+      updateMany: jest.fn(),
+      delete: jest.fn(),
+    },
+    media: {
+      findUnique: jest.fn(),
+    },
+  }
+  prisma.$transaction = jest.fn((callback: (tx: any) => Promise<any>) => callback(prisma))
+
+  return {
+    prisma,
+    safeTransaction: (callback: (tx: any) => Promise<any>) => prisma.$transaction(callback),
+  }
+})
+
+jest.mock('@/lib/audit-log', () => ({
+  recordAudit: jest.fn()
+}))
+
+jest.mock('@/lib/auth-helper', () => ({
+  getSession: jest.fn()
+}))
+
+import { NextRequest } from 'next/server'
+import { getSession } from '@/lib/auth-helper'
+import { recordAudit } from '@/lib/audit-log'
+import { prisma } from '@/lib/prisma'
+import { GET as getVersions, POST as publishVersion } from './[id]/versions/route'
+import { GET as getExpiring } from './expiring/route'
+
+const mockGetSession = getSession as jest.MockedFunction<typeof getSession>
+const mockPrisma = prisma as any
+
+const certificate = {
+  id: 'doc1',
+  name: 'NSF-61 Certificate',
+  url: '/api/media/m1/download',
+  category: 'certifications',
+  version: 1,
+  visibility: 'PUBLIC',
+  productId: 'p1',
+  mediaId: 'm1',
+  effectiveDate: new Date('2023-01-01T00:00:00Z'),
+  expiresAt: new Date('2024-01-01T00:00:00Z'),
+  supersededById: null,
+  createdAt: new Date('2023-01-01T00:00:00Z'),
+}
+
+const upload = {
+  id: 'm2',
+  type: 'DOCUMENT',
+  url: '/api/media/m2/download',
+  mimeType: 'application/pdf',
+  originalName: 'nsf-61-2024.pdf',
+}
+
+function post(body: unknown) {
+  return publishVersion(
+    new NextRequest('http://localhost/api/documents/doc1/versions', { method: 'POST', body: JSON.stringify(body) }),
+    { params: { id: 'doc1' } }
+  )
+}
+
+describe('Document API Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockGetSession.mockResolvedValue({
+      id: 'session1',
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      user: { id: 'manager1', role: 'CONTENT_MANAGER', email: 'content@test.com', name: 'Content Manager', permissions: [] }
+    } as any)
+  })
+
+  describe('POST /api/documents/[id]/versions', () => {
+    test('publishes the upload as the next version and supersedes the current one', async () => {
+      mockPrisma.productDocument.findUnique.mockResolvedValue(certificate)
+      mockPrisma.media.findUnique.mockResolvedValue(upload)
+      mockPrisma.productDocument.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'doc2', ...data }))
+      mockPrisma.productDocument.updateMany.mockResolvedValue({ count: 1 })
+      mockPrisma.productDocument.findUniqueOrThrow.mockResolvedValue({ ...certificate, supersededById: 'doc2' })
+
+      const response = await post({ mediaId: 'm2', effectiveDate: '2024-01-01', expiresAt: '2025-01-01' })
+      const data = await response.json()
+
+      expect(response.status).toBe(201)
+      expect(mockPrisma.productDocument.create).toHaveBeenCalledWith({
+        data: {
+          name: 'NSF-61 Certificate',
+          url: '/api/media/m2/download',
+          category: 'certifications',
+          version: 2,
+          visibility: 'PUBLIC',
+          productId: 'p1',
+          mediaId: 'm2',
+          effectiveDate: new Date('2024-01-01'),
+          expiresAt: new Date('2025-01-01'),
+        }
+      })
+      expect(mockPrisma.productDocument.updateMany).toHaveBeenCalledWith({
+        where: { id: 'doc1', supersededById: null },
+        data: { supersededById: 'doc2' }
+      })
+      expect(data.document).toMatchObject({ id: 'doc2', version: 2 })
+      expect(data.previous).toMatchObject({ id: 'doc1', supersededById: 'doc2' })
+      expect((recordAudit as jest.Mock).mock.calls.map(call => [call[2].entityId, call[2].action])).toEqual([
+        ['doc2', 'CREATE'],
+        ['doc1', 'UPDATE'],
+      ])
+    })
+
+    test('only the latest version can be superseded', async () => {
+      mockPrisma.productDocument.findUnique.mockResolvedValue({ ...certificate, supersededById: 'doc2' })
+
+      const response = await post({ mediaId: 'm2' })
+
+      expect(response.status).toBe(409)
+      expect(mockPrisma.productDocument.create).not.toHaveBeenCalled()
+    })
+
+    test('discards the new version when another upload supersedes first', async () => {
+      mockPrisma.productDocument.findUnique.mockResolvedValue(certificate)
+      mockPrisma.media.findUnique.mockResolvedValue(upload)
+      mockPrisma.productDocument.create.mockResolvedValue({ id: 'doc3' })
+      mockPrisma.productDocument.updateMany.mockResolvedValue({ count: 0 })
+
+      const response = await post({ mediaId: 'm2' })
+
+      expect(response.status).toBe(409)
+      expect(mockPrisma.productDocument.delete).toHaveBeenCalledWith({ where: { id: 'doc3' } })
+      expect(recordAudit).not.toHaveBeenCalled()
+    })
+
+    test('validates the request and the uploaded file', async () => {
+      const invalid = await post({ mediaId: 'm2', effectiveDate: '2024-06-01', expiresAt: '2024-01-01' })
+      expect(invalid.status).toBe(400)
+      expect((await invalid.json()).validationErrors).toEqual([
+        { field: 'expiresAt', message: 'Expiry must be after the effective date' }
+      ])
+
+      mockPrisma.productDocument.findUnique.mockResolvedValue(certificate)
+      mockPrisma.media.findUnique.mockResolvedValue({ ...upload, mimeType: 'image/png' })
+      const wrongType = await post({ mediaId: 'm2' })
+      expect(wrongType.status).toBe(400)
+      expect((await wrongType.json()).error).toBe('Invalid category certifications for file type image/png')
+    })
+
+    test('requires MANAGE_MEDIA', async () => {
+      mockGetSession.mockResolvedValue(null)
+
+      expect((await post({ mediaId: 'm2' })).status).toBe(401)
+      expect((await getVersions(new NextRequest('http://localhost/api/documents/doc1/versions'), { params: { id: 'doc1' } })).status).toBe(401)
+    })
+  })
+
+  describe('GET /api/documents/[id]/versions', () => {
+    test('lists every version newest first', async () => {
+      const versions: Record<string, any> = {
+        doc1: { id: 'doc1', version: 1, supersededById: 'doc2' },
+        doc2: { id: 'doc2', version: 2, supersededById: 'doc3' },
+        doc3: { id: 'doc3', version: 3, supersededById: null },
+      }
+      mockPrisma.productDocument.findUnique.mockImplementation(({ where }: any) => Promise.resolve(
+        where.id
+          ? versions[where.id] ?? null
+          : Object.values(versions).find(version => version.supersededById === where.supersededById) ?? null
+      ))
+
+      const response = await getVersions(new NextRequest('http://localhost/api/documents/doc2/versions'), { params: { id: 'doc2' } })
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.versions.map((version: any) => version.id)).toEqual(['doc3', 'doc2', 'doc1'])
+    })
+
+    test('returns 404 for unknown documents', async () => {
+      mockPrisma.productDocument.findUnique.mockResolvedValue(null)
+
+      const response = await getVersions(new NextRequest('http://localhost/api/documents/missing/versions'), { params: { id: 'missing' } })
+      expect(response.status).toBe(404)
+    })
+  })
+
+  describe('GET /api/documents/expiring', () => {
+    test('lists current certificates lapsing within the window', async () => {
+      mockPrisma.productDocument.findMany.mockResolvedValue([
+        { ...certificate, expiresAt: new Date(Date.now() - 24 * 60 * 60 * 1000), product: { name: 'PVC Pipe' } },
+        { ...certificate, id: 'doc4', expiresAt: new Date(Date.now() + 5 * 24 * 60 * 60 * 1000), product: { name: 'Steel Pipe' } },
+      ])
+
+      const response = await getExpiring(new NextRequest('http://localhost/api/documents/expiring?days=10'))
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.days).toBe(10)
+      expect(data.documents.map((document: any) => [document.id, document.productName, document.expired])).toEqual([
+        ['doc1', 'PVC Pipe', true],
+        ['doc4', 'Steel Pipe', false],
+      ])
+
+      const { where, orderBy } = mockPrisma.productDocument.findMany.mock.calls[0][0]
+      expect(where).toMatchObject({ category: 'certifications', supersededById: null })
+      expect(where.expiresAt.lte.getTime()).toBeGreaterThan(Date.now() + 9 * 24 * 60 * 60 * 1000)
+      expect(orderBy).toEqual({ expiresAt: 'asc' })
+    })
+
+    test('rejects an invalid window', async () => {
+      const response = await getExpiring(new NextRequest('http://localhost/api/documents/expiring?days=soon'))
+      expect(response.status).toBe(400)
+    })
+  })
+})
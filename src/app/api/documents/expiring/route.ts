@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth-utils'
+import { getExpiringCertifications, EXPIRY_WARNING_DAYS } from '@/lib/document-versions'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/documents/expiring - Current certificates that lapse within `days` (default 30) or already have (requires MANAGE_MEDIA)
+export const GET = withAuth(async (req) => {
+  try {
+    const { searchParams } = new URL(req.url)
+    const days = searchParams.has('days') ? Number(searchParams.get('days')) : EXPIRY_WARNING_DAYS
+
+    if (!Number.isInteger(days) || days < 0 || days > 365) {
+      return NextResponse.json({ error: 'Days must be a whole number from 0 to 365' }, { status: 400 })
+    }
+
+    const documents = await getExpiringCertifications(days)
+    return NextResponse.json({ documents, days })
+  } catch (error) {
+    console.error('Error fetching expiring certifications:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch expiring certifications' },
+      { status: 500 }
+    )
+  }
+})
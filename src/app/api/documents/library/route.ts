@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth-utils'
+import { getSession } from '@/lib/auth-helper'
+import { getDocumentLibrary } from '@/lib/document-utils'
+import { getVisibleDocumentLevels } from '@/lib/downloads'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/documents/library - Product documents grouped by category, filtered to what the viewer may see (public)
+export const GET = withAuth(async (req) => {
+  try {
+    const { searchParams } = new URL(req.url)
+    const session = await getSession(req)
+
+    const library = await getDocumentLibrary({
+      productId: searchParams.get('productId') || undefined,
+      category: searchParams.get('category') || undefined,
+      search: searchParams.get('search')?.slice(0, 100) || undefined,
+      visibility: getVisibleDocumentLevels(session?.user)
+    })
+
+    return NextResponse.json(library)
+  } catch (error) {
+    console.error('Error fetching document library:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch document library' },
+      { status: 500 }
+    )
+  }
+})
@@ -1,16 +1,11 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { getSession } from '@/lib/auth-helper'
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth-utils'
 
 export const dynamic = 'force-dynamic'
 
-// POST /api/documents/organize - Organize documents (admin only)
-export async function POST(req: NextRequest) {
+// POST /api/documents/organize - Organize documents (requires MANAGE_MEDIA)
+export const POST = withAuth(async (req) => {
   try {
-    const session = getSession(req)
-    if (!session || session.user.role !== 'ADMIN') {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-    
     const data = await req.json()
     
     // For MVP, return success response
@@ -25,4 +20,4 @@ export async function POST(req: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -1,15 +1,12 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { getSession } from '@/lib/auth-helper'
+import { NextResponse } from 'next/server'
+import { AuditAction, AuditEntityType } from '@prisma/client'
+import { withAuth } from '@/lib/auth-utils'
 import { prisma } from '@/lib/prisma'
+import { recordAudit } from '@/lib/audit-log'
 
-// GET /api/documents - List documents (admin only)
-export async function GET(req: NextRequest) {
+// GET /api/documents - List documents (requires MANAGE_MEDIA)
+export const GET = withAuth(async (req) => {
   try {
-    const session = getSession(req)
-    if (!session || session.user.role !== 'ADMIN') {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-    
     const { searchParams } = new URL(req.url)
     const page = parseInt(searchParams.get('page') || '1')
     const limit = parseInt(searchParams.get('limit') || '10')
@@ -42,16 +39,11 @@ export async function GET(req: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
-// POST /api/documents - Create document (admin only)
-export async function POST(req: NextRequest) {
+// POST /api/documents - Create document (requires MANAGE_MEDIA)
+export const POST = withAuth(async (req, context, session) => {
   try {
-    const session = getSession(req)
-    if (!session || session.user.role !== 'ADMIN') {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-    
     const data = await req.json()
     
     const document = await prisma.media.create({
@@ -60,6 +52,13 @@ export async function POST(req: NextRequest) {
         type: 'DOCUMENT'
       }
     })
+
+    await recordAudit(req, session, {
+      entityType: AuditEntityType.MEDIA,
+      entityId: document.id,
+      action: AuditAction.CREATE,
+      after: document
+    })
     
     return NextResponse.json(document, { status: 201 })
   } catch (error) {
@@ -69,4 +68,4 @@ export async function POST(req: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
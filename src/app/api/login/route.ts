@@ -1,19 +1,57 @@
-import { NextResponse } from "next/server"
-
-export async function POST(req: Request) {
-  const { email, password } = await req.json()
-  
-  // MVP: Hardcoded admin credentials
-  if (email === "admin@pipe.com" && password === "admin123") {
-    const res = NextResponse.json({ success: true })
-    res.cookies.set("session", "admin", { 
+import { NextRequest, NextResponse } from "next/server"
+import { prisma } from "@/lib/prisma"
+import { verifyPassword } from "@/lib/encryption"
+import { checkRateLimit } from "@/lib/access-control"
+import { getRequestMetadata } from "@/lib/auth-helper"
+import { createSession, SESSION_COOKIE_NAME } from "@/lib/session-utils"
+
+export async function POST(req: NextRequest) {
+  try {
+    const metadata = getRequestMetadata(req)
+
+    // Throttle repeated attempts from the same client
+    const rateLimit = checkRateLimit(`login:${metadata.ipAddress || 'unknown'}`, {
+      windowMs: 15 * 60 * 1000,
+      maxRequests: 10
+    })
+    if (!rateLimit.allowed) {
+      return NextResponse.json({ error: "Too many login attempts" }, { status: 429 })
+    }
+
+    const { email, password } = await req.json()
+
+    if (typeof email !== "string" || typeof password !== "string" || !email || !password) {
+      return NextResponse.json({ error: "Email and password are required" }, { status: 400 })
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: email.trim().toLowerCase() }
+    })
+
+    if (!user || user.disabledAt || !user.passwordHash || !(await verifyPassword(password, user.passwordHash))) {
+      return NextResponse.json({ error: "Invalid credentials" }, { status: 401 })
+    }
+
+    const { token, expiresAt } = await createSession(user.id, metadata)
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: { lastLogin: new Date() }
+    })
+
+    const res = NextResponse.json({
+      success: true,
+      user: { id: user.id, email: user.email, name: user.name, role: user.role }
+    })
+    res.cookies.set(SESSION_COOKIE_NAME, token, {
       httpOnly: true,
       secure: process.env.NODE_ENV === "production",
       sameSite: "lax",
-      maxAge: 60 * 60 * 24 // 24 hours
+      expires: expiresAt
     })
     return res
+  } catch (error) {
+    console.error("Error during login:", error)
+    return NextResponse.json({ error: "Login failed" }, { status: 500 })
   }
-  
-  return NextResponse.json({ error: "Invalid credentials" }, { status: 401 })
-}
\ No newline at end of file
+}
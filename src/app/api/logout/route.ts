@@ -1,7 +1,18 @@
-import { NextResponse } from "next/server"
+import { NextRequest, NextResponse } from "next/server"
+import { revokeSession, SESSION_COOKIE_NAME } from "@/lib/session-utils"
+
+export async function POST(req: NextRequest) {
+  const token = req.cookies.get(SESSION_COOKIE_NAME)?.value
+
+  if (token) {
+    try {
+      await revokeSession(token)
+    } catch (error) {
+      console.error("Error revoking session:", error)
+    }
+  }
 
-export async function POST() {
   const res = NextResponse.json({ success: true })
-  res.cookies.delete("session")
+  res.cookies.delete(SESSION_COOKIE_NAME)
   return res
-}
\ No newline at end of file
+}
@@ -1,18 +1,19 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { getSession } from '@/lib/auth-helper'
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth-utils'
 import { prisma } from '@/lib/prisma'
+import { serveStoredFile } from '@/lib/media-upload'
+import { authorizeDownload, recordDownload } from '@/lib/downloads'
 
-// GET /api/media/[id]/download - Download media file (admin only)
-export async function GET(
-  req: NextRequest,
-  { params }: { params: { id: string } }
-) {
+export const dynamic = 'force-dynamic'
+
+// GET /api/media/[id]/download - Download media file (requires a signed link or MANAGE_MEDIA)
+export const GET = withAuth<{ params: { id: string } }>(async (req, { params }) => {
   try {
-    const session = getSession(req)
-    if (!session || session.user.role !== 'ADMIN') {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const access = await authorizeDownload(req)
+    if (!access.authorized) {
+      return NextResponse.json({ error: access.reason }, { status: access.status })
     }
-    
+
     const media = await prisma.media.findUnique({
       where: { id: params.id }
     })
@@ -20,9 +21,24 @@ export async function GET(
     if (!media) {
       return NextResponse.json({ error: 'Media not found' }, { status: 404 })
     }
-    
-    // For MVP, return redirect to media URL
-    return NextResponse.redirect(media.url)
+
+    // Media registered by URL only has nothing in storage to serve
+    if (!media.storageKey) {
+      await recordDownload(req, access, { mediaId: media.id, size: media.size })
+      return NextResponse.redirect(new URL(media.url, req.url))
+    }
+
+    const response = await serveStoredFile(media, {
+      disposition: 'attachment',
+      cacheControl: 'private, no-store',
+      range: req.headers.get('range')
+    })
+    if (!response) {
+      return NextResponse.json({ error: 'Media file is missing from storage' }, { status: 404 })
+    }
+
+    await recordDownload(req, access, { mediaId: media.id, size: media.size })
+    return response
   } catch (error) {
     console.error('Error downloading media:', error)
     return NextResponse.json(
@@ -30,4 +46,4 @@ export async function GET(
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
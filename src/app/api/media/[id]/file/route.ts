@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server'
+import { MediaType } from '@prisma/client'
+import { withAuth } from '@/lib/auth-utils'
+import { prisma } from '@/lib/prisma'
+import { serveStoredFile } from '@/lib/media-upload'
+import { getTransformedImage, parseImageTransform } from '@/lib/image-processing'
+
+export const dynamic = 'force-dynamic'
+
+// Stored objects are never overwritten, so responses can be cached indefinitely
+const IMMUTABLE = 'public, max-age=31536000, immutable'
+
+// GET /api/media/[id]/file - Serve an uploaded image inline, resized with ?w=&h=&q=&f= (public)
+export const GET = withAuth<{ params: { id: string } }>(async (req, { params }) => {
+  try {
+    const { transform, error } = parseImageTransform(new URL(req.url).searchParams, req.headers.get('accept'))
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const media = await prisma.media.findUnique({
+      where: { id: params.id },
+      include: { variants: true }
+    })
+
+    // Documents stay behind the authenticated download route
+    if (!media || media.type !== MediaType.IMAGE) {
+      return NextResponse.json({ error: 'Media not found' }, { status: 404 })
+    }
+
+    if (transform) {
+      const image = await getTransformedImage(media, transform)
+      if (!image) {
+        return NextResponse.json({ error: 'Media file is missing from storage' }, { status: 404 })
+      }
+
+      return new NextResponse(new Uint8Array(image), {
+        headers: {
+          'Content-Type': `image/${transform.format}`,
+          'Content-Length': image.length.toString(),
+          'Cache-Control': IMMUTABLE,
+          'X-Content-Type-Options': 'nosniff',
+          ...(transform.negotiated ? { Vary: 'Accept' } : {})
+        }
+      })
+    }
+
+    const response = await serveStoredFile(media, { disposition: 'inline', cacheControl: IMMUTABLE })
+    if (!response) {
+      return NextResponse.json({ error: 'Media file is missing from storage' }, { status: 404 })
+    }
+
+    return response
+  } catch (error) {
+    console.error('Error serving media file:', error)
+    return NextResponse.json(
+      { error: 'Failed to serve media file' },
+      { status: 500 }
+    )
+  }
+})
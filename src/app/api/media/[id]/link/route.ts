@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth-utils'
+import { prisma } from '@/lib/prisma'
+import { generateSecureDownloadUrl } from '@/lib/media-utils'
+import { parseDownloadLinkRequest } from '@/lib/downloads'
+
+// POST /api/media/[id]/link - Issue a signed, expiring download link (requires MANAGE_MEDIA)
+export const POST = withAuth<{ params: { id: string } }>(async (req, { params }) => {
+  try {
+    const { options, error } = parseDownloadLinkRequest(await req.json().catch(() => ({})))
+    if (error || !options) {
+      return NextResponse.json({ error }, { status: 400 })
+    }
+
+    const media = await prisma.media.findUnique({
+      where: { id: params.id },
+      select: { id: true }
+    })
+
+    if (!media) {
+      return NextResponse.json({ error: 'Media not found' }, { status: 404 })
+    }
+
+    const url = new URL(generateSecureDownloadUrl(media.id, options), req.url)
+    return NextResponse.json({
+      url: url.toString(),
+      expiresAt: new Date(Number(url.searchParams.get('expires')) * 1000),
+      recipient: url.searchParams.get('recipient')
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating download link:', error)
+    return NextResponse.json(
+      { error: 'Failed to create download link' },
+      { status: 500 }
+    )
+  }
+})
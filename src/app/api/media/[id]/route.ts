@@ -1,18 +1,15 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { getSession } from '@/lib/auth-helper'
+import { NextResponse } from 'next/server'
+import { AuditAction, AuditEntityType } from '@prisma/client'
+import { withAuth } from '@/lib/auth-utils'
 import { prisma } from '@/lib/prisma'
+import { recordAudit } from '@/lib/audit-log'
+import { getStorage } from '@/lib/storage'
+import { clearImageCache } from '@/lib/image-processing'
+import { logger } from '@/lib/monitoring'
 
-// GET /api/media/[id] - Get media file info (admin only)
-export async function GET(
-  req: NextRequest,
-  { params }: { params: { id: string } }
-) {
+// GET /api/media/[id] - Get media file info (requires MANAGE_MEDIA)
+export const GET = withAuth<{ params: { id: string } }>(async (req, { params }) => {
   try {
-    const session = getSession(req)
-    if (!session || session.user.role !== 'ADMIN') {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-    
     const media = await prisma.media.findUnique({
       where: { id: params.id }
     })
@@ -29,22 +26,33 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+})
 
-// DELETE /api/media/[id] - Delete media file (admin only)
-export async function DELETE(
-  req: NextRequest,
-  { params }: { params: { id: string } }
-) {
+// DELETE /api/media/[id] - Delete media file (requires MANAGE_MEDIA)
+export const DELETE = withAuth<{ params: { id: string } }>(async (req, { params }, session) => {
   try {
-    const session = getSession(req)
-    if (!session || session.user.role !== 'ADMIN') {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-    
-    await prisma.media.delete({
-      where: { id: params.id }
+    const media = await prisma.media.delete({
+      where: { id: params.id },
+      include: { variants: true }
     })
+
+    await recordAudit(req, session, {
+      entityType: AuditEntityType.MEDIA,
+      entityId: media.id,
+      action: AuditAction.DELETE,
+      before: media
+    })
+
+    const storedKeys = [media.storageKey, ...media.variants.map(variant => variant.storageKey)]
+    try {
+      for (const key of storedKeys) {
+        if (key) await getStorage().delete(key)
+      }
+      await clearImageCache(media.id)
+    } catch (error) {
+      // The record is gone either way; an orphaned object is only wasted space
+      logger.error('Failed to delete stored media file', error as Error, { mediaId: media.id, storageKey: media.storageKey })
+    }
     
     return NextResponse.json({ message: 'Media deleted successfully' })
   } catch (error) {
@@ -54,4 +62,4 @@ export async function DELETE(
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -1,41 +1,65 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { getSession } from '@/lib/auth-helper'
-import { prisma } from '@/lib/prisma'
+import { NextResponse } from 'next/server'
+import { AuditAction, AuditEntityType } from '@prisma/client'
+import { withAuth } from '@/lib/auth-utils'
+import { recordAudit } from '@/lib/audit-log'
+import { getBoundary, parseMultipart, MultipartError } from '@/lib/multipart'
+import { storeMediaFile, StoredUpload } from '@/lib/media-upload'
+import { MAX_BULK_FILES } from '@/lib/media-utils'
 
-// POST /api/media/bulk-upload - Bulk upload media files (admin only)
-export async function POST(req: NextRequest) {
+export const dynamic = 'force-dynamic'
+
+// POST /api/media/bulk-upload - Upload up to MAX_BULK_FILES media files as multipart/form-data (requires MANAGE_MEDIA)
+export const POST = withAuth(async (req, context, session) => {
   try {
-    const session = getSession(req)
-    if (!session || session.user.role !== 'ADMIN') {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const boundary = getBoundary(req.headers.get('content-type'))
+    if (!boundary || !req.body) {
+      return NextResponse.json({ error: 'Expected a multipart/form-data upload' }, { status: 400 })
     }
-    
-    // For MVP, return mock response
-    const mockResults = [
-      {
-        id: 'mock-media-1',
-        filename: 'uploaded-file-1.jpg',
-        originalName: 'original-file-1.jpg',
-        success: true
-      },
-      {
-        id: 'mock-media-2',
-        filename: 'uploaded-file-2.jpg',
-        originalName: 'original-file-2.jpg',
-        success: true
+
+    const results: StoredUpload[] = []
+    await parseMultipart(req.body, boundary, async (file) => {
+      if (results.length >= MAX_BULK_FILES) {
+        results.push({
+          success: false,
+          originalName: file.filename,
+          error: `Too many files. Maximum is ${MAX_BULK_FILES} per upload`
+        })
+        return
       }
-    ]
-    
+      results.push(await storeMediaFile(file))
+    })
+
+    if (results.length === 0) {
+      return NextResponse.json({ error: 'No files uploaded' }, { status: 400 })
+    }
+
+    const uploadedMedia = results.flatMap(result => result.media ? [result.media] : [])
+    for (const media of uploadedMedia) {
+      await recordAudit(req, session, {
+        entityType: AuditEntityType.MEDIA,
+        entityId: media.id,
+        action: AuditAction.CREATE,
+        after: media
+      })
+    }
+
     return NextResponse.json({
-      results: mockResults,
-      successful: 2,
-      failed: 0
-    }, { status: 201 })
+      summary: {
+        total: results.length,
+        successful: uploadedMedia.length,
+        failed: results.length - uploadedMedia.length
+      },
+      results,
+      uploadedMedia
+    }, { status: uploadedMedia.length > 0 ? 201 : 400 })
   } catch (error) {
+    if (error instanceof MultipartError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
     console.error('Error bulk uploading media:', error)
     return NextResponse.json(
       { error: 'Failed to bulk upload media' },
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
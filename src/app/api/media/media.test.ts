@@ -0,0 +1,381 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    media: {
+      create: jest.fn(),
+      update: jest.fn(),
+      findUnique: jest.fn(),
+    },
+    productDocument: {
+      findUnique: jest.fn(),
+    },
+    downloadEvent: {
+      create: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('@/lib/audit-log', () => ({
+  recordAudit: jest.fn()
+}))
+
+jest.mock('@/lib/auth-helper', () => ({
+  getSession: jest.fn(),
+  getRequestMetadata: jest.fn(() => ({ ipAddress: '203.0.113.7', userAgent: 'jest' }))
+}))
+
+import os from 'os'
+import path from 'path'
+import { promises as fs } from 'fs'
+import sharp from 'sharp'
+import { NextRequest } from 'next/server'
+import { getSession } from '@/lib/auth-helper'
+import { recordAudit } from '@/lib/audit-log'
+import { prisma } from '@/lib/prisma'
+import { LocalStorageProvider, readStorageObject, setStorageProvider } from '@/lib/storage'
+import { MAX_BULK_FILES, MAX_FILE_SIZE, generateSecureDownloadUrl } from '@/lib/media-utils'
+import { generateSecureDownloadUrl as generateDocumentUrl } from '@/lib/document-utils'
+import { POST as upload } from './upload/route'
+import { POST as bulkUpload } from './bulk-upload/route'
+import { GET as downloadMedia } from './[id]/download/route'
+import { GET as downloadDocument } from '../documents/[id]/download/route'
+
+const mockGetSession = getSession as jest.MockedFunction<typeof getSession>
+const mockPrisma = prisma as any
+
+const boundary = 'test-boundary'
+
+function multipartRequest(url: string, files: Array<{ filename: string; type: string; content: Buffer }>) {
+  const body = Buffer.concat([
+    ...files.flatMap(file => [
+      Buffer.from(`--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="${file.filename}"\r\nContent-Type: ${file.type}\r\n\r\n`),
+      file.content,
+      Buffer.from('\r\n'),
+    ]),
+    Buffer.from(`--${boundary}--\r\n`),
+  ])
+
+  return new NextRequest(url, {
+    method: 'POST',
+    headers: { 'content-type': `multipart/form-data; boundary=${boundary}` },
+    body,
+  })
+}
+
+describe('Media API Routes', () => {
+  let root: string
+
+  beforeEach(async () => {
+    jest.clearAllMocks()
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'media-'))
+    setStorageProvider(new LocalStorageProvider(root))
+
+    mockGetSession.mockResolvedValue({
+      id: 'session1',
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      user: { id: 'admin1', role: 'ADMIN', email: 'admin@test.com', name: 'Admin User', permissions: [] }
+    } as any)
+    mockPrisma.media.create.mockImplementation(({ data }: any) => Promise.resolve({ id: `m-${data.originalName}`, ...data }))
+    mockPrisma.media.update.mockImplementation(({ where, data }: any) => {
+      const created = mockPrisma.media.create.mock.results.at(-1).value
+      return created.then((media: any) => ({ ...media, ...data, id: where.id }))
+    })
+  })
+
+  afterEach(async () => {
+    setStorageProvider(null)
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  describe('POST /api/media/upload', () => {
+    test('stores the file and creates a media record', async () => {
+      const content = Buffer.from('%PDF-1.4 spec sheet')
+      const response = await upload(multipartRequest('http://localhost/api/media/upload', [
+        { filename: 'Spec Sheet.pdf', type: 'application/pdf', content }
+      ]))
+      const media = await response.json()
+
+      expect(response.status).toBe(201)
+      expect(media).toMatchObject({
+        originalName: 'Spec Sheet.pdf',
+        mimeType: 'application/pdf',
+        size: content.length,
+        type: 'DOCUMENT',
+        url: '/api/media/m-Spec Sheet.pdf/download',
+      })
+      expect(media.storageKey).toMatch(/^media\/\d{4}\/\d{2}\/[0-9a-f]{32}\.pdf$/)
+      expect(await readStorageObject(media.storageKey)).toEqual(content)
+      expect(recordAudit).toHaveBeenCalledWith(expect.anything(), expect.anything(), expect.objectContaining({ action: 'CREATE', after: media }))
+    })
+
+    test('images get dimensions, variants and the public file route', async () => {
+      const png = await sharp({ create: { width: 800, height: 400, channels: 3, background: '#336699' } }).png().toBuffer()
+      const response = await upload(multipartRequest('http://localhost/api/media/upload', [
+        { filename: 'pipe.png', type: 'image/png', content: png }
+      ]))
+      const media = await response.json()
+
+      expect(response.status).toBe(201)
+      expect(media).toMatchObject({ type: 'IMAGE', url: '/api/media/m-pipe.png/file', width: 800, height: 400 })
+      expect(mockPrisma.media.create.mock.calls[0][0].data.variants.create).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ width: 640, height: 320, format: 'webp' }),
+          expect.objectContaining({ width: 768, height: 384, format: 'avif' }),
+        ])
+      )
+    })
+
+    test('rejects files that claim to be images but are not', async () => {
+      const response = await upload(multipartRequest('http://localhost/api/media/upload', [
+        { filename: 'pipe.png', type: 'image/png', content: Buffer.from('<html>not an image</html>') }
+      ]))
+
+      expect(response.status).toBe(400)
+      expect((await response.json()).error).toBe('File is not a valid image')
+      const stored = await fs.readdir(root, { recursive: true, withFileTypes: true })
+      expect(stored.filter(entry => entry.isFile())).toEqual([])
+    })
+
+    test('rejects unsupported types and oversized files without storing them', async () => {
+      const badType = await upload(multipartRequest('http://localhost/api/media/upload', [
+        { filename: 'run.exe', type: 'application/x-msdownload', content: Buffer.from('MZ') }
+      ]))
+      expect(badType.status).toBe(400)
+      expect((await badType.json()).error).toBe('File type application/x-msdownload is not supported')
+
+      const tooLarge = await upload(multipartRequest('http://localhost/api/media/upload', [
+        { filename: 'huge.jpg', type: 'image/jpeg', content: Buffer.alloc(MAX_FILE_SIZE + 1) }
+      ]))
+      expect(tooLarge.status).toBe(400)
+      expect((await tooLarge.json()).error).toBe('File is too large. Maximum size is 10 MB')
+
+      expect(mockPrisma.media.create).not.toHaveBeenCalled()
+      const stored = await fs.readdir(root, { recursive: true, withFileTypes: true })
+      expect(stored.filter(entry => entry.isFile())).toEqual([])
+    })
+
+    test('requires a multipart body', async () => {
+      const response = await upload(new NextRequest('http://localhost/api/media/upload', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: '{}',
+      }))
+
+      expect(response.status).toBe(400)
+    })
+  })
+
+  describe('POST /api/media/bulk-upload', () => {
+    test('reports each file and enforces the file limit', async () => {
+      const jpeg = await sharp({ create: { width: 32, height: 32, channels: 3, background: '#999999' } }).jpeg().toBuffer()
+      const files = Array.from({ length: MAX_BULK_FILES + 1 }, (_, i) => ({
+        filename: `photo-${i}.jpg`,
+        type: 'image/jpeg',
+        content: jpeg,
+      }))
+      files[1] = { filename: 'notes.zip', type: 'application/zip', content: Buffer.from('PK') }
+
+      const response = await bulkUpload(multipartRequest('http://localhost/api/media/bulk-upload', files))
+      const result = await response.json()
+
+      expect(response.status).toBe(201)
+      expect(result.summary).toEqual({ total: MAX_BULK_FILES + 1, successful: MAX_BULK_FILES - 1, failed: 2 })
+      expect(result.uploadedMedia).toHaveLength(MAX_BULK_FILES - 1)
+      expect(result.results[1]).toMatchObject({ success: false, originalName: 'notes.zip' })
+      expect(result.results[MAX_BULK_FILES]).toMatchObject({
+        success: false,
+        error: `Too many files. Maximum is ${MAX_BULK_FILES} per upload`,
+      })
+    })
+  })
+
+  describe('GET /api/media/[id]/download', () => {
+    const content = Buffer.from('%PDF-1.4 safety data sheet, twenty-something bytes')
+    const media = {
+      id: 'sds1',
+      originalName: 'Safety Data – PVC.pdf',
+      mimeType: 'application/pdf',
+      size: content.length,
+      storageKey: 'media/2024/03/sds.pdf',
+      url: '/api/media/sds1/download',
+    }
+
+    const get = (url: string, headers: Record<string, string> = {}) =>
+      downloadMedia(new NextRequest(new URL(url, 'http://localhost'), { headers }), { params: { id: 'sds1' } })
+
+    beforeAll(() => {
+      process.env.SESSION_SECRET = 'test-session-secret'
+    })
+
+    beforeEach(async () => {
+      await new LocalStorageProvider(root).put(media.storageKey, content, { contentType: media.mimeType })
+      mockPrisma.media.findUnique.mockResolvedValue(media)
+      mockGetSession.mockResolvedValue(null)
+    })
+
+    test('signed links stream the file and log the download without a session', async () => {
+      const response = await get(generateSecureDownloadUrl('sds1', { recipient: 'buyer@example.com' }))
+
+      expect(response.status).toBe(200)
+      expect(Buffer.from(await response.arrayBuffer())).toEqual(content)
+      expect(response.headers.get('content-disposition')).toBe(
+        `attachment; filename="Safety Data _ PVC.pdf"; filename*=UTF-8''Safety%20Data%20%E2%80%93%20PVC.pdf`
+      )
+      expect(response.headers.get('accept-ranges')).toBe('bytes')
+      expect(mockGetSession).not.toHaveBeenCalled()
+      expect(mockPrisma.downloadEvent.create).toHaveBeenCalledWith({
+        data: {
+          mediaId: 'sds1',
+          productDocumentId: null,
+          recipient: 'buyer@example.com',
+          userId: null,
+          ipAddress: '203.0.113.7',
+          userAgent: 'jest',
+        }
+      })
+    })
+
+    test('serves byte ranges and only logs the first request of a download', async () => {
+      const url = generateSecureDownloadUrl('sds1')
+
+      const first = await get(url, { range: 'bytes=0-7' })
+      expect(first.status).toBe(206)
+      expect(first.headers.get('content-range')).toBe(`bytes 0-7/${content.length}`)
+      expect(first.headers.get('content-length')).toBe('8')
+      expect(Buffer.from(await first.arrayBuffer()).toString()).toBe('%PDF-1.4')
+
+      const rest = await get(url, { range: 'bytes=-5' })
+      expect(rest.status).toBe(206)
+      expect(Buffer.from(await rest.arrayBuffer())).toEqual(content.subarray(-5))
+
+      const outside = await get(url, { range: `bytes=${content.length}-` })
+      expect(outside.status).toBe(416)
+      expect(outside.headers.get('content-range')).toBe(`bytes */${content.length}`)
+
+      expect(mockPrisma.downloadEvent.create).toHaveBeenCalledTimes(1)
+    })
+
+    test('rejects tampered and expired links', async () => {
+      const signed = new URL(generateSecureDownloadUrl('sds1', { recipient: 'buyer@example.com' }), 'http://localhost')
+      signed.searchParams.set('recipient', 'other@example.com')
+      const tampered = await get(signed.toString())
+      expect(tampered.status).toBe(403)
+      expect((await tampered.json()).error).toBe('Invalid download link')
+
+      const expired = await get(generateSecureDownloadUrl('sds1', { expiresIn: 60, now: new Date(Date.now() - 120_000) }))
+      expect(expired.status).toBe(403)
+      expect((await expired.json()).error).toBe('Download link has expired')
+
+      expect(mockPrisma.media.findUnique).not.toHaveBeenCalled()
+      expect(mockPrisma.downloadEvent.create).not.toHaveBeenCalled()
+    })
+
+    test('unsigned downloads need a session with MANAGE_MEDIA', async () => {
+      expect((await get('/api/media/sds1/download')).status).toBe(401)
+
+      mockGetSession.mockResolvedValue({
+        id: 'session2',
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+        user: { id: 'user2', role: 'USER', email: 'user@test.com', name: 'User', permissions: [] }
+      } as any)
+      expect((await get('/api/media/sds1/download')).status).toBe(403)
+
+      mockGetSession.mockResolvedValue({
+        id: 'session1',
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+        user: { id: 'admin1', role: 'ADMIN', email: 'admin@test.com', name: 'Admin User', permissions: [] }
+      } as any)
+      const response = await get('/api/media/sds1/download')
+      expect(response.status).toBe(200)
+      expect(mockPrisma.downloadEvent.create.mock.calls[0][0].data).toMatchObject({ userId: 'admin1', recipient: null })
+    })
+
+    test('product documents are saved under the document name', async () => {
+      mockPrisma.productDocument.findUnique.mockResolvedValue({
+        id: 'doc1',
+        name: 'PVC Pipe Safety Data Sheet',
+        url: media.url,
+        visibility: 'INTERNAL',
+        media,
+      })
+
+      const response = await downloadDocument(
+        new NextRequest(new URL(generateDocumentUrl('doc1', true), 'http://localhost')),
+        { params: { id: 'doc1' } }
+      )
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('content-disposition')).toContain('filename="PVC Pipe Safety Data Sheet.pdf"')
+      expect(mockPrisma.downloadEvent.create.mock.calls[0][0].data).toMatchObject({ mediaId: 'sds1', productDocumentId: 'doc1' })
+    })
+
+    test('unsigned document downloads follow the document visibility', async () => {
+      const getDocument = async (visibility: string) => {
+        mockPrisma.productDocument.findUnique.mockResolvedValue({
+          id: 'doc1',
+          name: 'Installation Guide',
+          url: media.url,
+          visibility,
+          media,
+        })
+        return downloadDocument(new NextRequest('http://localhost/api/documents/doc1/download'), { params: { id: 'doc1' } })
+      }
+
+      expect((await getDocument('PUBLIC')).status).toBe(200)
+      expect((await getDocument('CUSTOMER')).status).toBe(401)
+
+      mockGetSession.mockResolvedValue({
+        id: 'session3',
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+        user: { id: 'customer1', role: 'USER', email: 'buyer@example.com', name: 'Buyer', permissions: [] }
+      } as any)
+      expect((await getDocument('CUSTOMER')).status).toBe(200)
+      expect((await getDocument('INTERNAL')).status).toBe(403)
+
+      expect(mockPrisma.downloadEvent.create.mock.calls.map((call: any) => call[0].data.userId)).toEqual([null, 'customer1'])
+    })
+
+    test('internal media cannot be reached through the URL of a public document', async () => {
+      mockPrisma.productDocument.findUnique.mockResolvedValue({
+        id: 'doc1',
+        name: 'Installation Guide',
+        url: media.url,
+        visibility: 'PUBLIC',
+        supersededById: null,
+        media: null,
+      })
+
+      const response = await downloadDocument(new NextRequest('http://localhost/api/documents/doc1/download'), { params: { id: 'doc1' } })
+
+      // Sent to the media route, which needs its own signed link or MANAGE_MEDIA
+      expect(response.status).toBe(307)
+      expect(response.headers.get('location')).toBe('http://localhost/api/media/sds1/download')
+      expect(mockPrisma.media.findUnique).not.toHaveBeenCalled()
+      expect(mockPrisma.downloadEvent.create).not.toHaveBeenCalled()
+      expect((await get(response.headers.get('location')!)).status).toBe(401)
+    })
+
+    test('superseded versions need a signed link or MANAGE_MEDIA', async () => {
+      mockPrisma.productDocument.findUnique.mockResolvedValue({
+        id: 'doc1',
+        name: 'Mill Test Certificate',
+        url: media.url,
+        visibility: 'PUBLIC',
+        supersededById: 'doc2',
+        media,
+      })
+
+      const unsigned = await downloadDocument(new NextRequest('http://localhost/api/documents/doc1/download'), { params: { id: 'doc1' } })
+      expect(unsigned.status).toBe(401)
+
+      const signed = await downloadDocument(
+        new NextRequest(new URL(generateDocumentUrl('doc1', true), 'http://localhost')),
+        { params: { id: 'doc1' } }
+      )
+      expect(signed.status).toBe(200)
+    })
+  })
+})
@@ -1,34 +1,51 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { getSession } from '@/lib/auth-helper'
-import { prisma } from '@/lib/prisma'
+import { NextResponse } from 'next/server'
+import { AuditAction, AuditEntityType } from '@prisma/client'
+import { withAuth } from '@/lib/auth-utils'
+import { recordAudit } from '@/lib/audit-log'
+import { getBoundary, parseMultipart, MultipartError } from '@/lib/multipart'
+import { storeMediaFile, StoredUpload } from '@/lib/media-upload'
 
-// POST /api/media/upload - Upload media file (admin only)
-export async function POST(req: NextRequest) {
+export const dynamic = 'force-dynamic'
+
+// POST /api/media/upload - Upload a single media file as multipart/form-data (requires MANAGE_MEDIA)
+export const POST = withAuth(async (req, context, session) => {
   try {
-    const session = getSession(req)
-    if (!session || session.user.role !== 'ADMIN') {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const boundary = getBoundary(req.headers.get('content-type'))
+    if (!boundary || !req.body) {
+      return NextResponse.json({ error: 'Expected a multipart/form-data upload' }, { status: 400 })
+    }
+
+    let upload: StoredUpload | null = null
+    await parseMultipart(req.body, boundary, async (file) => {
+      // Only the first file is stored
+      if (upload) return
+      upload = await storeMediaFile(file)
+    })
+
+    const result = upload as StoredUpload | null
+    if (!result) {
+      return NextResponse.json({ error: 'No file uploaded' }, { status: 400 })
     }
-    
-    // For MVP, return mock response
-    const mockMedia = {
-      id: 'mock-media-id',
-      filename: 'uploaded-file.jpg',
-      originalName: 'original-file.jpg',
-      mimeType: 'image/jpeg',
-      size: 1024000,
-      url: '/uploads/mock-file.jpg',
-      type: 'IMAGE',
-      createdAt: new Date(),
-      updatedAt: new Date()
+    if (!result.success || !result.media) {
+      return NextResponse.json({ error: result.error }, { status: 400 })
     }
-    
-    return NextResponse.json(mockMedia, { status: 201 })
+
+    await recordAudit(req, session, {
+      entityType: AuditEntityType.MEDIA,
+      entityId: result.media.id,
+      action: AuditAction.CREATE,
+      after: result.media
+    })
+
+    return NextResponse.json(result.media, { status: 201 })
   } catch (error) {
+    if (error instanceof MultipartError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
     console.error('Error uploading media:', error)
     return NextResponse.json(
       { error: 'Failed to upload media' },
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
@@ -6,14 +6,15 @@
 import { NextResponse } from 'next/server'
 import { metricsCollector, errorTracker } from '@/lib/monitoring'
 import { cache } from '@/lib/cache-utils'
+import { withAuth } from '@/lib/auth-utils'
 
 export const dynamic = 'force-dynamic'
 
 /**
  * GET /api/metrics
- * Returns application metrics
+ * Returns application metrics (requires VIEW_ANALYTICS)
  */
-export async function GET() {
+export const GET = withAuth(async () => {
   const metrics = {
     timestamp: new Date().toISOString(),
     requests: metricsCollector.getSummary(),
@@ -31,4 +32,4 @@ export async function GET() {
   }
 
   return NextResponse.json(metrics)
-}
+})
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { AuditEntityType } from '@prisma/client'
+import { withAuth } from '@/lib/auth-utils'
+import { queryAuditLogs } from '@/lib/audit-log'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/products/[id]/history - Audit history for one product (requires MANAGE_PRODUCTS)
+export const GET = withAuth<{ params: { id: string } }>(async (req, { params }) => {
+  try {
+    const { searchParams } = new URL(req.url)
+
+    const result = await queryAuditLogs({
+      entityType: AuditEntityType.PRODUCT,
+      entityId: params.id,
+      page: parseInt(searchParams.get('page') || '1'),
+      limit: parseInt(searchParams.get('limit') || '20')
+    })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error fetching product history:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch product history' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server'
+import { AuditAction, AuditEntityType } from '@prisma/client'
+import { withAuth } from '@/lib/auth-utils'
+import { prisma, safeTransaction } from '@/lib/prisma'
+import { recordAudit } from '@/lib/audit-log'
+import { formatValidationErrors } from '@/lib/quote-validation'
+import { parseStockMovementInput, recordStockMovement } from '@/lib/inventory'
+
+export const dynamic = 'force-dynamic'
+
+// POST /api/products/[id]/inventory/movements - Record a stock receipt or adjustment of the product or one of its variants at a location (requires MANAGE_PRODUCTS)
+export const POST = withAuth<{ params: { id: string } }>(async (req, { params }, session) => {
+  try {
+    const { errors, input } = parseStockMovementInput(await req.json().catch(() => null))
+    if (!input) {
+      return NextResponse.json(
+        { error: formatValidationErrors(errors), validationErrors: errors },
+        { status: 400 }
+      )
+    }
+
+    const product = await prisma.product.findUnique({
+      where: { id: params.id },
+      select: { id: true, variants: { select: { id: true } } }
+    })
+
+    if (!product) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 })
+    }
+
+    if (input.variantId && !product.variants.some(variant => variant.id === input.variantId)) {
+      return NextResponse.json({ error: 'Variant not found for this product' }, { status: 400 })
+    }
+
+    // The movement and the availability refresh commit together
+    let shortage: string | null = null
+    const result = await safeTransaction(async (tx) => {
+      const recorded = await recordStockMovement(tx, product.id, input, session?.user.id ?? null)
+      if (recorded.error !== undefined) {
+        shortage = recorded.error
+        return null
+      }
+      return recorded
+    })
+
+    if (!result) {
+      return NextResponse.json({ error: shortage }, { status: 400 })
+    }
+
+    await recordAudit(req, session, {
+      entityType: AuditEntityType.PRODUCT,
+      entityId: product.id,
+      action: AuditAction.UPDATE,
+      after: { stockMovement: result.movement, availability: result.availability }
+    })
+
+    return NextResponse.json(result, { status: 201 })
+  } catch (error) {
+    console.error('Error recording stock movement:', error)
+    return NextResponse.json(
+      { error: 'Failed to record stock movement' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,81 @@
+import { NextResponse } from 'next/server'
+import { AuditAction, AuditEntityType } from '@prisma/client'
+import { withAuth } from '@/lib/auth-utils'
+import { prisma, safeTransaction } from '@/lib/prisma'
+import { recordAudit } from '@/lib/audit-log'
+import { formatValidationErrors } from '@/lib/quote-validation'
+import { findOrCreateLevel, getProductInventory, parseInventoryLevelInput, refreshProductAvailability } from '@/lib/inventory'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/products/[id]/inventory - Stock per location and the latest stock movements (requires MANAGE_PRODUCTS)
+export const GET = withAuth<{ params: { id: string } }>(async (req, { params }) => {
+  try {
+    const inventory = await getProductInventory(prisma, params.id)
+    if (!inventory) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(inventory)
+  } catch (error) {
+    console.error('Error fetching inventory:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch inventory' },
+      { status: 500 }
+    )
+  }
+})
+
+// PUT /api/products/[id]/inventory - Set a location's reorder point and lead time for the product or one of its variants, adding the location if new (requires MANAGE_PRODUCTS)
+export const PUT = withAuth<{ params: { id: string } }>(async (req, { params }, session) => {
+  try {
+    const { errors, input } = parseInventoryLevelInput(await req.json().catch(() => null))
+    if (!input) {
+      return NextResponse.json(
+        { error: formatValidationErrors(errors), validationErrors: errors },
+        { status: 400 }
+      )
+    }
+
+    const product = await prisma.product.findUnique({
+      where: { id: params.id },
+      select: { id: true, variants: { select: { id: true } } }
+    })
+
+    if (!product) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 })
+    }
+
+    const { location, variantId, ...settings } = input
+    if (variantId && !product.variants.some(variant => variant.id === variantId)) {
+      return NextResponse.json({ error: 'Variant not found for this product' }, { status: 400 })
+    }
+
+    const before = await prisma.inventoryLevel.findFirst({
+      where: { productId: product.id, variantId, location }
+    })
+
+    const result = await safeTransaction(async (tx) => {
+      const created = await findOrCreateLevel(tx, product.id, variantId, location)
+      const level = await tx.inventoryLevel.update({ where: { id: created.id }, data: settings })
+      const availability = await refreshProductAvailability(tx, product.id)
+      return { level, availability }
+    })
+
+    await recordAudit(req, session, {
+      entityType: AuditEntityType.PRODUCT,
+      entityId: product.id,
+      action: AuditAction.UPDATE,
+      before: before ? { inventoryLevel: before } : undefined,
+      after: { inventoryLevel: result.level, availability: result.availability }
+    })
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error updating inventory level:', error)
+    return NextResponse.json(
+      { error: 'Failed to update inventory level' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth-utils'
+import { prisma } from '@/lib/prisma'
+import { getRelatedProducts } from '@/lib/product-relations'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/products/[id]/related - Compatible fittings, alternatives and items frequently quoted with a product (public)
+export const GET = withAuth<{ params: { id: string } }>(async (req, { params }) => {
+  try {
+    const related = await getRelatedProducts(prisma, params.id)
+
+    if (!related) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(related)
+  } catch (error) {
+    console.error('Error fetching related products:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch related products' },
+      { status: 500 }
+    )
+  }
+})
@@ -1,19 +1,34 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
+import { AuditAction, AuditEntityType, Prisma } from '@prisma/client'
+import { withAuth } from '@/lib/auth-utils'
+import { prisma, safeTransaction } from '@/lib/prisma'
+import { recordAudit } from '@/lib/audit-log'
+import { refreshProductSearchIndex } from '@/lib/product-search'
 import { getSession } from '@/lib/auth-helper'
-import { prisma } from '@/lib/prisma'
+import { getVisibleDocumentLevels } from '@/lib/downloads'
+import { prepareProductData, formatValidationErrors } from '@/lib/product-validation'
+import { checkVariantChanges, saveProductVariants } from '@/lib/product-variants'
+import { checkProductRelations, saveProductRelations } from '@/lib/product-relations'
+import { checkProductSku } from '@/lib/product-import'
+import { refreshProductAvailability } from '@/lib/inventory'
+import { saveProductDocuments } from '@/lib/document-versions'
+
+const PRODUCT_INCLUDE = {
+  images: true,
+  documents: true,
+  bulkDiscounts: true,
+  variants: { include: { bulkDiscounts: true }, orderBy: { position: 'asc' } },
+  relations: { include: { relatedProduct: { select: { id: true, name: true } } }, orderBy: { position: 'asc' } }
+} as const
 
 // GET /api/products/[id] - Get single product (public)
-export async function GET(
-  req: NextRequest,
-  { params }: { params: { id: string } }
-) {
+export const GET = withAuth<{ params: { id: string } }>(async (req, { params }) => {
   try {
+    // Documents the viewer may not see are left out
+    const visibility = getVisibleDocumentLevels((await getSession(req))?.user)
     const product = await prisma.product.findUnique({
       where: { id: params.id },
-      include: {
-        images: true,
-        documents: true
-      }
+      include: { ...PRODUCT_INCLUDE, documents: { where: { visibility: { in: visibility }, supersededById: null } } }
     })
     
     if (!product) {
@@ -28,28 +43,96 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+})
 
-// PUT /api/products/[id] - Update product (admin only)
-export async function PUT(
-  req: NextRequest,
-  { params }: { params: { id: string } }
-) {
+// PUT /api/products/[id] - Update product (requires MANAGE_PRODUCTS)
+export const PUT = withAuth<{ params: { id: string } }>(async (req, { params }, session) => {
   try {
-    const session = getSession(req)
-    if (!session || session.user.role !== 'ADMIN') {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const validation = prepareProductData(await req.json(), true)
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: formatValidationErrors(validation.errors), errors: validation.errors },
+        { status: 400 }
+      )
     }
-    
-    const data = await req.json()
-    
-    const product = await prisma.product.update({
+
+    const existing = await prisma.product.findUnique({
       where: { id: params.id },
-      data,
-      include: {
-        images: true,
-        documents: true
+      include: PRODUCT_INCLUDE
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Product not found' }, { status: 404 })
+    }
+
+    const { bulkDiscounts, variants, relations, images, documents, ...fields } = validation.data
+    const productId = params.id
+
+    const relationError = relations ? await checkProductRelations(prisma, productId, relations) : null
+    if (relationError) {
+      return NextResponse.json({ error: relationError }, { status: 400 })
+    }
+
+    // Nested collections are replaced wholesale when present in the request;
+    // variants are matched by id so quote lines keep their variant, and
+    // documents so their earlier versions and stored files stay linked
+    let conflict: string | null = null
+    const product = await safeTransaction(async (tx) => {
+      conflict = await checkProductSku(tx, productId, fields.sku) ??
+        (variants ? await checkVariantChanges(tx, productId, variants) : null)
+      if (conflict) return null
+
+      await tx.product.update({
+        where: { id: productId },
+        data: fields as Prisma.ProductUpdateInput
+      })
+      await refreshProductSearchIndex(tx, productId)
+
+      if (bulkDiscounts) {
+        await tx.bulkDiscount.deleteMany({ where: { productId } })
+        await tx.bulkDiscount.createMany({
+          data: bulkDiscounts.map(discount => ({ ...discount, productId }))
+        })
+      }
+
+      if (variants) {
+        await saveProductVariants(tx, productId, variants)
       }
+
+      if (relations) {
+        await saveProductRelations(tx, productId, relations)
+      }
+
+      // Stocked products and variants keep the availability their stock calls for
+      await refreshProductAvailability(tx, productId)
+
+      if (images) {
+        await tx.productImage.deleteMany({ where: { productId } })
+        await tx.productImage.createMany({
+          data: images.map(image => ({ ...image, productId }))
+        })
+      }
+
+      if (documents) {
+        await saveProductDocuments(tx, productId, documents)
+      }
+
+      return tx.product.findUniqueOrThrow({
+        where: { id: productId },
+        include: PRODUCT_INCLUDE
+      })
+    })
+
+    if (!product) {
+      return NextResponse.json({ error: conflict }, { status: 409 })
+    }
+
+    await recordAudit(req, session, {
+      entityType: AuditEntityType.PRODUCT,
+      entityId: product.id,
+      action: AuditAction.UPDATE,
+      before: existing,
+      after: product
     })
     
     return NextResponse.json(product)
@@ -60,22 +143,21 @@ export async function PUT(
       { status: 500 }
     )
   }
-}
+})
 
-// DELETE /api/products/[id] - Delete product (admin only)
-export async function DELETE(
-  req: NextRequest,
-  { params }: { params: { id: string } }
-) {
+// DELETE /api/products/[id] - Delete product (requires MANAGE_PRODUCTS)
+export const DELETE = withAuth<{ params: { id: string } }>(async (req, { params }, session) => {
   try {
-    const session = getSession(req)
-    if (!session || session.user.role !== 'ADMIN') {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-    
-    await prisma.product.delete({
+    const product = await prisma.product.delete({
       where: { id: params.id }
     })
+
+    await recordAudit(req, session, {
+      entityType: AuditEntityType.PRODUCT,
+      entityId: product.id,
+      action: AuditAction.DELETE,
+      before: product
+    })
     
     return NextResponse.json({ message: 'Product deleted successfully' })
   } catch (error) {
@@ -85,4 +167,4 @@ export async function DELETE(
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server'
+import { Readable } from 'stream'
+import { Prisma } from '@prisma/client'
+import { withAuth } from '@/lib/auth-utils'
+import { prisma } from '@/lib/prisma'
+import { searchProductIds } from '@/lib/product-search'
+import { buildProductFilters, parseProductListQuery } from '@/lib/query-optimization'
+import { EXPORT_CONTENT_TYPES, findExportProducts, parseExportOptions, writeProductExport } from '@/lib/product-export'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/products/export - Download the catalog as CSV, XLSX or JSON, narrowed by the catalog's
+// filters, with `columns` selecting what to include (requires MANAGE_PRODUCTS)
+export const GET = withAuth(async (req) => {
+  try {
+    const searchParams = new URL(req.url).searchParams
+    const { query, errors } = parseProductListQuery(searchParams)
+    const { format, columns, errors: optionErrors } = parseExportOptions(searchParams)
+    if (errors.length > 0 || optionErrors.length > 0) {
+      const allErrors = [...errors, ...optionErrors]
+      return NextResponse.json({ error: allErrors.join(', '), errors: allErrors }, { status: 400 })
+    }
+
+    // Same products as the catalog shows for these filters, searched by the same ranked index
+    const { sort, filters } = query
+    const rankedIds = filters.search ? await searchProductIds(filters.search) : null
+    const where: Prisma.ProductWhereInput = {
+      AND: [...(rankedIds ? [{ id: { in: rankedIds } }] : []), buildProductFilters({ ...filters, search: undefined })]
+    }
+
+    const baseUrl = process.env.NEXTAUTH_URL || new URL(req.url).origin
+    const chunks = writeProductExport(findExportProducts(prisma, where, { sort, rankedIds }), format, columns, baseUrl)
+    const filename = `catalog-${new Date().toISOString().slice(0, 10)}.${format}`
+
+    return new NextResponse(Readable.toWeb(Readable.from(chunks)) as ReadableStream<Uint8Array>, {
+      headers: {
+        'Content-Type': EXPORT_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store'
+      }
+    })
+  } catch (error) {
+    console.error('Error exporting products:', error)
+    return NextResponse.json(
+      { error: 'Failed to export products' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,87 @@
+import { NextResponse } from 'next/server'
+import { AuditAction, AuditEntityType } from '@prisma/client'
+import { withAuth } from '@/lib/auth-utils'
+import { prisma, safeTransaction } from '@/lib/prisma'
+import { recordAudit } from '@/lib/audit-log'
+import { getBoundary, parseMultipart, MultipartError } from '@/lib/multipart'
+import {
+  commitProductImport,
+  importReport,
+  parseImportFile,
+  planProductImport,
+  readImportUpload,
+  IMPORT_TRANSACTION_TIMEOUT,
+  ProductImportConflictError,
+  ProductImportError
+} from '@/lib/product-import'
+
+export const dynamic = 'force-dynamic'
+
+// POST /api/products/import - Import products from a CSV or XLSX `file`. Rows are matched by the `id`
+// column of an export when filled in, else by SKU. A dry run reporting each row's changes and errors
+// unless `dryRun` is "false" (requires MANAGE_PRODUCTS)
+export const POST = withAuth(async (req, context, session) => {
+  try {
+    const boundary = getBoundary(req.headers.get('content-type'))
+    if (!boundary || !req.body) {
+      return NextResponse.json({ error: 'Expected a multipart/form-data upload' }, { status: 400 })
+    }
+
+    let upload: { filename: string; data: Buffer } | null = null
+    const { fields } = await parseMultipart(req.body, boundary, async (file) => {
+      if (upload || file.fieldName !== 'file') return
+      upload = { filename: file.filename, data: await readImportUpload(file.stream) }
+    })
+
+    if (!upload) {
+      return NextResponse.json({ error: 'No file uploaded' }, { status: 400 })
+    }
+
+    const { filename, data } = upload as { filename: string; data: Buffer }
+    const sheet = parseImportFile(filename, data)
+
+    if (fields.dryRun !== 'false') {
+      const plan = await planProductImport(prisma, sheet)
+      return NextResponse.json({ dryRun: true, ...importReport(plan) })
+    }
+
+    // The sheet is checked again inside the transaction; nothing is written unless every row is valid
+    const { plan, written } = await safeTransaction(async (tx) => {
+      const plan = await planProductImport(tx, sheet)
+      if (plan.summary.errors > 0) return { plan, written: [] }
+      return { plan, written: await commitProductImport(tx, plan) }
+    }, { timeout: IMPORT_TRANSACTION_TIMEOUT, retries: 1 })
+
+    if (plan.summary.errors > 0) {
+      return NextResponse.json({
+        error: `${plan.summary.errors} of ${plan.summary.total} rows have errors; nothing was imported`,
+        dryRun: false,
+        ...importReport(plan)
+      }, { status: 400 })
+    }
+
+    for (const { action, before, after } of written) {
+      await recordAudit(req, session, {
+        entityType: AuditEntityType.PRODUCT,
+        entityId: after.id,
+        action: action === 'create' ? AuditAction.CREATE : AuditAction.UPDATE,
+        before: before ?? undefined,
+        after
+      })
+    }
+
+    return NextResponse.json({ dryRun: false, ...importReport(plan) })
+  } catch (error) {
+    if (error instanceof ProductImportConflictError) {
+      return NextResponse.json({ error: error.message, sku: error.sku }, { status: 409 })
+    }
+    if (error instanceof MultipartError || error instanceof ProductImportError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Error importing products:', error)
+    return NextResponse.json(
+      { error: 'Failed to import products' },
+      { status: 500 }
+    )
+  }
+})
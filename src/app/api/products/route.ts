@@ -1,51 +1,83 @@
-import { NextRequest, NextResponse } from 'next/server'
+import { NextResponse } from 'next/server'
+import { AuditAction, AuditEntityType, Prisma } from '@prisma/client'
+import { withAuth } from '@/lib/auth-utils'
+import { prisma, safeTransaction } from '@/lib/prisma'
+import { recordAudit } from '@/lib/audit-log'
 import { getSession } from '@/lib/auth-helper'
-import { prisma } from '@/lib/prisma'
+import { getVisibleDocumentLevels } from '@/lib/downloads'
+import { prepareProductData, formatValidationErrors } from '@/lib/product-validation'
+import { checkVariantChanges, saveProductVariants } from '@/lib/product-variants'
+import { checkProductRelations, saveProductRelations } from '@/lib/product-relations'
+import { checkProductSku } from '@/lib/product-import'
+import { getFilterOptions, getProductFacets, refreshProductSearchIndex, searchProductIds, sortByRank } from '@/lib/product-search'
+import {
+  buildPaginationResponse,
+  buildProductFilterSelections,
+  buildSpecificationFilters,
+  getProductOrderBy,
+  parseProductListQuery
+} from '@/lib/query-optimization'
 
 export const dynamic = 'force-dynamic'
 
-// GET /api/products - List products (public)
-export async function GET(req: NextRequest) {
+const PRODUCT_INCLUDE = {
+  images: true,
+  documents: true,
+  bulkDiscounts: true,
+  variants: { include: { bulkDiscounts: true }, orderBy: { position: 'asc' } },
+  relations: { include: { relatedProduct: { select: { id: true, name: true } } }, orderBy: { position: 'asc' } }
+} as const
+
+// GET /api/products - List products by filters and sort, ranked by relevance when searching, with facet counts (public)
+export const GET = withAuth(async (req) => {
   try {
-    const { searchParams } = new URL(req.url)
-    const page = parseInt(searchParams.get('page') || '1')
-    const limit = parseInt(searchParams.get('limit') || '10')
-    const category = searchParams.get('category')
-    const search = searchParams.get('search')
-    
-    const skip = (page - 1) * limit
-    
-    const where: any = {}
-    if (category) where.category = category
-    if (search) {
-      where.OR = [
-        { name: { contains: search, mode: 'insensitive' } },
-        { description: { contains: search, mode: 'insensitive' } }
-      ]
+    const { query, errors } = parseProductListQuery(new URL(req.url).searchParams)
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors.join(', '), errors }, { status: 400 })
     }
+
+    const { page, limit, offset, sort, filters } = query
+    const visibility = getVisibleDocumentLevels((await getSession(req))?.user)
     
-    const [products, total] = await Promise.all([
-      prisma.product.findMany({
-        where,
-        skip,
-        take: limit,
-        include: {
-          images: true,
-          documents: true
-        }
-      }),
-      prisma.product.count({ where })
-    ])
-    
-    return NextResponse.json({
-      products,
-      pagination: {
-        page,
-        limit,
-        total,
-        pages: Math.ceil(total / limit)
+    const include = {
+      images: true,
+      documents: { where: { visibility: { in: visibility }, supersededById: null } },
+      variants: { orderBy: { position: 'asc' } }
+    } satisfies Prisma.ProductInclude
+
+    // Filter selections are kept apart from the search so facets can leave each one out
+    const selections = buildProductFilterSelections(filters)
+
+    const rankedIds = filters.search ? await searchProductIds(filters.search) : null
+    const where: Prisma.ProductWhereInput = {
+      AND: [...(rankedIds ? [{ id: { in: rankedIds } }] : []), ...buildSpecificationFilters(filters)]
+    }
+    const filtered: Prisma.ProductWhereInput = { AND: [where, ...Object.values(selections)] }
+
+    const findPage = async () => {
+      if (!rankedIds || (sort && sort !== 'relevance')) {
+        const [products, total] = await Promise.all([
+          prisma.product.findMany({ where: filtered, skip: offset, take: limit, include, orderBy: getProductOrderBy(sort) }),
+          prisma.product.count({ where: filtered })
+        ])
+        return { products, total }
       }
-    })
+
+      // Search results are paged in rank order rather than by a column
+      const matches = await prisma.product.findMany({ where: filtered, select: { id: true } })
+      const pageIds = sortByRank(matches, rankedIds).slice(offset, offset + limit).map(match => match.id)
+      const products = await prisma.product.findMany({ where: { id: { in: pageIds } }, include })
+      return { products: sortByRank(products, pageIds), total: matches.length }
+    }
+
+    const [{ products, total }, facets, filterOptions] = await Promise.all([
+      findPage(),
+      getProductFacets(where, selections),
+      getFilterOptions()
+    ])
+
+    const { data, pagination } = buildPaginationResponse(products, total, page, limit)
+    return NextResponse.json({ products: data, pagination, facets, filterOptions })
   } catch (error) {
     console.error('Error fetching products:', error)
     return NextResponse.json(
@@ -53,45 +85,62 @@ export async function GET(req: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
-// POST /api/products - Create product (admin only)
-export async function POST(req: NextRequest) {
-  console.log("STEP 1: request entered")
+// POST /api/products - Create product (requires MANAGE_PRODUCTS)
+export const POST = withAuth(async (req, context, session) => {
   try {
-    const session = getSession(req)
-    if (!session || session.user.role !== 'ADMIN') {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const validation = prepareProductData(await req.json())
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: formatValidationErrors(validation.errors), errors: validation.errors },
+        { status: 400 }
+      )
     }
-    
-    const data = await req.json()
-    console.log("DB HOST:", process.env.DATABASE_URL?.split("@")[1])
-    console.log("STEP 2: before prisma import")
-    const { PrismaClient } = require('@prisma/client')
-    const prismaClient = new PrismaClient()
-    console.log("STEP 3: prisma client created")
-    console.log("STEP 4: before product.create")
-    
-    try {
-      const product = await prismaClient.product.create({
+
+    const { bulkDiscounts, variants, relations, images, documents, ...fields } = validation.data
+
+    const relationError = relations ? await checkProductRelations(prisma, null, relations) : null
+    if (relationError) {
+      return NextResponse.json({ error: relationError }, { status: 400 })
+    }
+
+    let conflict: string | null = null
+    const product = await safeTransaction(async (tx) => {
+      conflict = await checkProductSku(tx, null, fields.sku) ??
+        (variants ? await checkVariantChanges(tx, null, variants) : null)
+      if (conflict) return null
+
+      const created = await tx.product.create({
         data: {
-          ...data,
-          basePrice: Number(data.basePrice)
-        },
-        include: {
-          images: true,
-          documents: true
-        }
+          ...fields,
+          bulkDiscounts: bulkDiscounts ? { create: bulkDiscounts } : undefined,
+          images: images ? { create: images } : undefined,
+          documents: documents ? { create: documents.map(({ id, ...document }) => document) } : undefined
+        } as Prisma.ProductCreateInput
       })
-      
-      return NextResponse.json(product, { status: 201 })
-    } catch (err) {
-      console.error("PRODUCT CREATE ERROR:", err)
-      return NextResponse.json(
-        { error: String(err) },
-        { status: 500 }
-      )
+      if (variants) {
+        await saveProductVariants(tx, created.id, variants)
+      }
+      if (relations) {
+        await saveProductRelations(tx, created.id, relations)
+      }
+      await refreshProductSearchIndex(tx, created.id)
+      return tx.product.findUniqueOrThrow({ where: { id: created.id }, include: PRODUCT_INCLUDE })
+    })
+
+    if (!product) {
+      return NextResponse.json({ error: conflict }, { status: 409 })
     }
+
+    await recordAudit(req, session, {
+      entityType: AuditEntityType.PRODUCT,
+      entityId: product.id,
+      action: AuditAction.CREATE,
+      after: product
+    })
+    
+    return NextResponse.json(product, { status: 201 })
   } catch (error) {
     console.error('Error creating product:', error)
     return NextResponse.json(
@@ -99,4 +148,4 @@ export async function POST(req: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
@@ -0,0 +1,74 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth-utils'
+import { prisma } from '@/lib/prisma'
+import { generateQuoteDocument } from '@/lib/quote-document'
+import { serveStoredFile } from '@/lib/media-upload'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/quotes/[id]/document - Download the latest quotation PDF, or an earlier one with ?documentId= (requires MANAGE_QUOTES)
+export const GET = withAuth<{ params: { id: string } }>(async (req, { params }) => {
+  try {
+    const documentId = new URL(req.url).searchParams.get('documentId')
+
+    const quote = await prisma.quoteRequest.findUnique({
+      where: { id: params.id },
+      include: { document: true }
+    })
+
+    if (!quote) {
+      return NextResponse.json({ error: 'Quote not found' }, { status: 404 })
+    }
+
+    // Earlier versions are only served when the quote's history references them
+    const document = documentId && documentId !== quote.documentId
+      ? (await prisma.quoteEvent.findFirst({
+          where: { quoteId: quote.id, documentId },
+          include: { document: true }
+        }))?.document
+      : quote.document
+
+    if (!document) {
+      return NextResponse.json({ error: 'No quotation document has been generated' }, { status: 404 })
+    }
+
+    const response = await serveStoredFile(document, {
+      disposition: 'attachment',
+      cacheControl: 'private, no-store',
+      range: req.headers.get('range')
+    })
+    if (!response) {
+      return NextResponse.json({ error: 'Quotation document is missing from storage' }, { status: 404 })
+    }
+
+    return response
+  } catch (error) {
+    console.error('Error downloading quote document:', error)
+    return NextResponse.json(
+      { error: 'Failed to download quote document' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/quotes/[id]/document - Regenerate the quotation PDF (requires MANAGE_QUOTES)
+export const POST = withAuth<{ params: { id: string } }>(async (req, { params }) => {
+  try {
+    const generated = await generateQuoteDocument(params.id)
+
+    if (!generated) {
+      return NextResponse.json({ error: 'Quote not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(
+      { document: generated.media, validUntil: generated.validUntil },
+      { status: 201 }
+    )
+  } catch (error) {
+    console.error('Error generating quote document:', error)
+    return NextResponse.json(
+      { error: 'Failed to generate quote document' },
+      { status: 500 }
+    )
+  }
+})
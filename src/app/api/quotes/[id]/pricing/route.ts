@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth-utils'
+import { getQuotePricing } from '@/lib/quote-pricing'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/quotes/[id]/pricing - Line prices, bulk discounts and totals for a quote (requires MANAGE_QUOTES)
+export const GET = withAuth<{ params: { id: string } }>(async (req, { params }) => {
+  try {
+    const pricing = await getQuotePricing(params.id)
+
+    if (!pricing) {
+      return NextResponse.json({ error: 'Quote not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(pricing)
+  } catch (error) {
+    console.error('Error pricing quote:', error)
+    return NextResponse.json(
+      { error: 'Failed to price quote' },
+      { status: 500 }
+    )
+  }
+})
@@ -1,26 +1,34 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { getSession } from '@/lib/auth-helper'
-import { prisma } from '@/lib/prisma'
+import { NextResponse } from 'next/server'
+import { AuditAction, AuditEntityType, QuoteStatus } from '@prisma/client'
+import { withAuth } from '@/lib/auth-utils'
+import { prisma, safeTransaction } from '@/lib/prisma'
+import { recordAudit } from '@/lib/audit-log'
+import { logger } from '@/lib/monitoring'
+import { generateQuoteDocument } from '@/lib/quote-document'
+import { sendQuoteResponseToCustomer } from '@/lib/email-utils'
+import { formatValidationErrors } from '@/lib/quote-validation'
+import { planQuoteUpdate } from '@/lib/quote-workflow'
+import { reserveQuoteStock, shipQuoteStock } from '@/lib/inventory'
 
 export const dynamic = 'force-dynamic'
 
-// GET /api/quotes/[id] - Get single quote (admin only)
-export async function GET(
-  req: NextRequest,
-  { params }: { params: { id: string } }
-) {
+// GET /api/quotes/[id] - Get single quote (requires MANAGE_QUOTES)
+export const GET = withAuth<{ params: { id: string } }>(async (req, { params }) => {
   try {
-    const session = getSession(req)
-    if (!session || session.user.role !== 'ADMIN') {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-    
     const quote = await prisma.quoteRequest.findUnique({
       where: { id: params.id },
       include: {
         products: {
           include: {
-            product: true
+            product: true,
+            variant: true
+          }
+        },
+        events: {
+          orderBy: { createdAt: 'asc' },
+          include: {
+            user: { select: { id: true, name: true, email: true } },
+            document: { select: { id: true, originalName: true } }
           }
         }
       }
@@ -38,25 +46,99 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+})
 
-// PUT /api/quotes/[id] - Update quote (admin only)
-export async function PUT(
-  req: NextRequest,
-  { params }: { params: { id: string } }
-) {
+// PUT /api/quotes/[id] - Change status or respond, following the quote workflow (requires MANAGE_QUOTES)
+export const PUT = withAuth<{ params: { id: string } }>(async (req, { params }, session) => {
   try {
-    const session = getSession(req)
-    if (!session || session.user.role !== 'ADMIN') {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const existing = await prisma.quoteRequest.findUnique({
+      where: { id: params.id }
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Quote not found' }, { status: 404 })
     }
-    
-    const data = await req.json()
-    
-    const quote = await prisma.quoteRequest.update({
-      where: { id: params.id },
-      data
+
+    const plan = planQuoteUpdate(existing, await req.json().catch(() => null))
+    if (plan.errors.length > 0) {
+      return NextResponse.json(
+        { error: formatValidationErrors(plan.errors), validationErrors: plan.errors },
+        { status: 400 }
+      )
+    }
+
+    // The status guard makes a concurrent change fail instead of skipping a transition check
+    const result = await safeTransaction(async tx => {
+      const updated = await tx.quoteRequest.updateMany({
+        where: { id: existing.id, status: existing.status },
+        data: plan.data
+      })
+      if (updated.count === 0) return null
+
+      // Winning a quote holds its stock; closing a won quote ships it
+      const userId = session?.user.id ?? null
+      if (plan.data.status === QuoteStatus.WON) {
+        await reserveQuoteStock(tx, existing.id, userId)
+      } else if (existing.status === QuoteStatus.WON && plan.data.status === QuoteStatus.CLOSED) {
+        await shipQuoteStock(tx, existing.id, userId)
+      }
+
+      const event = plan.event
+        ? await tx.quoteEvent.create({
+            data: { ...plan.event, quoteId: existing.id, userId: session?.user.id ?? null }
+          })
+        : null
+      const quote = await tx.quoteRequest.findUniqueOrThrow({ where: { id: existing.id } })
+      return { quote, event }
     })
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Quote was changed by someone else; reload and try again' },
+        { status: 409 }
+      )
+    }
+
+    let { quote } = result
+    const { event } = result
+
+    await recordAudit(req, session, {
+      entityType: AuditEntityType.QUOTE,
+      entityId: quote.id,
+      action: AuditAction.UPDATE,
+      before: existing,
+      after: quote
+    })
+
+    // Responding produces a priced quotation PDF and emails it to the customer
+    if (plan.responding) {
+      try {
+        const generated = await generateQuoteDocument(quote.id)
+        if (generated) {
+          quote = { ...quote, documentId: generated.media.id, validUntil: generated.validUntil }
+          if (event) {
+            await prisma.quoteEvent.update({
+              where: { id: event.id },
+              data: { documentId: generated.media.id }
+            })
+          }
+          await sendQuoteResponseToCustomer({
+            quoteNumber: quote.referenceNumber || quote.id,
+            customerName: quote.customerName,
+            customerEmail: quote.customerEmail,
+            response: quote.response || '',
+            validUntil: generated.validUntil,
+            document: {
+              filename: generated.media.originalName,
+              contentType: generated.media.mimeType,
+              storageKey: generated.storageKey
+            }
+          })
+        }
+      } catch (error) {
+        logger.error('Failed to send quotation document', error as Error, { quoteId: quote.id })
+      }
+    }
     
     return NextResponse.json(quote)
   } catch (error) {
@@ -66,4 +148,4 @@ export async function PUT(
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
\ No newline at end of file
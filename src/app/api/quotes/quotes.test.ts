@@ -1,16 +1,38 @@
+/**
+ * @jest-environment node
+ */
+
 // Mock Prisma
-const mockPrisma = {
-  quoteRequest: {
-    findMany: jest.fn(),
-    count: jest.fn(),
-    create: jest.fn(),
-    findUnique: jest.fn(),
-    update: jest.fn(),
-  },
-}
-
-jest.mock('@/lib/prisma', () => ({
-  prisma: mockPrisma,
+jest.mock('@/lib/prisma', () => {
+  const prisma: any = {
+    quoteRequest: {
+      findMany: jest.fn(),
+      count: jest.fn(),
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    product: {
+      findMany: jest.fn(),
+    },
+    productVariant: {
+      findMany: jest.fn(),
+    },
+    auditLog: {
+      create: jest.fn(),
+    },
+  }
+  prisma.$transaction = jest.fn((callback: (tx: any) => Promise<any>) => callback(prisma))
+
+  return {
+    prisma,
+    safeTransaction: (callback: (tx: any) => Promise<any>) => prisma.$transaction(callback),
+  }
+})
+
+jest.mock('@/lib/email-utils', () => ({
+  sendQuoteNotificationToAdmin: jest.fn().mockResolvedValue(true),
+  sendQuoteConfirmationToCustomer: jest.fn().mockResolvedValue(true),
 }))
 
 // Mock auth helper
@@ -20,9 +42,12 @@ jest.mock('@/lib/auth-helper', () => ({
 
 import { NextRequest } from 'next/server'
 import { getSession } from '@/lib/auth-helper'
+import { prisma } from '@/lib/prisma'
+import { sendQuoteNotificationToAdmin, sendQuoteConfirmationToCustomer } from '@/lib/email-utils'
 import { GET, POST } from './route'
 
 const mockGetSession = getSession as jest.MockedFunction<typeof getSession>
+const mockPrisma = prisma as any
 
 describe('Quote API Routes', () => {
   beforeEach(() => {
@@ -31,7 +56,7 @@ describe('Quote API Routes', () => {
 
   describe('GET /api/quotes', () => {
     test('should require admin authentication', async () => {
-      mockGetSession.mockReturnValue(null)
+      mockGetSession.mockResolvedValue(null)
 
       const request = new NextRequest('http://localhost/api/quotes')
       const response = await GET(request)
@@ -40,8 +65,10 @@ describe('Quote API Routes', () => {
     })
 
     test('should return quotes for admin users', async () => {
-      mockGetSession.mockReturnValue({
-        user: { id: 'admin1', role: 'ADMIN', email: 'admin@test.com', name: 'Admin User' }
+      mockGetSession.mockResolvedValue({
+        id: 'session1',
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+        user: { id: 'admin1', role: 'ADMIN', email: 'admin@test.com', name: 'Admin User', permissions: [] }
       })
 
       mockPrisma.quoteRequest.findMany.mockResolvedValue([
@@ -59,29 +86,117 @@ describe('Quote API Routes', () => {
   })
 
   describe('POST /api/quotes', () => {
-    test('should create quote without authentication', async () => {
-      const quoteData = {
-        customerName: 'Test Customer',
-        email: 'test@example.com',
-        message: 'Test quote request'
-      }
-
-      mockPrisma.quoteRequest.create.mockResolvedValue({
+    const quoteData = {
+      customerName: 'Test Customer',
+      customerEmail: 'test@example.com',
+      message: 'Test quote request',
+      products: [{ productId: 'prod1', quantity: 5, notes: 'Cut to length' }]
+    }
+
+    function postQuote(body: unknown) {
+      return POST(new NextRequest('http://localhost/api/quotes', {
+        method: 'POST',
+        body: JSON.stringify(body)
+      }))
+    }
+
+    test('should create quote with line items without authentication', async () => {
+      mockPrisma.product.findMany.mockResolvedValue([
+        { id: 'prod1', name: 'Steel Pipe', availability: 'IN_STOCK' }
+      ])
+      mockPrisma.quoteRequest.create.mockImplementation(async ({ data }: any) => ({
         id: 'quote1',
+        ...data,
+        products: data.products.create.map((line: any, i: number) => ({
+          id: `line${i}`,
+          ...line,
+          product: { id: line.productId, name: 'Steel Pipe' }
+        }))
+      }))
+
+      const response = await postQuote(quoteData)
+
+      expect(response.status).toBe(201)
+      const data = await response.json()
+      expect(data.customerName).toBe(quoteData.customerName)
+      expect(data.referenceNumber).toMatch(/^Q-\d{8}-[2-9A-Z]{5}$/)
+      expect(mockPrisma.quoteRequest.create.mock.calls[0][0].data.products.create).toEqual([
+        { productId: 'prod1', quantity: 5, notes: 'Cut to length' }
+      ])
+      expect(sendQuoteNotificationToAdmin).toHaveBeenCalledWith(
+        expect.objectContaining({ quoteId: data.referenceNumber, products: [{ productName: 'Steel Pipe', quantity: 5, notes: 'Cut to length' }] })
+      )
+      expect(sendQuoteConfirmationToCustomer).toHaveBeenCalled()
+    })
+
+    test('should reject invalid submissions with field errors', async () => {
+      const response = await postQuote({ customerName: 'Test Customer', email: 'test@example.com' })
+
+      expect(response.status).toBe(400)
+      const data = await response.json()
+      expect(data.validationErrors.map((e: any) => e.field)).toEqual(['customerEmail', 'products'])
+      expect(mockPrisma.quoteRequest.create).not.toHaveBeenCalled()
+    })
+
+    test('should reject missing and discontinued products', async () => {
+      mockPrisma.product.findMany.mockResolvedValue([
+        { id: 'prod1', name: 'Old Pipe', availability: 'DISCONTINUED' }
+      ])
+
+      const response = await postQuote({
         ...quoteData,
-        status: 'PENDING'
+        products: [{ productId: 'prod1', quantity: 1 }, { productId: 'missing', quantity: 1 }]
       })
 
-      const request = new NextRequest('http://localhost/api/quotes', {
-        method: 'POST',
-        body: JSON.stringify(quoteData)
+      expect(response.status).toBe(400)
+      const data = await response.json()
+      expect(data.validationErrors).toEqual([
+        { field: 'products[0].productId', message: 'Old Pipe has been discontinued' },
+        { field: 'products[1].productId', message: 'Product not found' }
+      ])
+      expect(mockPrisma.quoteRequest.create).not.toHaveBeenCalled()
+      expect(sendQuoteNotificationToAdmin).not.toHaveBeenCalled()
+    })
+
+    test('should quote a variant of the product', async () => {
+      mockPrisma.product.findMany.mockResolvedValue([
+        { id: 'prod1', name: 'Steel Pipe', availability: 'IN_STOCK' }
+      ])
+      mockPrisma.productVariant.findMany.mockResolvedValue([
+        { id: 'var1', productId: 'prod1', sku: 'SP-2-40', availability: 'IN_STOCK' },
+        { id: 'var2', productId: 'prod1', sku: 'SP-2-80', availability: 'DISCONTINUED' },
+        { id: 'var3', productId: 'prod9', sku: 'CU-1', availability: 'IN_STOCK' }
+      ])
+      mockPrisma.quoteRequest.create.mockImplementation(async ({ data }: any) => ({
+        id: 'quote1',
+        ...data,
+        products: data.products.create.map((line: any, i: number) => ({
+          id: `line${i}`,
+          ...line,
+          product: { id: line.productId, name: 'Steel Pipe' },
+          variant: { id: line.variantId, sku: 'SP-2-40', diameter: '2"', length: '21 ft', schedule: '40' }
+        }))
+      }))
+
+      const rejected = await postQuote({
+        ...quoteData,
+        products: [{ productId: 'prod1', variantId: 'var2', quantity: 1 }, { productId: 'prod1', variantId: 'var3', quantity: 1 }]
       })
-      
-      const response = await POST(request)
-      
+      expect(rejected.status).toBe(400)
+      expect((await rejected.json()).validationErrors).toEqual([
+        { field: 'products[0].variantId', message: 'Steel Pipe SP-2-80 has been discontinued' },
+        { field: 'products[1].variantId', message: 'Size not found for Steel Pipe' }
+      ])
+
+      const response = await postQuote({ ...quoteData, products: [{ productId: 'prod1', variantId: 'var1', quantity: 5 }] })
+
       expect(response.status).toBe(201)
-      const data = await response.json()
-      expect(data.customerName).toBe(quoteData.customerName)
+      expect(mockPrisma.quoteRequest.create.mock.calls[0][0].data.products.create).toEqual([
+        { productId: 'prod1', variantId: 'var1', quantity: 5 }
+      ])
+      expect(sendQuoteNotificationToAdmin).toHaveBeenCalledWith(
+        expect.objectContaining({ products: [{ productName: 'Steel Pipe (2" / Sch 40 / 21 ft)', quantity: 5 }] })
+      )
     })
   })
-})
\ No newline at end of file
+})
@@ -1,17 +1,26 @@
-import { NextRequest, NextResponse } from 'next/server'
-import { getSession } from '@/lib/auth-helper'
-import { prisma } from '@/lib/prisma'
+import { NextResponse } from 'next/server'
+import { AuditAction, AuditEntityType, AvailabilityStatus, QuoteEventType, QuoteStatus } from '@prisma/client'
+import { withAuth } from '@/lib/auth-utils'
+import { prisma, safeTransaction } from '@/lib/prisma'
+import { recordAudit } from '@/lib/audit-log'
+import { variantLabel } from '@/lib/product-variants'
+import {
+  validateQuoteRequest,
+  sanitizeQuoteRequest,
+  generateQuoteReference,
+  ValidationError
+} from '@/lib/quote-validation'
+import {
+  sendQuoteNotificationToAdmin,
+  sendQuoteConfirmationToCustomer,
+  QuoteNotificationData
+} from '@/lib/email-utils'
 
 export const dynamic = 'force-dynamic'
 
-// GET /api/quotes - List quotes (admin only)
-export async function GET(req: NextRequest) {
+// GET /api/quotes - List quotes (requires MANAGE_QUOTES)
+export const GET = withAuth(async (req) => {
   try {
-    const session = getSession(req)
-    if (!session || session.user.role !== 'ADMIN') {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
-    }
-    
     const { searchParams } = new URL(req.url)
     const page = parseInt(searchParams.get('page') || '1')
     const limit = parseInt(searchParams.get('limit') || '10')
@@ -29,7 +38,8 @@ export async function GET(req: NextRequest) {
         include: {
           products: {
             include: {
-              product: true
+              product: true,
+              variant: true
             }
           }
         },
@@ -54,19 +64,113 @@ export async function GET(req: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 // POST /api/quotes - Create quote (public)
-export async function POST(req: NextRequest) {
+export const POST = withAuth(async (req, context, session) => {
   try {
-    const data = await req.json()
-    
-    const quote = await prisma.quoteRequest.create({
+    const body = await req.json()
+
+    const validation = validateQuoteRequest(body)
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Validation failed', validationErrors: validation.errors },
+        { status: 400 }
+      )
+    }
+
+    const { products: lines, ...customer } = sanitizeQuoteRequest(body)
+
+    // Every line must point at a product that can still be ordered
+    const productIds = Array.from(new Set(lines.map(line => line.productId)))
+    const products = await prisma.product.findMany({
+      where: { id: { in: productIds } },
+      select: { id: true, name: true, availability: true }
+    })
+    const productsById = new Map(products.map(product => [product.id, product]))
+
+    const variantIds = Array.from(new Set(lines.map(line => line.variantId).filter((id): id is string => Boolean(id))))
+    const variants = variantIds.length > 0
+      ? await prisma.productVariant.findMany({
+          where: { id: { in: variantIds } },
+          select: { id: true, productId: true, sku: true, availability: true }
+        })
+      : []
+    const variantsById = new Map(variants.map(variant => [variant.id, variant]))
+
+    const productErrors: ValidationError[] = []
+    lines.forEach((line, index) => {
+      const product = productsById.get(line.productId)
+      if (!product) {
+        productErrors.push({ field: `products[${index}].productId`, message: 'Product not found' })
+      } else if (product.availability === AvailabilityStatus.DISCONTINUED) {
+        productErrors.push({ field: `products[${index}].productId`, message: `${product.name} has been discontinued` })
+      } else if (line.variantId) {
+        const variant = variantsById.get(line.variantId)
+        if (!variant || variant.productId !== product.id) {
+          productErrors.push({ field: `products[${index}].variantId`, message: `Size not found for ${product.name}` })
+        } else if (variant.availability === AvailabilityStatus.DISCONTINUED) {
+          productErrors.push({ field: `products[${index}].variantId`, message: `${product.name} ${variant.sku} has been discontinued` })
+        }
+      }
+    })
+
+    if (productErrors.length > 0) {
+      return NextResponse.json(
+        { error: 'Validation failed', validationErrors: productErrors },
+        { status: 400 }
+      )
+    }
+
+    // The reference is generated inside the callback so a retry after a
+    // unique-constraint collision picks a fresh one
+    const quote = await safeTransaction(tx => tx.quoteRequest.create({
       data: {
-        ...data,
-        status: 'PENDING'
+        ...customer,
+        referenceNumber: generateQuoteReference(),
+        status: QuoteStatus.PENDING,
+        products: {
+          create: lines
+        },
+        events: {
+          create: { type: QuoteEventType.SUBMITTED, toStatus: QuoteStatus.PENDING }
+        }
+      },
+      include: {
+        products: {
+          include: {
+            product: { select: { id: true, name: true } },
+            variant: { select: { id: true, sku: true, diameter: true, length: true, schedule: true } }
+          }
+        }
       }
+    }))
+
+    await recordAudit(req, session, {
+      entityType: AuditEntityType.QUOTE,
+      entityId: quote.id,
+      action: AuditAction.CREATE,
+      after: quote
     })
+
+    const notification: QuoteNotificationData = {
+      quoteId: quote.referenceNumber || quote.id,
+      customerName: quote.customerName,
+      customerEmail: quote.customerEmail,
+      company: quote.company || undefined,
+      products: quote.products.map(line => ({
+        productName: line.variant ? `${line.product.name} (${variantLabel(line.variant)})` : line.product.name,
+        quantity: line.quantity,
+        notes: line.notes || undefined
+      })),
+      message: quote.message || undefined
+    }
+
+    // Email failures are logged by the senders and never fail the submission
+    await Promise.all([
+      sendQuoteNotificationToAdmin(notification),
+      sendQuoteConfirmationToCustomer(notification)
+    ])
     
     return NextResponse.json(quote, { status: 201 })
   } catch (error) {
@@ -76,4 +180,4 @@ export async function POST(req: NextRequest) {
       { status: 500 }
     )
   }
-}
\ No newline at end of file
+})
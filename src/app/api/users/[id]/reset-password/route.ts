@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server'
+import { PasswordTokenPurpose } from '@prisma/client'
+import { withAuth } from '@/lib/auth-utils'
+import { prisma } from '@/lib/prisma'
+import { sendPasswordSetupEmail } from '@/lib/email-utils'
+import { createPasswordToken, buildPasswordSetupUrl } from '@/lib/user-management'
+
+// POST /api/users/[id]/reset-password - Send a password reset link (requires MANAGE_USERS)
+export const POST = withAuth<{ params: { id: string } }>(async (req, { params }) => {
+  try {
+    const user = await prisma.user.findUnique({ where: { id: params.id } })
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+    if (user.disabledAt) {
+      return NextResponse.json(
+        { error: 'Re-enable this account before resetting its password' },
+        { status: 400 }
+      )
+    }
+
+    // Users who never accepted their invite get a fresh invite instead
+    const purpose = user.passwordHash ? PasswordTokenPurpose.RESET : PasswordTokenPurpose.INVITE
+    const { token, expiresAt } = await createPasswordToken(user.id, purpose)
+    const setupUrl = buildPasswordSetupUrl(token)
+    const emailSent = await sendPasswordSetupEmail({
+      to: user.email,
+      name: user.name,
+      setupUrl,
+      purpose,
+      expiresAt
+    })
+
+    return NextResponse.json({ setupUrl, emailSent, expiresAt })
+  } catch (error) {
+    console.error('Error resetting password:', error)
+    return NextResponse.json(
+      { error: 'Failed to reset password' },
+      { status: 500 }
+    )
+  }
+})
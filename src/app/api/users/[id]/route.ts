@@ -0,0 +1,136 @@
+import { NextResponse } from 'next/server'
+import { withAuth } from '@/lib/auth-utils'
+import { prisma } from '@/lib/prisma'
+import { forceLogout } from '@/lib/session-utils'
+import { USER_SELECT, checkGrantableAccess, validateUserInput } from '@/lib/user-management'
+
+// GET /api/users/[id] - Get single user (requires MANAGE_USERS)
+export const GET = withAuth<{ params: { id: string } }>(async (req, { params }) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: params.id },
+      select: USER_SELECT
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(user)
+  } catch (error) {
+    console.error('Error fetching user:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch user' },
+      { status: 500 }
+    )
+  }
+})
+
+// PUT /api/users/[id] - Update name, role, permissions or disabled state; roles and permissions
+// granted must be held by the editor (requires MANAGE_USERS)
+export const PUT = withAuth<{ params: { id: string } }>(async (req, { params }, session) => {
+  try {
+    const validation = validateUserInput(await req.json(), { partial: true })
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validation.errors },
+        { status: 400 }
+      )
+    }
+
+    const { disabled, ...changes } = validation.data
+
+    // Stop admins from locking themselves out
+    if (session?.user.id === params.id &&
+        (disabled || (changes.role && changes.role !== session.user.role))) {
+      return NextResponse.json(
+        { error: 'You cannot disable or change the role of your own account' },
+        { status: 400 }
+      )
+    }
+
+    // Nor may anyone widen their own access
+    const ownPermissions = new Set(session?.user.permissions ?? [])
+    if (session?.user.id === params.id && changes.permissions &&
+        (changes.permissions.length !== ownPermissions.size ||
+         changes.permissions.some(permission => !ownPermissions.has(permission)))) {
+      return NextResponse.json(
+        { error: 'You cannot change the permissions of your own account' },
+        { status: 403 }
+      )
+    }
+
+    const existing = await prisma.user.findUnique({ where: { id: params.id } })
+    if (!existing) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    // Only what is newly granted is checked, so other edits to a user with
+    // more access than the editor still go through
+    const forbidden = session && checkGrantableAccess(
+      session.user,
+      changes.role && changes.role !== existing.role ? changes.role : undefined,
+      changes.permissions?.filter(permission => !existing.permissions.includes(permission))
+    )
+    if (forbidden) {
+      return NextResponse.json({ error: forbidden }, { status: 403 })
+    }
+
+    if (changes.email && changes.email !== existing.email) {
+      const emailTaken = await prisma.user.findUnique({ where: { email: changes.email } })
+      if (emailTaken) {
+        return NextResponse.json(
+          { error: 'A user with this email already exists' },
+          { status: 409 }
+        )
+      }
+    }
+
+    const data: any = { ...changes }
+    if (disabled !== undefined) {
+      data.disabledAt = disabled ? (existing.disabledAt || new Date()) : null
+    }
+
+    const user = await prisma.user.update({
+      where: { id: params.id },
+      data,
+      select: USER_SELECT
+    })
+
+    if (disabled && !existing.disabledAt) {
+      await forceLogout(params.id, 'account disabled')
+    }
+
+    return NextResponse.json(user)
+  } catch (error) {
+    console.error('Error updating user:', error)
+    return NextResponse.json(
+      { error: 'Failed to update user' },
+      { status: 500 }
+    )
+  }
+})
+
+// DELETE /api/users/[id] - Delete user (requires MANAGE_USERS)
+export const DELETE = withAuth<{ params: { id: string } }>(async (req, { params }, session) => {
+  try {
+    if (session?.user.id === params.id) {
+      return NextResponse.json(
+        { error: 'You cannot delete your own account' },
+        { status: 400 }
+      )
+    }
+
+    await prisma.user.delete({
+      where: { id: params.id }
+    })
+
+    return NextResponse.json({ message: 'User deleted successfully' })
+  } catch (error) {
+    console.error('Error deleting user:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete user' },
+      { status: 500 }
+    )
+  }
+})
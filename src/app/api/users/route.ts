@@ -0,0 +1,120 @@
+import { NextResponse } from 'next/server'
+import { PasswordTokenPurpose, UserRole } from '@prisma/client'
+import { withAuth } from '@/lib/auth-utils'
+import { prisma } from '@/lib/prisma'
+import { sendPasswordSetupEmail } from '@/lib/email-utils'
+import {
+  USER_SELECT,
+  checkGrantableAccess,
+  validateUserInput,
+  createPasswordToken,
+  buildPasswordSetupUrl
+} from '@/lib/user-management'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/users - List users (requires MANAGE_USERS)
+export const GET = withAuth(async (req) => {
+  try {
+    const { searchParams } = new URL(req.url)
+    const page = parseInt(searchParams.get('page') || '1')
+    const limit = parseInt(searchParams.get('limit') || '20')
+    const role = searchParams.get('role')
+    const search = searchParams.get('search')
+
+    const skip = (page - 1) * limit
+
+    const where: any = {}
+    if (role && Object.values(UserRole).includes(role as UserRole)) where.role = role
+    if (search) {
+      where.OR = [
+        { name: { contains: search, mode: 'insensitive' } },
+        { email: { contains: search, mode: 'insensitive' } }
+      ]
+    }
+
+    const [users, total] = await Promise.all([
+      prisma.user.findMany({
+        where,
+        skip,
+        take: limit,
+        select: USER_SELECT,
+        orderBy: { createdAt: 'desc' }
+      }),
+      prisma.user.count({ where })
+    ])
+
+    return NextResponse.json({
+      users,
+      pagination: {
+        page,
+        limit,
+        total,
+        pages: Math.ceil(total / limit)
+      }
+    })
+  } catch (error) {
+    console.error('Error fetching users:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch users' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST /api/users - Invite a user by email with a role and permissions the inviter holds (requires MANAGE_USERS)
+export const POST = withAuth(async (req, context, session) => {
+  try {
+    const validation = validateUserInput(await req.json())
+    if (!validation.isValid) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: validation.errors },
+        { status: 400 }
+      )
+    }
+
+    const { email, name, role, permissions } = validation.data
+
+    const forbidden = session && checkGrantableAccess(session.user, role || UserRole.CONTENT_MANAGER, permissions)
+    if (forbidden) {
+      return NextResponse.json({ error: forbidden }, { status: 403 })
+    }
+
+    const existing = await prisma.user.findUnique({ where: { email } })
+    if (existing) {
+      return NextResponse.json(
+        { error: 'A user with this email already exists' },
+        { status: 409 }
+      )
+    }
+
+    const user = await prisma.user.create({
+      data: {
+        email: email!,
+        name: name!,
+        role: role || UserRole.CONTENT_MANAGER,
+        permissions: permissions || []
+      },
+      select: USER_SELECT
+    })
+
+    const { token, expiresAt } = await createPasswordToken(user.id, PasswordTokenPurpose.INVITE)
+    const setupUrl = buildPasswordSetupUrl(token)
+    const emailSent = await sendPasswordSetupEmail({
+      to: user.email,
+      name: user.name,
+      setupUrl,
+      purpose: PasswordTokenPurpose.INVITE,
+      expiresAt
+    })
+
+    // The link is returned so an admin can pass it on if email delivery fails
+    return NextResponse.json({ user, setupUrl, emailSent }, { status: 201 })
+  } catch (error) {
+    console.error('Error inviting user:', error)
+    return NextResponse.json(
+      { error: 'Failed to invite user' },
+      { status: 500 }
+    )
+  }
+})
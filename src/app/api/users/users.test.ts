@@ -0,0 +1,126 @@
+/**
+ * @jest-environment node
+ */
+
+jest.mock('@/lib/prisma', () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+    },
+    passwordToken: {
+      create: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('@/lib/email-utils', () => ({
+  sendPasswordSetupEmail: jest.fn().mockResolvedValue(true)
+}))
+
+jest.mock('@/lib/auth-helper', () => ({
+  getSession: jest.fn()
+}))
+
+import { NextRequest } from 'next/server'
+import { getSession } from '@/lib/auth-helper'
+import { prisma } from '@/lib/prisma'
+import { POST as inviteUser } from './route'
+import { PUT as updateUser } from './[id]/route'
+
+const mockGetSession = getSession as jest.MockedFunction<typeof getSession>
+const mockPrisma = prisma as any
+
+// A content manager who was also granted user management
+const userManager = { id: 'manager1', role: 'CONTENT_MANAGER', email: 'manager@test.com', name: 'Manager', permissions: ['MANAGE_USERS'] }
+const staff = { id: 'staff1', role: 'CONTENT_MANAGER', email: 'staff@test.com', name: 'Staff', permissions: [], disabledAt: null }
+
+function signIn(user: object) {
+  mockGetSession.mockResolvedValue({ id: 'session1', expiresAt: new Date(Date.now() + 60 * 60 * 1000), user } as any)
+}
+
+function invite(body: unknown) {
+  return inviteUser(new NextRequest('http://localhost/api/users', { method: 'POST', body: JSON.stringify(body) }))
+}
+
+function update(id: string, body: unknown) {
+  return updateUser(
+    new NextRequest(`http://localhost/api/users/${id}`, { method: 'PUT', body: JSON.stringify(body) }),
+    { params: { id } }
+  )
+}
+
+describe('User API Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    signIn(userManager)
+    mockPrisma.user.findUnique.mockImplementation(({ where }: any) =>
+      Promise.resolve(where.id === 'staff1' ? staff : where.id === 'manager1' ? { ...userManager, disabledAt: null } : null)
+    )
+    mockPrisma.user.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'new1', ...data }))
+    mockPrisma.user.update.mockImplementation(({ where, data }: any) => Promise.resolve({ ...staff, id: where.id, ...data }))
+    mockPrisma.passwordToken.updateMany.mockResolvedValue({ count: 0 })
+  })
+
+  describe('POST /api/users', () => {
+    test('invites staff with access the inviter holds', async () => {
+      const response = await invite({ email: 'new@test.com', name: 'New', role: 'CONTENT_MANAGER', permissions: ['MANAGE_USERS'] })
+
+      expect(response.status).toBe(201)
+      expect(mockPrisma.user.create).toHaveBeenCalled()
+    })
+
+    test('only admins can invite admins', async () => {
+      const response = await invite({ email: 'new@test.com', name: 'New', role: 'ADMIN' })
+
+      expect(response.status).toBe(403)
+      expect((await response.json()).error).toBe('Only admins can grant the ADMIN role')
+      expect(mockPrisma.user.create).not.toHaveBeenCalled()
+
+      signIn({ ...userManager, role: 'ADMIN', permissions: [] })
+      expect((await invite({ email: 'new@test.com', name: 'New', role: 'ADMIN' })).status).toBe(201)
+    })
+
+    test('permissions the inviter lacks cannot be granted', async () => {
+      const response = await invite({ email: 'new@test.com', name: 'New', permissions: ['MANAGE_PRODUCTS'] })
+
+      expect(response.status).toBe(403)
+      expect((await response.json()).error).toBe('You cannot grant permissions you do not hold: MANAGE_PRODUCTS')
+      expect(mockPrisma.user.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('PUT /api/users/[id]', () => {
+    test('users cannot change their own permissions', async () => {
+      const response = await update('manager1', { permissions: ['MANAGE_USERS', 'MANAGE_PRODUCTS'] })
+
+      expect(response.status).toBe(403)
+      expect(mockPrisma.user.update).not.toHaveBeenCalled()
+
+      // Saving their own profile with the permissions unchanged is fine
+      expect((await update('manager1', { name: 'Renamed', permissions: ['MANAGE_USERS'] })).status).toBe(200)
+    })
+
+    test('roles and permissions the editor lacks cannot be granted to others', async () => {
+      const promoted = await update('staff1', { role: 'ADMIN' })
+      expect(promoted.status).toBe(403)
+
+      const granted = await update('staff1', { permissions: ['MANAGE_PRODUCTS'] })
+      expect(granted.status).toBe(403)
+      expect((await granted.json()).error).toBe('You cannot grant permissions you do not hold: MANAGE_PRODUCTS')
+      expect(mockPrisma.user.update).not.toHaveBeenCalled()
+
+      expect((await update('staff1', { permissions: ['MANAGE_USERS'] })).status).toBe(200)
+    })
+
+    test('permissions a user already has are kept when someone with less access edits them', async () => {
+      mockPrisma.user.findUnique.mockResolvedValue({ ...staff, permissions: ['MANAGE_PRODUCTS'] })
+
+      const response = await update('staff1', { name: 'Renamed', permissions: ['MANAGE_PRODUCTS'] })
+
+      expect(response.status).toBe(200)
+    })
+  })
+})
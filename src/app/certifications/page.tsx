@@ -5,6 +5,10 @@ export const metadata = {
   description: 'View our industry certifications and quality standards. Pipe Supply Co. maintains the highest standards in industrial pipe supply.',
 }
 
-export default function Certifications() {
-  return <CompanyShowcase />
+interface CertificationsPageProps {
+  searchParams: { preview?: string }
+}
+
+export default function Certifications({ searchParams }: CertificationsPageProps) {
+  return <CompanyShowcase preview={searchParams.preview === 'draft'} />
 }
\ No newline at end of file
@@ -6,7 +6,11 @@ export const metadata = {
   description: 'Get in touch with Pipe Supply Co. for quotes, technical support, and pipe supply services. Multiple contact methods available.',
 }
 
-export default function Contact() {
+interface ContactPageProps {
+  searchParams: { preview?: string }
+}
+
+export default function Contact({ searchParams }: ContactPageProps) {
   const breadcrumbItems = [
     { name: 'Home', href: '/' },
     { name: 'Contact Us', href: '/contact', current: true }
@@ -14,7 +18,7 @@ export default function Contact() {
 
   return (
     <Layout breadcrumbItems={breadcrumbItems}>
-      <ContactPage />
+      <ContactPage preview={searchParams.preview === 'draft'} />
     </Layout>
   )
 }
\ No newline at end of file
@@ -0,0 +1,28 @@
+import DocumentLibrary from '@/components/documents/DocumentLibrary'
+import { PageLayout } from '@/components/layout/Layout'
+import { Metadata } from 'next'
+
+export const metadata: Metadata = {
+  title: 'Technical Documents - Pipe Supply Co.',
+  description: 'Download specification sheets, installation guides, safety data sheets and certificates for our pipes and fittings',
+}
+
+export default function DocumentsPage() {
+  const breadcrumbItems = [
+    { name: 'Home', href: '/' },
+    { name: 'Documents', href: '/documents', current: true }
+  ]
+
+  return (
+    <PageLayout
+      title="Technical Document Library"
+      description="Specification sheets, installation guides, safety data sheets and certificates for every product."
+      breadcrumbItems={breadcrumbItems}
+      className="bg-gray-50"
+    >
+      <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+        <DocumentLibrary />
+      </div>
+    </PageLayout>
+  )
+}
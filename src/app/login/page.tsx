@@ -44,7 +44,7 @@ export default function LoginPage() {
             Admin Login
           </h2>
           <p className="mt-2 text-center text-sm text-gray-600">
-            Demo: admin@pipe.com / admin123
+            Sign in with your staff account
           </p>
         </div>
         <form className="mt-8 space-y-6" onSubmit={handleSubmit}>
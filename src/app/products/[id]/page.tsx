@@ -0,0 +1,48 @@
+import { notFound } from 'next/navigation'
+import { Metadata } from 'next'
+import ProductDetail from '@/components/products/ProductDetail'
+import Layout from '@/components/layout/Layout'
+import { prisma } from '@/lib/prisma'
+import { getRelatedProducts } from '@/lib/product-relations'
+import { ProductWithImages, RelatedProducts } from '@/types/product'
+
+export const dynamic = 'force-dynamic'
+
+interface ProductPageProps {
+  params: { id: string }
+}
+
+async function getProduct(id: string) {
+  return prisma.product.findUnique({
+    where: { id },
+    include: {
+      images: true,
+      bulkDiscounts: true,
+      variants: { include: { bulkDiscounts: true }, orderBy: { position: 'asc' } }
+    }
+  })
+}
+
+export async function generateMetadata({ params }: ProductPageProps): Promise<Metadata> {
+  const product = await getProduct(params.id)
+  return product
+    ? { title: `${product.name} - Pipe Supply Co.`, description: product.description }
+    : { title: 'Product Not Found - Pipe Supply Co.' }
+}
+
+export default async function ProductPage({ params }: ProductPageProps) {
+  const product = await getProduct(params.id)
+
+  if (!product) {
+    notFound()
+  }
+
+  const related = await getRelatedProducts(prisma, product.id)
+
+  // Documents are fetched by the product's document panel, filtered to the viewer
+  return (
+    <Layout className="bg-gray-50">
+      <ProductDetail product={product as ProductWithImages} related={(related ?? undefined) as RelatedProducts | undefined} />
+    </Layout>
+  )
+}
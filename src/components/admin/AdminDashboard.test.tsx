@@ -27,6 +27,12 @@ jest.mock('./ContentEditor', () => {
   }
 })
 
+jest.mock('./UserManager', () => {
+  return function MockUserManager() {
+    return <div>User Manager</div>
+  }
+})
+
 // Mock fetch for API calls
 global.fetch = jest.fn()
 
@@ -68,4 +74,40 @@ describe('AdminDashboard', () => {
     
     expect(screen.getByText('Loading...')).toBeInTheDocument()
   })
-})
\ No newline at end of file
+
+  test('shows the Users tab only to user managers', async () => {
+    (fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ pagination: { total: 0 }, products: [] })
+    })
+
+    const { unmount } = render(<AdminDashboard />)
+    await waitFor(() => expect(screen.getByText('Overview')).toBeInTheDocument())
+    expect(screen.queryByText('Users')).not.toBeInTheDocument()
+    unmount()
+
+    render(<AdminDashboard canManageUsers />)
+    await waitFor(() => expect(screen.getByText('Users')).toBeInTheDocument())
+  })
+
+  test('warns about certifications that are expiring or have expired', async () => {
+    (fetch as jest.Mock).mockImplementation((url: string) => Promise.resolve({
+      ok: true,
+      json: () => Promise.resolve(url === '/api/documents/expiring'
+        ? {
+            documents: [
+              { id: 'd1', name: 'NSF-61 Certificate', productName: 'PVC Pipe', expiresAt: '2024-01-10T00:00:00Z', expired: true },
+              { id: 'd2', name: 'ISO 9001 Certificate', productName: 'Steel Pipe', expiresAt: '2024-02-01T00:00:00Z', expired: false }
+            ]
+          }
+        : { pagination: { total: 0 }, products: [] })
+    }))
+
+    render(<AdminDashboard />)
+
+    await waitFor(() => expect(screen.getByRole('alert')).toHaveTextContent('2 certifications need renewing'))
+    expect(screen.getByText('NSF-61 Certificate')).toBeInTheDocument()
+    expect(screen.getByRole('alert')).toHaveTextContent(/\(PVC Pipe\) expired on/)
+    expect(screen.getByRole('alert')).toHaveTextContent(/\(Steel Pipe\) expires on/)
+  })
+})
@@ -6,6 +6,7 @@ import ProductManager from './ProductManager'
 import QuoteManager from './QuoteManager'
 import MediaUploader from './MediaUploader'
 import ContentEditor from './ContentEditor'
+import UserManager from './UserManager'
 import LoadingSpinner from '@/components/ui/LoadingSpinner'
 
 interface DashboardStats {
@@ -24,16 +25,42 @@ interface ActivityItem {
   user?: string
 }
 
-export default function AdminDashboard() {
+interface ExpiringCertification {
+  id: string
+  name: string
+  productName: string
+  expiresAt: string
+  expired: boolean
+}
+
+interface AdminDashboardProps {
+  // Whether the signed-in user holds MANAGE_USERS and should see the Users tab
+  canManageUsers?: boolean
+}
 
-  const [activeTab, setActiveTab] = useState<'overview' | 'products' | 'quotes' | 'media' | 'content'>('overview')
+export default function AdminDashboard({ canManageUsers = false }: AdminDashboardProps) {
+
+  const [activeTab, setActiveTab] = useState<'overview' | 'products' | 'quotes' | 'media' | 'content' | 'users'>('overview')
   const [stats, setStats] = useState<DashboardStats | null>(null)
   const [loading, setLoading] = useState(true)
+  const [expiringCertifications, setExpiringCertifications] = useState<ExpiringCertification[]>([])
 
   useEffect(() => {
     fetchDashboardStats()
+    fetchExpiringCertifications()
   }, [])
 
+  const fetchExpiringCertifications = async () => {
+    try {
+      const res = await fetch('/api/documents/expiring')
+      if (!res.ok) return
+      const data = await res.json()
+      setExpiringCertifications(data.documents || [])
+    } catch (error) {
+      console.error('Failed to fetch expiring certifications:', error)
+    }
+  }
+
   const fetchDashboardStats = async () => {
     try {
       setLoading(true)
@@ -46,14 +73,14 @@ export default function AdminDashboard() {
       const quotesData = await quotesRes.json()
       
       // Fetch low stock products
-      const lowStockRes = await fetch('/api/products?availability=LOW_STOCK')
+      const lowStockRes = await fetch('/api/products?availability=LOW_STOCK&limit=1')
       const lowStockData = await lowStockRes.json()
 
       setStats({
         totalProducts: productsData.pagination?.total || 0,
         totalQuotes: quotesData.pagination?.total || 0,
         pendingQuotes: quotesData.quotes?.filter((q: any) => q.status === 'PENDING').length || 0,
-        lowStockProducts: lowStockData.products?.length || 0,
+        lowStockProducts: lowStockData.pagination?.total || 0,
         recentActivity: []
       })
     } catch (error) {
@@ -127,6 +154,18 @@ export default function AdminDashboard() {
             >
               Content
             </button>
+            {canManageUsers && (
+              <button
+                onClick={() => setActiveTab('users')}
+                className={`py-4 px-1 border-b-2 font-medium text-sm ${
+                  activeTab === 'users'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+                }`}
+              >
+                Users
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -136,6 +175,23 @@ export default function AdminDashboard() {
         {activeTab === 'overview' && (
           <div className="px-4 py-6 sm:px-0">
             <h2 className="text-2xl font-bold text-gray-900 mb-6">System Overview</h2>
+
+            {/* Certification Expiry Warning */}
+            {expiringCertifications.length > 0 && (
+              <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-8" role="alert">
+                <h3 className="text-sm font-medium text-yellow-800">
+                  {expiringCertifications.length} certification{expiringCertifications.length === 1 ? '' : 's'} need{expiringCertifications.length === 1 ? 's' : ''} renewing
+                </h3>
+                <ul className="mt-2 text-sm text-yellow-700 space-y-1">
+                  {expiringCertifications.map(document => (
+                    <li key={document.id}>
+                      <span className="font-medium">{document.name}</span> ({document.productName}){' '}
+                      {document.expired ? 'expired' : 'expires'} on {new Date(document.expiresAt).toLocaleDateString()}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
             
             {/* Stats Grid */}
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
@@ -258,6 +314,8 @@ export default function AdminDashboard() {
         )}
 
         {activeTab === 'content' && <ContentEditor />}
+
+        {activeTab === 'users' && canManageUsers && <UserManager />}
       </main>
     </div>
   )
@@ -0,0 +1,387 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import LoadingSpinner from '@/components/ui/LoadingSpinner'
+
+interface Certification {
+  id: string
+  name: string
+  issuer: string
+  certificateNumber: string | null
+  scope: string | null
+  issuedAt: string | null
+  expiresAt: string | null
+  position: number
+  media: { id: string; originalName: string; url: string } | null
+  status: 'VALID' | 'EXPIRING_SOON' | 'EXPIRED'
+}
+
+interface CertificationForm {
+  name: string
+  issuer: string
+  certificateNumber: string
+  scope: string
+  issuedAt: string
+  expiresAt: string
+  media: Certification['media']
+}
+
+const EMPTY_FORM: CertificationForm = {
+  name: '',
+  issuer: '',
+  certificateNumber: '',
+  scope: '',
+  issuedAt: '',
+  expiresAt: '',
+  media: null
+}
+
+const STATUS_BADGES: Record<Certification['status'], { label: string; className: string }> = {
+  VALID: { label: 'Valid', className: 'bg-green-100 text-green-800' },
+  EXPIRING_SOON: { label: 'Renewal due', className: 'bg-yellow-100 text-yellow-800' },
+  EXPIRED: { label: 'Expired - hidden from site', className: 'bg-red-100 text-red-800' }
+}
+
+// Dates are edited as YYYY-MM-DD
+function toDateInput(value: string | null): string {
+  return value ? value.slice(0, 10) : ''
+}
+
+/**
+ * The certification registry. Unlike the rest of the company content,
+ * changes here are saved straight away rather than through the draft.
+ */
+export default function CertificationEditor() {
+  const [certifications, setCertifications] = useState<Certification[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [uploading, setUploading] = useState(false)
+  const [error, setError] = useState('')
+  // Id of the certification being edited, 'new' when adding one
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [form, setForm] = useState<CertificationForm>(EMPTY_FORM)
+
+  useEffect(() => {
+    fetchCertifications()
+  }, [])
+
+  const fetchCertifications = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/company/certifications')
+      if (response.ok) {
+        const data = await response.json()
+        setCertifications(data.certifications)
+      } else {
+        setError('Failed to fetch certifications')
+      }
+    } catch (error) {
+      setError('Failed to fetch certifications')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const startEditing = (cert?: Certification) => {
+    setError('')
+    setEditingId(cert?.id ?? 'new')
+    setForm(cert
+      ? {
+          name: cert.name,
+          issuer: cert.issuer,
+          certificateNumber: cert.certificateNumber ?? '',
+          scope: cert.scope ?? '',
+          issuedAt: toDateInput(cert.issuedAt),
+          expiresAt: toDateInput(cert.expiresAt),
+          media: cert.media
+        }
+      : EMPTY_FORM)
+  }
+
+  const handleFileUpload = async (file: File | undefined) => {
+    if (!file) return
+    if (file.type !== 'application/pdf') {
+      setError('Certificate file must be a PDF')
+      return
+    }
+
+    try {
+      setUploading(true)
+      setError('')
+
+      const formData = new FormData()
+      formData.append('file', file)
+      const response = await fetch('/api/media/upload', { method: 'POST', body: formData })
+
+      if (response.ok) {
+        const media = await response.json()
+        setForm(prev => ({ ...prev, media: { id: media.id, originalName: media.originalName, url: media.url } }))
+      } else {
+        const errorData = await response.json()
+        setError(errorData.error || 'Failed to upload certificate')
+      }
+    } catch (error) {
+      setError('Failed to upload certificate')
+    } finally {
+      setUploading(false)
+    }
+  }
+
+  const handleSave = async () => {
+    try {
+      setSaving(true)
+      setError('')
+
+      const isNew = editingId === 'new'
+      const response = await fetch(isNew ? '/api/company/certifications' : `/api/company/certifications/${editingId}`, {
+        method: isNew ? 'POST' : 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: form.name,
+          issuer: form.issuer,
+          certificateNumber: form.certificateNumber,
+          scope: form.scope,
+          issuedAt: form.issuedAt || null,
+          expiresAt: form.expiresAt || null,
+          mediaId: form.media?.id ?? null
+        })
+      })
+
+      if (response.ok) {
+        setEditingId(null)
+        await fetchCertifications()
+      } else {
+        const errorData = await response.json()
+        setError(errorData.error || 'Failed to save certification')
+      }
+    } catch (error) {
+      setError('Failed to save certification')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (cert: Certification) => {
+    if (!confirm(`Delete ${cert.name}? It will be removed from the site.`)) return
+
+    try {
+      setError('')
+      const response = await fetch(`/api/company/certifications/${cert.id}`, { method: 'DELETE' })
+      if (response.ok) {
+        setCertifications(prev => prev.filter(c => c.id !== cert.id))
+      } else {
+        const errorData = await response.json()
+        setError(errorData.error || 'Failed to delete certification')
+      }
+    } catch (error) {
+      setError('Failed to delete certification')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <LoadingSpinner />
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <h4 className="text-md font-medium text-gray-900">Certifications</h4>
+        {editingId === null && (
+          <button
+            onClick={() => startEditing()}
+            className="bg-green-600 text-white px-3 py-1 rounded text-sm hover:bg-green-700"
+          >
+            Add Certification
+          </button>
+        )}
+      </div>
+      <p className="text-sm text-gray-500 mb-4">
+        Certification changes are saved immediately. Admins are emailed 60, 30 and 7 days before a certificate expires.
+      </p>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded mb-4">
+          {error}
+        </div>
+      )}
+
+      {editingId !== null && (
+        <div className="border border-blue-200 rounded-lg p-4 mb-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="cert-name" className="block text-sm font-medium text-gray-700 mb-1">
+                Certification Name
+              </label>
+              <input
+                id="cert-name"
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                className="w-full border border-gray-300 rounded-md px-3 py-2"
+                placeholder="e.g., ISO 9001:2015"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="cert-issuer" className="block text-sm font-medium text-gray-700 mb-1">
+                Issuing Organization
+              </label>
+              <input
+                id="cert-issuer"
+                type="text"
+                value={form.issuer}
+                onChange={(e) => setForm(prev => ({ ...prev, issuer: e.target.value }))}
+                className="w-full border border-gray-300 rounded-md px-3 py-2"
+                placeholder="e.g., International Organization for Standardization"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="cert-number" className="block text-sm font-medium text-gray-700 mb-1">
+                Certificate Number (Optional)
+              </label>
+              <input
+                id="cert-number"
+                type="text"
+                value={form.certificateNumber}
+                onChange={(e) => setForm(prev => ({ ...prev, certificateNumber: e.target.value }))}
+                className="w-full border border-gray-300 rounded-md px-3 py-2"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Certificate PDF (Optional)
+              </label>
+              {form.media ? (
+                <div className="flex items-center space-x-3 py-2">
+                  <a href={form.media.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800 text-sm">
+                    {form.media.originalName}
+                  </a>
+                  <button
+                    onClick={() => setForm(prev => ({ ...prev, media: null }))}
+                    className="text-red-600 hover:text-red-800 text-sm"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ) : (
+                <input
+                  type="file"
+                  accept="application/pdf"
+                  disabled={uploading}
+                  onChange={(e) => handleFileUpload(e.target.files?.[0])}
+                  className="w-full text-sm py-2"
+                />
+              )}
+            </div>
+
+            <div>
+              <label htmlFor="cert-issued" className="block text-sm font-medium text-gray-700 mb-1">
+                Issue Date (Optional)
+              </label>
+              <input
+                id="cert-issued"
+                type="date"
+                value={form.issuedAt}
+                onChange={(e) => setForm(prev => ({ ...prev, issuedAt: e.target.value }))}
+                className="w-full border border-gray-300 rounded-md px-3 py-2"
+              />
+            </div>
+
+            <div>
+              <label htmlFor="cert-expires" className="block text-sm font-medium text-gray-700 mb-1">
+                Expiry Date (Optional)
+              </label>
+              <input
+                id="cert-expires"
+                type="date"
+                value={form.expiresAt}
+                onChange={(e) => setForm(prev => ({ ...prev, expiresAt: e.target.value }))}
+                className="w-full border border-gray-300 rounded-md px-3 py-2"
+              />
+            </div>
+
+            <div className="md:col-span-2">
+              <label htmlFor="cert-scope" className="block text-sm font-medium text-gray-700 mb-1">
+                Scope (Optional)
+              </label>
+              <textarea
+                id="cert-scope"
+                value={form.scope}
+                onChange={(e) => setForm(prev => ({ ...prev, scope: e.target.value }))}
+                rows={3}
+                className="w-full border border-gray-300 rounded-md px-3 py-2"
+                placeholder="e.g., Distribution of carbon steel pipe, fittings and valves"
+              />
+            </div>
+          </div>
+
+          <div className="mt-4 flex justify-end space-x-3">
+            <button
+              onClick={() => setEditingId(null)}
+              className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={saving || uploading}
+              className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Certification'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {certifications.map(cert => (
+          <div key={cert.id} className="border border-gray-200 rounded-lg p-4 flex items-start justify-between">
+            <div>
+              <div className="flex items-center space-x-2">
+                <span className="font-medium text-gray-900">{cert.name}</span>
+                <span className={`px-2 py-0.5 text-xs rounded-full ${STATUS_BADGES[cert.status].className}`}>
+                  {STATUS_BADGES[cert.status].label}
+                </span>
+              </div>
+              <p className="text-sm text-gray-600">
+                {cert.issuer}
+                {cert.certificateNumber && ` · No. ${cert.certificateNumber}`}
+              </p>
+              <p className="text-sm text-gray-500">
+                {cert.expiresAt ? `Expires ${new Date(cert.expiresAt).toLocaleDateString()}` : 'No expiry'}
+                {cert.media && (
+                  <>
+                    {' · '}
+                    <a href={cert.media.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800">
+                      Certificate PDF
+                    </a>
+                  </>
+                )}
+              </p>
+            </div>
+            <div className="flex space-x-3 text-sm">
+              <button onClick={() => startEditing(cert)} className="text-blue-600 hover:text-blue-800">
+                Edit
+              </button>
+              <button onClick={() => handleDelete(cert)} className="text-red-600 hover:text-red-800">
+                Delete
+              </button>
+            </div>
+          </div>
+        ))}
+
+        {certifications.length === 0 && editingId === null && (
+          <p className="text-gray-500 text-center py-4">
+            No certifications added yet. Click "Add Certification" to get started.
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
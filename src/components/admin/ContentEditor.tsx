@@ -2,13 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import LoadingSpinner from '@/components/ui/LoadingSpinner'
-
-interface Certification {
-  name: string
-  issuer: string
-  validUntil?: string
-  documentUrl?: string
-}
+import CertificationEditor from './CertificationEditor'
 
 interface CompanyContent {
   id?: string
@@ -25,11 +19,19 @@ interface CompanyContent {
   phone?: string
   email?: string
   website?: string
-  certifications?: Certification[]
   serviceAreas?: string[]
   specialties?: string[]
 }
 
+interface ContentVersion {
+  id: string
+  version: number
+  status: 'DRAFT' | 'PUBLISHED' | 'ARCHIVED'
+  publishedAt?: string | null
+  updatedAt: string
+  createdBy?: { id: string; name: string; email: string } | null
+}
+
 export default function ContentEditor() {
   const [content, setContent] = useState<CompanyContent>({
     name: '',
@@ -45,7 +47,6 @@ export default function ContentEditor() {
     phone: '',
     email: '',
     website: '',
-    certifications: [],
     serviceAreas: [],
     specialties: []
   })
@@ -53,19 +54,25 @@ export default function ContentEditor() {
   const [saving, setSaving] = useState(false)
   const [error, setError] = useState('')
   const [success, setSuccess] = useState('')
-  const [activeSection, setActiveSection] = useState<'basic' | 'contact' | 'about' | 'certifications'>('basic')
+  const [activeSection, setActiveSection] = useState<'basic' | 'contact' | 'about' | 'certifications' | 'versions'>('basic')
+  // The saved draft, when there are unpublished changes
+  const [draft, setDraft] = useState<ContentVersion | null>(null)
+  const [versions, setVersions] = useState<ContentVersion[]>([])
 
   useEffect(() => {
     fetchCompanyContent()
+    fetchVersions()
   }, [])
 
+  // The editor works on the draft when there is one, else on the published content
   const fetchCompanyContent = async () => {
     try {
       setLoading(true)
-      const response = await fetch('/api/company')
+      const response = await fetch('/api/company/draft')
       if (response.ok) {
         const data = await response.json()
-        setContent(data)
+        setContent(data.draft?.data ?? data.published)
+        setDraft(data.draft)
       } else {
         setError('Failed to fetch company content')
       }
@@ -76,28 +83,125 @@ export default function ContentEditor() {
     }
   }
 
+  const fetchVersions = async () => {
+    try {
+      const response = await fetch('/api/company/versions')
+      if (response.ok) {
+        const data = await response.json()
+        setVersions(data.versions)
+      }
+    } catch (error) {
+      setError('Failed to fetch content versions')
+    }
+  }
+
+  const saveDraft = async (): Promise<boolean> => {
+    const response = await fetch('/api/company', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(content)
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json()
+      setError(errorData.error || 'Failed to save company content')
+      return false
+    }
+
+    setDraft(await response.json())
+    return true
+  }
+
   const handleSave = async () => {
     try {
       setSaving(true)
       setError('')
       setSuccess('')
 
-      const response = await fetch('/api/company', {
-        method: 'PUT',
+      if (await saveDraft()) {
+        setSuccess('Draft saved. Publish it to update the site.')
+        fetchVersions()
+      }
+    } catch (error) {
+      setError('Failed to save company content')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // Saves the current edits, then publishes them
+  const handlePublish = async () => {
+    try {
+      setSaving(true)
+      setError('')
+      setSuccess('')
+
+      if (!(await saveDraft())) return
+
+      const response = await fetch('/api/company/publish', { method: 'POST' })
+      if (response.ok) {
+        setDraft(null)
+        setSuccess('Company content published')
+        fetchVersions()
+      } else {
+        const errorData = await response.json()
+        setError(errorData.error || 'Failed to publish company content')
+      }
+    } catch (error) {
+      setError('Failed to publish company content')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDiscard = async () => {
+    if (!confirm('Discard the unpublished changes?')) return
+
+    try {
+      setSaving(true)
+      setError('')
+      setSuccess('')
+
+      const response = await fetch('/api/company/draft', { method: 'DELETE' })
+      if (response.ok) {
+        setSuccess('Draft discarded')
+        await fetchCompanyContent()
+        fetchVersions()
+      } else {
+        const errorData = await response.json()
+        setError(errorData.error || 'Failed to discard draft')
+      }
+    } catch (error) {
+      setError('Failed to discard draft')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // Publishes an earlier version again; unpublished edits stay in the draft
+  const handleRollback = async (version: ContentVersion) => {
+    if (!confirm(`Publish version ${version.version} again? It will replace the content on the site.`)) return
+
+    try {
+      setSaving(true)
+      setError('')
+      setSuccess('')
+
+      const response = await fetch('/api/company/publish', {
+        method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(content)
+        body: JSON.stringify({ versionId: version.id })
       })
-
       if (response.ok) {
-        setSuccess('Company content updated successfully')
-        const updatedContent = await response.json()
-        setContent(updatedContent)
+        setSuccess(`Version ${version.version} published`)
+        if (!draft) await fetchCompanyContent()
+        fetchVersions()
       } else {
         const errorData = await response.json()
-        setError(errorData.error || 'Failed to update company content')
+        setError(errorData.error || 'Failed to restore version')
       }
     } catch (error) {
-      setError('Failed to update company content')
+      setError('Failed to restore version')
     } finally {
       setSaving(false)
     }
@@ -128,29 +232,6 @@ export default function ContentEditor() {
     }))
   }
 
-  const handleCertificationChange = (index: number, field: keyof Certification, value: string) => {
-    setContent(prev => ({
-      ...prev,
-      certifications: prev.certifications?.map((cert, i) => 
-        i === index ? { ...cert, [field]: value } : cert
-      ) || []
-    }))
-  }
-
-  const addCertification = () => {
-    setContent(prev => ({
-      ...prev,
-      certifications: [...(prev.certifications || []), { name: '', issuer: '' }]
-    }))
-  }
-
-  const removeCertification = (index: number) => {
-    setContent(prev => ({
-      ...prev,
-      certifications: prev.certifications?.filter((_, i) => i !== index) || []
-    }))
-  }
-
   if (loading) {
     return (
       <div className="flex justify-center py-8">
@@ -162,14 +243,49 @@ export default function ContentEditor() {
   return (
     <div className="px-4 py-6 sm:px-0">
       <div className="flex justify-between items-center mb-6">
-        <h2 className="text-2xl font-bold text-gray-900">Company Content Management</h2>
-        <button
-          onClick={handleSave}
-          disabled={saving}
-          className="bg-blue-600 text-white px-6 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50"
-        >
-          {saving ? 'Saving...' : 'Save Changes'}
-        </button>
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Company Content Management</h2>
+          <p className="text-sm text-gray-500">
+            {draft
+              ? `Editing draft version ${draft.version}, not yet on the site`
+              : 'Showing the published content'}
+          </p>
+        </div>
+        <div className="flex items-center space-x-3">
+          {draft && (
+            <>
+              <a
+                href="/about?preview=draft"
+                target="_blank"
+                rel="noopener noreferrer"
+                className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+              >
+                Preview
+              </a>
+              <button
+                onClick={handleDiscard}
+                disabled={saving}
+                className="px-4 py-2 border border-red-300 text-red-700 rounded-md hover:bg-red-50 disabled:opacity-50"
+              >
+                Discard Draft
+              </button>
+            </>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 border border-blue-600 text-blue-600 rounded-md hover:bg-blue-50 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save Draft'}
+          </button>
+          <button
+            onClick={handlePublish}
+            disabled={saving}
+            className="bg-blue-600 text-white px-6 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            Publish
+          </button>
+        </div>
       </div>
 
       {/* Alerts */}
@@ -191,7 +307,8 @@ export default function ContentEditor() {
             { key: 'basic', label: 'Basic Information' },
             { key: 'contact', label: 'Contact Details' },
             { key: 'about', label: 'About Company' },
-            { key: 'certifications', label: 'Certifications & Services' }
+            { key: 'certifications', label: 'Certifications & Services' },
+            { key: 'versions', label: 'Version History' }
           ].map(({ key, label }) => (
             <button
               key={key}
@@ -409,91 +526,7 @@ export default function ContentEditor() {
             <h3 className="text-lg font-medium text-gray-900">Certifications & Services</h3>
             
             {/* Certifications */}
-            <div>
-              <div className="flex justify-between items-center mb-4">
-                <h4 className="text-md font-medium text-gray-900">Certifications</h4>
-                <button
-                  onClick={addCertification}
-                  className="bg-green-600 text-white px-3 py-1 rounded text-sm hover:bg-green-700"
-                >
-                  Add Certification
-                </button>
-              </div>
-              
-              <div className="space-y-4">
-                {content.certifications?.map((cert, index) => (
-                  <div key={index} className="border border-gray-200 rounded-lg p-4">
-                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-1">
-                          Certification Name
-                        </label>
-                        <input
-                          type="text"
-                          value={cert.name}
-                          onChange={(e) => handleCertificationChange(index, 'name', e.target.value)}
-                          className="w-full border border-gray-300 rounded-md px-3 py-2"
-                          placeholder="e.g., ISO 9001"
-                        />
-                      </div>
-                      
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-1">
-                          Issuing Organization
-                        </label>
-                        <input
-                          type="text"
-                          value={cert.issuer}
-                          onChange={(e) => handleCertificationChange(index, 'issuer', e.target.value)}
-                          className="w-full border border-gray-300 rounded-md px-3 py-2"
-                          placeholder="e.g., International Organization for Standardization"
-                        />
-                      </div>
-                      
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-1">
-                          Valid Until (Optional)
-                        </label>
-                        <input
-                          type="date"
-                          value={cert.validUntil || ''}
-                          onChange={(e) => handleCertificationChange(index, 'validUntil', e.target.value)}
-                          className="w-full border border-gray-300 rounded-md px-3 py-2"
-                        />
-                      </div>
-                      
-                      <div>
-                        <label className="block text-sm font-medium text-gray-700 mb-1">
-                          Document URL (Optional)
-                        </label>
-                        <input
-                          type="url"
-                          value={cert.documentUrl || ''}
-                          onChange={(e) => handleCertificationChange(index, 'documentUrl', e.target.value)}
-                          className="w-full border border-gray-300 rounded-md px-3 py-2"
-                          placeholder="https://..."
-                        />
-                      </div>
-                    </div>
-                    
-                    <div className="mt-3 flex justify-end">
-                      <button
-                        onClick={() => removeCertification(index)}
-                        className="text-red-600 hover:text-red-800 text-sm"
-                      >
-                        Remove Certification
-                      </button>
-                    </div>
-                  </div>
-                ))}
-                
-                {(!content.certifications || content.certifications.length === 0) && (
-                  <p className="text-gray-500 text-center py-4">
-                    No certifications added yet. Click "Add Certification" to get started.
-                  </p>
-                )}
-              </div>
-            </div>
+            <CertificationEditor />
 
             {/* Service Areas */}
             <div>
@@ -578,6 +611,58 @@ export default function ContentEditor() {
             </div>
           </div>
         )}
+
+        {/* Version History Section */}
+        {activeSection === 'versions' && (
+          <div className="space-y-4">
+            <h3 className="text-lg font-medium text-gray-900">Version History</h3>
+            {versions.length === 0 ? (
+              <p className="text-gray-500 text-center py-4">Nothing has been saved yet.</p>
+            ) : (
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {['Version', 'Status', 'Saved By', 'Date', ''].map(heading => (
+                      <th key={heading} className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {heading}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {versions.map(version => (
+                    <tr key={version.id}>
+                      <td className="px-4 py-2 text-sm text-gray-900">{version.version}</td>
+                      <td className="px-4 py-2 text-sm">
+                        <span className={`px-2 py-1 text-xs rounded-full ${
+                          version.status === 'PUBLISHED' ? 'bg-green-100 text-green-800' :
+                          version.status === 'DRAFT' ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-100 text-gray-700'
+                        }`}>
+                          {version.status === 'PUBLISHED' ? 'Live' : version.status === 'DRAFT' ? 'Draft' : 'Archived'}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2 text-sm text-gray-700">{version.createdBy?.name ?? '—'}</td>
+                      <td className="px-4 py-2 text-sm text-gray-700">
+                        {new Date(version.publishedAt ?? version.updatedAt).toLocaleString()}
+                      </td>
+                      <td className="px-4 py-2 text-sm text-right">
+                        {version.status === 'ARCHIVED' && (
+                          <button
+                            onClick={() => handleRollback(version)}
+                            disabled={saving}
+                            className="text-blue-600 hover:text-blue-900 disabled:opacity-50"
+                          >
+                            Restore
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
       </div>
     </div>
   )
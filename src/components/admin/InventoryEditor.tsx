@@ -0,0 +1,296 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { AvailabilityStatus, InventoryLevel, ProductInventory, StockMovementType } from '@/types/product'
+
+interface InventoryEditorProps {
+  productId: string
+  // Stock changes can move the product between in stock, low stock and out of stock
+  onAvailabilityChange?: (availability: AvailabilityStatus) => void
+}
+
+const MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  RECEIPT: 'Receipt',
+  ADJUSTMENT: 'Adjustment',
+  RESERVATION: 'Reserved',
+  SHIPMENT: 'Shipped'
+}
+
+// Change to on-hand or reserved stock, as shown in the movement list
+function signedQuantity(type: StockMovementType, quantity: number): string {
+  const change = type === StockMovementType.SHIPMENT ? -quantity : quantity
+  return change > 0 ? `+${change}` : String(change)
+}
+
+// Where stock is kept, e.g. `SCH40-2IN at HOUSTON`
+function levelLabel(level: { location: string; variant?: { sku: string } | null }): string {
+  return level.variant ? `${level.variant.sku} at ${level.location}` : level.location
+}
+
+const MANUAL_AVAILABILITY = [AvailabilityStatus.SPECIAL_ORDER, AvailabilityStatus.DISCONTINUED]
+
+const EMPTY_MOVEMENT = { levelId: '', type: StockMovementType.RECEIPT, quantity: '', note: '' }
+
+export default function InventoryEditor({ productId, onAvailabilityChange }: InventoryEditorProps) {
+  const [inventory, setInventory] = useState<ProductInventory | null>(null)
+  const [error, setError] = useState('')
+  const [saving, setSaving] = useState(false)
+  // Reorder point and lead time edits, by level id
+  const [settings, setSettings] = useState<Record<string, { reorderPoint: string; leadTimeDays: string }>>({})
+  const [newLocation, setNewLocation] = useState('')
+  // Variant the new location stocks; empty for the product as a whole
+  const [newVariantId, setNewVariantId] = useState('')
+  const [movement, setMovement] = useState(EMPTY_MOVEMENT)
+
+  useEffect(() => {
+    fetchInventory()
+  }, [productId])
+
+  const fetchInventory = async () => {
+    try {
+      const response = await fetch(`/api/products/${productId}/inventory`)
+      if (response.ok) {
+        const data: ProductInventory = await response.json()
+        setInventory(data)
+        setSettings(Object.fromEntries(data.levels.map(level => [
+          level.id,
+          { reorderPoint: String(level.reorderPoint), leadTimeDays: level.leadTimeDays?.toString() ?? '' }
+        ])))
+        onAvailabilityChange?.(data.availability)
+      } else {
+        setError('Failed to load inventory')
+      }
+    } catch (error) {
+      setError('Failed to load inventory')
+    }
+  }
+
+  const submit = async (url: string, method: string, body: object): Promise<boolean> => {
+    try {
+      setSaving(true)
+      setError('')
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body)
+      })
+      if (!response.ok) {
+        const errorData = await response.json()
+        setError(errorData.error || 'Failed to update inventory')
+        return false
+      }
+      await fetchInventory()
+      return true
+    } catch (error) {
+      setError('Failed to update inventory')
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const saveLevel = (location: string, variantId: string | null, values: { reorderPoint: string; leadTimeDays: string }) =>
+    submit(`/api/products/${productId}/inventory`, 'PUT', {
+      location,
+      variantId,
+      reorderPoint: parseInt(values.reorderPoint) || 0,
+      leadTimeDays: values.leadTimeDays === '' ? null : parseInt(values.leadTimeDays)
+    })
+
+  const addLocation = async () => {
+    if (await saveLevel(newLocation, newVariantId || null, { reorderPoint: '0', leadTimeDays: '' })) {
+      setNewLocation('')
+    }
+  }
+
+  const recordMovement = async () => {
+    const level = inventory?.levels.find(level => level.id === movement.levelId) ?? inventory?.levels[0]
+    const saved = await submit(`/api/products/${productId}/inventory/movements`, 'POST', {
+      location: level?.location,
+      variantId: level?.variantId ?? null,
+      type: movement.type,
+      quantity: parseInt(movement.quantity),
+      note: movement.note
+    })
+    if (saved) setMovement({ ...EMPTY_MOVEMENT, levelId: movement.levelId })
+  }
+
+  if (!inventory) {
+    return <p className="text-sm text-gray-500">{error || 'Loading inventory...'}</p>
+  }
+
+  const updateSetting = (level: InventoryLevel, field: 'reorderPoint' | 'leadTimeDays', value: string) => {
+    setSettings(prev => ({ ...prev, [level.id]: { ...prev[level.id], [field]: value } }))
+  }
+
+  return (
+    <div className="border-t pt-4">
+      <h4 className="text-md font-medium text-gray-900 mb-1">Inventory</h4>
+      <p className="text-sm text-gray-500 mb-3">
+        {!inventory.tracked
+          ? 'Not tracked yet. Record a receipt to start tracking stock; availability will then follow it.'
+          : MANUAL_AVAILABILITY.includes(inventory.availability)
+            ? `Marked ${inventory.availability.replace('_', ' ').toLowerCase()}; stock does not change availability.`
+            : `${inventory.totals.available} available (${inventory.totals.onHand} on hand, ${inventory.totals.reserved} reserved). Availability follows stock.`}
+      </p>
+
+      {error && <p className="mb-3 text-sm text-red-600">{error}</p>}
+
+      {inventory.levels.length > 0 && (
+        <table className="min-w-full text-sm mb-4">
+          <thead>
+            <tr className="text-left text-xs text-gray-500 uppercase">
+              <th className="py-1">Location</th>
+              {inventory.variants.length > 0 && <th className="py-1">Variant</th>}
+              <th className="py-1">On Hand</th>
+              <th className="py-1">Reserved</th>
+              <th className="py-1">Available</th>
+              <th className="py-1">Reorder Point</th>
+              <th className="py-1">Lead Time (days)</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {inventory.levels.map(level => (
+              <tr key={level.id} className="border-t">
+                <td className="py-1 font-medium">{level.location}</td>
+                {inventory.variants.length > 0 && <td className="py-1">{level.variant?.sku ?? 'All variants'}</td>}
+                <td className="py-1">{level.onHand}</td>
+                <td className="py-1">{level.reserved}</td>
+                <td className={`py-1 ${level.available <= level.reorderPoint ? 'text-yellow-700' : ''}`}>{level.available}</td>
+                <td className="py-1">
+                  <input
+                    type="number"
+                    min="0"
+                    aria-label={`Reorder point for ${levelLabel(level)}`}
+                    value={settings[level.id]?.reorderPoint ?? ''}
+                    onChange={(e) => updateSetting(level, 'reorderPoint', e.target.value)}
+                    className="w-20 border border-gray-300 rounded px-2 py-1"
+                  />
+                </td>
+                <td className="py-1">
+                  <input
+                    type="number"
+                    min="0"
+                    aria-label={`Lead time for ${levelLabel(level)}`}
+                    value={settings[level.id]?.leadTimeDays ?? ''}
+                    onChange={(e) => updateSetting(level, 'leadTimeDays', e.target.value)}
+                    className="w-20 border border-gray-300 rounded px-2 py-1"
+                  />
+                </td>
+                <td className="py-1 text-right">
+                  <button
+                    type="button"
+                    onClick={() => saveLevel(level.location, level.variantId ?? null, settings[level.id])}
+                    disabled={saving}
+                    className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="flex flex-wrap items-end gap-2 mb-4">
+        <select
+          aria-label="Movement type"
+          value={movement.type}
+          onChange={(e) => setMovement({ ...movement, type: e.target.value as StockMovementType })}
+          className="border border-gray-300 rounded px-2 py-1 text-sm"
+        >
+          <option value={StockMovementType.RECEIPT}>Receipt</option>
+          <option value={StockMovementType.ADJUSTMENT}>Adjustment (+/-)</option>
+        </select>
+        {inventory.levels.length > 1 && (
+          <select
+            aria-label="Movement location"
+            value={movement.levelId || inventory.levels[0].id}
+            onChange={(e) => setMovement({ ...movement, levelId: e.target.value })}
+            className="border border-gray-300 rounded px-2 py-1 text-sm"
+          >
+            {inventory.levels.map(level => (
+              <option key={level.id} value={level.id}>{levelLabel(level)}</option>
+            ))}
+          </select>
+        )}
+        <input
+          type="number"
+          aria-label="Movement quantity"
+          placeholder="Quantity"
+          value={movement.quantity}
+          onChange={(e) => setMovement({ ...movement, quantity: e.target.value })}
+          className="w-24 border border-gray-300 rounded px-2 py-1 text-sm"
+        />
+        <input
+          type="text"
+          aria-label="Movement note"
+          placeholder="Note (PO number, reason)"
+          value={movement.note}
+          onChange={(e) => setMovement({ ...movement, note: e.target.value })}
+          className="flex-1 min-w-[10rem] border border-gray-300 rounded px-2 py-1 text-sm"
+        />
+        <button
+          type="button"
+          onClick={recordMovement}
+          disabled={saving || !movement.quantity}
+          className="bg-blue-600 text-white px-3 py-1 rounded text-sm hover:bg-blue-700 disabled:opacity-50"
+        >
+          Record
+        </button>
+      </div>
+
+      <div className="flex items-end gap-2 mb-4">
+        <input
+          type="text"
+          aria-label="New location"
+          placeholder="New location, e.g. HOUSTON"
+          value={newLocation}
+          onChange={(e) => setNewLocation(e.target.value)}
+          className="border border-gray-300 rounded px-2 py-1 text-sm"
+        />
+        {inventory.variants.length > 0 && (
+          <select
+            aria-label="New location variant"
+            value={newVariantId}
+            onChange={(e) => setNewVariantId(e.target.value)}
+            className="border border-gray-300 rounded px-2 py-1 text-sm"
+          >
+            <option value="">All variants</option>
+            {inventory.variants.map(variant => (
+              <option key={variant.id} value={variant.id}>{variant.sku}</option>
+            ))}
+          </select>
+        )}
+        <button
+          type="button"
+          onClick={addLocation}
+          disabled={saving || !newLocation.trim()}
+          className="text-blue-600 hover:text-blue-800 text-sm disabled:opacity-50"
+        >
+          Add Location
+        </button>
+      </div>
+
+      {inventory.movements.length > 0 && (
+        <div>
+          <h5 className="text-sm font-medium text-gray-700 mb-1">Recent Stock Movements</h5>
+          <ul className="text-sm text-gray-600 space-y-1 max-h-48 overflow-y-auto">
+            {inventory.movements.map(entry => (
+              <li key={entry.id}>
+                {new Date(entry.createdAt).toLocaleDateString()} · {MOVEMENT_LABELS[entry.type]}{' '}
+                <span className="font-medium">{signedQuantity(entry.type, entry.quantity)}</span>{' '}
+                {entry.inventoryLevel.variant ? 'of' : 'at'} {levelLabel(entry.inventoryLevel)}
+                {entry.quote && ` for quote ${entry.quote.referenceNumber ?? entry.quote.id}`}
+                {entry.note && ` - ${entry.note}`}
+                {entry.user && ` (${entry.user.name})`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -78,20 +78,17 @@ export default function MediaUploader({
       const formData = new FormData()
       formData.append('file', upload.file)
 
-      // Determine upload endpoint based on file type
-      const isImage = upload.file.type.startsWith('image/')
-      const endpoint = isImage ? '/api/media/upload' : '/api/documents'
-
-      const response = await fetch(endpoint, {
+      // Images and documents share one endpoint; the server picks the media type
+      const response = await fetch('/api/media/upload', {
         method: 'POST',
         body: formData
       })
 
+      const result = await response.json()
+
       if (!response.ok) {
-        throw new Error(`Upload failed: ${response.statusText}`)
+        throw new Error(result.error || `Upload failed: ${response.statusText}`)
       }
-
-      const result = await response.json()
       
       // Update status to completed
       setUploads(prev => prev.map((u, i) => 
@@ -99,7 +96,7 @@ export default function MediaUploader({
           ...u, 
           status: 'completed' as const, 
           progress: 100,
-          url: result.url || result.downloadUrl
+          url: result.url
         } : u
       ))
 
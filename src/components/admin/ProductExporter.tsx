@@ -0,0 +1,126 @@
+'use client'
+
+import { useState } from 'react'
+import type { ExportColumn, ExportFormat } from '@/lib/product-export'
+
+interface ProductExporterProps {
+  // The catalog filters currently applied in the product list
+  filters: { search?: string; category?: string }
+  onClose: () => void
+}
+
+const COLUMN_LABELS: Record<ExportColumn, string> = {
+  id: 'ID',
+  sku: 'SKU',
+  name: 'Name',
+  description: 'Description',
+  category: 'Category',
+  brand: 'Brand',
+  diameter: 'Diameter',
+  length: 'Length',
+  material: 'Material',
+  pressureRating: 'Pressure Rating',
+  temperature: 'Temperature',
+  standards: 'Standards',
+  applications: 'Applications',
+  basePrice: 'Base Price',
+  currency: 'Currency',
+  pricePerUnit: 'Price Per Unit',
+  availability: 'Availability',
+  bulkDiscounts: 'Bulk Discounts',
+  imageUrls: 'Image URLs',
+  documentLinks: 'Document Links'
+}
+
+const ALL_COLUMNS = Object.keys(COLUMN_LABELS) as ExportColumn[]
+
+// Always exported so rows can be matched on import; kept in step with EXPORT_KEY_COLUMNS
+const KEY_COLUMNS: ExportColumn[] = ['id', 'sku']
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  xlsx: 'Excel (XLSX)',
+  json: 'JSON'
+}
+
+/**
+ * Catalog download for distributors and bulk edits. CSV and XLSX files use
+ * the import layout, so they can be edited and imported back.
+ */
+export default function ProductExporter({ filters, onClose }: ProductExporterProps) {
+  const [format, setFormat] = useState<ExportFormat>('csv')
+  const [columns, setColumns] = useState<Set<ExportColumn>>(new Set(ALL_COLUMNS))
+
+  const toggleColumn = (column: ExportColumn) => {
+    const next = new Set(columns)
+    if (next.has(column)) {
+      next.delete(column)
+    } else {
+      next.add(column)
+    }
+    setColumns(next)
+  }
+
+  const params = new URLSearchParams({ format })
+  if (filters.search) params.append('search', filters.search)
+  if (filters.category) params.append('category', filters.category)
+  if (columns.size < ALL_COLUMNS.length) {
+    params.append('columns', ALL_COLUMNS.filter(column => columns.has(column)).join(','))
+  }
+
+  const filtered = Boolean(filters.search || filters.category)
+
+  return (
+    <div className="mb-6 bg-white p-4 rounded-lg shadow">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-lg font-medium">Export Catalog</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+          Close
+        </button>
+      </div>
+      <p className="text-sm text-gray-500 mb-4">
+        {filtered ? 'Exports the products matching the current search and filters.' : 'Exports every product in the catalog.'}{' '}
+        The ID and SKU are always included so the file can be edited and imported back.
+      </p>
+
+      <div className="flex items-center space-x-3 mb-4">
+        <label htmlFor="export-format" className="text-sm font-medium text-gray-700">Format</label>
+        <select
+          id="export-format"
+          value={format}
+          onChange={(e) => setFormat(e.target.value as ExportFormat)}
+          className="border border-gray-300 rounded-md px-3 py-1 text-sm"
+        >
+          {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map(value => (
+            <option key={value} value={value}>{FORMAT_LABELS[value]}</option>
+          ))}
+        </select>
+      </div>
+
+      <fieldset className="mb-4">
+        <legend className="text-sm font-medium text-gray-700 mb-2">Columns</legend>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          {ALL_COLUMNS.map(column => (
+            <label key={column} className="flex items-center space-x-2 text-sm">
+              <input
+                type="checkbox"
+                checked={KEY_COLUMNS.includes(column) || columns.has(column)}
+                disabled={KEY_COLUMNS.includes(column)}
+                onChange={() => toggleColumn(column)}
+              />
+              <span>{COLUMN_LABELS[column]}</span>
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <a
+        href={`/api/products/export?${params}`}
+        download
+        className="inline-block bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 text-sm"
+      >
+        Download
+      </a>
+    </div>
+  )
+}
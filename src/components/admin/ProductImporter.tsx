@@ -0,0 +1,233 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import { BulkUploadTracker, UploadProgress } from '@/lib/media-utils'
+import type { ImportAction, ImportPlan, ImportRowResult } from '@/lib/product-import'
+
+interface ProductImporterProps {
+  onImported: (message: string) => void
+  onClose: () => void
+}
+
+// As returned by POST /api/products/import
+interface ImportResponse extends Omit<ImportPlan, 'rows'> {
+  dryRun: boolean
+  rows: ImportRowResult[]
+  error?: string
+}
+
+const ACTION_BADGES: Record<ImportAction, { label: string; className: string }> = {
+  create: { label: 'New', className: 'bg-green-100 text-green-800' },
+  update: { label: 'Changed', className: 'bg-blue-100 text-blue-800' },
+  unchanged: { label: 'Unchanged', className: 'bg-gray-100 text-gray-600' },
+  error: { label: 'Error', className: 'bg-red-100 text-red-800' }
+}
+
+const STATUS_LABELS: Record<UploadProgress['status'], string> = {
+  pending: 'Waiting',
+  uploading: 'Uploading',
+  processing: 'Checking rows',
+  completed: 'Done',
+  error: 'Failed'
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '-'
+  if (Array.isArray(value)) {
+    return value
+      .map(item => (item && typeof item === 'object' ? `${item.minQuantity}:${Number((item.discount * 100).toFixed(4))}%` : String(item)))
+      .join('; ') || '-'
+  }
+  return String(value)
+}
+
+// Sent with XMLHttpRequest, since fetch does not report upload progress
+function postImport(file: File, dryRun: boolean, onUploadProgress: (percent: number) => void): Promise<{ ok: boolean; data: ImportResponse }> {
+  return new Promise((resolve, reject) => {
+    const formData = new FormData()
+    formData.append('dryRun', String(dryRun))
+    formData.append('file', file)
+
+    const request = new XMLHttpRequest()
+    request.open('POST', '/api/products/import')
+    request.upload.onprogress = (event) => {
+      if (event.lengthComputable) onUploadProgress(Math.round((event.loaded / event.total) * 100))
+    }
+    request.onload = () => {
+      try {
+        resolve({ ok: request.status >= 200 && request.status < 300, data: JSON.parse(request.responseText) })
+      } catch (error) {
+        reject(error)
+      }
+    }
+    request.onerror = () => reject(new Error('Network error'))
+    request.send(formData)
+  })
+}
+
+/**
+ * Spreadsheet import: the file is checked first, showing what each row
+ * would change, and only written when the check comes back clean
+ */
+export default function ProductImporter({ onImported, onClose }: ProductImporterProps) {
+  const tracker = useRef(new BulkUploadTracker())
+  const [progress, setProgress] = useState<UploadProgress[]>([])
+  const [file, setFile] = useState<File | null>(null)
+  const [report, setReport] = useState<ImportResponse | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  useEffect(() => tracker.current.onProgress(setProgress), [])
+
+  const selectFile = (selected: File | undefined) => {
+    setFile(selected ?? null)
+    setReport(null)
+    tracker.current.reset()
+  }
+
+  const send = async (dryRun: boolean) => {
+    if (!file) return
+    const progressTracker = tracker.current
+
+    try {
+      setBusy(true)
+      progressTracker.reset()
+      progressTracker.addFile(file.name)
+      progressTracker.updateProgress(file.name, 0, 'uploading')
+
+      const { ok, data } = await postImport(file, dryRun, (percent) =>
+        progressTracker.updateProgress(file.name, percent, percent < 100 ? 'uploading' : 'processing')
+      )
+
+      setReport(data.rows ? data : null)
+      if (!ok) {
+        progressTracker.updateProgress(file.name, 100, 'error', data.error || 'Import failed')
+        return
+      }
+
+      progressTracker.updateProgress(file.name, 100, 'completed')
+      if (!dryRun) {
+        onImported(`Imported ${data.summary.create} new and ${data.summary.update} changed products`)
+      }
+    } catch (error) {
+      progressTracker.updateProgress(file.name, 100, 'error', 'Import failed')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const pending = report?.dryRun && report.summary.errors === 0 ? report.summary.create + report.summary.update : 0
+
+  return (
+    <div className="mb-6 bg-white p-4 rounded-lg shadow">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-lg font-medium">Import Products</h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+          Close
+        </button>
+      </div>
+      <p className="text-sm text-gray-500 mb-4">
+        Upload a CSV or XLSX sheet with a header row. Rows are matched to products by the ID column of an export,
+        or else by SKU: new SKUs need every required field, and blank cells leave an existing product's value
+        unchanged. Separate standards and
+        applications with semicolons, and write discount tiers as <code>100:5%; 500:10%</code>.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <input
+          type="file"
+          aria-label="Product sheet"
+          accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+          disabled={busy}
+          onChange={(e) => selectFile(e.target.files?.[0])}
+          className="text-sm"
+        />
+        <button
+          onClick={() => send(true)}
+          disabled={!file || busy}
+          className="bg-gray-600 text-white px-4 py-2 rounded-md hover:bg-gray-700 disabled:opacity-50 text-sm"
+        >
+          Check File
+        </button>
+        <button
+          onClick={() => send(false)}
+          disabled={busy || pending === 0}
+          className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50 text-sm"
+        >
+          {pending > 0 ? `Import ${pending} Products` : 'Import'}
+        </button>
+      </div>
+
+      {progress.map(upload => (
+        <div key={upload.filename} className="mb-4">
+          <div className="flex justify-between text-sm mb-1">
+            <span className="text-gray-700">{upload.filename}</span>
+            <span className={upload.status === 'error' ? 'text-red-600' : 'text-gray-500'}>
+              {upload.error || STATUS_LABELS[upload.status]}
+            </span>
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-2">
+            <div
+              className={`h-2 rounded-full ${upload.status === 'error' ? 'bg-red-500' : 'bg-blue-600'}`}
+              style={{ width: `${upload.progress}%` }}
+            />
+          </div>
+        </div>
+      ))}
+
+      {report && (
+        <div>
+          <p className="text-sm text-gray-700 mb-2">
+            {report.summary.total} rows: {report.summary.create} new, {report.summary.update} changed,{' '}
+            {report.summary.unchanged} unchanged, {report.summary.errors} with errors
+            {!report.dryRun && report.summary.errors === 0 && ' - imported'}
+          </p>
+          {report.ignoredColumns.length > 0 && (
+            <p className="text-sm text-yellow-700 mb-2">
+              Ignored columns: {report.ignoredColumns.join(', ')}
+            </p>
+          )}
+
+          <div className="max-h-96 overflow-y-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-gray-500 uppercase">
+                  <th className="py-1 pr-2">Row</th>
+                  <th className="py-1 pr-2">SKU</th>
+                  <th className="py-1 pr-2">Name</th>
+                  <th className="py-1 pr-2">Result</th>
+                  <th className="py-1">Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.rows.filter(row => row.action !== 'unchanged').map(row => (
+                  <tr key={row.row} className="border-t align-top">
+                    <td className="py-1 pr-2">{row.row}</td>
+                    <td className="py-1 pr-2 font-medium">{row.sku ?? '-'}</td>
+                    <td className="py-1 pr-2">{row.name ?? '-'}</td>
+                    <td className="py-1 pr-2">
+                      <span className={`px-2 py-0.5 text-xs rounded-full ${ACTION_BADGES[row.action].className}`}>
+                        {ACTION_BADGES[row.action].label}
+                      </span>
+                    </td>
+                    <td className="py-1">
+                      <ul>
+                        {row.errors?.map((error, index) => (
+                          <li key={index} className="text-red-600">{error.field}: {error.message}</li>
+                        ))}
+                        {row.action === 'update' && Object.entries(row.changes ?? {}).map(([field, change]) => (
+                          <li key={field} className="text-gray-600">
+                            {field}: {formatValue(change.from)} → {formatValue(change.to)}
+                          </li>
+                        ))}
+                      </ul>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
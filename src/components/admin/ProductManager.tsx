@@ -1,10 +1,17 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { Product, ProductCategory, AvailabilityStatus } from '@/types/product'
+import { useState, useEffect, useRef } from 'react'
+import { Product, ProductCategory, AvailabilityStatus, ProductRelation } from '@/types/product'
 import LoadingSpinner from '@/components/ui/LoadingSpinner'
+import type { ValidationError } from '@/lib/product-validation'
+import VariantGridEditor, { VariantRow } from './VariantGridEditor'
+import RelatedProductsEditor, { RelationRow } from './RelatedProductsEditor'
+import InventoryEditor from './InventoryEditor'
+import ProductImporter from './ProductImporter'
+import ProductExporter from './ProductExporter'
 
 interface ProductFormData {
+  sku: string
   name: string
   description: string
   category: ProductCategory | ''
@@ -20,9 +27,22 @@ interface ProductFormData {
   currency: string
   pricePerUnit: string
   availability: AvailabilityStatus
+  variants: VariantRow[]
+  // Left out of the request until an edited product's relations have loaded
+  relations?: RelationRow[]
+}
+
+interface ProductHistoryEntry {
+  id: string
+  action: 'CREATE' | 'UPDATE' | 'DELETE'
+  changes: Record<string, { from?: any; to?: any }>
+  createdAt: string
+  ipAddress?: string | null
+  user?: { id: string; name: string; email: string } | null
 }
 
 const initialFormData: ProductFormData = {
+  sku: '',
   name: '',
   description: '',
   category: '',
@@ -37,13 +57,17 @@ const initialFormData: ProductFormData = {
   basePrice: '',
   currency: 'USD',
   pricePerUnit: '',
-  availability: AvailabilityStatus.IN_STOCK
+  availability: AvailabilityStatus.IN_STOCK,
+  variants: [],
+  relations: []
 }
 
 export default function ProductManager() {
   const [products, setProducts] = useState<Product[]>([])
   const [loading, setLoading] = useState(true)
   const [showForm, setShowForm] = useState(false)
+  const [showImport, setShowImport] = useState(false)
+  const [showExport, setShowExport] = useState(false)
   const [editingProduct, setEditingProduct] = useState<Product | null>(null)
   const [formData, setFormData] = useState<ProductFormData>(initialFormData)
   const [selectedProducts, setSelectedProducts] = useState<Set<string>>(new Set())
@@ -56,6 +80,12 @@ export default function ProductManager() {
   const [submitting, setSubmitting] = useState(false)
   const [error, setError] = useState('')
   const [success, setSuccess] = useState('')
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
+  const [historyProduct, setHistoryProduct] = useState<Product | null>(null)
+  const [history, setHistory] = useState<ProductHistoryEntry[]>([])
+  const [historyLoading, setHistoryLoading] = useState(false)
+  // Product whose relations the form is waiting for, so a slow response can't land on another product
+  const relationsFor = useRef<string | null>(null)
 
   useEffect(() => {
     fetchProducts()
@@ -93,6 +123,7 @@ export default function ProductManager() {
     setSubmitting(true)
     setError('')
     setSuccess('')
+    setFieldErrors({})
 
     try {
       const url = editingProduct ? `/api/products/${editingProduct.id}` : '/api/products'
@@ -112,6 +143,15 @@ export default function ProductManager() {
         fetchProducts()
       } else {
         const errorData = await response.json()
+        if (Array.isArray(errorData.errors)) {
+          // Nested paths like bulkDiscounts[0].discount are shown against their top-level field
+          const byField: Record<string, string> = {}
+          for (const validationError of errorData.errors as ValidationError[]) {
+            const field = validationError.field.split(/[.[]/)[0]
+            byField[field] = byField[field] || validationError.message
+          }
+          setFieldErrors(byField)
+        }
         setError(errorData.error || 'Failed to save product')
       }
     } catch (error) {
@@ -124,6 +164,7 @@ export default function ProductManager() {
   const handleEdit = (product: Product) => {
     setEditingProduct(product)
     setFormData({
+      sku: product.sku ?? '',
       name: product.name,
       description: product.description,
       category: product.category,
@@ -138,9 +179,41 @@ export default function ProductManager() {
       basePrice: product.basePrice,
       currency: product.currency,
       pricePerUnit: product.pricePerUnit,
-      availability: product.availability
+      availability: product.availability,
+      variants: (product.variants ?? []).map(variant => ({
+        id: variant.id,
+        sku: variant.sku,
+        diameter: variant.diameter,
+        length: variant.length,
+        schedule: variant.schedule ?? '',
+        basePrice: variant.basePrice,
+        availability: variant.availability
+      })),
+      relations: undefined
     })
+    setFieldErrors({})
     setShowForm(true)
+    relationsFor.current = product.id
+    fetchRelations(product.id)
+  }
+
+  // The product list doesn't include relations, so they are loaded for the edit form
+  const fetchRelations = async (productId: string) => {
+    try {
+      const response = await fetch(`/api/products/${productId}`)
+      const data = await response.json()
+
+      if (response.ok && Array.isArray(data.relations) && relationsFor.current === productId) {
+        const relations: RelationRow[] = data.relations.map((relation: ProductRelation) => ({
+          relatedProductId: relation.relatedProductId,
+          name: relation.relatedProduct?.name ?? relation.relatedProductId,
+          type: relation.type
+        }))
+        setFormData(prev => ({ ...prev, relations }))
+      }
+    } catch (error) {
+      setError('Failed to fetch related products')
+    }
   }
 
   const handleDelete = async (productId: string) => {
@@ -162,6 +235,34 @@ export default function ProductManager() {
     }
   }
 
+  const openHistory = async (product: Product) => {
+    setHistoryProduct(product)
+    setHistory([])
+
+    try {
+      setHistoryLoading(true)
+      const response = await fetch(`/api/products/${product.id}/history?limit=50`)
+      const data = await response.json()
+
+      if (response.ok) {
+        setHistory(data.logs)
+      } else {
+        setError(data.error || 'Failed to fetch product history')
+      }
+    } catch (error) {
+      setError('Failed to fetch product history')
+    } finally {
+      setHistoryLoading(false)
+    }
+  }
+
+  const formatHistoryValue = (value: any) => {
+    if (value === null || value === undefined || value === '') return '—'
+    if (Array.isArray(value)) return value.join(', ') || '—'
+    if (typeof value === 'object') return JSON.stringify(value)
+    return String(value)
+  }
+
   const handleBulkAction = async () => {
     if (selectedProducts.size === 0 || !bulkAction) return
 
@@ -228,18 +329,51 @@ export default function ProductManager() {
     <div className="px-4 py-6 sm:px-0">
       <div className="flex justify-between items-center mb-6">
         <h2 className="text-2xl font-bold text-gray-900">Product Management</h2>
-        <button
-          onClick={() => {
-            setShowForm(true)
-            setEditingProduct(null)
-            setFormData(initialFormData)
-          }}
-          className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700"
-        >
-          Add New Product
-        </button>
+        <div className="flex space-x-3">
+          <button
+            onClick={() => setShowExport(!showExport)}
+            className="border border-blue-600 text-blue-600 px-4 py-2 rounded-md hover:bg-blue-50"
+          >
+            Export
+          </button>
+          <button
+            onClick={() => setShowImport(!showImport)}
+            className="border border-blue-600 text-blue-600 px-4 py-2 rounded-md hover:bg-blue-50"
+          >
+            Import Products
+          </button>
+          <button
+            onClick={() => {
+              setFieldErrors({})
+              setShowForm(true)
+              setEditingProduct(null)
+              relationsFor.current = null
+              setFormData(initialFormData)
+            }}
+            className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700"
+          >
+            Add New Product
+          </button>
+        </div>
       </div>
 
+      {showExport && (
+        <ProductExporter
+          filters={{ search: searchTerm, category: filterCategory }}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
+      {showImport && (
+        <ProductImporter
+          onImported={(message) => {
+            setSuccess(message)
+            fetchProducts()
+          }}
+          onClose={() => setShowImport(false)}
+        />
+      )}
+
       {/* Alerts */}
       {error && (
         <div className="mb-4 p-4 bg-red-100 border border-red-400 text-red-700 rounded">
@@ -361,6 +495,7 @@ export default function ProductManager() {
                     onChange={(e) => setFormData({...formData, name: e.target.value})}
                     className="w-full border border-gray-300 rounded-md px-3 py-2"
                   />
+                  {fieldErrors.name && <p className="mt-1 text-sm text-red-600">{fieldErrors.name}</p>}
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Brand</label>
@@ -371,6 +506,18 @@ export default function ProductManager() {
                     onChange={(e) => setFormData({...formData, brand: e.target.value})}
                     className="w-full border border-gray-300 rounded-md px-3 py-2"
                   />
+                  {fieldErrors.brand && <p className="mt-1 text-sm text-red-600">{fieldErrors.brand}</p>}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">SKU (Optional)</label>
+                  <input
+                    type="text"
+                    value={formData.sku}
+                    onChange={(e) => setFormData({...formData, sku: e.target.value})}
+                    className="w-full border border-gray-300 rounded-md px-3 py-2"
+                    placeholder="Used to match rows in spreadsheet imports"
+                  />
+                  {fieldErrors.sku && <p className="mt-1 text-sm text-red-600">{fieldErrors.sku}</p>}
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
@@ -387,6 +534,7 @@ export default function ProductManager() {
                       </option>
                     ))}
                   </select>
+                  {fieldErrors.category && <p className="mt-1 text-sm text-red-600">{fieldErrors.category}</p>}
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Availability</label>
@@ -401,6 +549,10 @@ export default function ProductManager() {
                       </option>
                     ))}
                   </select>
+                  <p className="mt-1 text-xs text-gray-500">
+                    Products with stock locations follow their stock; Special Order and Discontinued always apply.
+                  </p>
+                  {fieldErrors.availability && <p className="mt-1 text-sm text-red-600">{fieldErrors.availability}</p>}
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Diameter</label>
@@ -411,6 +563,7 @@ export default function ProductManager() {
                     onChange={(e) => setFormData({...formData, diameter: e.target.value})}
                     className="w-full border border-gray-300 rounded-md px-3 py-2"
                   />
+                  {fieldErrors.diameter && <p className="mt-1 text-sm text-red-600">{fieldErrors.diameter}</p>}
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Length</label>
@@ -421,6 +574,7 @@ export default function ProductManager() {
                     onChange={(e) => setFormData({...formData, length: e.target.value})}
                     className="w-full border border-gray-300 rounded-md px-3 py-2"
                   />
+                  {fieldErrors.length && <p className="mt-1 text-sm text-red-600">{fieldErrors.length}</p>}
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Material</label>
@@ -431,6 +585,7 @@ export default function ProductManager() {
                     onChange={(e) => setFormData({...formData, material: e.target.value})}
                     className="w-full border border-gray-300 rounded-md px-3 py-2"
                   />
+                  {fieldErrors.material && <p className="mt-1 text-sm text-red-600">{fieldErrors.material}</p>}
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Pressure Rating</label>
@@ -441,6 +596,7 @@ export default function ProductManager() {
                     onChange={(e) => setFormData({...formData, pressureRating: e.target.value})}
                     className="w-full border border-gray-300 rounded-md px-3 py-2"
                   />
+                  {fieldErrors.pressureRating && <p className="mt-1 text-sm text-red-600">{fieldErrors.pressureRating}</p>}
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Temperature</label>
@@ -451,6 +607,7 @@ export default function ProductManager() {
                     onChange={(e) => setFormData({...formData, temperature: e.target.value})}
                     className="w-full border border-gray-300 rounded-md px-3 py-2"
                   />
+                  {fieldErrors.temperature && <p className="mt-1 text-sm text-red-600">{fieldErrors.temperature}</p>}
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Base Price</label>
@@ -462,6 +619,7 @@ export default function ProductManager() {
                     onChange={(e) => setFormData({...formData, basePrice: parseFloat(e.target.value) || ''})}
                     className="w-full border border-gray-300 rounded-md px-3 py-2"
                   />
+                  {fieldErrors.basePrice && <p className="mt-1 text-sm text-red-600">{fieldErrors.basePrice}</p>}
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Price Per Unit</label>
@@ -472,6 +630,7 @@ export default function ProductManager() {
                     onChange={(e) => setFormData({...formData, pricePerUnit: e.target.value})}
                     className="w-full border border-gray-300 rounded-md px-3 py-2"
                   />
+                  {fieldErrors.pricePerUnit && <p className="mt-1 text-sm text-red-600">{fieldErrors.pricePerUnit}</p>}
                 </div>
               </div>
 
@@ -484,8 +643,30 @@ export default function ProductManager() {
                   onChange={(e) => setFormData({...formData, description: e.target.value})}
                   className="w-full border border-gray-300 rounded-md px-3 py-2"
                 />
+                {fieldErrors.description && <p className="mt-1 text-sm text-red-600">{fieldErrors.description}</p>}
               </div>
 
+              <VariantGridEditor
+                variants={formData.variants}
+                onChange={(variants) => setFormData({...formData, variants})}
+                defaults={{ diameter: formData.diameter, length: formData.length, basePrice: formData.basePrice }}
+                error={fieldErrors.variants}
+              />
+
+              <RelatedProductsEditor
+                productId={editingProduct?.id}
+                relations={formData.relations}
+                onChange={(relations) => setFormData({...formData, relations})}
+                error={fieldErrors.relations}
+              />
+
+              {editingProduct && (
+                <InventoryEditor
+                  productId={editingProduct.id}
+                  onAvailabilityChange={(availability) => setFormData(prev => ({ ...prev, availability }))}
+                />
+              )}
+
               <div className="flex justify-end space-x-3 pt-4">
                 <button
                   type="button"
@@ -582,6 +763,12 @@ export default function ProductManager() {
                       >
                         Edit
                       </button>
+                      <button
+                        onClick={() => openHistory(product)}
+                        className="text-indigo-600 hover:text-indigo-900 mr-3"
+                      >
+                        History
+                      </button>
                       <button
                         onClick={() => handleDelete(product.id)}
                         className="text-red-600 hover:text-red-900"
@@ -644,6 +831,66 @@ export default function ProductManager() {
           )}
         </div>
       )}
+
+      {/* Product History Modal */}
+      {historyProduct && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-11/12 max-w-3xl shadow-lg rounded-md bg-white">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-medium">History - {historyProduct.name}</h3>
+              <button
+                onClick={() => setHistoryProduct(null)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            {historyLoading ? (
+              <div className="flex justify-center py-8">
+                <LoadingSpinner />
+              </div>
+            ) : history.length === 0 ? (
+              <p className="text-sm text-gray-500">No changes have been recorded for this product.</p>
+            ) : (
+              <ul className="space-y-4">
+                {history.map((entry) => (
+                  <li key={entry.id} className="bg-gray-50 p-4 rounded-lg">
+                    <div className="flex justify-between text-sm">
+                      <span className="font-medium text-gray-900">
+                        {entry.action} by {entry.user ? entry.user.name : 'Unknown user'}
+                      </span>
+                      <span className="text-gray-500">
+                        {new Date(entry.createdAt).toLocaleString('en-US')}
+                        {entry.ipAddress && ` from ${entry.ipAddress}`}
+                      </span>
+                    </div>
+                    {Object.keys(entry.changes).length > 0 && (
+                      <table className="mt-2 w-full text-sm">
+                        <tbody>
+                          {Object.entries(entry.changes).map(([field, change]) => (
+                            <tr key={field}>
+                              <td className="pr-4 py-1 font-medium text-gray-700 align-top">{field}</td>
+                              <td className="pr-4 py-1 text-red-700 align-top line-through">
+                                {entry.action !== 'CREATE' && formatHistoryValue(change.from)}
+                              </td>
+                              <td className="py-1 text-green-700 align-top">
+                                {entry.action !== 'DELETE' && formatHistoryValue(change.to)}
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -2,19 +2,51 @@
 
 import { useState, useEffect } from 'react'
 import LoadingSpinner from '@/components/ui/LoadingSpinner'
+import { variantLabel } from '@/lib/product-variants'
 
 // QuoteManager component for managing customer quote requests 
 
 // Define enum values to match Prisma schema
 const QuoteStatus = {
   PENDING: 'PENDING',
+  IN_REVIEW: 'IN_REVIEW',
   RESPONDED: 'RESPONDED',
+  WON: 'WON',
+  LOST: 'LOST',
   CLOSED: 'CLOSED',
   CANCELLED: 'CANCELLED'
 } as const
 
 type QuoteStatus = typeof QuoteStatus[keyof typeof QuoteStatus]
 
+// Mirrors QUOTE_TRANSITIONS in src/lib/quote-workflow.ts. Moving to RESPONDED
+// needs a response, so it is only offered through the response form.
+const STATUS_TRANSITIONS: Record<QuoteStatus, QuoteStatus[]> = {
+  PENDING: [QuoteStatus.IN_REVIEW, QuoteStatus.CANCELLED],
+  IN_REVIEW: [QuoteStatus.PENDING, QuoteStatus.CANCELLED],
+  RESPONDED: [QuoteStatus.IN_REVIEW, QuoteStatus.WON, QuoteStatus.LOST, QuoteStatus.CLOSED, QuoteStatus.CANCELLED],
+  WON: [QuoteStatus.CLOSED],
+  LOST: [QuoteStatus.CLOSED],
+  CLOSED: [],
+  CANCELLED: []
+}
+
+const REASON_REQUIRED: QuoteStatus[] = [QuoteStatus.WON, QuoteStatus.LOST]
+
+const CAN_RESPOND: QuoteStatus[] = [QuoteStatus.PENDING, QuoteStatus.IN_REVIEW, QuoteStatus.RESPONDED]
+
+interface QuoteEvent {
+  id: string
+  type: 'SUBMITTED' | 'STATUS_CHANGED' | 'RESPONDED' | 'REQUOTED'
+  fromStatus?: QuoteStatus | null
+  toStatus?: QuoteStatus | null
+  response?: string | null
+  reason?: string | null
+  createdAt: string
+  user?: { id: string; name: string; email: string } | null
+  document?: { id: string; originalName: string } | null
+}
+
 interface QuoteProduct {
   id: string
   quantity: number
@@ -25,15 +57,25 @@ interface QuoteProduct {
     brand: string
     basePrice: number
     currency: string
+    pricePerUnit: string
     diameter: string
     length: string
     material: string
     availability: string
   }
+  variant?: {
+    id: string
+    sku: string
+    diameter: string
+    length: string
+    schedule?: string | null
+    availability: string
+  } | null
 }
 
 interface Quote {
   id: string
+  referenceNumber?: string | null
   customerName: string
   customerEmail: string
   customerPhone?: string
@@ -48,7 +90,34 @@ interface Quote {
   submittedAt: string
   respondedAt?: string
   response?: string
+  validUntil?: string | null
+  documentId?: string | null
+  outcomeReason?: string | null
   products: QuoteProduct[]
+  events?: QuoteEvent[]
+}
+
+interface PricedLine {
+  quoteProductId: string
+  currency: string
+  basePrice: number
+  pricePerUnit: string
+  unitsPerPiece: number
+  unitPrice: number
+  appliedTier: { minQuantity: number; discount: number } | null
+  discountAmount: number
+  lineTotal: number
+}
+
+interface QuotePricing {
+  lines: PricedLine[]
+  totals: Array<{
+    currency: string
+    grossTotal: number
+    discountTotal: number
+    subtotal: number
+  }>
+  warnings: string[]
 }
 
 interface QuoteFilters {
@@ -63,6 +132,7 @@ export default function QuoteManager() {
   const [quotes, setQuotes] = useState<Quote[]>([])
   const [loading, setLoading] = useState(true)
   const [selectedQuote, setSelectedQuote] = useState<Quote | null>(null)
+  const [pricing, setPricing] = useState<QuotePricing | null>(null)
   const [showDetails, setShowDetails] = useState(false)
   const [filters, setFilters] = useState<QuoteFilters>({
     status: '',
@@ -113,6 +183,16 @@ export default function QuoteManager() {
   }
 
   const handleStatusUpdate = async (quoteId: string, newStatus: QuoteStatus) => {
+    let reason: string | null = null
+    if (REASON_REQUIRED.includes(newStatus) || newStatus === QuoteStatus.CANCELLED) {
+      reason = prompt(`Reason for marking this quote ${newStatus.replace('_', ' ')}:`)
+      if (reason === null) return
+      if (REASON_REQUIRED.includes(newStatus) && !reason.trim()) {
+        setError('A reason is required')
+        return
+      }
+    }
+
     try {
       setSubmitting(true)
       setError('')
@@ -120,15 +200,14 @@ export default function QuoteManager() {
       const response = await fetch(`/api/quotes/${quoteId}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ status: newStatus })
+        body: JSON.stringify(reason?.trim() ? { status: newStatus, reason } : { status: newStatus })
       })
 
       if (response.ok) {
         setSuccess('Quote status updated successfully')
         fetchQuotes()
         if (selectedQuote && selectedQuote.id === quoteId) {
-          const updatedQuote = await response.json()
-          setSelectedQuote(updatedQuote)
+          await refreshSelectedQuote(quoteId)
         }
       } else {
         const errorData = await response.json()
@@ -165,8 +244,7 @@ export default function QuoteManager() {
         setResponseText('')
         fetchQuotes()
         if (selectedQuote && selectedQuote.id === quoteId) {
-          const updatedQuote = await response.json()
-          setSelectedQuote(updatedQuote)
+          await refreshSelectedQuote(quoteId)
         }
       } else {
         const errorData = await response.json()
@@ -208,13 +286,48 @@ export default function QuoteManager() {
     }
   }
 
+  const handleRegenerateDocument = async (quoteId: string) => {
+    try {
+      setSubmitting(true)
+      setError('')
+
+      const response = await fetch(`/api/quotes/${quoteId}/document`, { method: 'POST' })
+      const data = await response.json()
+
+      if (response.ok) {
+        setSuccess('Quotation PDF regenerated')
+        if (selectedQuote && selectedQuote.id === quoteId) {
+          setSelectedQuote({ ...selectedQuote, documentId: data.document.id, validUntil: data.validUntil })
+        }
+      } else {
+        setError(data.error || 'Failed to generate quotation PDF')
+      }
+    } catch (error) {
+      setError('Failed to generate quotation PDF')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  // Reload the open quote so its history includes the latest change
+  const refreshSelectedQuote = async (quoteId: string) => {
+    const response = await fetch(`/api/quotes/${quoteId}`)
+    if (response.ok) {
+      setSelectedQuote(await response.json())
+    }
+  }
+
   const openQuoteDetails = async (quote: Quote) => {
     try {
-      // Fetch full quote details
-      const response = await fetch(`/api/quotes/${quote.id}`)
+      // Fetch full quote details and pricing
+      const [response, pricingResponse] = await Promise.all([
+        fetch(`/api/quotes/${quote.id}`),
+        fetch(`/api/quotes/${quote.id}/pricing`)
+      ])
       if (response.ok) {
         const fullQuote = await response.json()
         setSelectedQuote(fullQuote)
+        setPricing(pricingResponse.ok ? await pricingResponse.json() : null)
         setResponseText(fullQuote.response || '')
         setShowDetails(true)
       } else {
@@ -229,10 +342,16 @@ export default function QuoteManager() {
     switch (status) {
       case QuoteStatus.PENDING:
         return 'bg-yellow-100 text-yellow-800'
+      case QuoteStatus.IN_REVIEW:
+        return 'bg-purple-100 text-purple-800'
       case QuoteStatus.RESPONDED:
         return 'bg-blue-100 text-blue-800'
-      case QuoteStatus.CLOSED:
+      case QuoteStatus.WON:
         return 'bg-green-100 text-green-800'
+      case QuoteStatus.LOST:
+        return 'bg-orange-100 text-orange-800'
+      case QuoteStatus.CLOSED:
+        return 'bg-gray-200 text-gray-800'
       case QuoteStatus.CANCELLED:
         return 'bg-red-100 text-red-800'
       default:
@@ -250,10 +369,29 @@ export default function QuoteManager() {
     })
   }
 
-  const calculateQuoteTotal = (products: QuoteProduct[]) => {
-    return products.reduce((total, qp) => {
-      return total + (qp.product.basePrice * qp.quantity)
-    }, 0)
+  const describeEvent = (event: QuoteEvent) => {
+    switch (event.type) {
+      case 'SUBMITTED':
+        return 'Quote request submitted'
+      case 'RESPONDED':
+        return 'Response sent'
+      case 'REQUOTED':
+        return 'Revised quote sent'
+      default:
+        return `Status changed from ${event.fromStatus?.replace('_', ' ')} to ${event.toStatus?.replace('_', ' ')}`
+    }
+  }
+
+  const formatMoney = (amount: number, currency: string) => {
+    try {
+      return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount)
+    } catch {
+      return `${amount.toFixed(2)} ${currency}`
+    }
+  }
+
+  const getLinePricing = (quoteProductId: string) => {
+    return pricing?.lines.find(line => line.quoteProductId === quoteProductId)
   }
 
   return (
@@ -377,6 +515,9 @@ export default function QuoteManager() {
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div>
                         <div className="text-sm font-medium text-gray-900">{quote.customerName}</div>
+                        {quote.referenceNumber && (
+                          <div className="text-xs font-mono text-gray-400">{quote.referenceNumber}</div>
+                        )}
                         <div className="text-sm text-gray-500">{quote.customerEmail}</div>
                       </div>
                     </td>
@@ -404,10 +545,10 @@ export default function QuoteManager() {
                       <select
                         value={quote.status}
                         onChange={(e) => handleStatusUpdate(quote.id, e.target.value as QuoteStatus)}
-                        disabled={submitting}
+                        disabled={submitting || STATUS_TRANSITIONS[quote.status].length === 0}
                         className="text-sm border border-gray-300 rounded px-2 py-1"
                       >
-                        {Object.values(QuoteStatus).map(status => (
+                        {[quote.status, ...STATUS_TRANSITIONS[quote.status]].map(status => (
                           <option key={status} value={status}>
                             {status.replace('_', ' ')}
                           </option>
@@ -482,7 +623,7 @@ export default function QuoteManager() {
         <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
           <div className="relative top-20 mx-auto p-5 border w-11/12 max-w-6xl shadow-lg rounded-md bg-white">
             <div className="flex justify-between items-center mb-4">
-              <h3 className="text-lg font-medium">Quote Details - {selectedQuote.customerName}</h3>
+              <h3 className="text-lg font-medium">Quote Details - {selectedQuote.referenceNumber || selectedQuote.customerName}</h3>
               <button
                 onClick={() => setShowDetails(false)}
                 className="text-gray-400 hover:text-gray-600"
@@ -532,7 +673,29 @@ export default function QuoteManager() {
                     {selectedQuote.respondedAt && (
                       <div><strong>Responded:</strong> {formatDate(selectedQuote.respondedAt)}</div>
                     )}
-                    <div><strong>Total Estimated Value:</strong> ${calculateQuoteTotal(selectedQuote.products).toFixed(2)}</div>
+                    {selectedQuote.validUntil && (
+                      <div><strong>Valid Until:</strong> {formatDate(selectedQuote.validUntil)}</div>
+                    )}
+                    {selectedQuote.outcomeReason && (
+                      <div><strong>Reason:</strong> {selectedQuote.outcomeReason}</div>
+                    )}
+                    {pricing ? (
+                      pricing.totals.map(total => (
+                        <div key={total.currency}>
+                          {total.discountTotal > 0 && (
+                            <div className="text-sm text-gray-600">
+                              {formatMoney(total.grossTotal, total.currency)} less {formatMoney(total.discountTotal, total.currency)} bulk discount
+                            </div>
+                          )}
+                          <div><strong>Subtotal ({total.currency}):</strong> {formatMoney(total.subtotal, total.currency)}</div>
+                        </div>
+                      ))
+                    ) : (
+                      <div className="text-sm text-gray-500">Pricing unavailable</div>
+                    )}
+                    {pricing?.warnings.map(warning => (
+                      <div key={warning} className="text-sm text-yellow-700">{warning}</div>
+                    ))}
                   </div>
                 </div>
 
@@ -552,17 +715,21 @@ export default function QuoteManager() {
                 <div>
                   <h4 className="text-md font-medium text-gray-900 mb-3">Requested Products</h4>
                   <div className="space-y-3">
-                    {selectedQuote.products.map((qp) => (
+                    {selectedQuote.products.map((qp) => {
+                      const line = getLinePricing(qp.id)
+                      return (
                       <div key={qp.id} className="bg-gray-50 p-4 rounded-lg">
                         <div className="flex justify-between items-start">
                           <div className="flex-1">
                             <h5 className="font-medium text-gray-900">{qp.product.name}</h5>
-                            <p className="text-sm text-gray-600">{qp.product.brand}</p>
                             <p className="text-sm text-gray-600">
-                              {qp.product.diameter} × {qp.product.length} - {qp.product.material}
+                              {qp.product.brand}{qp.variant && ` · SKU ${qp.variant.sku}`}
+                            </p>
+                            <p className="text-sm text-gray-600">
+                              {qp.variant ? variantLabel(qp.variant) : `${qp.product.diameter} × ${qp.product.length}`} - {qp.product.material}
                             </p>
                             <p className="text-sm text-gray-600">
-                              Availability: {qp.product.availability.replace('_', ' ')}
+                              Availability: {(qp.variant ?? qp.product).availability.replace('_', ' ')}
                             </p>
                             {qp.notes && (
                               <p className="text-sm text-gray-600 mt-1">
@@ -572,16 +739,35 @@ export default function QuoteManager() {
                           </div>
                           <div className="text-right">
                             <p className="font-medium">Qty: {qp.quantity}</p>
-                            <p className="text-sm text-gray-600">
-                              ${qp.product.basePrice} each
-                            </p>
-                            <p className="font-medium">
-                              ${(qp.product.basePrice * qp.quantity).toFixed(2)}
-                            </p>
+                            {line ? (
+                              <>
+                                <p className="text-sm text-gray-600">
+                                  {formatMoney(line.unitPrice, line.currency)} each
+                                </p>
+                                {line.unitsPerPiece !== 1 && (
+                                  <p className="text-xs text-gray-500">
+                                    {Number(line.unitsPerPiece.toFixed(2))} × {formatMoney(line.basePrice, line.currency)} {line.pricePerUnit}
+                                  </p>
+                                )}
+                                {line.appliedTier && (
+                                  <p className="text-sm text-green-700">
+                                    {Math.round(line.appliedTier.discount * 100)}% off ({line.appliedTier.minQuantity}+): -{formatMoney(line.discountAmount, line.currency)}
+                                  </p>
+                                )}
+                                <p className="font-medium">
+                                  {formatMoney(line.lineTotal, line.currency)}
+                                </p>
+                              </>
+                            ) : (
+                              <p className="text-sm text-gray-600">
+                                {formatMoney(qp.product.basePrice, qp.product.currency)} {qp.product.pricePerUnit}
+                              </p>
+                            )}
                           </div>
                         </div>
                       </div>
-                    ))}
+                      )
+                    })}
                   </div>
                 </div>
 
@@ -595,24 +781,82 @@ export default function QuoteManager() {
                   ) : (
                     <p className="text-sm text-gray-500 mb-4">No response sent yet.</p>
                   )}
-                  
-                  <div className="space-y-3">
-                    <textarea
-                      value={responseText}
-                      onChange={(e) => setResponseText(e.target.value)}
-                      placeholder="Enter your response to the customer..."
-                      rows={4}
-                      className="w-full border border-gray-300 rounded-md px-3 py-2"
-                    />
+
+                  <div className="flex items-center space-x-4 mb-4 text-sm">
+                    {selectedQuote.documentId && (
+                      <a
+                        href={`/api/quotes/${selectedQuote.id}/document`}
+                        className="text-indigo-600 hover:text-indigo-900"
+                      >
+                        Download Quotation PDF
+                      </a>
+                    )}
                     <button
-                      onClick={() => handleResponseSubmit(selectedQuote.id)}
-                      disabled={submitting || !responseText.trim()}
-                      className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                      onClick={() => handleRegenerateDocument(selectedQuote.id)}
+                      disabled={submitting}
+                      className="text-gray-600 hover:text-gray-900 disabled:opacity-50"
                     >
-                      {submitting ? 'Sending...' : 'Send Response'}
+                      {selectedQuote.documentId ? 'Regenerate PDF' : 'Generate PDF'}
                     </button>
                   </div>
+                  
+                  {CAN_RESPOND.includes(selectedQuote.status) ? (
+                    <div className="space-y-3">
+                      <textarea
+                        value={responseText}
+                        onChange={(e) => setResponseText(e.target.value)}
+                        placeholder="Enter your response to the customer..."
+                        rows={4}
+                        className="w-full border border-gray-300 rounded-md px-3 py-2"
+                      />
+                      <button
+                        onClick={() => handleResponseSubmit(selectedQuote.id)}
+                        disabled={submitting || !responseText.trim()}
+                        className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                      >
+                        {submitting
+                          ? 'Sending...'
+                          : selectedQuote.status === QuoteStatus.RESPONDED ? 'Send Revised Quote' : 'Send Response'}
+                      </button>
+                    </div>
+                  ) : (
+                    <p className="text-sm text-gray-500">
+                      This quote is {selectedQuote.status.replace('_', ' ').toLowerCase()} and can no longer be responded to.
+                    </p>
+                  )}
                 </div>
+
+                {/* History */}
+                {selectedQuote.events && selectedQuote.events.length > 0 && (
+                  <div>
+                    <h4 className="text-md font-medium text-gray-900 mb-3">History</h4>
+                    <ol className="border-l-2 border-gray-200 space-y-4 ml-2">
+                      {[...selectedQuote.events].reverse().map(event => (
+                        <li key={event.id} className="ml-4">
+                          <div className="text-sm font-medium text-gray-900">{describeEvent(event)}</div>
+                          <div className="text-xs text-gray-500">
+                            {formatDate(event.createdAt)}
+                            {event.user && ` by ${event.user.name}`}
+                          </div>
+                          {event.reason && (
+                            <div className="text-sm text-gray-700 mt-1">Reason: {event.reason}</div>
+                          )}
+                          {event.response && (
+                            <div className="text-sm text-gray-700 mt-1 bg-gray-50 p-2 rounded whitespace-pre-wrap">{event.response}</div>
+                          )}
+                          {event.document && (
+                            <a
+                              href={`/api/quotes/${selectedQuote.id}/document?documentId=${event.document.id}`}
+                              className="text-xs text-indigo-600 hover:text-indigo-900"
+                            >
+                              {event.document.originalName}
+                            </a>
+                          )}
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                )}
               </div>
             </div>
           </div>
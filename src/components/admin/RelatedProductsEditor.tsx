@@ -0,0 +1,142 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Product, ProductRelationType } from '@/types/product'
+import { RELATION_TYPE_LABELS } from '@/lib/product-relations'
+
+export interface RelationRow {
+  relatedProductId: string
+  // Shown in the list; not sent back as part of the relation
+  name: string
+  type: ProductRelationType
+}
+
+interface RelatedProductsEditorProps {
+  // The product being edited, left out of search results
+  productId?: string
+  // Undefined while the product's saved relations are loading
+  relations?: RelationRow[]
+  onChange: (relations: RelationRow[]) => void
+  error?: string
+}
+
+export default function RelatedProductsEditor({ productId, relations, onChange, error }: RelatedProductsEditorProps) {
+  const [search, setSearch] = useState('')
+  const [results, setResults] = useState<Product[]>([])
+  const [linkType, setLinkType] = useState<ProductRelationType>(ProductRelationType.FITTING)
+
+  useEffect(() => {
+    if (search.trim().length < 2) {
+      setResults([])
+      return
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ search: search.trim(), limit: '5' })
+        const response = await fetch(`/api/products?${params}`)
+        const data = await response.json()
+        setResults(response.ok ? (data.products ?? []).filter((product: Product) => product.id !== productId) : [])
+      } catch (error) {
+        setResults([])
+      }
+    }, 300)
+
+    return () => clearTimeout(timer)
+  }, [search, productId])
+
+  if (!relations) {
+    return <p className="text-sm text-gray-500">Loading related products...</p>
+  }
+
+  const isLinked = (id: string) =>
+    relations.some(relation => relation.relatedProductId === id && relation.type === linkType)
+
+  const link = (product: Product) => {
+    onChange([...relations, { relatedProductId: product.id, name: product.name, type: linkType }])
+  }
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium text-gray-700">Related Products</h4>
+      <p className="text-xs text-gray-500 mb-2">
+        Fittings, couplings and valves shown with this product, and its substitutes and upgrades.
+        Without any, customers see products with the same material, size and standards.
+      </p>
+
+      {relations.length > 0 && (
+        <ul className="mb-3 divide-y divide-gray-200 border border-gray-200 rounded-md">
+          {relations.map((relation, index) => (
+            <li key={`${relation.relatedProductId}-${relation.type}`} className="flex items-center justify-between px-3 py-2 text-sm">
+              <span className="text-gray-900">{relation.name}</span>
+              <div className="flex items-center space-x-2">
+                <select
+                  aria-label={`Relation ${index + 1} type`}
+                  value={relation.type}
+                  onChange={(e) => onChange(relations.map((row, i) =>
+                    i === index ? { ...row, type: e.target.value as ProductRelationType } : row
+                  ))}
+                  className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+                >
+                  {Object.values(ProductRelationType).map(type => (
+                    <option key={type} value={type}>{RELATION_TYPE_LABELS[type]}</option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={() => onChange(relations.filter((_, i) => i !== index))}
+                  aria-label={`Remove ${relation.name}`}
+                  className="text-red-600 hover:text-red-900"
+                >
+                  Remove
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex space-x-2">
+        <input
+          type="text"
+          aria-label="Search products to link"
+          placeholder="Search products to link..."
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          className="flex-1 border border-gray-300 rounded-md px-3 py-1 text-sm"
+        />
+        <select
+          aria-label="Link as"
+          value={linkType}
+          onChange={(e) => setLinkType(e.target.value as ProductRelationType)}
+          className="border border-gray-300 rounded-md px-2 py-1 text-sm"
+        >
+          {Object.values(ProductRelationType).map(type => (
+            <option key={type} value={type}>{RELATION_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+      </div>
+
+      {results.length > 0 && (
+        <ul className="mt-2 border border-gray-200 rounded-md divide-y divide-gray-200">
+          {results.map(product => (
+            <li key={product.id} className="flex items-center justify-between px-3 py-2 text-sm">
+              <span className="text-gray-700">{product.name} <span className="text-gray-400">({product.diameter})</span></span>
+              <button
+                type="button"
+                onClick={() => link(product)}
+                disabled={isLinked(product.id)}
+                aria-label={`Link ${product.name}`}
+                className="text-blue-600 hover:text-blue-900 disabled:opacity-30"
+              >
+                Link
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,545 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import LoadingSpinner from '@/components/ui/LoadingSpinner'
+
+// UserManager component for inviting staff and managing their access
+
+// Define enum values to match Prisma schema
+const UserRole = {
+  USER: 'USER',
+  CONTENT_MANAGER: 'CONTENT_MANAGER',
+  ADMIN: 'ADMIN'
+} as const
+
+type UserRole = typeof UserRole[keyof typeof UserRole]
+
+const Permission = {
+  MANAGE_PRODUCTS: 'MANAGE_PRODUCTS',
+  MANAGE_QUOTES: 'MANAGE_QUOTES',
+  MANAGE_USERS: 'MANAGE_USERS',
+  MANAGE_MEDIA: 'MANAGE_MEDIA',
+  MANAGE_CONTENT: 'MANAGE_CONTENT',
+  VIEW_ANALYTICS: 'VIEW_ANALYTICS'
+} as const
+
+type Permission = typeof Permission[keyof typeof Permission]
+
+interface User {
+  id: string
+  email: string
+  name: string
+  role: UserRole
+  permissions: Permission[]
+  createdAt: string
+  lastLogin?: string | null
+  disabledAt?: string | null
+}
+
+interface UserForm {
+  email: string
+  name: string
+  role: UserRole
+  permissions: Permission[]
+}
+
+const emptyForm: UserForm = {
+  email: '',
+  name: '',
+  role: UserRole.CONTENT_MANAGER,
+  permissions: []
+}
+
+export default function UserManager() {
+  const [users, setUsers] = useState<User[]>([])
+  const [loading, setLoading] = useState(true)
+  const [search, setSearch] = useState('')
+  const [roleFilter, setRoleFilter] = useState<UserRole | ''>('')
+  const [currentPage, setCurrentPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(1)
+  const [showForm, setShowForm] = useState(false)
+  const [editingUser, setEditingUser] = useState<User | null>(null)
+  const [form, setForm] = useState<UserForm>(emptyForm)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState('')
+  const [success, setSuccess] = useState('')
+  const [setupUrl, setSetupUrl] = useState('')
+
+  useEffect(() => {
+    fetchUsers()
+  }, [currentPage, search, roleFilter])
+
+  const fetchUsers = async () => {
+    try {
+      setLoading(true)
+      const params = new URLSearchParams({
+        page: currentPage.toString(),
+        limit: '20'
+      })
+
+      if (search) params.append('search', search)
+      if (roleFilter) params.append('role', roleFilter)
+
+      const response = await fetch(`/api/users?${params}`)
+      const data = await response.json()
+
+      if (response.ok) {
+        setUsers(data.users)
+        setTotalPages(data.pagination.pages)
+      } else {
+        setError(data.error || 'Failed to fetch users')
+      }
+    } catch (error) {
+      setError('Failed to fetch users')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openInviteForm = () => {
+    setEditingUser(null)
+    setForm(emptyForm)
+    setShowForm(true)
+  }
+
+  const openEditForm = (user: User) => {
+    setEditingUser(user)
+    setForm({
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      permissions: user.permissions
+    })
+    setShowForm(true)
+  }
+
+  const togglePermission = (permission: Permission) => {
+    setForm({
+      ...form,
+      permissions: form.permissions.includes(permission)
+        ? form.permissions.filter(p => p !== permission)
+        : [...form.permissions, permission]
+    })
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    try {
+      setSubmitting(true)
+      setError('')
+      setSetupUrl('')
+
+      const response = await fetch(editingUser ? `/api/users/${editingUser.id}` : '/api/users', {
+        method: editingUser ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form)
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        if (editingUser) {
+          setSuccess('User updated successfully')
+        } else {
+          setSuccess(`Invitation created for ${data.user.email}`)
+          setSetupUrl(data.setupUrl)
+        }
+        setShowForm(false)
+        fetchUsers()
+      } else {
+        setError(data.details ? data.details.join(', ') : data.error || 'Failed to save user')
+      }
+    } catch (error) {
+      setError('Failed to save user')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleToggleDisabled = async (user: User) => {
+    const disable = !user.disabledAt
+    if (disable && !confirm(`Disable ${user.email}? They will be signed out immediately.`)) {
+      return
+    }
+
+    try {
+      setSubmitting(true)
+      setError('')
+
+      const response = await fetch(`/api/users/${user.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ disabled: disable })
+      })
+
+      if (response.ok) {
+        setSuccess(disable ? 'User disabled' : 'User re-enabled')
+        fetchUsers()
+      } else {
+        const errorData = await response.json()
+        setError(errorData.error || 'Failed to update user')
+      }
+    } catch (error) {
+      setError('Failed to update user')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleResetPassword = async (user: User) => {
+    if (!confirm(`Send a password reset link to ${user.email}?`)) {
+      return
+    }
+
+    try {
+      setSubmitting(true)
+      setError('')
+      setSetupUrl('')
+
+      const response = await fetch(`/api/users/${user.id}/reset-password`, {
+        method: 'POST'
+      })
+      const data = await response.json()
+
+      if (response.ok) {
+        setSuccess(`Password reset link created for ${user.email}`)
+        setSetupUrl(data.setupUrl)
+      } else {
+        setError(data.error || 'Failed to reset password')
+      }
+    } catch (error) {
+      setError('Failed to reset password')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleDeleteUser = async (user: User) => {
+    if (!confirm(`Are you sure you want to delete ${user.email}? This action cannot be undone.`)) {
+      return
+    }
+
+    try {
+      setSubmitting(true)
+      const response = await fetch(`/api/users/${user.id}`, {
+        method: 'DELETE'
+      })
+
+      if (response.ok) {
+        setSuccess('User deleted successfully')
+        fetchUsers()
+      } else {
+        const errorData = await response.json()
+        setError(errorData.error || 'Failed to delete user')
+      }
+    } catch (error) {
+      setError('Failed to delete user')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const getStatus = (user: User) => {
+    if (user.disabledAt) {
+      return { label: 'Disabled', color: 'bg-red-100 text-red-800' }
+    }
+    if (!user.lastLogin) {
+      return { label: 'Invited', color: 'bg-yellow-100 text-yellow-800' }
+    }
+    return { label: 'Active', color: 'bg-green-100 text-green-800' }
+  }
+
+  const formatDate = (dateString?: string | null) => {
+    if (!dateString) return 'Never'
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit'
+    })
+  }
+
+  return (
+    <div className="px-4 py-6 sm:px-0">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-2xl font-bold text-gray-900">User Management</h2>
+        <button
+          onClick={openInviteForm}
+          className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700"
+        >
+          Invite User
+        </button>
+      </div>
+
+      {/* Alerts */}
+      {error && (
+        <div className="mb-4 p-4 bg-red-100 border border-red-400 text-red-700 rounded">
+          {error}
+        </div>
+      )}
+      {success && (
+        <div className="mb-4 p-4 bg-green-100 border border-green-400 text-green-700 rounded">
+          {success}
+          {setupUrl && (
+            <div className="mt-2 text-sm">
+              Share this one-time link if the email does not arrive:
+              <input
+                type="text"
+                readOnly
+                value={setupUrl}
+                onFocus={(e) => e.target.select()}
+                className="mt-1 w-full border border-green-300 rounded px-2 py-1 bg-white text-gray-800"
+              />
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="mb-6 bg-white p-4 rounded-lg shadow">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <input
+            type="text"
+            placeholder="Search name or email..."
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value)
+              setCurrentPage(1)
+            }}
+            className="border border-gray-300 rounded-md px-3 py-2"
+          />
+          <select
+            value={roleFilter}
+            onChange={(e) => {
+              setRoleFilter(e.target.value as UserRole | '')
+              setCurrentPage(1)
+            }}
+            className="border border-gray-300 rounded-md px-3 py-2"
+          >
+            <option value="">All Roles</option>
+            {Object.values(UserRole).map(role => (
+              <option key={role} value={role}>
+                {role.replace('_', ' ')}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Users Table */}
+      {loading ? (
+        <div className="flex justify-center py-8">
+          <LoadingSpinner />
+        </div>
+      ) : (
+        <div className="bg-white shadow overflow-hidden sm:rounded-md">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    User
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Role
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Extra Permissions
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Last Login
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {users.map((user) => {
+                  const status = getStatus(user)
+                  return (
+                    <tr key={user.id} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">{user.name}</div>
+                        <div className="text-sm text-gray-500">{user.email}</div>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {user.role.replace('_', ' ')}
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        {user.permissions.length > 0
+                          ? user.permissions.map(p => p.replace(/_/g, ' ')).join(', ')
+                          : '-'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${status.color}`}>
+                          {status.label}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {formatDate(user.lastLogin)}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
+                        <button
+                          onClick={() => openEditForm(user)}
+                          className="text-indigo-600 hover:text-indigo-900"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleResetPassword(user)}
+                          disabled={submitting || !!user.disabledAt}
+                          className="text-indigo-600 hover:text-indigo-900 disabled:opacity-50"
+                        >
+                          Reset Password
+                        </button>
+                        <button
+                          onClick={() => handleToggleDisabled(user)}
+                          disabled={submitting}
+                          className="text-yellow-600 hover:text-yellow-900 disabled:opacity-50"
+                        >
+                          {user.disabledAt ? 'Enable' : 'Disable'}
+                        </button>
+                        <button
+                          onClick={() => handleDeleteUser(user)}
+                          disabled={submitting}
+                          className="text-red-600 hover:text-red-900 disabled:opacity-50"
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Pagination */}
+          {totalPages > 1 && (
+            <div className="bg-white px-4 py-3 flex items-center justify-between border-t border-gray-200 sm:px-6">
+              <p className="text-sm text-gray-700">
+                Page <span className="font-medium">{currentPage}</span> of{' '}
+                <span className="font-medium">{totalPages}</span>
+              </p>
+              <div className="space-x-2">
+                <button
+                  onClick={() => setCurrentPage(Math.max(1, currentPage - 1))}
+                  disabled={currentPage === 1}
+                  className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => setCurrentPage(Math.min(totalPages, currentPage + 1))}
+                  disabled={currentPage === totalPages}
+                  className="px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Invite / Edit Modal */}
+      {showForm && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-11/12 max-w-lg shadow-lg rounded-md bg-white">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-medium">
+                {editingUser ? `Edit User - ${editingUser.name}` : 'Invite User'}
+              </h3>
+              <button
+                onClick={() => setShowForm(false)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label htmlFor="user-name" className="block text-sm font-medium text-gray-700">Name</label>
+                <input
+                  id="user-name"
+                  type="text"
+                  required
+                  value={form.name}
+                  onChange={(e) => setForm({...form, name: e.target.value})}
+                  className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2"
+                />
+              </div>
+              <div>
+                <label htmlFor="user-email" className="block text-sm font-medium text-gray-700">Email</label>
+                <input
+                  id="user-email"
+                  type="email"
+                  required
+                  value={form.email}
+                  onChange={(e) => setForm({...form, email: e.target.value})}
+                  className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2"
+                />
+              </div>
+              <div>
+                <label htmlFor="user-role" className="block text-sm font-medium text-gray-700">Role</label>
+                <select
+                  id="user-role"
+                  value={form.role}
+                  onChange={(e) => setForm({...form, role: e.target.value as UserRole})}
+                  className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2"
+                >
+                  {Object.values(UserRole).map(role => (
+                    <option key={role} value={role}>
+                      {role.replace('_', ' ')}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <fieldset>
+                <legend className="block text-sm font-medium text-gray-700">Extra Permissions</legend>
+                <p className="text-xs text-gray-500 mb-2">Granted on top of the permissions the role already includes.</p>
+                <div className="grid grid-cols-2 gap-2">
+                  {Object.values(Permission).map(permission => (
+                    <label key={permission} className="flex items-center space-x-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={form.permissions.includes(permission)}
+                        onChange={() => togglePermission(permission)}
+                      />
+                      <span>{permission.replace(/_/g, ' ')}</span>
+                    </label>
+                  ))}
+                </div>
+              </fieldset>
+
+              <div className="flex justify-end space-x-2">
+                <button
+                  type="button"
+                  onClick={() => setShowForm(false)}
+                  className="bg-gray-500 text-white px-4 py-2 rounded-md hover:bg-gray-600"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={submitting}
+                  className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {submitting ? 'Saving...' : editingUser ? 'Save Changes' : 'Send Invitation'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
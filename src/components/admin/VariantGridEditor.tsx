@@ -0,0 +1,185 @@
+'use client'
+
+import { AvailabilityStatus } from '@/types/product'
+
+export interface VariantRow {
+  // Set for variants that are already saved, so quote lines keep pointing at them
+  id?: string
+  sku: string
+  diameter: string
+  length: string
+  schedule: string
+  basePrice: number | ''
+  availability: AvailabilityStatus
+}
+
+interface VariantGridEditorProps {
+  variants: VariantRow[]
+  onChange: (variants: VariantRow[]) => void
+  // Values new rows start from
+  defaults: Pick<VariantRow, 'diameter' | 'length' | 'basePrice'>
+  error?: string
+}
+
+export default function VariantGridEditor({ variants, onChange, defaults, error }: VariantGridEditorProps) {
+  const updateRow = (index: number, changes: Partial<VariantRow>) => {
+    onChange(variants.map((row, i) => (i === index ? { ...row, ...changes } : row)))
+  }
+
+  const addRow = () => {
+    const last = variants[variants.length - 1]
+    onChange([
+      ...variants,
+      {
+        sku: '',
+        diameter: last?.diameter ?? defaults.diameter,
+        length: last?.length ?? defaults.length,
+        schedule: last?.schedule ?? '',
+        basePrice: last?.basePrice ?? defaults.basePrice,
+        availability: AvailabilityStatus.IN_STOCK
+      }
+    ])
+  }
+
+  const moveRow = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= variants.length) return
+    const next = [...variants]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    onChange(next)
+  }
+
+  const cellClass = 'w-full border border-gray-300 rounded-md px-2 py-1 text-sm'
+
+  return (
+    <div>
+      <div className="flex justify-between items-center mb-2">
+        <div>
+          <h4 className="text-sm font-medium text-gray-700">Variants</h4>
+          <p className="text-xs text-gray-500">
+            Sizes sold under this product. Leave empty to sell the product as a single item.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={addRow}
+          className="px-3 py-1 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50"
+        >
+          Add Variant
+        </button>
+      </div>
+
+      {variants.length > 0 && (
+        <div className="overflow-x-auto border border-gray-200 rounded-md">
+          <table className="min-w-full divide-y divide-gray-200" aria-label="Variants">
+            <thead className="bg-gray-50">
+              <tr>
+                {['SKU', 'Diameter', 'Length', 'Schedule', 'Price', 'Availability', ''].map(heading => (
+                  <th key={heading} className="px-2 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    {heading}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {variants.map((row, index) => (
+                <tr key={row.id ?? `new-${index}`}>
+                  <td className="px-2 py-1">
+                    <input
+                      type="text"
+                      aria-label={`Variant ${index + 1} SKU`}
+                      value={row.sku}
+                      onChange={(e) => updateRow(index, { sku: e.target.value })}
+                      className={cellClass}
+                    />
+                  </td>
+                  <td className="px-2 py-1">
+                    <input
+                      type="text"
+                      aria-label={`Variant ${index + 1} diameter`}
+                      value={row.diameter}
+                      onChange={(e) => updateRow(index, { diameter: e.target.value })}
+                      className={cellClass}
+                    />
+                  </td>
+                  <td className="px-2 py-1">
+                    <input
+                      type="text"
+                      aria-label={`Variant ${index + 1} length`}
+                      value={row.length}
+                      onChange={(e) => updateRow(index, { length: e.target.value })}
+                      className={cellClass}
+                    />
+                  </td>
+                  <td className="px-2 py-1">
+                    <input
+                      type="text"
+                      aria-label={`Variant ${index + 1} schedule`}
+                      value={row.schedule}
+                      onChange={(e) => updateRow(index, { schedule: e.target.value })}
+                      className={`${cellClass} w-20`}
+                    />
+                  </td>
+                  <td className="px-2 py-1">
+                    <input
+                      type="number"
+                      step="0.01"
+                      aria-label={`Variant ${index + 1} price`}
+                      value={row.basePrice}
+                      onChange={(e) => updateRow(index, { basePrice: parseFloat(e.target.value) || '' })}
+                      className={`${cellClass} w-24`}
+                    />
+                  </td>
+                  <td className="px-2 py-1">
+                    <select
+                      aria-label={`Variant ${index + 1} availability`}
+                      value={row.availability}
+                      onChange={(e) => updateRow(index, { availability: e.target.value as AvailabilityStatus })}
+                      className={cellClass}
+                    >
+                      {Object.values(AvailabilityStatus).map(status => (
+                        <option key={status} value={status}>
+                          {status.replace('_', ' ')}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-2 py-1 whitespace-nowrap text-sm">
+                    <button
+                      type="button"
+                      onClick={() => moveRow(index, -1)}
+                      disabled={index === 0}
+                      aria-label={`Move variant ${index + 1} up`}
+                      className="px-1 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => moveRow(index, 1)}
+                      disabled={index === variants.length - 1}
+                      aria-label={`Move variant ${index + 1} down`}
+                      className="px-1 text-gray-500 hover:text-gray-700 disabled:opacity-30"
+                    >
+                      ↓
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => onChange(variants.filter((_, i) => i !== index))}
+                      aria-label={`Remove variant ${index + 1}`}
+                      className="px-1 text-red-600 hover:text-red-900"
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+    </div>
+  )
+}
@@ -4,11 +4,17 @@ import { useState, useEffect } from 'react'
 import Link from 'next/link'
 import LoadingSpinner from '@/components/ui/LoadingSpinner'
 
+// Lapsed certifications are left out by the API
 interface Certification {
+  id: string
   name: string
   issuer: string
-  validUntil?: string
-  documentUrl?: string
+  certificateNumber?: string | null
+  scope?: string | null
+  issuedAt?: string | null
+  expiresAt?: string | null
+  documentUrl?: string | null
+  status: 'VALID' | 'EXPIRING_SOON'
 }
 
 interface CompanyContent {
@@ -31,22 +37,27 @@ interface CompanyContent {
   specialties?: string[]
 }
 
-export default function CompanyShowcase() {
+interface CompanyShowcaseProps {
+  // Show the unpublished draft instead of the live content, for the content team
+  preview?: boolean
+}
+
+export default function CompanyShowcase({ preview = false }: CompanyShowcaseProps) {
   const [content, setContent] = useState<CompanyContent | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
 
   useEffect(() => {
     fetchCompanyContent()
-  }, [])
+  }, [preview])
 
   const fetchCompanyContent = async () => {
     try {
       setLoading(true)
-      const response = await fetch('/api/company')
+      const response = await fetch(preview ? '/api/company/draft' : '/api/company')
       if (response.ok) {
         const data = await response.json()
-        setContent(data)
+        setContent(preview ? { ...(data.draft?.data ?? data.published), certifications: data.certifications } : data)
       } else {
         setError('Failed to load company information')
       }
@@ -78,14 +89,13 @@ export default function CompanyShowcase() {
     return parts.filter(Boolean).join(', ')
   }
 
-  const isValidCertification = (cert: Certification) => {
-    if (!cert.validUntil) return true
-    const validDate = new Date(cert.validUntil)
-    return validDate > new Date()
-  }
-
   return (
     <div className="bg-gray-50">
+      {preview && (
+        <div className="bg-yellow-100 border-b border-yellow-300 text-yellow-800 text-sm text-center py-2">
+          Previewing unpublished changes
+        </div>
+      )}
       {/* Hero Section */}
       <div className="bg-gradient-to-r from-blue-900 to-blue-700 text-white">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
@@ -194,11 +204,11 @@ export default function CompanyShowcase() {
               Certifications & Standards
             </h2>
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {content.certifications.map((cert, index) => (
+              {content.certifications.map((cert) => (
                 <div 
-                  key={index} 
+                  key={cert.id} 
                   className={`bg-white border rounded-lg p-6 shadow-md hover:shadow-lg transition-shadow ${
-                    isValidCertification(cert) ? 'border-green-200' : 'border-yellow-200'
+                    cert.status === 'VALID' ? 'border-green-200' : 'border-yellow-200'
                   }`}
                 >
                   <div className="flex items-start justify-between mb-4">
@@ -206,28 +216,37 @@ export default function CompanyShowcase() {
                       <h3 className="text-lg font-semibold text-gray-900 mb-2">
                         {cert.name}
                       </h3>
-                      <p className="text-gray-600 text-sm mb-3">
+                      <p className="text-gray-600 text-sm">
                         Issued by: {cert.issuer}
                       </p>
+                      {cert.certificateNumber && (
+                        <p className="text-gray-500 text-sm">
+                          Certificate No. {cert.certificateNumber}
+                        </p>
+                      )}
                     </div>
-                    <div className={`w-3 h-3 rounded-full ${
-                      isValidCertification(cert) ? 'bg-green-400' : 'bg-yellow-400'
-                    }`} />
+                    <span className={`px-2 py-1 text-xs font-medium rounded-full ${
+                      cert.status === 'VALID' ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+                    }`}>
+                      {cert.status === 'VALID' ? 'Valid' : 'Renewal due'}
+                    </span>
                   </div>
 
-                  {cert.validUntil && (
-                    <div className="mb-3">
-                      <span className="text-sm text-gray-500">
-                        Valid until: {new Date(cert.validUntil).toLocaleDateString()}
-                      </span>
-                      {!isValidCertification(cert) && (
-                        <span className="ml-2 text-xs text-yellow-600 font-medium">
-                          (Renewal in progress)
-                        </span>
-                      )}
-                    </div>
+                  {cert.scope && (
+                    <p className="text-sm text-gray-700 mb-3 whitespace-pre-line">{cert.scope}</p>
                   )}
 
+                  <div className="mb-3 text-sm text-gray-500">
+                    {cert.issuedAt && (
+                      <span className="mr-3">Issued: {new Date(cert.issuedAt).toLocaleDateString()}</span>
+                    )}
+                    {cert.expiresAt ? (
+                      <span>Valid until: {new Date(cert.expiresAt).toLocaleDateString()}</span>
+                    ) : (
+                      <span>No expiry</span>
+                    )}
+                  </div>
+
                   {cert.documentUrl && (
                     <Link
                       href={cert.documentUrl}
@@ -27,22 +27,27 @@ interface ContactMethod {
   description: string
 }
 
-export default function ContactPage() {
+interface ContactPageProps {
+  // Show the unpublished draft instead of the live content, for the content team
+  preview?: boolean
+}
+
+export default function ContactPage({ preview = false }: ContactPageProps) {
   const [content, setContent] = useState<CompanyContent | null>(null)
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState('')
 
   useEffect(() => {
     fetchCompanyContent()
-  }, [])
+  }, [preview])
 
   const fetchCompanyContent = async () => {
     try {
       setLoading(true)
-      const response = await fetch('/api/company')
+      const response = await fetch(preview ? '/api/company/draft' : '/api/company')
       if (response.ok) {
         const data = await response.json()
-        setContent(data)
+        setContent(preview ? (data.draft?.data ?? data.published) : data)
       } else {
         setError('Failed to load contact information')
       }
@@ -123,6 +128,11 @@ export default function ContactPage() {
 
   return (
     <div className="bg-gray-50">
+      {preview && (
+        <div className="bg-yellow-100 border-b border-yellow-300 text-yellow-800 text-sm text-center py-2">
+          Previewing unpublished changes
+        </div>
+      )}
       {/* Header Section */}
       <div className="bg-gradient-to-r from-blue-900 to-blue-700 text-white">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-16">
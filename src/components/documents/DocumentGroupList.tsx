@@ -0,0 +1,87 @@
+'use client'
+
+import Link from 'next/link'
+import type { DocumentLibraryGroup, LibraryDocument } from '@/lib/document-utils'
+
+interface DocumentGroupListProps {
+  groups: DocumentLibraryGroup[]
+  // Show which product each document belongs to (library view)
+  showProduct?: boolean
+}
+
+const VISIBILITY_BADGES: Record<string, { label: string; className: string } | undefined> = {
+  CUSTOMER: { label: 'Customers', className: 'bg-blue-100 text-blue-800' },
+  INTERNAL: { label: 'Internal', className: 'bg-gray-200 text-gray-800' }
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`
+}
+
+function formatType(mimeType: string | null): string | null {
+  if (!mimeType) return null
+  if (mimeType === 'application/pdf') return 'PDF'
+  if (mimeType.includes('spreadsheet') || mimeType.includes('excel')) return 'Excel'
+  if (mimeType.includes('word')) return 'Word'
+  if (mimeType === 'text/plain') return 'Text'
+  return null
+}
+
+function DocumentRow({ document, showProduct }: { document: LibraryDocument; showProduct: boolean }) {
+  const badge = VISIBILITY_BADGES[document.visibility]
+  const details = [formatType(document.mimeType), document.size !== null ? formatSize(document.size) : null].filter(Boolean)
+
+  return (
+    <li className="flex items-center justify-between py-3">
+      <div className="min-w-0 flex-1">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium text-gray-900 truncate">{document.name}</span>
+          {badge && (
+            <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${badge.className}`}>
+              {badge.label}
+            </span>
+          )}
+        </div>
+        <p className="text-xs text-gray-500 mt-0.5">
+          {showProduct && (
+            <>
+              <Link href={`/products/${document.productId}`} className="text-blue-600 hover:text-blue-800">
+                {document.productName}
+              </Link>
+              {details.length > 0 && ' · '}
+            </>
+          )}
+          {details.join(' · ')}
+        </p>
+      </div>
+      <a
+        href={document.downloadUrl}
+        className="ml-4 inline-flex items-center px-3 py-1.5 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+      >
+        Download
+      </a>
+    </li>
+  )
+}
+
+export default function DocumentGroupList({ groups, showProduct = false }: DocumentGroupListProps) {
+  return (
+    <div className="space-y-6">
+      {groups.map(group => (
+        <section key={group.id} aria-labelledby={`documents-${group.id}`}>
+          <h4 id={`documents-${group.id}`} className="text-sm font-semibold text-gray-900">
+            {group.name}
+          </h4>
+          <p className="text-xs text-gray-500">{group.description}</p>
+          <ul className="mt-2 divide-y divide-gray-200 border-t border-b border-gray-200">
+            {group.documents.map(document => (
+              <DocumentRow key={document.id} document={document} showProduct={showProduct} />
+            ))}
+          </ul>
+        </section>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,87 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { DocumentLibraryGroup } from '@/lib/document-utils'
+import { DOCUMENT_CATEGORIES } from '@/lib/document-categories'
+import DocumentGroupList from './DocumentGroupList'
+import SearchBar from '../products/SearchBar'
+import LoadingSpinner from '../ui/LoadingSpinner'
+
+export default function DocumentLibrary() {
+  const [groups, setGroups] = useState<DocumentLibraryGroup[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(true)
+  const [searchQuery, setSearchQuery] = useState('')
+  const [category, setCategory] = useState('')
+
+  const fetchDocuments = async () => {
+    setLoading(true)
+    try {
+      const params = new URLSearchParams()
+      if (searchQuery) params.append('search', searchQuery)
+      if (category) params.append('category', category)
+
+      const response = await fetch(`/api/documents/library?${params}`)
+      if (!response.ok) throw new Error('Failed to fetch documents')
+
+      const data: { groups: DocumentLibraryGroup[]; total: number } = await response.json()
+      setGroups(data.groups)
+      setTotal(data.total)
+    } catch (error) {
+      console.error('Error fetching document library:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Debounced search effect
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      fetchDocuments()
+    }, 300)
+
+    return () => clearTimeout(timeoutId)
+  }, [searchQuery, category])
+
+  const shown = groups.reduce((count, group) => count + group.documents.length, 0)
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row gap-4 mb-6">
+        <div className="flex-1">
+          <SearchBar
+            value={searchQuery}
+            onChange={setSearchQuery}
+            placeholder="Search by document or product name..."
+          />
+        </div>
+        <select
+          value={category}
+          onChange={(e) => setCategory(e.target.value)}
+          aria-label="Document category"
+          className="px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">All categories</option>
+          {DOCUMENT_CATEGORIES.map(option => (
+            <option key={option.id} value={option.id}>{option.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {loading ? (
+        <LoadingSpinner size="lg" className="py-12" />
+      ) : groups.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">
+          No documents match your search.
+        </div>
+      ) : (
+        <>
+          <p className="text-sm text-gray-600 mb-4">
+            {shown < total ? `Showing ${shown} of ${total} documents` : `${total} document${total === 1 ? '' : 's'}`}
+          </p>
+          <DocumentGroupList groups={groups} showProduct />
+        </>
+      )}
+    </div>
+  )
+}
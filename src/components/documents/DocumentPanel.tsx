@@ -0,0 +1,52 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { DocumentLibraryGroup } from '@/lib/document-utils'
+import DocumentGroupList from './DocumentGroupList'
+import LoadingSpinner from '../ui/LoadingSpinner'
+
+interface DocumentPanelProps {
+  productId: string
+}
+
+export default function DocumentPanel({ productId }: DocumentPanelProps) {
+  const [groups, setGroups] = useState<DocumentLibraryGroup[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    let cancelled = false
+
+    const fetchDocuments = async () => {
+      setLoading(true)
+      try {
+        const response = await fetch(`/api/documents/library?productId=${encodeURIComponent(productId)}`)
+        if (!response.ok) throw new Error('Failed to fetch documents')
+
+        const data: { groups: DocumentLibraryGroup[] } = await response.json()
+        if (!cancelled) setGroups(data.groups)
+      } catch (error) {
+        console.error('Error fetching product documents:', error)
+        if (!cancelled) setGroups([])
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    fetchDocuments()
+    return () => {
+      cancelled = true
+    }
+  }, [productId])
+
+  // Products without documents get no panel at all
+  if (!loading && groups.length === 0) return null
+
+  return (
+    <div className="mt-8">
+      <h3 className="text-sm font-medium text-gray-900">Technical Documents</h3>
+      <div className="mt-4">
+        {loading ? <LoadingSpinner size="sm" className="py-4" /> : <DocumentGroupList groups={groups} />}
+      </div>
+    </div>
+  )
+}
@@ -1,3 +1,6 @@
+'use client'
+
+import { useEffect, useState } from 'react'
 import Link from 'next/link'
 
 interface ContactInfo {
@@ -16,7 +19,21 @@ interface FooterSection {
   }>
 }
 
-const contactInfo: ContactInfo[] = [
+interface PublishedContent {
+  name: string
+  address?: string | null
+  city?: string | null
+  state?: string | null
+  zipCode?: string | null
+  phone?: string | null
+  email?: string | null
+  certifications?: Array<{ name: string }>
+  serviceAreas?: string[]
+  specialties?: string[]
+}
+
+// Shown until the published company content has loaded
+const defaultContactInfo: ContactInfo[] = [
   {
     label: 'Phone',
     value: '(555) 123-4567',
@@ -75,13 +92,13 @@ const footerSections: FooterSection[] = [
     links: [
       { name: 'Contact Us', href: '/contact', description: 'Get in touch' },
       { name: 'FAQ', href: '/faq', description: 'Frequently asked questions' },
-      { name: 'Documentation', href: '/docs', description: 'Technical documentation' },
+      { name: 'Documentation', href: '/documents', description: 'Technical documentation' },
       { name: 'Returns', href: '/returns', description: 'Return policy' }
     ]
   }
 ]
 
-const businessDetails = {
+const defaultBusinessDetails = {
   companyName: 'Pipe Supply Co.',
   establishedYear: '1985',
   certifications: ['ISO 9001:2015', 'ASME Certified', 'API Approved'],
@@ -89,8 +106,55 @@ const businessDetails = {
   specialties: ['Industrial Piping', 'Custom Fabrication', 'Emergency Supply']
 }
 
+const hoursInfo = defaultContactInfo.find(contact => contact.label === 'Hours')!
+
+function toContactInfo(content: PublishedContent): ContactInfo[] {
+  const address = [content.address, content.city, [content.state, content.zipCode].filter(Boolean).join(' ')]
+    .filter(Boolean)
+    .join(', ')
+
+  return [
+    ...(content.phone
+      ? [{ label: 'Phone', value: content.phone, href: `tel:${content.phone.replace(/[^\d+]/g, '')}`, icon: '📞' }]
+      : []),
+    ...(content.email
+      ? [{ label: 'Email', value: content.email, href: `mailto:${content.email}`, icon: '✉️' }]
+      : []),
+    ...(address
+      ? [{ label: 'Address', value: address, href: `https://maps.google.com/?q=${encodeURIComponent(address)}`, icon: '📍' }]
+      : []),
+    hoursInfo
+  ]
+}
+
 export default function Footer() {
   const currentYear = new Date().getFullYear()
+  const [contactInfo, setContactInfo] = useState(defaultContactInfo)
+  const [businessDetails, setBusinessDetails] = useState(defaultBusinessDetails)
+
+  // Company details follow the published company content
+  useEffect(() => {
+    const fetchCompanyContent = async () => {
+      try {
+        const response = await fetch('/api/company')
+        const content: PublishedContent = response.ok ? await response.json() : null
+        if (!content?.name) return
+
+        setContactInfo(toContactInfo(content))
+        setBusinessDetails(prev => ({
+          ...prev,
+          companyName: content.name,
+          certifications: (content.certifications ?? []).map(cert => cert.name),
+          serviceAreas: content.serviceAreas ?? [],
+          specialties: content.specialties ?? []
+        }))
+      } catch (error) {
+        // Keep the defaults
+      }
+    }
+
+    fetchCompanyContent()
+  }, [])
 
   return (
     <footer className="bg-gray-900 text-white">
@@ -13,6 +13,7 @@ interface NavigationItem {
 const navigationItems: NavigationItem[] = [
   { name: 'Home', href: '/', description: 'Welcome to our pipe supply business' },
   { name: 'Products', href: '/products', description: 'Browse our pipe catalog' },
+  { name: 'Documents', href: '/documents', description: 'Spec sheets and technical documents' },
   { name: 'Quote Request', href: '/quote', description: 'Request a custom quote' },
   { name: 'About', href: '/about', description: 'Learn about our company' },
   { name: 'Contact', href: '/contact', description: 'Get in touch with us' },
@@ -1,12 +1,14 @@
 'use client'
 
-import { ProductCategory, AvailabilityStatus, FilterState, FilterOptions } from '@/types/product'
+import { ProductCategory, AvailabilityStatus, FilterState, FilterOptions, FacetCount, ProductFacets } from '@/types/product'
 
 interface FilterPanelProps {
   filters: FilterState
   onFilterChange: (filters: Partial<FilterState>) => void
   onClearFilters: () => void
   filterOptions: FilterOptions
+  // Matching products per option; counts are shown next to each option when present
+  facets?: ProductFacets
 }
 
 const PRODUCT_CATEGORIES: { value: ProductCategory; label: string }[] = [
@@ -27,11 +29,17 @@ const AVAILABILITY_OPTIONS: { value: AvailabilityStatus; label: string }[] = [
   { value: AvailabilityStatus.DISCONTINUED, label: 'Discontinued' }
 ]
 
+function withCount(label: string, counts: FacetCount[] | undefined, value: string): string {
+  if (!counts) return label
+  return `${label} (${counts.find(facet => facet.value === value)?.count ?? 0})`
+}
+
 export default function FilterPanel({ 
   filters, 
   onFilterChange, 
   onClearFilters, 
-  filterOptions 
+  filterOptions,
+  facets
 }: FilterPanelProps) {
   return (
     <div className="bg-gray-50 p-4 rounded-lg border">
@@ -49,7 +57,7 @@ export default function FilterPanel({
             <option value="">All Categories</option>
             {PRODUCT_CATEGORIES.map((category) => (
               <option key={category.value} value={category.value}>
-                {category.label}
+                {withCount(category.label, facets?.categories, category.value)}
               </option>
             ))}
           </select>
@@ -68,7 +76,7 @@ export default function FilterPanel({
             <option value="">All Brands</option>
             {filterOptions.brands.map((brand) => (
               <option key={brand} value={brand}>
-                {brand}
+                {withCount(brand, facets?.brands, brand)}
               </option>
             ))}
           </select>
@@ -87,7 +95,7 @@ export default function FilterPanel({
             <option value="">All Materials</option>
             {filterOptions.materials.map((material) => (
               <option key={material} value={material}>
-                {material}
+                {withCount(material, facets?.materials, material)}
               </option>
             ))}
           </select>
@@ -106,7 +114,7 @@ export default function FilterPanel({
             <option value="">All Status</option>
             {AVAILABILITY_OPTIONS.map((status) => (
               <option key={status.value} value={status.value}>
-                {status.label}
+                {withCount(status.label, facets?.availability, status.value)}
               </option>
             ))}
           </select>
@@ -144,6 +152,30 @@ export default function FilterPanel({
         </div>
       </div>
 
+      {/* Price Ranges */}
+      {facets && facets.priceRanges.length > 0 && (
+        <div className="mt-4 flex flex-wrap items-center gap-2">
+          <span className="text-sm font-medium text-gray-700">Price:</span>
+          {facets.priceRanges.map((range) => {
+            const minPrice = range.min?.toString() ?? ''
+            const maxPrice = range.max?.toString() ?? ''
+            const selected = filters.minPrice === minPrice && filters.maxPrice === maxPrice
+            return (
+              <button
+                key={range.value}
+                onClick={() => onFilterChange(selected ? { minPrice: '', maxPrice: '' } : { minPrice, maxPrice })}
+                disabled={range.count === 0 && !selected}
+                className={`px-3 py-1 text-sm rounded-full border focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 ${
+                  selected ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {range.label} ({range.count})
+              </button>
+            )
+          })}
+        </div>
+      )}
+
       {/* Clear Filters Button */}
       <div className="mt-4 flex justify-end">
         <button
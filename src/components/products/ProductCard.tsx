@@ -3,12 +3,21 @@
 import Image from 'next/image'
 import Link from 'next/link'
 import { ProductWithImages, AvailabilityStatus } from '@/types/product'
+import { isMediaImageUrl, mediaImageLoader } from '@/lib/image-optimization'
+import { formatSpecifications } from '@/lib/product-specs'
+import { getVariantPriceRange } from '@/lib/product-variants'
+import UnitToggle, { useUnitSystem } from './UnitToggle'
 
 interface ProductCardProps {
   product: ProductWithImages
 }
 
 export default function ProductCard({ product }: ProductCardProps) {
+  const [unitSystem, setUnitSystem] = useUnitSystem()
+  const specs = formatSpecifications(product, unitSystem)
+  const variantCount = product.variants?.length ?? 0
+  const priceRange = getVariantPriceRange(product.variants ?? [])
+
   const getAvailabilityColor = (status: AvailabilityStatus) => {
     switch (status) {
       case 'IN_STOCK':
@@ -56,6 +65,7 @@ export default function ProductCard({ product }: ProductCardProps) {
           {primaryImage ? (
             <Image
               src={primaryImage.url}
+              loader={isMediaImageUrl(primaryImage.url) ? mediaImageLoader : undefined}
               alt={primaryImage.alt || product.name}
               width={400}
               height={225}
@@ -96,7 +106,18 @@ export default function ProductCard({ product }: ProductCardProps) {
           </div>
           <div className="flex justify-between">
             <span>Diameter:</span>
-            <span className="font-medium">{product.diameter}</span>
+            <span className="font-medium">
+              {variantCount > 1 ? `${variantCount} sizes` : specs.diameter ?? product.diameter}
+            </span>
+          </div>
+          {(specs.pressure || product.pressureRating) && (
+            <div className="flex justify-between">
+              <span>Pressure:</span>
+              <span className="font-medium">{specs.pressure ?? product.pressureRating}</span>
+            </div>
+          )}
+          <div className="flex justify-end pt-1">
+            <UnitToggle system={unitSystem} onChange={setUnitSystem} size="sm" />
           </div>
         </div>
         
@@ -106,7 +127,10 @@ export default function ProductCard({ product }: ProductCardProps) {
         
         <div className="flex justify-between items-center">
           <div className="text-lg font-bold text-gray-900">
-            ${product.basePrice.toFixed(2)}
+            {priceRange && priceRange.min !== priceRange.max && (
+              <span className="text-sm font-normal text-gray-600 mr-1">From</span>
+            )}
+            ${(priceRange?.min ?? product.basePrice).toFixed(2)}
             <span className="text-sm font-normal text-gray-600 ml-1">
               / {product.pricePerUnit}
             </span>
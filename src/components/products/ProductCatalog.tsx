@@ -1,7 +1,7 @@
 'use client'
 
-import { useState, useEffect, useMemo } from 'react'
-import { ProductWithImages, ProductCatalogResponse, FilterState } from '@/types/product'
+import { useState, useEffect } from 'react'
+import { ProductWithImages, ProductCatalogResponse, ProductFacets, ProductSortKey, FilterOptions, FilterState } from '@/types/product'
 import ProductCard from './ProductCard'
 import SearchBar from './SearchBar'
 import FilterPanel from './FilterPanel'
@@ -21,6 +21,7 @@ export default function ProductCatalog({ initialProducts = [], initialPagination
     total: 0,
     pages: 0
   })
+  const [facets, setFacets] = useState<ProductFacets>()
   const [loading, setLoading] = useState(false)
   const [searchQuery, setSearchQuery] = useState('')
   const [filters, setFilters] = useState<FilterState>({
@@ -31,6 +32,8 @@ export default function ProductCatalog({ initialProducts = [], initialPagination
     minPrice: '',
     maxPrice: ''
   })
+  const [sortBy, setSortBy] = useState<ProductSortKey | ''>('')
+  const [filterOptions, setFilterOptions] = useState<FilterOptions>({ brands: [], materials: [] })
   const [showFilters, setShowFilters] = useState(false)
 
   // Fetch products based on current filters and pagination
@@ -49,6 +52,7 @@ export default function ProductCatalog({ initialProducts = [], initialPagination
       if (filters.availability) params.append('availability', filters.availability)
       if (filters.minPrice) params.append('minPrice', filters.minPrice)
       if (filters.maxPrice) params.append('maxPrice', filters.maxPrice)
+      if (sortBy) params.append('sort', sortBy)
 
       const response = await fetch(`/api/products?${params}`)
       if (!response.ok) throw new Error('Failed to fetch products')
@@ -56,6 +60,8 @@ export default function ProductCatalog({ initialProducts = [], initialPagination
       const data: ProductCatalogResponse = await response.json()
       setProducts(data.products)
       setPagination(data.pagination)
+      setFacets(data.facets)
+      setFilterOptions(data.filterOptions)
     } catch (error) {
       console.error('Error fetching products:', error)
     } finally {
@@ -70,7 +76,7 @@ export default function ProductCatalog({ initialProducts = [], initialPagination
     }, 300)
 
     return () => clearTimeout(timeoutId)
-  }, [searchQuery, filters])
+  }, [searchQuery, filters, sortBy])
 
   // Handle page change
   const handlePageChange = (page: number) => {
@@ -100,22 +106,6 @@ export default function ProductCatalog({ initialProducts = [], initialPagination
     setSearchQuery('')
   }
 
-  // Get unique filter options from current products
-  const filterOptions = useMemo(() => {
-    const brands = new Set<string>()
-    const materials = new Set<string>()
-    
-    products.forEach(product => {
-      brands.add(product.brand)
-      materials.add(product.material)
-    })
-
-    return {
-      brands: Array.from(brands).sort(),
-      materials: Array.from(materials).sort()
-    }
-  }, [products])
-
   // Check if any filters are active
   const hasActiveFilters = Object.values(filters).some(value => value !== '') || searchQuery !== ''
 
@@ -139,6 +129,19 @@ export default function ProductCatalog({ initialProducts = [], initialPagination
               placeholder="Search by name, brand, material, or specifications..."
             />
           </div>
+          <select
+            value={sortBy}
+            onChange={(e) => setSortBy(e.target.value as ProductSortKey | '')}
+            aria-label="Sort products"
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">{searchQuery ? 'Best match' : 'Newest first'}</option>
+            <option value="name-asc">Name: A to Z</option>
+            <option value="name-desc">Name: Z to A</option>
+            <option value="price-asc">Price: Low to High</option>
+            <option value="price-desc">Price: High to Low</option>
+            <option value="oldest">Oldest first</option>
+          </select>
           <button
             onClick={() => setShowFilters(!showFilters)}
             className="px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
@@ -157,6 +160,7 @@ export default function ProductCatalog({ initialProducts = [], initialPagination
             onFilterChange={handleFilterChange}
             onClearFilters={clearFilters}
             filterOptions={filterOptions}
+            facets={facets}
           />
         )}
 
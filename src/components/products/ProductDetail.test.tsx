@@ -0,0 +1,100 @@
+/**
+ * Tests for the product detail size selector
+ */
+
+import { render, screen, fireEvent } from '@testing-library/react'
+import { AvailabilityStatus, ProductCategory, ProductWithImages } from '@/types/product'
+import ProductDetail from './ProductDetail'
+
+jest.mock('next/image', () => {
+  return function MockImage({ src, alt }: any) {
+    return <img src={src} alt={alt} />
+  }
+})
+
+jest.mock('next/link', () => {
+  return function MockLink({ href, children, ...props }: any) {
+    return <a href={href} {...props}>{children}</a>
+  }
+})
+
+global.fetch = jest.fn().mockResolvedValue({ ok: true, json: async () => ({ groups: [] }) })
+
+const variant = (id: string, diameter: string, schedule: string, basePrice: number, availability = AvailabilityStatus.IN_STOCK) => ({
+  id,
+  productId: 'p1',
+  sku: `SP-${id}`,
+  diameter,
+  length: '21 ft',
+  schedule,
+  basePrice,
+  availability,
+  position: 0,
+  bulkDiscounts: [],
+})
+
+const product = {
+  id: 'p1',
+  name: 'Carbon Steel Pipe',
+  description: 'Seamless pipe',
+  category: ProductCategory.STEEL_PIPE,
+  brand: 'Wheatland',
+  diameter: '2-4 inches',
+  length: '21 feet',
+  material: 'Carbon Steel',
+  pressureRating: '300 PSI',
+  temperature: '400°F',
+  standards: [],
+  applications: [],
+  basePrice: 80,
+  currency: 'USD',
+  pricePerUnit: 'piece',
+  availability: AvailabilityStatus.IN_STOCK,
+  images: [],
+  variants: [
+    variant('1', '2"', '40', 80, AvailabilityStatus.DISCONTINUED),
+    variant('2', '2"', '80', 110),
+    variant('3', '4"', '40', 190, AvailabilityStatus.OUT_OF_STOCK),
+  ],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+} as ProductWithImages
+
+describe('ProductDetail', () => {
+  test('selecting a size shows that variant\'s price, SKU and availability', () => {
+    render(<ProductDetail product={product} />)
+
+    // Discontinued variants are not pre-selected
+    expect(screen.getByText('$110.00')).toBeInTheDocument()
+    expect(screen.getByText('SKU SP-2')).toBeInTheDocument()
+    expect(screen.getByRole('link', { name: 'Request Quote' })).toHaveAttribute('href', '/quote?product=p1&variant=2')
+
+    fireEvent.change(screen.getByLabelText('Size'), { target: { value: '4"' } })
+
+    expect(screen.getByText('$190.00')).toBeInTheDocument()
+    expect(screen.getByText('SKU SP-3')).toBeInTheDocument()
+    expect(screen.getByText('Out of Stock')).toBeInTheDocument()
+    expect(screen.getByLabelText('Schedule')).toHaveValue('40')
+  })
+
+  test('related products are listed by section', () => {
+    const elbow = { id: 'e1', name: '2" Elbow', category: ProductCategory.STEEL_PIPE, diameter: '2"', material: 'Carbon Steel', basePrice: 12, pricePerUnit: 'piece', availability: AvailabilityStatus.IN_STOCK, images: [] }
+    render(
+      <ProductDetail
+        product={product}
+        related={{ compatible: [elbow], alternatives: [], frequentlyQuotedWith: [{ ...elbow, id: 't1', name: 'Thread Tape' }], suggested: true }}
+      />
+    )
+
+    expect(screen.getByRole('region', { name: 'Compatible Fittings' })).toHaveTextContent('2" Elbow')
+    expect(screen.getByText('Suggested from products with the same material, size and standards')).toBeInTheDocument()
+    expect(screen.getByRole('region', { name: 'Frequently Quoted With' })).toHaveTextContent('Thread Tape')
+  })
+
+  test('products without variants have no size selector', () => {
+    render(<ProductDetail product={{ ...product, variants: [] }} />)
+
+    expect(screen.queryByLabelText('Size')).not.toBeInTheDocument()
+    expect(screen.getByText('$80.00')).toBeInTheDocument()
+  })
+})
@@ -3,16 +3,46 @@
 import { useState } from 'react'
 import Image from 'next/image'
 import Link from 'next/link'
-import { ProductWithImages, AvailabilityStatus } from '@/types/product'
+import { ProductWithImages, ProductVariant, AvailabilityStatus, RelatedProducts as RelatedProductGroups } from '@/types/product'
+import { isMediaImageUrl, mediaImageLoader } from '@/lib/image-optimization'
+import DocumentPanel from '@/components/documents/DocumentPanel'
+import { formatSpecifications, parseDiameter, parseLength } from '@/lib/product-specs'
+import { getVariantSelectorOptions, selectVariant } from '@/lib/product-variants'
+import UnitToggle, { useUnitSystem } from './UnitToggle'
+import RelatedProducts from './RelatedProducts'
 
 interface ProductDetailProps {
   product: ProductWithImages
-  alternativeProducts?: ProductWithImages[]
+  related?: RelatedProductGroups
 }
 
-export default function ProductDetail({ product, alternativeProducts = [] }: ProductDetailProps) {
+export default function ProductDetail({ product, related }: ProductDetailProps) {
   const [selectedImageIndex, setSelectedImageIndex] = useState(0)
   const [isZoomed, setIsZoomed] = useState(false)
+  const [unitSystem, setUnitSystem] = useUnitSystem()
+  const variants = product.variants ?? []
+  const [selectedVariant, setSelectedVariant] = useState<ProductVariant | null>(
+    () => variants.find(variant => variant.availability !== 'DISCONTINUED') ?? variants[0] ?? null
+  )
+  const variantOptions = getVariantSelectorOptions(variants, selectedVariant)
+  const chooseVariant = (change: Parameters<typeof selectVariant>[2]) =>
+    setSelectedVariant(selectVariant(variants, selectedVariant, change))
+
+  // A selected variant's size and length replace the product's own
+  const specs = formatSpecifications(
+    selectedVariant
+      ? {
+          ...product,
+          ...parseDiameter(selectedVariant.diameter, product.category),
+          ...(selectedVariant.schedule ? { schedule: selectedVariant.schedule } : {}),
+          lengthM: parseLength(selectedVariant.length)
+        }
+      : product,
+    unitSystem
+  )
+  const price = selectedVariant?.basePrice ?? product.basePrice
+  const availability = selectedVariant?.availability ?? product.availability
+  const bulkDiscounts = selectedVariant?.bulkDiscounts?.length ? selectedVariant.bulkDiscounts : product.bulkDiscounts
 
   const getAvailabilityColor = (status: AvailabilityStatus) => {
     switch (status) {
@@ -52,7 +82,10 @@ export default function ProductDetail({ product, alternativeProducts = [] }: Pro
     return category.replace(/_/g, ' ').toLowerCase().replace(/\b\w/g, l => l.toUpperCase())
   }
 
-  const isAvailable = product.availability === 'IN_STOCK' || product.availability === 'LOW_STOCK'
+  const isAvailable = availability === 'IN_STOCK' || availability === 'LOW_STOCK'
+  // Substitutes only matter when this product can't be supplied; upgrades are always offered
+  const alternativeProducts = (related?.alternatives ?? [])
+    .filter(alternative => !isAvailable || alternative.relationType === 'UPGRADE')
   const selectedImage = product.images[selectedImageIndex]
 
   return (
@@ -107,6 +140,7 @@ export default function ProductDetail({ product, alternativeProducts = [] }: Pro
                     <span className="absolute inset-0 rounded-md overflow-hidden">
                       <Image
                         src={image.url}
+                        loader={isMediaImageUrl(image.url) ? mediaImageLoader : undefined}
                         alt={image.alt || `${product.name} view ${index + 1}`}
                         width={96}
                         height={96}
@@ -126,6 +160,7 @@ export default function ProductDetail({ product, alternativeProducts = [] }: Pro
               <div className="relative">
                 <Image
                   src={selectedImage.url}
+                  loader={isMediaImageUrl(selectedImage.url) ? mediaImageLoader : undefined}
                   alt={selectedImage.alt || product.name}
                   width={600}
                   height={600}
@@ -157,20 +192,70 @@ export default function ProductDetail({ product, alternativeProducts = [] }: Pro
           
           <div className="mt-3">
             <h2 className="sr-only">Product information</h2>
-            <p className="text-3xl text-gray-900">${product.basePrice.toFixed(2)}</p>
+            <p className="text-3xl text-gray-900">${price.toFixed(2)}</p>
             <p className="text-sm text-gray-600 mt-1">per {product.pricePerUnit}</p>
           </div>
 
+          {/* Size Selector */}
+          {variants.length > 0 && (
+            <div className="mt-6 grid grid-cols-1 gap-4 sm:grid-cols-3">
+              <div>
+                <label htmlFor="variant-diameter" className="block text-sm font-medium text-gray-700">Size</label>
+                <select
+                  id="variant-diameter"
+                  value={selectedVariant?.diameter ?? ''}
+                  onChange={(e) => chooseVariant({ diameter: e.target.value })}
+                  className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                >
+                  {variantOptions.diameters.map(diameter => (
+                    <option key={diameter} value={diameter}>{diameter}</option>
+                  ))}
+                </select>
+              </div>
+              {variantOptions.schedules.length > 0 && (
+                <div>
+                  <label htmlFor="variant-schedule" className="block text-sm font-medium text-gray-700">Schedule</label>
+                  <select
+                    id="variant-schedule"
+                    value={selectedVariant?.schedule ?? ''}
+                    onChange={(e) => chooseVariant({ schedule: e.target.value || null })}
+                    className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                  >
+                    {variantOptions.schedules.map(schedule => (
+                      <option key={schedule} value={schedule}>Sch {schedule}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              <div>
+                <label htmlFor="variant-length" className="block text-sm font-medium text-gray-700">Length</label>
+                <select
+                  id="variant-length"
+                  value={selectedVariant?.length ?? ''}
+                  onChange={(e) => chooseVariant({ length: e.target.value })}
+                  className="mt-1 w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+                >
+                  {variantOptions.lengths.map(length => (
+                    <option key={length} value={length}>{length}</option>
+                  ))}
+                </select>
+              </div>
+              {selectedVariant && (
+                <p className="text-sm text-gray-500 sm:col-span-3">SKU {selectedVariant.sku}</p>
+              )}
+            </div>
+          )}
+
           {/* Availability */}
           <div className="mt-6">
-            <div className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium border ${getAvailabilityColor(product.availability)}`}>
+            <div className={`inline-flex items-center px-3 py-1 rounded-full text-sm font-medium border ${getAvailabilityColor(availability)}`}>
               <div className={`w-2 h-2 rounded-full mr-2 ${
-                product.availability === 'IN_STOCK' ? 'bg-green-400' :
-                product.availability === 'LOW_STOCK' ? 'bg-yellow-400' :
-                product.availability === 'OUT_OF_STOCK' ? 'bg-red-400' :
-                product.availability === 'SPECIAL_ORDER' ? 'bg-blue-400' : 'bg-gray-400'
+                availability === 'IN_STOCK' ? 'bg-green-400' :
+                availability === 'LOW_STOCK' ? 'bg-yellow-400' :
+                availability === 'OUT_OF_STOCK' ? 'bg-red-400' :
+                availability === 'SPECIAL_ORDER' ? 'bg-blue-400' : 'bg-gray-400'
               }`} />
-              {getAvailabilityText(product.availability)}
+              {getAvailabilityText(availability)}
             </div>
           </div>
 
@@ -184,7 +269,10 @@ export default function ProductDetail({ product, alternativeProducts = [] }: Pro
 
           {/* Specifications */}
           <div className="mt-8">
-            <h3 className="text-sm font-medium text-gray-900">Specifications</h3>
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-medium text-gray-900">Specifications</h3>
+              <UnitToggle system={unitSystem} onChange={setUnitSystem} />
+            </div>
             <div className="mt-4 grid grid-cols-1 gap-4 sm:grid-cols-2">
               <div className="border border-gray-200 rounded-lg p-4">
                 <dl className="space-y-2">
@@ -202,8 +290,20 @@ export default function ProductDetail({ product, alternativeProducts = [] }: Pro
                   </div>
                   <div className="flex justify-between">
                     <dt className="text-sm font-medium text-gray-500">Diameter</dt>
-                    <dd className="text-sm text-gray-900">{product.diameter}</dd>
+                    <dd className="text-sm text-gray-900">{specs.diameter ?? selectedVariant?.diameter ?? product.diameter}</dd>
                   </div>
+                  {specs.wallThickness && (
+                    <div className="flex justify-between">
+                      <dt className="text-sm font-medium text-gray-500">Wall Thickness</dt>
+                      <dd className="text-sm text-gray-900">{specs.wallThickness}</dd>
+                    </div>
+                  )}
+                  {specs.innerDiameter && (
+                    <div className="flex justify-between">
+                      <dt className="text-sm font-medium text-gray-500">Inside Diameter</dt>
+                      <dd className="text-sm text-gray-900">{specs.innerDiameter}</dd>
+                    </div>
+                  )}
                 </dl>
               </div>
               
@@ -211,15 +311,15 @@ export default function ProductDetail({ product, alternativeProducts = [] }: Pro
                 <dl className="space-y-2">
                   <div className="flex justify-between">
                     <dt className="text-sm font-medium text-gray-500">Length</dt>
-                    <dd className="text-sm text-gray-900">{product.length}</dd>
+                    <dd className="text-sm text-gray-900">{specs.length ?? selectedVariant?.length ?? product.length}</dd>
                   </div>
                   <div className="flex justify-between">
                     <dt className="text-sm font-medium text-gray-500">Pressure Rating</dt>
-                    <dd className="text-sm text-gray-900">{product.pressureRating}</dd>
+                    <dd className="text-sm text-gray-900">{specs.pressure ?? product.pressureRating}</dd>
                   </div>
                   <div className="flex justify-between">
                     <dt className="text-sm font-medium text-gray-500">Temperature</dt>
-                    <dd className="text-sm text-gray-900">{product.temperature}</dd>
+                    <dd className="text-sm text-gray-900">{specs.temperature ?? product.temperature}</dd>
                   </div>
                   <div className="flex justify-between">
                     <dt className="text-sm font-medium text-gray-500">Currency</dt>
@@ -265,7 +365,7 @@ export default function ProductDetail({ product, alternativeProducts = [] }: Pro
           )}
 
           {/* Bulk Discounts */}
-          {product.bulkDiscounts && product.bulkDiscounts.length > 0 && (
+          {bulkDiscounts && bulkDiscounts.length > 0 && (
             <div className="mt-6">
               <h3 className="text-sm font-medium text-gray-900">Bulk Pricing</h3>
               <div className="mt-2 border border-gray-200 rounded-lg overflow-hidden">
@@ -284,7 +384,7 @@ export default function ProductDetail({ product, alternativeProducts = [] }: Pro
                     </tr>
                   </thead>
                   <tbody className="bg-white divide-y divide-gray-200">
-                    {product.bulkDiscounts.map((discount, index) => (
+                    {bulkDiscounts.map((discount, index) => (
                       <tr key={index}>
                         <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
                           {discount.minQuantity}+
@@ -293,7 +393,7 @@ export default function ProductDetail({ product, alternativeProducts = [] }: Pro
                           {(discount.discount * 100).toFixed(1)}%
                         </td>
                         <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
-                          ${(product.basePrice * (1 - discount.discount)).toFixed(2)}
+                          ${(price * (1 - discount.discount)).toFixed(2)}
                         </td>
                       </tr>
                     ))}
@@ -303,10 +403,13 @@ export default function ProductDetail({ product, alternativeProducts = [] }: Pro
             </div>
           )}
 
+          {/* Technical Documents */}
+          <DocumentPanel productId={product.id} />
+
           {/* Action Buttons */}
           <div className="mt-8 flex space-x-4">
             <Link
-              href={`/quote?product=${product.id}`}
+              href={`/quote?product=${product.id}${selectedVariant ? `&variant=${selectedVariant.id}` : ''}`}
               className={`flex-1 bg-blue-600 border border-transparent rounded-md py-3 px-8 flex items-center justify-center text-base font-medium text-white hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 ${
                 !isAvailable ? 'opacity-75' : ''
               }`}
@@ -322,9 +425,11 @@ export default function ProductDetail({ product, alternativeProducts = [] }: Pro
           </div>
 
           {/* Alternative Products */}
-          {!isAvailable && alternativeProducts.length > 0 && (
+          {alternativeProducts.length > 0 && (
             <div className="mt-8 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
-              <h3 className="text-sm font-medium text-yellow-800 mb-3">Alternative Products</h3>
+              <h3 className="text-sm font-medium text-yellow-800 mb-3">
+                {isAvailable ? 'Upgrade Options' : 'Alternative Products'}
+              </h3>
               <div className="space-y-2">
                 {alternativeProducts.slice(0, 3).map((altProduct) => (
                   <Link
@@ -336,6 +441,7 @@ export default function ProductDetail({ product, alternativeProducts = [] }: Pro
                       {altProduct.images[0] && (
                         <Image
                           src={altProduct.images[0].url}
+                          loader={isMediaImageUrl(altProduct.images[0].url) ? mediaImageLoader : undefined}
                           alt={altProduct.name}
                           width={40}
                           height={40}
@@ -362,6 +468,17 @@ export default function ProductDetail({ product, alternativeProducts = [] }: Pro
           )}
         </div>
       </div>
+
+      {related && (
+        <>
+          <RelatedProducts
+            title="Compatible Fittings"
+            products={related.compatible}
+            note={related.suggested ? 'Suggested from products with the same material, size and standards' : undefined}
+          />
+          <RelatedProducts title="Frequently Quoted With" products={related.frequentlyQuotedWith} />
+        </>
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,62 @@
+'use client'
+
+import Image from 'next/image'
+import Link from 'next/link'
+import { RelatedProduct } from '@/types/product'
+import { isMediaImageUrl, mediaImageLoader } from '@/lib/image-optimization'
+import { RELATION_TYPE_LABELS } from '@/lib/product-relations'
+
+interface RelatedProductsProps {
+  title: string
+  products: RelatedProduct[]
+  // Shown under the title, e.g. to explain where suggestions come from
+  note?: string
+}
+
+export default function RelatedProducts({ title, products, note }: RelatedProductsProps) {
+  if (products.length === 0) return null
+
+  return (
+    <section className="mt-12" aria-label={title}>
+      <h2 className="text-xl font-bold text-gray-900">{title}</h2>
+      {note && <p className="mt-1 text-sm text-gray-500">{note}</p>}
+      <div className="mt-4 grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        {products.map((product) => (
+          <Link
+            key={`${product.id}-${product.relationType ?? ''}`}
+            href={`/products/${product.id}`}
+            className="block bg-white rounded-lg border border-gray-200 p-3 hover:shadow-md smooth-transition"
+          >
+            {product.images[0] ? (
+              <Image
+                src={product.images[0].url}
+                loader={isMediaImageUrl(product.images[0].url) ? mediaImageLoader : undefined}
+                alt={product.images[0].alt || product.name}
+                width={240}
+                height={135}
+                loading="lazy"
+                className="w-full h-28 object-cover rounded"
+              />
+            ) : (
+              <div className="w-full h-28 bg-gray-200 flex items-center justify-center rounded">
+                <span className="text-gray-400 text-xs">No Image Available</span>
+              </div>
+            )}
+            <div className="mt-2 flex items-start justify-between gap-2">
+              <p className="text-sm font-medium text-gray-900">{product.name}</p>
+              {product.relationType && (
+                <span className="flex-shrink-0 px-2 py-0.5 text-xs rounded-full bg-blue-100 text-blue-800">
+                  {RELATION_TYPE_LABELS[product.relationType]}
+                </span>
+              )}
+            </div>
+            <p className="text-xs text-gray-500">{product.diameter} · {product.material}</p>
+            <p className="mt-1 text-sm text-gray-900">
+              ${product.basePrice.toFixed(2)} / {product.pricePerUnit}
+            </p>
+          </Link>
+        ))}
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,79 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import type { UnitSystem } from '@/lib/product-specs'
+
+const STORAGE_KEY = 'unitSystem'
+const CHANGE_EVENT = 'unit-system-change'
+
+function readStoredSystem(): UnitSystem {
+  try {
+    return window.localStorage.getItem(STORAGE_KEY) === 'metric' ? 'metric' : 'imperial'
+  } catch {
+    return 'imperial'
+  }
+}
+
+/**
+ * The unit system specs are shown in. The choice is remembered in the browser
+ * and shared by every card and detail view on the page.
+ */
+export function useUnitSystem(): [UnitSystem, (system: UnitSystem) => void] {
+  const [system, setSystemState] = useState<UnitSystem>('imperial')
+
+  useEffect(() => {
+    setSystemState(readStoredSystem())
+
+    const handleChange = () => setSystemState(readStoredSystem())
+    window.addEventListener(CHANGE_EVENT, handleChange)
+    window.addEventListener('storage', handleChange)
+    return () => {
+      window.removeEventListener(CHANGE_EVENT, handleChange)
+      window.removeEventListener('storage', handleChange)
+    }
+  }, [])
+
+  const setSystem = useCallback((next: UnitSystem) => {
+    try {
+      window.localStorage.setItem(STORAGE_KEY, next)
+    } catch {
+      // Storage can be unavailable in private browsing; keep the choice for this view
+    }
+    setSystemState(next)
+    window.dispatchEvent(new Event(CHANGE_EVENT))
+  }, [])
+
+  return [system, setSystem]
+}
+
+interface UnitToggleProps {
+  system: UnitSystem
+  onChange: (system: UnitSystem) => void
+  size?: 'sm' | 'md'
+}
+
+export default function UnitToggle({ system, onChange, size = 'md' }: UnitToggleProps) {
+  const options: Array<{ value: UnitSystem; label: string }> = [
+    { value: 'imperial', label: size === 'sm' ? 'in' : 'Imperial' },
+    { value: 'metric', label: size === 'sm' ? 'mm' : 'Metric' }
+  ]
+  const padding = size === 'sm' ? 'px-2 py-0.5 text-xs' : 'px-3 py-1 text-sm'
+
+  return (
+    <div role="group" aria-label="Units" className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+      {options.map(option => (
+        <button
+          key={option.value}
+          type="button"
+          aria-pressed={system === option.value}
+          onClick={() => onChange(option.value)}
+          className={`${padding} font-medium focus-ring ${
+            system === option.value ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  )
+}
@@ -4,7 +4,7 @@
  */
 
 import * as fc from 'fast-check'
-import { render, screen } from '@testing-library/react'
+import { render, screen, fireEvent } from '@testing-library/react'
 import QuoteRequestForm from './QuoteRequestForm'
 import { Product, ProductCategory, AvailabilityStatus } from '@/types/product'
 
@@ -136,4 +136,33 @@ describe('QuoteRequestForm Property Tests', () => {
 
 
   })
+
+  test('related items of quoted products can be added in one click', async () => {
+    ;(global.fetch as jest.Mock).mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({
+        compatible: [{ id: 'elbow', name: '2" Elbow', basePrice: 12, pricePerUnit: 'piece', relationType: 'FITTING', images: [] }],
+        frequentlyQuotedWith: [{ id: 'tape', name: 'Thread Tape', basePrice: 3, pricePerUnit: 'roll', images: [] }],
+        alternatives: [],
+        suggested: false
+      })
+    })
+    const product = {
+      id: 'pipe-1', name: 'Steel Pipe', description: '', category: ProductCategory.STEEL_PIPE, brand: 'B',
+      diameter: '2 inch', length: '21 ft', material: 'Steel', pressureRating: '', temperature: '',
+      standards: [], applications: [], basePrice: 80, currency: 'USD', pricePerUnit: 'piece',
+      availability: AvailabilityStatus.IN_STOCK, createdAt: new Date(), updatedAt: new Date()
+    }
+
+    render(<QuoteRequestForm preSelectedProduct={product} />)
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Add 2" Elbow' }))
+
+    expect(global.fetch).toHaveBeenCalledWith('/api/products/pipe-1/related')
+    expect(screen.getByDisplayValue('elbow')).toBeInTheDocument()
+    expect(screen.getByText('Product 2')).toBeInTheDocument()
+    // Items already on the quote are no longer offered
+    expect(screen.queryByRole('button', { name: 'Add 2" Elbow' })).not.toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Add Thread Tape' })).toBeInTheDocument()
+  })
 })
\ No newline at end of file
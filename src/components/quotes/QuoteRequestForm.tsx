@@ -1,12 +1,15 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { Product } from '@/types/product'
+import { Product, RelatedProduct, RelatedProducts } from '@/types/product'
 import { QuoteRequestData, QuoteProductData, validateQuoteRequest } from '@/lib/quote-validation'
+import { RELATION_TYPE_LABELS } from '@/lib/product-relations'
 import LoadingSpinner from '@/components/ui/LoadingSpinner'
 
 interface QuoteRequestFormProps {
   preSelectedProduct?: Product
+  // Size to quote when the pre-selected product is sold in variants
+  preSelectedVariantId?: string
   onSubmitSuccess?: (quoteId: string) => void
   onCancel?: () => void
 }
@@ -24,6 +27,7 @@ interface FormData {
   message: string
   products: Array<{
     productId: string
+    variantId?: string
     productName: string
     quantity: number
     notes: string
@@ -34,8 +38,12 @@ interface FormErrors {
   [key: string]: string
 }
 
+// Most related items offered for one-click add
+const MAX_SUGGESTIONS = 6
+
 export default function QuoteRequestForm({ 
   preSelectedProduct, 
+  preSelectedVariantId,
   onSubmitSuccess, 
   onCancel 
 }: QuoteRequestFormProps) {
@@ -56,6 +64,9 @@ export default function QuoteRequestForm({
   const [errors, setErrors] = useState<FormErrors>({})
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [submitSuccess, setSubmitSuccess] = useState(false)
+  const [referenceNumber, setReferenceNumber] = useState('')
+  // Related items by the product they were fetched for
+  const [relatedByProduct, setRelatedByProduct] = useState<Record<string, RelatedProduct[]>>({})
 
   // Pre-populate form with selected product
   useEffect(() => {
@@ -64,13 +75,58 @@ export default function QuoteRequestForm({
         ...prev,
         products: [{
           productId: preSelectedProduct.id,
+          variantId: preSelectedVariantId,
           productName: preSelectedProduct.name,
           quantity: 1,
           notes: ''
         }]
       }))
     }
-  }, [preSelectedProduct])
+  }, [preSelectedProduct, preSelectedVariantId])
+
+  // Fetch related items for products on the quote, waiting for typed IDs to settle
+  const productIds = formData.products.map(p => p.productId.trim()).filter(Boolean)
+  useEffect(() => {
+    const pending = productIds.filter(id => !(id in relatedByProduct))
+    if (pending.length === 0) return
+
+    const timer = setTimeout(() => {
+      pending.forEach(async (id) => {
+        let items: RelatedProduct[] = []
+        try {
+          const response = await fetch(`/api/products/${encodeURIComponent(id)}/related`)
+          if (response.ok) {
+            const related: Partial<RelatedProducts> = await response.json()
+            items = [...(related.compatible ?? []), ...(related.frequentlyQuotedWith ?? [])]
+          }
+        } catch (error) {
+          // Suggestions are optional; the form works without them
+        }
+        setRelatedByProduct(prev => ({ ...prev, [id]: items }))
+      })
+    }, 300)
+
+    return () => clearTimeout(timer)
+  }, [productIds.join(',')])
+
+  const suggestions = productIds
+    .flatMap(id => relatedByProduct[id] ?? [])
+    .filter((item, index, items) =>
+      !productIds.includes(item.id) && items.findIndex(other => other.id === item.id) === index
+    )
+    .slice(0, MAX_SUGGESTIONS)
+
+  const addSuggestion = (item: RelatedProduct) => {
+    setFormData(prev => ({
+      ...prev,
+      products: [...prev.products, {
+        productId: item.id,
+        productName: item.name,
+        quantity: 1,
+        notes: ''
+      }]
+    }))
+  }
 
   const handleInputChange = (field: keyof FormData, value: string) => {
     setFormData(prev => ({
@@ -129,6 +185,7 @@ export default function QuoteRequestForm({
       message: formData.message || undefined,
       products: formData.products.map(p => ({
         productId: p.productId,
+        variantId: p.variantId,
         quantity: p.quantity,
         notes: p.notes || undefined
       }))
@@ -172,6 +229,7 @@ export default function QuoteRequestForm({
         message: formData.message || undefined,
         products: formData.products.map(p => ({
           productId: p.productId,
+          variantId: p.variantId,
           quantity: p.quantity,
           notes: p.notes || undefined
         }))
@@ -200,6 +258,7 @@ export default function QuoteRequestForm({
         return
       }
 
+      setReferenceNumber(result.referenceNumber || '')
       setSubmitSuccess(true)
       if (onSubmitSuccess) {
         onSubmitSuccess(result.id)
@@ -225,6 +284,11 @@ export default function QuoteRequestForm({
           <p className="text-gray-600 mb-6">
             Thank you for your quote request. We'll review your requirements and get back to you within 24 hours.
           </p>
+          {referenceNumber && (
+            <p className="text-gray-900 mb-2">
+              Your reference number is <span className="font-mono font-semibold">{referenceNumber}</span>
+            </p>
+          )}
           <p className="text-sm text-gray-500 mb-6">
             A confirmation email has been sent to {formData.customerEmail}
           </p>
@@ -548,6 +612,33 @@ export default function QuoteRequestForm({
           {errors.products && (
             <p className="mt-1 text-sm text-red-600">{errors.products}</p>
           )}
+
+          {suggestions.length > 0 && (
+            <div className="mt-4">
+              <h4 className="text-sm font-medium text-gray-900 mb-2">Often quoted together</h4>
+              <ul className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                {suggestions.map(item => (
+                  <li key={item.id} className="flex items-center justify-between bg-white p-3 rounded-md border">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">{item.name}</p>
+                      <p className="text-xs text-gray-500">
+                        {item.relationType ? `${RELATION_TYPE_LABELS[item.relationType]} · ` : ''}
+                        ${item.basePrice.toFixed(2)} / {item.pricePerUnit}
+                      </p>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => addSuggestion(item)}
+                      aria-label={`Add ${item.name}`}
+                      className="ml-3 px-3 py-1 text-sm border border-blue-600 text-blue-600 rounded-md hover:bg-blue-50"
+                    >
+                      Add
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
 
         {/* Message */}
@@ -0,0 +1,109 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the route permission policy
+ */
+
+import * as fc from 'fast-check'
+import { NextRequest } from 'next/server'
+
+jest.mock('./auth-helper', () => ({
+  getSession: jest.fn(),
+}))
+
+import { getSession } from './auth-helper'
+import { findRoutePolicy, isAuthorized } from './access-control'
+import { Permission } from '@prisma/client'
+
+const mockGetSession = getSession as jest.Mock
+
+function sessionFor(role: string, permissions: Permission[] = []) {
+  return {
+    id: 'session1',
+    expiresAt: new Date(Date.now() + 60000),
+    user: { id: 'user1', email: 'user@test.com', name: 'User', role, permissions },
+  }
+}
+
+async function check(path: string, method: string) {
+  const req = new NextRequest(`http://localhost${path}`, { method })
+  return isAuthorized(req, path, method)
+}
+
+describe('Access Control', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  test('public catalogue reads and quote submission need no session', async () => {
+    mockGetSession.mockResolvedValue(null)
+
+    expect((await check('/api/products', 'GET')).authorized).toBe(true)
+    expect((await check('/api/products/abc123', 'GET')).authorized).toBe(true)
+    expect((await check('/api/products/abc123/related', 'GET')).authorized).toBe(true)
+    expect((await check('/api/quotes', 'POST')).authorized).toBe(true)
+    expect((await check('/api/company', 'GET')).authorized).toBe(true)
+    expect((await check('/api/media/abc123/file', 'GET')).authorized).toBe(true)
+    // Download routes verify signed links themselves
+    expect((await check('/api/media/abc123/download', 'GET')).authorized).toBe(true)
+    expect((await check('/api/documents/abc123/download', 'GET')).authorized).toBe(true)
+    expect(mockGetSession).not.toHaveBeenCalled()
+
+    expect((await check('/api/media/abc123', 'GET')).status).toBe(401)
+    // The catalog export shares the single-product path shape but is not public
+    expect((await check('/api/products/export', 'GET')).status).toBe(401)
+    expect((await check('/api/media/abc123/link', 'POST')).status).toBe(401)
+  })
+
+  test('protected routes return 401 without a session', async () => {
+    mockGetSession.mockResolvedValue(null)
+
+    const result = await check('/api/quotes/abc123', 'PUT')
+
+    expect(result).toMatchObject({ authorized: false, status: 401 })
+  })
+
+  test('content managers can edit company content and media but not quotes or products', async () => {
+    mockGetSession.mockResolvedValue(sessionFor('CONTENT_MANAGER'))
+
+    expect((await check('/api/company', 'PUT')).authorized).toBe(true)
+    expect((await check('/api/media/upload', 'POST')).authorized).toBe(true)
+
+    const quotes = await check('/api/quotes', 'GET')
+    expect(quotes).toMatchObject({ authorized: false, status: 403 })
+    expect(quotes.reason).toBe('Missing permission: MANAGE_QUOTES')
+
+    expect(await check('/api/products', 'POST')).toMatchObject({ authorized: false, status: 403 })
+  })
+
+  test('explicit grants extend role defaults', async () => {
+    mockGetSession.mockResolvedValue(sessionFor('USER', [Permission.MANAGE_QUOTES]))
+
+    expect((await check('/api/quotes/abc123', 'GET')).authorized).toBe(true)
+    expect((await check('/api/media', 'GET')).status).toBe(403)
+  })
+
+  test('unlisted API routes are restricted to admins', async () => {
+    mockGetSession.mockResolvedValue(sessionFor('CONTENT_MANAGER'))
+    expect(await check('/api/unlisted', 'GET')).toMatchObject({ authorized: false, status: 403 })
+
+    mockGetSession.mockResolvedValue(sessionFor('ADMIN'))
+    expect((await check('/api/unlisted', 'GET')).authorized).toBe(true)
+  })
+
+  test('writes under the product subtree are never public', () => {
+    fc.assert(
+      fc.property(
+        fc.array(fc.stringMatching(/^[a-z0-9-]{1,12}$/), { minLength: 1, maxLength: 4 }),
+        fc.constantFrom('POST', 'PUT', 'PATCH', 'DELETE'),
+        (segments, method) => {
+          const policy = findRoutePolicy(`/api/products/${segments.join('/')}`, method)
+          expect(policy?.access).toBe(Permission.MANAGE_PRODUCTS)
+        }
+      ),
+      { numRuns: 50 }
+    )
+  })
+})
@@ -1,5 +1,6 @@
 import { NextRequest } from 'next/server'
-import { getSession } from './auth-helper'
+import { getSession, AuthSession } from './auth-helper'
+import { hasPermission, hasRole } from './auth-utils'
 import { UserRole, Permission } from '@prisma/client'
 
 // Simple rate limiting for MVP
@@ -27,35 +28,107 @@ export function checkRateLimit(
   return { allowed: true, remaining: options.maxRequests - current.count, resetTime: current.resetTime }
 }
 
+export type RouteAccess = 'public' | 'authenticated' | Permission
+
+export interface RoutePolicy {
+  // Path pattern: `:param` matches one segment, a trailing `**` matches any remainder
+  pattern: string
+  // HTTP methods the rule applies to; all methods when omitted
+  methods?: string[]
+  access: RouteAccess
+}
+
+/**
+ * Route → permission policy. Rules are evaluated in order and the first match
+ * wins, so specific public rules must precede the catch-all for their subtree.
+ * API paths without a matching rule are restricted to admins.
+ */
+export const ROUTE_POLICIES: RoutePolicy[] = [
+  { pattern: '/api/products', methods: ['GET'], access: 'public' },
+  // Would otherwise match the public single-product read below
+  { pattern: '/api/products/export', access: Permission.MANAGE_PRODUCTS },
+  { pattern: '/api/products/:id', methods: ['GET'], access: 'public' },
+  { pattern: '/api/products/:id/related', methods: ['GET'], access: 'public' },
+  { pattern: '/api/products/**', access: Permission.MANAGE_PRODUCTS },
+
+  { pattern: '/api/quotes', methods: ['POST'], access: 'public' },
+  { pattern: '/api/quotes/**', access: Permission.MANAGE_QUOTES },
+
+  { pattern: '/api/company', methods: ['GET'], access: 'public' },
+  { pattern: '/api/company/**', access: Permission.MANAGE_CONTENT },
+
+  { pattern: '/api/media/:id/file', methods: ['GET'], access: 'public' },
+  // Download routes check a signed link or MANAGE_MEDIA themselves
+  { pattern: '/api/media/:id/download', methods: ['GET'], access: 'public' },
+  { pattern: '/api/media/**', access: Permission.MANAGE_MEDIA },
+  { pattern: '/api/documents/library', methods: ['GET'], access: 'public' },
+  { pattern: '/api/documents/:id/download', methods: ['GET'], access: 'public' },
+  { pattern: '/api/documents/**', access: Permission.MANAGE_MEDIA },
+
+  { pattern: '/api/metrics', access: Permission.VIEW_ANALYTICS },
+
+  { pattern: '/api/users/**', access: Permission.MANAGE_USERS },
+]
+
+function matchesPattern(pattern: string, path: string): boolean {
+  const patternSegments = pattern.split('/').filter(Boolean)
+  const pathSegments = path.replace(/\/+$/, '').split('/').filter(Boolean)
+
+  for (let i = 0; i < patternSegments.length; i++) {
+    const segment = patternSegments[i]
+
+    if (segment === '**') {
+      return true
+    }
+    if (i >= pathSegments.length) {
+      return false
+    }
+    if (!segment.startsWith(':') && segment !== pathSegments[i]) {
+      return false
+    }
+  }
+
+  return patternSegments.length === pathSegments.length
+}
+
+/**
+ * Find the first policy rule that applies to a request
+ */
+export function findRoutePolicy(path: string, method: string): RoutePolicy | undefined {
+  const upperMethod = method.toUpperCase()
+
+  return ROUTE_POLICIES.find(policy =>
+    (!policy.methods || policy.methods.includes(upperMethod)) &&
+    matchesPattern(policy.pattern, path)
+  )
+}
+
 export async function isAuthorized(
   req: NextRequest,
   path: string,
   method: string
-): Promise<{ authorized: boolean; reason?: string }> {
-  // Public routes
-  if (path.startsWith('/api/products') && method === 'GET') {
-    return { authorized: true }
-  }
-  
-  if (path.startsWith('/api/quotes') && method === 'POST') {
-    return { authorized: true }
+): Promise<{ authorized: boolean; status?: 401 | 403; reason?: string; session: AuthSession | null }> {
+  const policy = findRoutePolicy(path, method)
+
+  if (policy?.access === 'public') {
+    return { authorized: true, session: null }
   }
-  
-  if (path.startsWith('/api/company') && method === 'GET') {
-    return { authorized: true }
+
+  const session = await getSession(req)
+  if (!session) {
+    return { authorized: false, status: 401, reason: 'Authentication required', session: null }
   }
-  
-  // Admin routes require authentication
-  if (path.startsWith('/admin') || path.startsWith('/api/')) {
-    const session = getSession(req)
-    if (!session) {
-      return { authorized: false, reason: 'Authentication required' }
-    }
-    
-    if (session.user.role !== 'ADMIN') {
-      return { authorized: false, reason: 'Admin access required' }
+
+  if (!policy) {
+    if (!hasRole(session.user.role, UserRole.ADMIN)) {
+      return { authorized: false, status: 403, reason: 'Admin access required', session }
     }
+    return { authorized: true, session }
   }
-  
-  return { authorized: true }
-}
\ No newline at end of file
+
+  if (policy.access !== 'authenticated' && !hasPermission(session.user, policy.access)) {
+    return { authorized: false, status: 403, reason: `Missing permission: ${policy.access}`, session }
+  }
+
+  return { authorized: true, session }
+}
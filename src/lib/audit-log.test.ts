@@ -0,0 +1,111 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for persisting and querying the audit trail
+ */
+
+jest.mock('./prisma', () => ({
+  prisma: {
+    auditLog: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+    },
+  },
+}))
+
+import { prisma } from './prisma'
+import { recordAudit, queryAuditLogs } from './audit-log'
+import type { AuthSession } from './auth-helper'
+
+const mockPrisma = prisma as unknown as {
+  auditLog: Record<'create' | 'findMany' | 'count', jest.Mock>
+}
+
+const session: AuthSession = {
+  id: 'session1',
+  expiresAt: new Date(Date.now() + 60000),
+  user: { id: 'user1', email: 'admin@test.com', name: 'Admin', role: 'ADMIN', permissions: [] },
+}
+
+function request() {
+  return new Request('http://localhost/api/products/p1', {
+    method: 'PUT',
+    headers: { 'x-forwarded-for': '203.0.113.7, 10.0.0.1', 'user-agent': 'jest' },
+  })
+}
+
+describe('Audit Log', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockPrisma.auditLog.create.mockResolvedValue({})
+    mockPrisma.auditLog.findMany.mockResolvedValue([])
+    mockPrisma.auditLog.count.mockResolvedValue(0)
+  })
+
+  test('recordAudit stores only changed fields with request metadata', async () => {
+    const updatedAt = new Date()
+
+    await recordAudit(request(), session, {
+      entityType: 'PRODUCT',
+      entityId: 'p1',
+      action: 'UPDATE',
+      before: { id: 'p1', name: 'Steel Pipe', basePrice: 10, standards: ['ASTM'], updatedAt },
+      after: { id: 'p1', name: 'Steel Pipe', basePrice: 12, standards: ['ASTM', 'API'], updatedAt },
+    })
+
+    expect(mockPrisma.auditLog.create).toHaveBeenCalledWith({
+      data: {
+        entityType: 'PRODUCT',
+        entityId: 'p1',
+        action: 'UPDATE',
+        userId: 'user1',
+        changes: {
+          basePrice: { from: 10, to: 12 },
+          standards: { from: ['ASTM'], to: ['ASTM', 'API'] },
+        },
+        ipAddress: '203.0.113.7',
+        userAgent: 'jest',
+      },
+    })
+  })
+
+  test('public actions are recorded without a user', async () => {
+    await recordAudit(request(), null, {
+      entityType: 'QUOTE',
+      entityId: 'q1',
+      action: 'CREATE',
+      after: { id: 'q1', customerName: 'Jane', submittedAt: new Date('2024-01-01T00:00:00Z') },
+    })
+
+    const data = mockPrisma.auditLog.create.mock.calls[0][0].data
+    expect(data.userId).toBeNull()
+    expect(data.changes.submittedAt).toEqual({ from: null, to: '2024-01-01T00:00:00.000Z' })
+  })
+
+  test('a failed audit write does not throw', async () => {
+    mockPrisma.auditLog.create.mockRejectedValue(new Error('db down'))
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+
+    await expect(recordAudit(request(), session, {
+      entityType: 'MEDIA',
+      entityId: 'm1',
+      action: 'DELETE',
+      before: { id: 'm1' },
+    })).resolves.toBeUndefined()
+  })
+
+  test('queryAuditLogs applies filters and clamps the page size', async () => {
+    const dateFrom = new Date('2024-01-01')
+
+    const result = await queryAuditLogs({ entityType: 'PRODUCT', userId: 'user1', dateFrom, limit: 500 })
+
+    const args = mockPrisma.auditLog.findMany.mock.calls[0][0]
+    expect(args.where).toEqual({ entityType: 'PRODUCT', userId: 'user1', createdAt: { gte: dateFrom } })
+    expect(args.take).toBe(100)
+    expect(args.orderBy).toEqual({ createdAt: 'desc' })
+    expect(result.pagination).toEqual({ page: 1, limit: 100, total: 0, pages: 0 })
+  })
+})
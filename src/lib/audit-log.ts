@@ -0,0 +1,109 @@
+/**
+ * Persistent audit trail for admin mutations.
+ * Diffs are built with createAuditLogEntry and stored in the audit_logs table.
+ */
+
+import { AuditAction, AuditEntityType, Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import { logger } from './monitoring'
+import { getRequestMetadata, AuthSession } from './auth-helper'
+import { createAuditLogEntry } from './product-validation'
+
+export interface AuditRecord {
+  entityType: AuditEntityType
+  entityId: string
+  action: AuditAction
+  before?: any
+  after?: any
+}
+
+export interface AuditLogFilters {
+  entityType?: AuditEntityType
+  entityId?: string
+  userId?: string
+  action?: AuditAction
+  dateFrom?: Date
+  dateTo?: Date
+  page?: number
+  limit?: number
+}
+
+/**
+ * Record a mutation made during a request. Failures are logged rather than
+ * thrown so a broken audit write never rolls back the user's change.
+ */
+export async function recordAudit(req: Request, session: AuthSession | null, record: AuditRecord) {
+  try {
+    const entry = createAuditLogEntry(
+      record.entityId,
+      record.action,
+      session?.user.id || '',
+      record.before ?? null,
+      record.after ?? null,
+      getRequestMetadata(req)
+    )
+
+    // Round-trip through JSON so Dates and other non-plain values store cleanly
+    const changes = JSON.parse(JSON.stringify(entry.changes)) as Prisma.InputJsonObject
+
+    await prisma.auditLog.create({
+      data: {
+        entityType: record.entityType,
+        entityId: record.entityId,
+        action: record.action,
+        userId: session?.user.id ?? null,
+        changes,
+        ipAddress: entry.ipAddress,
+        userAgent: entry.userAgent
+      }
+    })
+  } catch (error) {
+    logger.error('Failed to write audit log', error as Error, {
+      entityType: record.entityType,
+      entityId: record.entityId,
+      action: record.action
+    })
+  }
+}
+
+/**
+ * Query the audit trail, newest first
+ */
+export async function queryAuditLogs(filters: AuditLogFilters = {}) {
+  const page = Math.max(1, filters.page || 1)
+  const limit = Math.min(100, Math.max(1, filters.limit || 20))
+
+  const where: Prisma.AuditLogWhereInput = {}
+  if (filters.entityType) where.entityType = filters.entityType
+  if (filters.entityId) where.entityId = filters.entityId
+  if (filters.userId) where.userId = filters.userId
+  if (filters.action) where.action = filters.action
+  if (filters.dateFrom || filters.dateTo) {
+    where.createdAt = {}
+    if (filters.dateFrom) where.createdAt.gte = filters.dateFrom
+    if (filters.dateTo) where.createdAt.lte = filters.dateTo
+  }
+
+  const [logs, total] = await Promise.all([
+    prisma.auditLog.findMany({
+      where,
+      skip: (page - 1) * limit,
+      take: limit,
+      orderBy: { createdAt: 'desc' },
+      include: {
+        user: { select: { id: true, name: true, email: true } }
+      }
+    }),
+    prisma.auditLog.count({ where })
+  ])
+
+  return {
+    logs,
+    pagination: {
+      page,
+      limit,
+      total,
+      pages: Math.ceil(total / limit)
+    }
+  }
+}
@@ -1,26 +1,54 @@
 import { NextRequest } from 'next/server'
+import { findActiveSession, SESSION_COOKIE_NAME, SessionMetadata } from './session-utils'
 
-export function getSession(req: NextRequest) {
-  const sessionCookie = req.cookies.get('session')
-  
-  if (sessionCookie?.value === 'admin') {
-    return {
-      user: {
-        id: '1',
-        email: 'admin@pipe.com',
-        name: 'Admin User',
-        role: 'ADMIN'
-      }
+/**
+ * Resolve a signed session token to the session and its user
+ */
+export async function getSessionFromToken(signedToken?: string) {
+  if (!signedToken) {
+    return null
+  }
+
+  const session = await findActiveSession(signedToken)
+  if (!session) {
+    return null
+  }
+
+  return {
+    id: session.id,
+    expiresAt: session.expiresAt,
+    user: {
+      id: session.user.id,
+      email: session.user.email,
+      name: session.user.name,
+      role: session.user.role,
+      permissions: session.user.permissions
     }
   }
-  
-  return null
 }
 
-export function requireAuth(req: NextRequest) {
-  const session = getSession(req)
+export type AuthSession = NonNullable<Awaited<ReturnType<typeof getSessionFromToken>>>
+
+export async function getSession(req: NextRequest) {
+  return getSessionFromToken(req.cookies.get(SESSION_COOKIE_NAME)?.value)
+}
+
+export async function requireAuth(req: NextRequest) {
+  const session = await getSession(req)
   if (!session) {
     throw new Error('Unauthorized')
   }
   return session
-}
\ No newline at end of file
+}
+
+/**
+ * Extract client IP and user agent for session and audit records
+ */
+export function getRequestMetadata(req: Request): SessionMetadata {
+  const forwardedFor = req.headers.get('x-forwarded-for')
+
+  return {
+    ipAddress: forwardedFor?.split(',')[0].trim() || req.headers.get('x-real-ip') || undefined,
+    userAgent: req.headers.get('user-agent') || undefined
+  }
+}
@@ -1,11 +1,25 @@
-import { NextRequest } from 'next/server'
-import { getSession } from './auth-helper'
+import { NextRequest, NextResponse } from 'next/server'
+import { getSession, AuthSession } from './auth-helper'
+import { isAuthorized } from './access-control'
 import { UserRole, Permission } from '@prisma/client'
 
 /**
- * Get current session for MVP
+ * Permissions every user of a role holds, on top of any granted individually
  */
-export function getCurrentSession(req: NextRequest) {
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  [UserRole.ADMIN]: Object.values(Permission),
+  [UserRole.CONTENT_MANAGER]: [
+    Permission.MANAGE_CONTENT,
+    Permission.MANAGE_MEDIA,
+    Permission.VIEW_ANALYTICS
+  ],
+  [UserRole.USER]: []
+}
+
+/**
+ * Get current session
+ */
+export async function getCurrentSession(req: NextRequest) {
   return getSession(req)
 }
 
@@ -23,65 +37,65 @@ export function hasRole(userRole: string, requiredRole: UserRole): boolean {
 }
 
 /**
- * Check if user has required permission (MVP - simplified)
+ * Resolve the full permission set for a user (role defaults plus explicit grants)
  */
-export function hasPermission(userRole: string, requiredPermission: Permission): boolean {
-  // For MVP, admin has all permissions
-  return userRole === 'ADMIN'
+export function getEffectivePermissions(user: { role: string; permissions?: Permission[] }): Permission[] {
+  const rolePermissions = ROLE_PERMISSIONS[user.role as UserRole] || []
+  return Array.from(new Set([...rolePermissions, ...(user.permissions || [])]))
 }
 
 /**
- * Middleware to check authentication and authorization
+ * Check if user has required permission
  */
-export function requireAuth(req: NextRequest, requiredRole?: UserRole, requiredPermission?: Permission) {
-  const session = getCurrentSession(req)
-  
+export function hasPermission(
+  user: { role: string; permissions?: Permission[] },
+  requiredPermission: Permission
+): boolean {
+  return getEffectivePermissions(user).includes(requiredPermission)
+}
+
+/**
+ * Check authentication and authorization for server-side callers
+ */
+export async function requireAuth(req: NextRequest, requiredRole?: UserRole, requiredPermission?: Permission) {
+  const session = await getCurrentSession(req)
+
   if (!session) {
     throw new Error('Authentication required')
   }
-  
+
   if (requiredRole && !hasRole(session.user.role, requiredRole)) {
     throw new Error('Insufficient role permissions')
   }
-  
-  if (requiredPermission && !hasPermission(session.user.role, requiredPermission)) {
+
+  if (requiredPermission && !hasPermission(session.user, requiredPermission)) {
     throw new Error('Insufficient permissions')
   }
-  
+
   return session
 }
 
 /**
- * API route wrapper for authentication
+ * API route wrapper that enforces the route policy table in access-control.
+ * Public routes receive a null session.
  */
-export function withAuth(
-  handler: (req: NextRequest, session: any) => Promise<Response>,
-  requiredRole?: UserRole,
-  requiredPermission?: Permission
+export function withAuth<C = any>(
+  handler: (req: NextRequest, context: C, session: AuthSession | null) => Promise<Response>
 ) {
-  return async (req: NextRequest) => {
+  return async (req: NextRequest, context?: C) => {
+    let access: Awaited<ReturnType<typeof isAuthorized>>
+
     try {
-      const session = await requireAuth(req, requiredRole, requiredPermission)
-      return await handler(req, session)
+      access = await isAuthorized(req, req.nextUrl.pathname, req.method)
     } catch (error) {
-      if (error instanceof Error) {
-        if (error.message.includes('Authentication required')) {
-          return new Response(JSON.stringify({ error: 'Authentication required' }), {
-            status: 401,
-            headers: { 'Content-Type': 'application/json' }
-          })
-        }
-        if (error.message.includes('permissions')) {
-          return new Response(JSON.stringify({ error: 'Insufficient permissions' }), {
-            status: 403,
-            headers: { 'Content-Type': 'application/json' }
-          })
-        }
-      }
-      return new Response(JSON.stringify({ error: 'Internal server error' }), {
-        status: 500,
-        headers: { 'Content-Type': 'application/json' }
-      })
+      console.error('Error checking authorization:', error)
+      return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
     }
+
+    if (!access.authorized) {
+      return NextResponse.json({ error: access.reason }, { status: access.status })
+    }
+
+    return handler(req, context as C, access.session)
   }
-}
\ No newline at end of file
+}
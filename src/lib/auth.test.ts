@@ -150,6 +150,7 @@ describe('Admin Authentication Property Tests', () => {
         Permission.MANAGE_PRODUCTS,
         Permission.MANAGE_QUOTES,
         Permission.MANAGE_USERS,
+        Permission.MANAGE_CONTENT,
         Permission.MANAGE_MEDIA,
         Permission.VIEW_ANALYTICS,
       ]
@@ -168,7 +169,7 @@ describe('Admin Authentication Property Tests', () => {
 
     test('content manager users should have limited permissions', () => {
       const contentManagerPermissions = [
-        Permission.MANAGE_PRODUCTS,
+        Permission.MANAGE_CONTENT,
         Permission.MANAGE_MEDIA,
         Permission.VIEW_ANALYTICS,
       ]
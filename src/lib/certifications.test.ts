@@ -0,0 +1,161 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the certification registry: validation, validity status and
+ * expiry reminders
+ */
+
+jest.mock('./prisma', () => ({
+  prisma: {
+    certification: {
+      findMany: jest.fn(),
+      update: jest.fn(),
+    },
+    media: {
+      findUnique: jest.fn(),
+    },
+  },
+}))
+
+jest.mock('./email-utils', () => ({
+  sendCertificationExpiryReminder: jest.fn(),
+}))
+
+import { prisma } from './prisma'
+import { sendCertificationExpiryReminder } from './email-utils'
+import {
+  buildCertificationUpdate,
+  checkCertificateFile,
+  getCertificationStatus,
+  getDueReminder,
+  listPublicCertifications,
+  parseCertificationInput,
+  sendCertificationReminders,
+} from './certifications'
+
+const mockPrisma = prisma as any
+const mockSendReminder = sendCertificationExpiryReminder as jest.Mock
+
+const now = new Date('2026-06-01T08:00:00Z')
+const daysFromNow = (days: number) => new Date(now.getTime() + days * 24 * 60 * 60 * 1000)
+
+describe('Certifications', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockSendReminder.mockResolvedValue(true)
+  })
+
+  test('input is trimmed and blank optional fields are cleared', () => {
+    const { errors, input } = parseCertificationInput({
+      name: ' ISO 9001:2015 ',
+      issuer: 'Bureau Veritas',
+      certificateNumber: '  ',
+      scope: 'Distribution of steel pipe',
+      issuedAt: '2024-01-15',
+      expiresAt: '2027-01-14',
+      mediaId: 'pdf1',
+    })
+
+    expect(errors).toEqual([])
+    expect(input).toEqual({
+      name: 'ISO 9001:2015',
+      issuer: 'Bureau Veritas',
+      certificateNumber: null,
+      scope: 'Distribution of steel pipe',
+      issuedAt: new Date('2024-01-15'),
+      expiresAt: new Date('2027-01-14'),
+      mediaId: 'pdf1',
+      position: undefined,
+    })
+  })
+
+  test('invalid input is rejected field by field', () => {
+    const { errors, input } = parseCertificationInput({
+      name: '',
+      issuer: 42,
+      issuedAt: '2027-01-01',
+      expiresAt: '2026-01-01',
+      mediaId: '',
+      position: -1,
+    })
+
+    expect(input).toBeNull()
+    expect(errors.map(error => error.field)).toEqual(['issuer', 'name', 'expiresAt', 'mediaId', 'position'])
+  })
+
+  test('certificate files must be uploaded PDFs', async () => {
+    mockPrisma.media.findUnique.mockResolvedValueOnce(null)
+    expect(await checkCertificateFile('missing')).toBe('Certificate file not found')
+
+    mockPrisma.media.findUnique.mockResolvedValueOnce({ mimeType: 'image/png' })
+    expect(await checkCertificateFile('photo')).toBe('Certificate file must be a PDF')
+
+    mockPrisma.media.findUnique.mockResolvedValueOnce({ mimeType: 'application/pdf' })
+    expect(await checkCertificateFile('pdf1')).toBeNull()
+  })
+
+  test('status reflects how close the expiry date is', () => {
+    expect(getCertificationStatus(null, now)).toBe('VALID')
+    expect(getCertificationStatus(daysFromNow(61), now)).toBe('VALID')
+    expect(getCertificationStatus(daysFromNow(60), now)).toBe('EXPIRING_SOON')
+    expect(getCertificationStatus(now, now)).toBe('EXPIRED')
+  })
+
+  test('the public list leaves out lapsed certifications and links the PDF', async () => {
+    mockPrisma.certification.findMany.mockResolvedValue([
+      { id: 'c1', name: 'ISO 9001', issuer: 'ISO', expiresAt: daysFromNow(10), media: { url: '/uploads/iso.pdf' } },
+    ])
+
+    const certifications = await listPublicCertifications(now)
+
+    expect(mockPrisma.certification.findMany.mock.calls[0][0].where).toEqual({
+      OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+    })
+    expect(certifications[0]).toMatchObject({ id: 'c1', documentUrl: '/uploads/iso.pdf', status: 'EXPIRING_SOON' })
+    expect(certifications[0]).not.toHaveProperty('media')
+  })
+
+  test('each reminder window is reminded once', () => {
+    expect(getDueReminder({ expiresAt: daysFromNow(90), lastReminderDays: null }, now)).toBeNull()
+    expect(getDueReminder({ expiresAt: daysFromNow(60), lastReminderDays: null }, now)).toBe(60)
+    expect(getDueReminder({ expiresAt: daysFromNow(45), lastReminderDays: 60 }, now)).toBeNull()
+    // A certification added late gets the reminder for the window it is in
+    expect(getDueReminder({ expiresAt: daysFromNow(20), lastReminderDays: null }, now)).toBe(30)
+    expect(getDueReminder({ expiresAt: daysFromNow(7), lastReminderDays: 30 }, now)).toBe(7)
+    expect(getDueReminder({ expiresAt: daysFromNow(3), lastReminderDays: 7 }, now)).toBeNull()
+    expect(getDueReminder({ expiresAt: daysFromNow(-1), lastReminderDays: null }, now)).toBeNull()
+  })
+
+  test('renewing a certification resets its reminders', () => {
+    const input = parseCertificationInput({ name: 'ISO 9001', issuer: 'ISO', expiresAt: '2029-01-01' }).input!
+
+    expect(buildCertificationUpdate({ expiresAt: new Date('2029-01-01') }, input)).not.toHaveProperty('lastReminderDays')
+    expect(buildCertificationUpdate({ expiresAt: new Date('2026-01-01') }, input)).toMatchObject({ lastReminderDays: null })
+  })
+
+  test('due reminders are emailed and recorded', async () => {
+    mockPrisma.certification.findMany.mockResolvedValue([
+      { id: 'c1', name: 'API Q1', issuer: 'API', certificateNumber: 'Q1-0042', expiresAt: daysFromNow(30), lastReminderDays: 60 },
+      { id: 'c2', name: 'ISO 9001', issuer: 'ISO', certificateNumber: null, expiresAt: daysFromNow(50), lastReminderDays: 60 },
+    ])
+
+    const result = await sendCertificationReminders(now)
+
+    expect(result).toEqual({ checked: 2, sent: 1 })
+    expect(mockSendReminder).toHaveBeenCalledTimes(1)
+    expect(mockSendReminder).toHaveBeenCalledWith(expect.objectContaining({ name: 'API Q1', certificateNumber: 'Q1-0042', daysLeft: 30 }))
+    expect(mockPrisma.certification.update).toHaveBeenCalledWith({ where: { id: 'c1' }, data: { lastReminderDays: 30 } })
+  })
+
+  test('a reminder that could not be queued is tried again next run', async () => {
+    mockPrisma.certification.findMany.mockResolvedValue([
+      { id: 'c1', name: 'API Q1', issuer: 'API', certificateNumber: null, expiresAt: daysFromNow(5), lastReminderDays: 30 },
+    ])
+    mockSendReminder.mockResolvedValue(false)
+
+    expect(await sendCertificationReminders(now)).toEqual({ checked: 1, sent: 0 })
+    expect(mockPrisma.certification.update).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,264 @@
+/**
+ * Certification registry: the quality and industry certifications listed on
+ * the certifications page, with their certificate PDFs and expiry dates.
+ * Lapsed certifications stay on record but are hidden from the public site,
+ * and admins are emailed as each expiry date approaches.
+ */
+
+import { Certification, Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import { sendCertificationExpiryReminder } from './email-utils'
+import type { ValidationError } from './quote-validation'
+
+// Days before expiry that admins are reminded, longest first
+export const CERTIFICATION_REMINDER_DAYS = [60, 30, 7]
+
+// How far ahead the site marks a certification as expiring soon
+export const EXPIRING_SOON_DAYS = 60
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Longest name, issuer and certificate number
+const MAX_TEXT_LENGTH = 200
+// Longest scope statement
+const MAX_SCOPE_LENGTH = 2000
+
+export type CertificationStatus = 'VALID' | 'EXPIRING_SOON' | 'EXPIRED'
+
+export interface CertificationInput {
+  name: string
+  issuer: string
+  certificateNumber: string | null
+  scope: string | null
+  issuedAt: Date | null
+  expiresAt: Date | null
+  mediaId: string | null
+  position?: number
+}
+
+// A certification as the public site shows it
+export interface PublicCertification {
+  id: string
+  name: string
+  issuer: string
+  certificateNumber: string | null
+  scope: string | null
+  issuedAt: Date | null
+  expiresAt: Date | null
+  documentUrl: string | null
+  status: CertificationStatus
+}
+
+export const CERTIFICATION_INCLUDE = {
+  media: { select: { id: true, originalName: true, url: true } }
+} satisfies Prisma.CertificationInclude
+
+const CERTIFICATION_ORDER: Prisma.CertificationOrderByWithRelationInput[] = [
+  { position: 'asc' },
+  { name: 'asc' }
+]
+
+function optionalText(
+  value: unknown,
+  field: string,
+  maxLength: number,
+  errors: ValidationError[]
+): string | null {
+  if (value === undefined || value === null) return null
+  if (typeof value !== 'string') {
+    errors.push({ field, message: 'Must be text' })
+    return null
+  }
+  if (value.trim().length > maxLength) {
+    errors.push({ field, message: `Must be at most ${maxLength} characters` })
+    return null
+  }
+  return value.trim() || null
+}
+
+function optionalDate(value: unknown, field: string, errors: ValidationError[]): Date | null {
+  if (value === undefined || value === null || value === '') return null
+  const date = typeof value === 'string' ? new Date(value) : null
+  if (!date || isNaN(date.getTime())) {
+    errors.push({ field, message: 'Must be a valid date' })
+    return null
+  }
+  return date
+}
+
+/**
+ * Validate a certification from the editor. The whole record is sent on
+ * every save, so omitted optional fields are cleared.
+ */
+export function parseCertificationInput(data: any): {
+  errors: ValidationError[]
+  input: CertificationInput | null
+} {
+  const errors: ValidationError[] = []
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { errors: [{ field: 'body', message: 'Request body must be an object' }], input: null }
+  }
+
+  const name = optionalText(data.name, 'name', MAX_TEXT_LENGTH, errors)
+  const issuer = optionalText(data.issuer, 'issuer', MAX_TEXT_LENGTH, errors)
+  if (!name && !errors.some(error => error.field === 'name')) {
+    errors.push({ field: 'name', message: 'Certification name is required' })
+  }
+  if (!issuer && !errors.some(error => error.field === 'issuer')) {
+    errors.push({ field: 'issuer', message: 'Issuer is required' })
+  }
+
+  const certificateNumber = optionalText(data.certificateNumber, 'certificateNumber', MAX_TEXT_LENGTH, errors)
+  const scope = optionalText(data.scope, 'scope', MAX_SCOPE_LENGTH, errors)
+
+  const issuedAt = optionalDate(data.issuedAt, 'issuedAt', errors)
+  const expiresAt = optionalDate(data.expiresAt, 'expiresAt', errors)
+  if (issuedAt && expiresAt && expiresAt <= issuedAt) {
+    errors.push({ field: 'expiresAt', message: 'Expiry must be after the issue date' })
+  }
+
+  if (data.mediaId !== undefined && data.mediaId !== null && (typeof data.mediaId !== 'string' || !data.mediaId.trim())) {
+    errors.push({ field: 'mediaId', message: 'Certificate file must be a media id' })
+  }
+  if (data.position !== undefined && (!Number.isInteger(data.position) || data.position < 0)) {
+    errors.push({ field: 'position', message: 'Position must be a non-negative whole number' })
+  }
+
+  if (errors.length > 0) return { errors, input: null }
+
+  return {
+    errors,
+    input: {
+      name: name!,
+      issuer: issuer!,
+      certificateNumber,
+      scope,
+      issuedAt,
+      expiresAt,
+      mediaId: data.mediaId?.trim() || null,
+      position: data.position
+    }
+  }
+}
+
+/**
+ * Check that a certificate file is an uploaded PDF. Returns an error message,
+ * or null when the file can be linked.
+ */
+export async function checkCertificateFile(mediaId: string): Promise<string | null> {
+  const media = await prisma.media.findUnique({ where: { id: mediaId }, select: { mimeType: true } })
+  if (!media) return 'Certificate file not found'
+  if (media.mimeType !== 'application/pdf') return 'Certificate file must be a PDF'
+  return null
+}
+
+/**
+ * Fields to save for an edited certification. A new expiry date means a
+ * renewal, so its reminders start over.
+ */
+export function buildCertificationUpdate(
+  existing: Pick<Certification, 'expiresAt'>,
+  input: CertificationInput
+): Prisma.CertificationUncheckedUpdateInput {
+  const renewed = existing.expiresAt?.getTime() !== input.expiresAt?.getTime()
+  return renewed ? { ...input, lastReminderDays: null } : input
+}
+
+/**
+ * Whether a certification is current, about to lapse or lapsed
+ */
+export function getCertificationStatus(expiresAt: Date | null, now: Date = new Date()): CertificationStatus {
+  if (!expiresAt) return 'VALID'
+  if (expiresAt <= now) return 'EXPIRED'
+  if (expiresAt.getTime() - now.getTime() <= EXPIRING_SOON_DAYS * DAY_MS) return 'EXPIRING_SOON'
+  return 'VALID'
+}
+
+/**
+ * Every certification with its file and status, for the editor
+ */
+export async function listCertifications(now: Date = new Date()) {
+  const certifications = await prisma.certification.findMany({
+    include: CERTIFICATION_INCLUDE,
+    orderBy: CERTIFICATION_ORDER
+  })
+
+  return certifications.map(cert => ({ ...cert, status: getCertificationStatus(cert.expiresAt, now) }))
+}
+
+/**
+ * Certifications the public site lists: those without an expiry date or not
+ * yet lapsed
+ */
+export async function listPublicCertifications(now: Date = new Date()): Promise<PublicCertification[]> {
+  const certifications = await prisma.certification.findMany({
+    where: { OR: [{ expiresAt: null }, { expiresAt: { gt: now } }] },
+    include: CERTIFICATION_INCLUDE,
+    orderBy: CERTIFICATION_ORDER
+  })
+
+  return certifications.map(cert => ({
+    id: cert.id,
+    name: cert.name,
+    issuer: cert.issuer,
+    certificateNumber: cert.certificateNumber,
+    scope: cert.scope,
+    issuedAt: cert.issuedAt,
+    expiresAt: cert.expiresAt,
+    documentUrl: cert.media?.url ?? null,
+    status: getCertificationStatus(cert.expiresAt, now)
+  }))
+}
+
+/**
+ * The reminder due for a certification: the shortest reminder window its
+ * expiry date falls within, or null when it is outside every window, has
+ * lapsed, or that reminder was already sent
+ */
+export function getDueReminder(
+  cert: Pick<Certification, 'expiresAt' | 'lastReminderDays'>,
+  now: Date = new Date()
+): number | null {
+  if (!cert.expiresAt || cert.expiresAt <= now) return null
+
+  const daysLeft = Math.ceil((cert.expiresAt.getTime() - now.getTime()) / DAY_MS)
+  const windows = CERTIFICATION_REMINDER_DAYS.filter(days => daysLeft <= days)
+  if (windows.length === 0) return null
+
+  const due = Math.min(...windows)
+  if (cert.lastReminderDays !== null && cert.lastReminderDays <= due) return null
+  return due
+}
+
+/**
+ * Email admins about certifications entering a reminder window. Run daily;
+ * each reminder is sent once per expiry date.
+ */
+export async function sendCertificationReminders(now: Date = new Date()) {
+  const cutoff = new Date(now.getTime() + Math.max(...CERTIFICATION_REMINDER_DAYS) * DAY_MS)
+  const certifications = await prisma.certification.findMany({
+    where: { expiresAt: { gt: now, lte: cutoff } },
+    orderBy: { expiresAt: 'asc' }
+  })
+
+  let sent = 0
+  for (const cert of certifications) {
+    const due = getDueReminder(cert, now)
+    if (due === null) continue
+
+    const queued = await sendCertificationExpiryReminder({
+      name: cert.name,
+      issuer: cert.issuer,
+      certificateNumber: cert.certificateNumber,
+      expiresAt: cert.expiresAt!,
+      daysLeft: Math.ceil((cert.expiresAt!.getTime() - now.getTime()) / DAY_MS)
+    })
+    if (!queued) continue
+
+    await prisma.certification.update({ where: { id: cert.id }, data: { lastReminderDays: due } })
+    sent++
+  }
+
+  return { checked: certifications.length, sent }
+}
@@ -0,0 +1,145 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for company content validation, drafts, publishing and rollback
+ */
+
+jest.mock('./prisma', () => {
+  const prisma: any = {
+    companyContent: {
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+    },
+    companyContentVersion: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      aggregate: jest.fn(),
+    },
+    $transaction: jest.fn((callback: any) => callback(prisma)),
+  }
+  return { prisma, safeTransaction: (callback: any) => prisma.$transaction(callback) }
+})
+
+import { prisma } from './prisma'
+import {
+  DEFAULT_COMPANY_CONTENT,
+  getPublishedCompanyContent,
+  parseCompanyContent,
+  publishCompanyContent,
+  saveCompanyContentDraft,
+} from './company-content'
+
+const mockPrisma = prisma as any
+
+const version = (overrides: Record<string, any> = {}) => ({
+  id: 'v1',
+  version: 1,
+  status: 'DRAFT',
+  data: { ...DEFAULT_COMPANY_CONTENT, name: 'Acme Pipe' },
+  createdById: 'admin',
+  publishedAt: null,
+  ...overrides,
+})
+
+describe('Company Content', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockPrisma.companyContentVersion.aggregate.mockResolvedValue({ _max: { version: 3 } })
+    mockPrisma.companyContentVersion.update.mockImplementation(({ where, data }: any) => ({ ...version({ id: where.id }), ...data }))
+    mockPrisma.companyContentVersion.create.mockImplementation(({ data }: any) => ({ id: 'new', ...data }))
+  })
+
+  test('content is trimmed and blank text becomes null', () => {
+    const { errors, content } = parseCompanyContent({
+      name: '  Acme Pipe ',
+      history: '   ',
+      email: 'sales@acme.com',
+      serviceAreas: ['Texas', ' ', ' Ohio'],
+    })
+
+    expect(errors).toEqual([])
+    expect(content).toMatchObject({
+      name: 'Acme Pipe',
+      history: null,
+      phone: null,
+      serviceAreas: ['Texas', 'Ohio'],
+      specialties: [],
+    })
+  })
+
+  test('invalid content is rejected field by field', () => {
+    const { errors, content } = parseCompanyContent({
+      name: '',
+      email: 'not-an-email',
+      website: 'ftp://acme.com',
+      specialties: 'Pipes',
+    })
+
+    expect(content).toBeNull()
+    expect(errors.map(error => error.field)).toEqual([
+      'name',
+      'email',
+      'website',
+      'specialties',
+    ])
+  })
+
+  test('the site shows the defaults until content is published', async () => {
+    mockPrisma.companyContent.findUnique.mockResolvedValue(null)
+
+    expect(await getPublishedCompanyContent()).toEqual(DEFAULT_COMPANY_CONTENT)
+  })
+
+  test('saving replaces the draft, or starts a new version', async () => {
+    mockPrisma.companyContentVersion.findFirst.mockResolvedValue(version())
+    await saveCompanyContentDraft(DEFAULT_COMPANY_CONTENT, 'editor')
+    expect(mockPrisma.companyContentVersion.update).toHaveBeenCalledWith({
+      where: { id: 'v1' },
+      data: { data: DEFAULT_COMPANY_CONTENT, createdById: 'editor' },
+    })
+
+    mockPrisma.companyContentVersion.findFirst.mockResolvedValue(null)
+    const draft = await saveCompanyContentDraft(DEFAULT_COMPANY_CONTENT, 'editor')
+    expect(draft).toMatchObject({ version: 4, status: 'DRAFT' })
+  })
+
+  test('publishing the draft archives the live version and updates the site', async () => {
+    // Versions saved before certifications moved to their own registry still carry them
+    mockPrisma.companyContentVersion.findFirst.mockResolvedValue(version({
+      id: 'v4',
+      version: 4,
+      data: { ...DEFAULT_COMPANY_CONTENT, name: 'Acme Pipe', certifications: [{ name: 'ISO 9001', issuer: 'ISO' }] },
+    }))
+
+    const published = await publishCompanyContent('admin')
+
+    expect(published).toMatchObject({ id: 'v4', status: 'PUBLISHED' })
+    expect(mockPrisma.companyContentVersion.updateMany).toHaveBeenCalledWith({
+      where: { status: 'PUBLISHED', id: { not: 'v4' } },
+      data: { status: 'ARCHIVED' },
+    })
+    expect(mockPrisma.companyContent.upsert.mock.calls[0][0]).toMatchObject({
+      where: { id: 'default' },
+      update: { name: 'Acme Pipe', serviceAreas: DEFAULT_COMPANY_CONTENT.serviceAreas },
+    })
+    expect(mockPrisma.companyContent.upsert.mock.calls[0][0].update).not.toHaveProperty('certifications')
+  })
+
+  test('rolling back publishes a copy of the archived version', async () => {
+    mockPrisma.companyContentVersion.findUnique.mockResolvedValue(version({ status: 'ARCHIVED' }))
+
+    const published = await publishCompanyContent('admin', 'v1')
+
+    expect(published).toMatchObject({ id: 'new', version: 4, status: 'PUBLISHED', createdById: 'admin' })
+    expect(mockPrisma.companyContentVersion.update).not.toHaveBeenCalled()
+    expect(mockPrisma.companyContent.upsert).toHaveBeenCalled()
+
+    mockPrisma.companyContentVersion.findUnique.mockResolvedValue(null)
+    expect(await publishCompanyContent('admin', 'missing')).toBeNull()
+  })
+})
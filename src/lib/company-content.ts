@@ -0,0 +1,246 @@
+/**
+ * Company content: the name, contact details, story and service areas shown
+ * across the site. Certifications live in their own registry
+ * (certifications.ts). Edits are saved as a draft the content
+ * team can preview and go live when published; published versions are kept
+ * so an earlier one can be published again.
+ */
+
+import { ContentStatus, Prisma } from '@prisma/client'
+import { prisma, safeTransaction } from './prisma'
+import type { ValidationError } from './quote-validation'
+
+// The company content row the site reads
+export const COMPANY_CONTENT_ID = 'default'
+
+// Longest history, mission and vision text
+const MAX_LONG_TEXT_LENGTH = 10000
+// Longest value for other text fields
+const MAX_TEXT_LENGTH = 500
+// Most service areas or specialties
+const MAX_LIST_LENGTH = 50
+
+const LONG_TEXT_FIELDS = ['description', 'history', 'mission', 'vision'] as const
+const TEXT_FIELDS = [...LONG_TEXT_FIELDS, 'address', 'city', 'state', 'zipCode', 'country', 'phone', 'email', 'website'] as const
+const LIST_FIELDS = ['serviceAreas', 'specialties'] as const
+
+export type CompanyContentData = { name: string } & Record<typeof TEXT_FIELDS[number], string | null> & {
+  serviceAreas: string[]
+  specialties: string[]
+}
+
+// Shown until content is first published
+export const DEFAULT_COMPANY_CONTENT: CompanyContentData = {
+  name: 'Professional Pipe Supply Co.',
+  description: 'Leading supplier of industrial pipes and fittings',
+  history: null,
+  mission: null,
+  vision: null,
+  address: '123 Industrial Blvd',
+  city: 'Manufacturing City',
+  state: 'TX',
+  zipCode: '12345',
+  country: 'USA',
+  phone: '(555) 123-4567',
+  email: 'info@pipesupply.com',
+  website: 'https://pipesupply.com',
+  serviceAreas: ['Texas', 'Oklahoma', 'Louisiana'],
+  specialties: ['Industrial Pipes', 'Custom Fittings', 'Emergency Supply']
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol)
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Validate company content from the editor. The whole content is sent on
+ * every save: blank text fields become null and missing lists become empty.
+ */
+export function parseCompanyContent(data: any): {
+  errors: ValidationError[]
+  content: CompanyContentData | null
+} {
+  const errors: ValidationError[] = []
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { errors: [{ field: 'body', message: 'Request body must be an object' }], content: null }
+  }
+
+  const content = { serviceAreas: [], specialties: [] } as unknown as CompanyContentData
+
+  if (typeof data.name !== 'string' || !data.name.trim()) {
+    errors.push({ field: 'name', message: 'Company name is required' })
+  } else if (data.name.trim().length > 200) {
+    errors.push({ field: 'name', message: 'Company name must be at most 200 characters' })
+  } else {
+    content.name = data.name.trim()
+  }
+
+  for (const field of TEXT_FIELDS) {
+    const value = data[field]
+    content[field] = null
+    if (value === undefined || value === null) continue
+    if (typeof value !== 'string') {
+      errors.push({ field, message: 'Must be text' })
+      continue
+    }
+
+    const maxLength = (LONG_TEXT_FIELDS as readonly string[]).includes(field) ? MAX_LONG_TEXT_LENGTH : MAX_TEXT_LENGTH
+    if (value.trim().length > maxLength) {
+      errors.push({ field, message: `Must be at most ${maxLength} characters` })
+      continue
+    }
+    content[field] = value.trim() || null
+  }
+
+  if (content.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(content.email)) {
+    errors.push({ field: 'email', message: 'Invalid email format' })
+  }
+  if (content.website && !isHttpUrl(content.website)) {
+    errors.push({ field: 'website', message: 'Website must be an http(s) URL' })
+  }
+
+  for (const field of LIST_FIELDS) {
+    const value = data[field]
+    if (value === undefined || value === null) continue
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+      errors.push({ field, message: 'Must be a list of text values' })
+      continue
+    }
+
+    const items = value.map((item: string) => item.trim()).filter(Boolean)
+    if (items.length > MAX_LIST_LENGTH) {
+      errors.push({ field, message: `At most ${MAX_LIST_LENGTH} entries are allowed` })
+    } else if (items.some(item => item.length > MAX_TEXT_LENGTH)) {
+      errors.push({ field, message: `Entries must be at most ${MAX_TEXT_LENGTH} characters` })
+    }
+    content[field] = items
+  }
+
+  return errors.length > 0 ? { errors, content: null } : { errors, content }
+}
+
+// The stored content fields, leaving out anything else in older version data
+function pickContent(data: CompanyContentData): CompanyContentData {
+  const content = { name: data.name } as CompanyContentData
+  for (const field of TEXT_FIELDS) content[field] = data[field] ?? null
+  for (const field of LIST_FIELDS) content[field] = data[field] ?? []
+  return content
+}
+
+/**
+ * The content the site shows: the last published version, or the defaults
+ * before anything has been published
+ */
+export async function getPublishedCompanyContent(): Promise<CompanyContentData> {
+  const row = await prisma.companyContent.findUnique({ where: { id: COMPANY_CONTENT_ID } })
+  return row ? pickContent(row) : DEFAULT_COMPANY_CONTENT
+}
+
+/**
+ * The unpublished draft, if the content team has one in progress
+ */
+export async function getCompanyContentDraft() {
+  return prisma.companyContentVersion.findFirst({ where: { status: ContentStatus.DRAFT } })
+}
+
+async function nextVersionNumber(tx: Prisma.TransactionClient): Promise<number> {
+  const latest = await tx.companyContentVersion.aggregate({ _max: { version: true } })
+  return (latest._max.version ?? 0) + 1
+}
+
+/**
+ * Save content as the draft, replacing any earlier draft. Nothing changes on
+ * the site until the draft is published.
+ */
+export async function saveCompanyContentDraft(content: CompanyContentData, userId: string | null) {
+  const data = content as unknown as Prisma.InputJsonObject
+
+  return safeTransaction(async (tx) => {
+    const draft = await tx.companyContentVersion.findFirst({ where: { status: ContentStatus.DRAFT } })
+    if (draft) {
+      return tx.companyContentVersion.update({ where: { id: draft.id }, data: { data, createdById: userId } })
+    }
+
+    return tx.companyContentVersion.create({
+      data: { version: await nextVersionNumber(tx), status: ContentStatus.DRAFT, data, createdById: userId }
+    })
+  })
+}
+
+/**
+ * Discard the draft. Returns whether there was one.
+ */
+export async function discardCompanyContentDraft(): Promise<boolean> {
+  const { count } = await prisma.companyContentVersion.deleteMany({ where: { status: ContentStatus.DRAFT } })
+  return count > 0
+}
+
+/**
+ * Make a version live: the draft by default, or an earlier version to roll
+ * back to it. Rolling back publishes a copy as a new version so the history
+ * reads in order. The previously live version is archived. Returns null when
+ * there is no draft or no such version.
+ */
+export async function publishCompanyContent(userId: string | null, versionId?: string) {
+  return safeTransaction(async (tx) => {
+    const source = versionId
+      ? await tx.companyContentVersion.findUnique({ where: { id: versionId } })
+      : await tx.companyContentVersion.findFirst({ where: { status: ContentStatus.DRAFT } })
+    if (!source) return null
+    if (source.status === ContentStatus.PUBLISHED) return source
+
+    const publishedAt = new Date()
+    const published = source.status === ContentStatus.DRAFT
+      ? await tx.companyContentVersion.update({
+          where: { id: source.id },
+          data: { status: ContentStatus.PUBLISHED, publishedAt }
+        })
+      : await tx.companyContentVersion.create({
+          data: {
+            version: await nextVersionNumber(tx),
+            status: ContentStatus.PUBLISHED,
+            data: source.data as Prisma.InputJsonObject,
+            createdById: userId,
+            publishedAt
+          }
+        })
+
+    await tx.companyContentVersion.updateMany({
+      where: { status: ContentStatus.PUBLISHED, id: { not: published.id } },
+      data: { status: ContentStatus.ARCHIVED }
+    })
+
+    const row = pickContent(published.data as unknown as CompanyContentData)
+    await tx.companyContent.upsert({
+      where: { id: COMPANY_CONTENT_ID },
+      create: { id: COMPANY_CONTENT_ID, ...row },
+      update: row
+    })
+
+    return published
+  })
+}
+
+/**
+ * Saved versions, newest first, without their content
+ */
+export async function listCompanyContentVersions(limit: number = 50) {
+  return prisma.companyContentVersion.findMany({
+    select: {
+      id: true,
+      version: true,
+      status: true,
+      publishedAt: true,
+      createdAt: true,
+      updatedAt: true,
+      createdBy: { select: { id: true, name: true, email: true } }
+    },
+    orderBy: { version: 'desc' },
+    take: limit
+  })
+}
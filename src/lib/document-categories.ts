@@ -0,0 +1,61 @@
+/**
+ * Product document categories. Kept free of server imports so client
+ * components can offer them as filters.
+ */
+
+export interface DocumentCategory {
+  id: string;
+  name: string;
+  description: string;
+  allowedTypes: string[];
+}
+
+// Predefined document categories for pipe supply business
+export const DOCUMENT_CATEGORIES: DocumentCategory[] = [
+  {
+    id: 'technical-specs',
+    name: 'Technical Specifications',
+    description: 'Detailed technical specifications and engineering drawings',
+    allowedTypes: ['application/pdf', 'application/vnd.ms-excel', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet']
+  },
+  {
+    id: 'installation-guides',
+    name: 'Installation Guides',
+    description: 'Step-by-step installation and setup instructions',
+    allowedTypes: ['application/pdf', 'text/plain', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document']
+  },
+  {
+    id: 'safety-data',
+    name: 'Safety Data Sheets',
+    description: 'Material safety data sheets and compliance documents',
+    allowedTypes: ['application/pdf']
+  },
+  {
+    id: 'certifications',
+    name: 'Certifications',
+    description: 'Quality certifications and compliance certificates',
+    allowedTypes: ['application/pdf']
+  },
+  {
+    id: 'warranties',
+    name: 'Warranty Information',
+    description: 'Warranty terms and conditions',
+    allowedTypes: ['application/pdf', 'text/plain']
+  },
+  {
+    id: 'maintenance',
+    name: 'Maintenance Guides',
+    description: 'Maintenance schedules and procedures',
+    allowedTypes: ['application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document']
+  }
+];
+
+export function getCategoryById(categoryId: string): DocumentCategory | undefined {
+  return DOCUMENT_CATEGORIES.find(cat => cat.id === categoryId);
+}
+
+export function getCategoriesForMimeType(mimeType: string): DocumentCategory[] {
+  return DOCUMENT_CATEGORIES.filter(cat => 
+    cat.allowedTypes.includes(mimeType)
+  );
+}
@@ -0,0 +1,123 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the customer-facing document library and document visibility
+ */
+
+jest.mock('./prisma', () => ({
+  prisma: {
+    productDocument: {
+      findMany: jest.fn(),
+      count: jest.fn(),
+    },
+  },
+}))
+
+import { Permission } from '@prisma/client'
+import { prisma } from './prisma'
+import { getDocumentLibrary } from './document-utils'
+import { getVisibleDocumentLevels } from './downloads'
+
+const mockPrisma = prisma as any
+
+function document(id: string, category: string, name: string, extra: Record<string, unknown> = {}) {
+  return {
+    id,
+    name,
+    category,
+    version: 1,
+    effectiveDate: null,
+    expiresAt: null,
+    url: `/api/media/m-${id}/download`,
+    visibility: 'PUBLIC',
+    productId: 'p1',
+    product: { name: 'Schedule 40 PVC Pipe' },
+    media: { mimeType: 'application/pdf', size: 2048 },
+    createdAt: new Date('2024-02-01T00:00:00Z'),
+    ...extra,
+  }
+}
+
+describe('Document Library', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  test('viewers see documents according to who they are', () => {
+    expect(getVisibleDocumentLevels(null)).toEqual(['PUBLIC'])
+    expect(getVisibleDocumentLevels({ role: 'USER' })).toEqual(['PUBLIC', 'CUSTOMER'])
+    expect(getVisibleDocumentLevels({ role: 'USER', permissions: [Permission.MANAGE_MEDIA] })).toEqual(['PUBLIC', 'CUSTOMER', 'INTERNAL'])
+    expect(getVisibleDocumentLevels({ role: 'CONTENT_MANAGER' })).toEqual(['PUBLIC', 'CUSTOMER', 'INTERNAL'])
+  })
+
+  test('groups documents by category in catalogue order', async () => {
+    mockPrisma.productDocument.findMany.mockResolvedValue([
+      document('d1', 'warranties', 'Warranty Terms'),
+      document('d2', 'safety-data', 'PVC Safety Data Sheet', { visibility: 'CUSTOMER' }),
+      document('d3', 'brochure', 'Product Brochure', { media: null }),
+      document('d4', 'technical-specs', 'Dimensions Table'),
+    ])
+    mockPrisma.productDocument.count.mockResolvedValue(4)
+
+    const library = await getDocumentLibrary({ visibility: ['PUBLIC', 'CUSTOMER'] })
+
+    expect(library.total).toBe(4)
+    expect(library.groups.map(group => group.id)).toEqual(['technical-specs', 'safety-data', 'warranties', 'other'])
+    expect(library.groups[1].documents[0]).toEqual({
+      id: 'd2',
+      name: 'PVC Safety Data Sheet',
+      category: 'safety-data',
+      productId: 'p1',
+      productName: 'Schedule 40 PVC Pipe',
+      mimeType: 'application/pdf',
+      size: 2048,
+      visibility: 'CUSTOMER',
+      version: 1,
+      effectiveDate: null,
+      expiresAt: null,
+      downloadUrl: '/api/documents/d2/download',
+      createdAt: new Date('2024-02-01T00:00:00Z'),
+    })
+    expect(library.groups[3].documents[0]).toMatchObject({ id: 'd3', category: 'other', mimeType: null, size: null })
+  })
+
+  test('filters by visibility, product, category and search text', async () => {
+    mockPrisma.productDocument.findMany.mockResolvedValue([])
+    mockPrisma.productDocument.count.mockResolvedValue(0)
+
+    const library = await getDocumentLibrary({
+      visibility: ['PUBLIC'],
+      productId: 'p1',
+      category: 'safety-data',
+      search: '  sds ',
+    })
+
+    expect(library).toEqual({ groups: [], total: 0 })
+    const { where } = mockPrisma.productDocument.findMany.mock.calls[0][0]
+    expect(where).toEqual({
+      visibility: { in: ['PUBLIC'] },
+      productId: 'p1',
+      category: 'safety-data',
+      supersededById: null,
+      OR: [
+        { name: { contains: 'sds', mode: 'insensitive' } },
+        { product: { name: { contains: 'sds', mode: 'insensitive' } } },
+        { media: { originalName: { contains: 'sds', mode: 'insensitive' } } },
+      ],
+    })
+    expect(mockPrisma.productDocument.count).toHaveBeenCalledWith({ where })
+  })
+
+  test('superseded versions are only listed on request', async () => {
+    mockPrisma.productDocument.findMany.mockResolvedValue([])
+    mockPrisma.productDocument.count.mockResolvedValue(0)
+
+    await getDocumentLibrary({ visibility: ['PUBLIC', 'CUSTOMER', 'INTERNAL'], includeSuperseded: true })
+
+    expect(mockPrisma.productDocument.findMany.mock.calls[0][0].where).toEqual({
+      visibility: { in: ['PUBLIC', 'CUSTOMER', 'INTERNAL'] }
+    })
+  })
+})
@@ -59,6 +59,10 @@ const productDocumentGenerator = fc.record({
 })
 
 describe('Document Organization Property Tests', () => {
+  beforeAll(() => {
+    process.env.SESSION_SECRET = 'test-session-secret'
+  })
+
   it('Property 20: Document organization and access - documents are organized by product', () => {
     // **Feature: pipe-supply-website, Property 20: Document organization and access**
     // **Validates: Requirements 8.3**
@@ -137,9 +141,10 @@ describe('Document Organization Property Tests', () => {
             doc.secureDownloadUrl.includes(doc.id)
           )
           
-          // Property 3: URLs should end with /download
+          // Property 3: URLs should point at the download route and be signed
           const urlsEndWithDownload = documentsWithUrls.every(doc => 
-            doc.secureDownloadUrl.endsWith('/download')
+            doc.secureDownloadUrl.includes('/download?') &&
+            doc.secureDownloadUrl.includes('signature=')
           )
           
           // Property 4: Product documents should use /api/documents endpoint
@@ -1,4 +1,4 @@
-import { describe, it, expect } from '@jest/globals';
+import { describe, it, expect, beforeAll } from '@jest/globals';
 import {
   DOCUMENT_CATEGORIES,
   getCategoryById,
@@ -15,6 +15,10 @@ import {
  * with progress tracking and error handling
  */
 describe('Document Utils Property Tests', () => {
+  beforeAll(() => {
+    process.env.SESSION_SECRET = 'test-session-secret';
+  });
+
   describe('Property 21: Bulk media upload capabilities', () => {
     it('should validate document categories correctly', () => {
       // Test that all predefined categories exist and have required properties
@@ -73,12 +77,14 @@ describe('Document Utils Property Tests', () => {
       const documentId = 'test-doc-123';
       
       // Test product document URL
-      const productDocUrl = generateSecureDownloadUrl(documentId, true);
-      expect(productDocUrl).toBe('/api/documents/test-doc-123/download');
+      const productDocUrl = new URL(generateSecureDownloadUrl(documentId, true), 'http://localhost');
+      expect(productDocUrl.pathname).toBe('/api/documents/test-doc-123/download');
+      expect(productDocUrl.searchParams.get('signature')).toMatch(/^[0-9a-f]{64}$/);
       
       // Test general media URL
-      const mediaUrl = generateSecureDownloadUrl(documentId, false);
-      expect(mediaUrl).toBe('/api/media/test-doc-123/download');
+      const mediaUrl = new URL(generateSecureDownloadUrl(documentId, false), 'http://localhost');
+      expect(mediaUrl.pathname).toBe('/api/media/test-doc-123/download');
+      expect(mediaUrl.searchParams.get('expires')).toBeTruthy();
     });
 
     it('should handle bulk operations with proper error tracking', () => {
@@ -1,10 +1,45 @@
+import { DocumentVisibility, Prisma } from '@prisma/client';
 import { prisma } from './prisma';
+import { signDownloadPath, SignedUrlOptions } from './signed-urls';
+import { DOCUMENT_CATEGORIES, getCategoryById } from './document-categories';
 
-export interface DocumentCategory {
+export {
+  DOCUMENT_CATEGORIES,
+  getCategoryById,
+  getCategoriesForMimeType
+} from './document-categories';
+export type { DocumentCategory } from './document-categories';
+
+export interface LibraryDocument {
+  id: string;
+  name: string;
+  category: string;
+  productId: string;
+  productName: string;
+  mimeType: string | null;
+  size: number | null;
+  visibility: DocumentVisibility;
+  version: number;
+  effectiveDate: Date | null;
+  expiresAt: Date | null;
+  downloadUrl: string;
+  createdAt: Date;
+}
+
+export interface DocumentLibraryGroup {
   id: string;
   name: string;
   description: string;
-  allowedTypes: string[];
+  documents: LibraryDocument[];
+}
+
+export interface DocumentLibraryFilters {
+  productId?: string;
+  category?: string;
+  search?: string;
+  visibility: DocumentVisibility[];
+  // Also list versions that have been replaced by a newer upload
+  includeSuperseded?: boolean;
 }
 
 export interface OrganizedDocument {
@@ -21,59 +56,89 @@ export interface OrganizedDocument {
   secureDownloadUrl: string;
 }
 
-// Predefined document categories for pipe supply business
-export const DOCUMENT_CATEGORIES: DocumentCategory[] = [
-  {
-    id: 'technical-specs',
-    name: 'Technical Specifications',
-    description: 'Detailed technical specifications and engineering drawings',
-    allowedTypes: ['application/pdf', 'application/vnd.ms-excel', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet']
-  },
-  {
-    id: 'installation-guides',
-    name: 'Installation Guides',
-    description: 'Step-by-step installation and setup instructions',
-    allowedTypes: ['application/pdf', 'text/plain', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document']
-  },
-  {
-    id: 'safety-data',
-    name: 'Safety Data Sheets',
-    description: 'Material safety data sheets and compliance documents',
-    allowedTypes: ['application/pdf']
-  },
-  {
-    id: 'certifications',
-    name: 'Certifications',
-    description: 'Quality certifications and compliance certificates',
-    allowedTypes: ['application/pdf']
-  },
-  {
-    id: 'warranties',
-    name: 'Warranty Information',
-    description: 'Warranty terms and conditions',
-    allowedTypes: ['application/pdf', 'text/plain']
-  },
-  {
-    id: 'maintenance',
-    name: 'Maintenance Guides',
-    description: 'Maintenance schedules and procedures',
-    allowedTypes: ['application/pdf', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document']
-  }
-];
-
-export function getCategoryById(categoryId: string): DocumentCategory | undefined {
-  return DOCUMENT_CATEGORIES.find(cat => cat.id === categoryId);
+export function generateSecureDownloadUrl(
+  documentId: string,
+  isProductDocument: boolean = false,
+  options: SignedUrlOptions = {}
+): string {
+  const baseUrl = isProductDocument ? '/api/documents' : '/api/media';
+  return signDownloadPath(`${baseUrl}/${documentId}/download`, options);
 }
 
-export function getCategoriesForMimeType(mimeType: string): DocumentCategory[] {
-  return DOCUMENT_CATEGORIES.filter(cat => 
-    cat.allowedTypes.includes(mimeType)
-  );
+// Largest number of documents the library returns in one response
+export const LIBRARY_LIMIT = 200;
+
+// Unsigned download route for a product document; access follows its visibility
+export function getDocumentDownloadPath(documentId: string): string {
+  return `/api/documents/${documentId}/download`;
 }
 
-export function generateSecureDownloadUrl(documentId: string, isProductDocument: boolean = false): string {
-  const baseUrl = isProductDocument ? '/api/documents' : '/api/media';
-  return `${baseUrl}/${documentId}/download`;
+/**
+ * Product documents a viewer may see, grouped by category in the order of
+ * DOCUMENT_CATEGORIES. Documents of unknown types are grouped under "other".
+ * Superseded versions are left out unless the filters ask for them.
+ */
+export async function getDocumentLibrary(filters: DocumentLibraryFilters): Promise<{
+  groups: DocumentLibraryGroup[];
+  total: number;
+}> {
+  const where: Prisma.ProductDocumentWhereInput = {
+    visibility: { in: filters.visibility }
+  };
+  if (filters.productId) where.productId = filters.productId;
+  if (filters.category) where.category = filters.category;
+  if (!filters.includeSuperseded) where.supersededById = null;
+
+  const search = filters.search?.trim();
+  if (search) {
+    where.OR = [
+      { name: { contains: search, mode: 'insensitive' } },
+      { product: { name: { contains: search, mode: 'insensitive' } } },
+      { media: { originalName: { contains: search, mode: 'insensitive' } } }
+    ];
+  }
+
+  const [documents, total] = await Promise.all([
+    prisma.productDocument.findMany({
+      where,
+      include: {
+        product: { select: { name: true } },
+        media: { select: { mimeType: true, size: true } }
+      },
+      orderBy: [{ name: 'asc' }, { createdAt: 'desc' }],
+      take: LIBRARY_LIMIT
+    }),
+    prisma.productDocument.count({ where })
+  ]);
+
+  const groups: DocumentLibraryGroup[] = [
+    ...DOCUMENT_CATEGORIES.map(({ id, name, description }) => ({ id, name, description, documents: [] as LibraryDocument[] })),
+    { id: 'other', name: 'Other Documents', description: 'Additional product documentation', documents: [] }
+  ];
+
+  documents.forEach(doc => {
+    const group = groups.find(g => g.id === doc.category) ?? groups[groups.length - 1];
+    group.documents.push({
+      id: doc.id,
+      name: doc.name,
+      category: group.id,
+      productId: doc.productId,
+      productName: doc.product.name,
+      mimeType: doc.media?.mimeType ?? null,
+      size: doc.media?.size ?? null,
+      visibility: doc.visibility,
+      version: doc.version,
+      effectiveDate: doc.effectiveDate,
+      expiresAt: doc.expiresAt,
+      downloadUrl: getDocumentDownloadPath(doc.id),
+      createdAt: doc.createdAt
+    });
+  });
+
+  return {
+    groups: groups.filter(group => group.documents.length > 0),
+    total
+  };
 }
 
 export async function organizeDocumentsByProduct(productId?: string): Promise<{
@@ -120,18 +185,18 @@ export async function organizeDocumentsByProduct(productId?: string): Promise<{
         id: doc.id,
         name: doc.name,
         url: doc.url,
-        type: doc.type,
+        type: doc.category,
         productId: doc.productId,
         productName: doc.product.name,
-        category: doc.type,
+        category: doc.category,
         createdAt: doc.createdAt,
         secureDownloadUrl: generateSecureDownloadUrl(doc.id, true)
       };
 
       // Try to categorize based on document type
-      const category = getCategoryById(doc.type);
+      const category = getCategoryById(doc.category);
       if (category) {
-        organized[doc.type].push(organizedDoc);
+        organized[doc.category].push(organizedDoc);
       } else {
         uncategorized.push(organizedDoc);
       }
@@ -201,6 +266,7 @@ export async function bulkAssociateDocuments(associations: Array<{
   productId: string;
   category: string;
   name?: string;
+  visibility?: DocumentVisibility;
 }>): Promise<{
   successful: number;
   failed: number;
@@ -248,8 +314,10 @@ export async function bulkAssociateDocuments(associations: Array<{
         data: {
           name: association.name || media.originalName,
           url: media.url,
-          type: association.category,
-          productId: association.productId
+          category: association.category,
+          productId: association.productId,
+          mediaId: media.id,
+          visibility: association.visibility
         }
       });
 
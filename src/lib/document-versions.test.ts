@@ -0,0 +1,73 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for saving a product's documents without losing their versions
+ */
+
+jest.mock('./prisma', () => ({ prisma: {} }))
+
+import { saveProductDocuments } from './document-versions'
+
+// Version 1 of the spec sheet was superseded by version 2, uploaded as media
+const documents = [
+  { id: 'spec1', supersededById: 'spec2' },
+  { id: 'spec2', supersededById: null },
+  { id: 'cert1', supersededById: null },
+]
+
+function mockDb() {
+  return {
+    productDocument: {
+      findMany: jest.fn().mockResolvedValue(documents),
+      deleteMany: jest.fn(),
+      update: jest.fn(),
+      create: jest.fn(),
+    },
+  }
+}
+
+const specSheet = { id: 'spec2', name: 'Spec Sheet', url: '/api/media/m2/download', category: 'specifications' }
+const certificate = { id: 'cert1', name: 'Mill Certificate', url: 'https://example.com/cert.pdf', category: 'certifications' }
+
+describe('Product Documents', () => {
+  test('saving a product back keeps superseded versions and stored files', async () => {
+    const db = mockDb()
+
+    await saveProductDocuments(db as any, 'p1', [{ ...specSheet, name: 'Spec Sheet (rev B)' }, certificate])
+
+    expect(db.productDocument.deleteMany).not.toHaveBeenCalled()
+    expect(db.productDocument.create).not.toHaveBeenCalled()
+    expect(db.productDocument.update).toHaveBeenCalledWith({
+      where: { id: 'spec2' },
+      data: { name: 'Spec Sheet (rev B)', url: specSheet.url, category: 'specifications', visibility: undefined },
+    })
+    // Version, media link and supersession are never written
+    for (const [{ data }] of db.productDocument.update.mock.calls) {
+      expect(data).not.toHaveProperty('version')
+      expect(data).not.toHaveProperty('mediaId')
+      expect(data).not.toHaveProperty('supersededById')
+    }
+  })
+
+  test('removed documents take their earlier versions with them', async () => {
+    const db = mockDb()
+
+    await saveProductDocuments(db as any, 'p1', [certificate])
+
+    expect(db.productDocument.deleteMany).toHaveBeenCalledWith({ where: { productId: 'p1', id: { in: ['spec2', 'spec1'] } } })
+    expect(db.productDocument.update).toHaveBeenCalledTimes(1)
+  })
+
+  test('documents without a known id are created', async () => {
+    const db = mockDb()
+
+    await saveProductDocuments(db as any, 'p1', [specSheet, certificate, { ...certificate, id: 'other-product-doc', name: 'Test Report' }])
+
+    expect(db.productDocument.create).toHaveBeenCalledWith({
+      data: { name: 'Test Report', url: certificate.url, category: 'certifications', visibility: undefined, productId: 'p1' },
+    })
+    expect(db.productDocument.update).toHaveBeenCalledTimes(2)
+  })
+})
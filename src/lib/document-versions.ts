@@ -0,0 +1,232 @@
+/**
+ * Versioning for product documents. Uploading a new version of a spec sheet
+ * or certificate supersedes the current one: the old version leaves public
+ * listings but stays on record, linked to its replacement, for audit.
+ */
+
+import { DocumentVisibility, Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import type { ValidationError } from './quote-validation'
+import type { ProductData } from './product-validation'
+
+type DocumentClient = Pick<Prisma.TransactionClient, 'productDocument'>
+
+// Category whose documents lapse and are tracked for renewal
+export const CERTIFICATION_CATEGORY = 'certifications'
+
+// How far ahead the admin dashboard warns about expiring certificates
+export const EXPIRY_WARNING_DAYS = 30
+
+// Longest version chain followed when reading a document's history
+const MAX_HISTORY_LENGTH = 50
+
+export interface DocumentVersionInput {
+  mediaId: string
+  name?: string
+  effectiveDate?: Date
+  expiresAt?: Date
+}
+
+export interface ExpiringDocument {
+  id: string
+  name: string
+  productId: string
+  productName: string
+  version: number
+  expiresAt: Date
+  expired: boolean
+}
+
+function optionalDate(
+  value: unknown,
+  field: string,
+  errors: ValidationError[]
+): Date | undefined {
+  if (value === undefined || value === null || value === '') return undefined
+  const date = typeof value === 'string' ? new Date(value) : null
+  if (!date || isNaN(date.getTime())) {
+    errors.push({ field, message: 'Must be a valid date' })
+    return undefined
+  }
+  return date
+}
+
+/**
+ * Validate a new version request: `{ mediaId, name?, effectiveDate?, expiresAt? }`
+ */
+export function parseDocumentVersionInput(data: any): {
+  errors: ValidationError[]
+  input: DocumentVersionInput | null
+} {
+  const errors: ValidationError[] = []
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { errors: [{ field: 'body', message: 'Request body must be an object' }], input: null }
+  }
+
+  if (typeof data.mediaId !== 'string' || !data.mediaId.trim()) {
+    errors.push({ field: 'mediaId', message: 'Uploaded document is required' })
+  }
+  if (data.name !== undefined && (typeof data.name !== 'string' || !data.name.trim())) {
+    errors.push({ field: 'name', message: 'Name must be a non-empty string' })
+  }
+
+  const effectiveDate = optionalDate(data.effectiveDate, 'effectiveDate', errors)
+  const expiresAt = optionalDate(data.expiresAt, 'expiresAt', errors)
+  if (effectiveDate && expiresAt && expiresAt <= effectiveDate) {
+    errors.push({ field: 'expiresAt', message: 'Expiry must be after the effective date' })
+  }
+
+  if (errors.length > 0) return { errors, input: null }
+
+  return {
+    errors,
+    input: {
+      mediaId: data.mediaId.trim(),
+      name: data.name?.trim(),
+      effectiveDate,
+      expiresAt
+    }
+  }
+}
+
+/**
+ * Fields for the document that replaces `current`. The new version keeps the
+ * product, category and visibility of the one it supersedes.
+ */
+export function buildNextVersion(
+  current: { productId: string; category: string; visibility: DocumentVisibility; version: number; name: string },
+  media: { id: string; url: string },
+  input: DocumentVersionInput
+): Prisma.ProductDocumentUncheckedCreateInput {
+  return {
+    name: input.name ?? current.name,
+    url: media.url,
+    category: current.category,
+    version: current.version + 1,
+    visibility: current.visibility,
+    productId: current.productId,
+    mediaId: media.id,
+    effectiveDate: input.effectiveDate ?? null,
+    expiresAt: input.expiresAt ?? null
+  }
+}
+
+/**
+ * Replace a product's current documents with the given list. Documents with
+ * the id of one of the product's documents are updated in place, keeping
+ * their version, stored file and supersession links; the rest are created.
+ * Current documents left out are deleted along with their earlier versions,
+ * which would otherwise become current again. Superseded versions are never
+ * listed by clients, so leaving them out keeps them.
+ */
+export async function saveProductDocuments(
+  db: DocumentClient,
+  productId: string,
+  documents: NonNullable<ProductData['documents']>
+): Promise<void> {
+  const existing = await db.productDocument.findMany({
+    where: { productId },
+    select: { id: true, supersededById: true }
+  })
+  const existingIds = new Set(existing.map(document => document.id))
+  const keptIds = new Set(documents.map(document => document.id).filter(id => id && existingIds.has(id)))
+
+  const removed = new Set(
+    existing.filter(document => !document.supersededById && !keptIds.has(document.id)).map(document => document.id)
+  )
+  for (let grew = true; grew;) {
+    grew = false
+    for (const document of existing) {
+      const dropped = !removed.has(document.id) && !keptIds.has(document.id)
+      if (dropped && document.supersededById && removed.has(document.supersededById)) {
+        removed.add(document.id)
+        grew = true
+      }
+    }
+  }
+  if (removed.size > 0) {
+    await db.productDocument.deleteMany({ where: { productId, id: { in: Array.from(removed) } } })
+  }
+
+  for (const { id, type, ...fields } of documents) {
+    const data = { ...fields, visibility: fields.visibility as DocumentVisibility | undefined }
+    if (id && keptIds.has(id)) {
+      await db.productDocument.update({ where: { id }, data })
+    } else {
+      await db.productDocument.create({ data: { ...data, productId } })
+    }
+  }
+}
+
+/**
+ * Every version of a document, newest first, found by following the
+ * supersession links in both directions
+ */
+export async function getDocumentHistory(documentId: string) {
+  const select = {
+    id: true,
+    name: true,
+    version: true,
+    visibility: true,
+    effectiveDate: true,
+    expiresAt: true,
+    supersededById: true,
+    mediaId: true,
+    createdAt: true
+  } satisfies Prisma.ProductDocumentSelect
+
+  const document = await prisma.productDocument.findUnique({ where: { id: documentId }, select })
+  if (!document) return null
+
+  const history = [document]
+
+  let newest = document
+  while (newest.supersededById && history.length < MAX_HISTORY_LENGTH) {
+    const next = await prisma.productDocument.findUnique({ where: { id: newest.supersededById }, select })
+    if (!next) break
+    history.unshift(next)
+    newest = next
+  }
+
+  let oldest = document
+  while (history.length < MAX_HISTORY_LENGTH) {
+    const previous = await prisma.productDocument.findUnique({ where: { supersededById: oldest.id }, select })
+    if (!previous) break
+    history.push(previous)
+    oldest = previous
+  }
+
+  return history
+}
+
+/**
+ * Current certificates that lapse within the warning window, soonest first.
+ * Certificates that have already lapsed are included and flagged as expired.
+ */
+export async function getExpiringCertifications(
+  withinDays: number = EXPIRY_WARNING_DAYS,
+  now: Date = new Date()
+): Promise<ExpiringDocument[]> {
+  const cutoff = new Date(now.getTime() + withinDays * 24 * 60 * 60 * 1000)
+
+  const documents = await prisma.productDocument.findMany({
+    where: {
+      category: CERTIFICATION_CATEGORY,
+      supersededById: null,
+      expiresAt: { lte: cutoff }
+    },
+    include: { product: { select: { name: true } } },
+    orderBy: { expiresAt: 'asc' }
+  })
+
+  return documents.map(doc => ({
+    id: doc.id,
+    name: doc.name,
+    productId: doc.productId,
+    productName: doc.product.name,
+    version: doc.version,
+    expiresAt: doc.expiresAt!,
+    expired: doc.expiresAt! <= now
+  }))
+}
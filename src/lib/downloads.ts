@@ -0,0 +1,109 @@
+/**
+ * Access checks and analytics for file downloads. Download routes accept a
+ * signed link, or otherwise apply the visibility of the file to the session.
+ */
+
+import { NextRequest } from 'next/server'
+import validator from 'validator'
+import { DocumentVisibility, Permission } from '@prisma/client'
+import { prisma } from './prisma'
+import { logger } from './monitoring'
+import { getSession, getRequestMetadata, AuthSession } from './auth-helper'
+import { hasPermission } from './auth-utils'
+import { verifySignedUrl, SignedUrlOptions, MAX_LINK_TTL_SECONDS } from './signed-urls'
+import { parseByteRange } from './storage'
+
+export type DownloadAccess =
+  | { authorized: true; recipient: string | null; session: AuthSession | null }
+  | { authorized: false; status: 401 | 403; reason: string }
+
+/**
+ * Visibility levels a viewer may see: everyone gets public documents,
+ * signed-in customers also get customer documents and media managers get all
+ */
+export function getVisibleDocumentLevels(
+  user: { role: string; permissions?: Permission[] } | null | undefined
+): DocumentVisibility[] {
+  if (!user) return [DocumentVisibility.PUBLIC]
+  if (hasPermission(user, Permission.MANAGE_MEDIA)) return Object.values(DocumentVisibility)
+  return [DocumentVisibility.PUBLIC, DocumentVisibility.CUSTOMER]
+}
+
+/**
+ * Authorize a download by its signed link, falling back to the visibility of
+ * the file when the URL is unsigned. Stored media is internal unless linked.
+ */
+export async function authorizeDownload(
+  req: NextRequest,
+  visibility: DocumentVisibility = DocumentVisibility.INTERNAL
+): Promise<DownloadAccess> {
+  const link = verifySignedUrl(req.nextUrl)
+  if (link) {
+    return link.valid
+      ? { authorized: true, recipient: link.recipient, session: null }
+      : { authorized: false, status: 403, reason: link.reason }
+  }
+
+  // Looked up for public files too, so signed-in downloads are attributed
+  const session = await getSession(req)
+  if (visibility === DocumentVisibility.PUBLIC) {
+    return { authorized: true, recipient: null, session }
+  }
+
+  if (!session) {
+    return { authorized: false, status: 401, reason: 'Authentication required' }
+  }
+  if (!getVisibleDocumentLevels(session.user).includes(visibility)) {
+    return { authorized: false, status: 403, reason: `Missing permission: ${Permission.MANAGE_MEDIA}` }
+  }
+
+  return { authorized: true, recipient: null, session }
+}
+
+/**
+ * Validate a request to issue a signed link: `{ recipient?, expiresInDays? }`
+ */
+export function parseDownloadLinkRequest(data: any): { options?: SignedUrlOptions; error?: string } {
+  const recipient = data?.recipient
+  if (recipient !== undefined && recipient !== null && recipient !== '' &&
+      (typeof recipient !== 'string' || !validator.isEmail(recipient.trim()))) {
+    return { error: 'Recipient must be a valid email address' }
+  }
+
+  const maxDays = MAX_LINK_TTL_SECONDS / 86400
+  const days = data?.expiresInDays ?? 7
+  if (typeof days !== 'number' || !Number.isInteger(days) || days < 1 || days > maxDays) {
+    return { error: `Expiry must be a whole number of days from 1 to ${maxDays}` }
+  }
+
+  return { options: { recipient: recipient || undefined, expiresIn: days * 86400 } }
+}
+
+/**
+ * Log a download for analytics. Range requests are only counted when they
+ * start at the beginning of the file, and failures never block the download.
+ */
+export async function recordDownload(
+  req: NextRequest,
+  access: Extract<DownloadAccess, { authorized: true }>,
+  download: { mediaId: string; size: number; productDocumentId?: string }
+) {
+  const range = parseByteRange(req.headers.get('range'), download.size)
+  if (range === 'unsatisfiable' || (range && range.start > 0)) return
+
+  try {
+    const { ipAddress, userAgent } = getRequestMetadata(req)
+    await prisma.downloadEvent.create({
+      data: {
+        mediaId: download.mediaId,
+        productDocumentId: download.productDocumentId ?? null,
+        recipient: access.recipient,
+        userId: access.session?.user.id ?? null,
+        ipAddress,
+        userAgent
+      }
+    })
+  } catch (error) {
+    logger.error('Failed to record download', error as Error, { mediaId: download.mediaId })
+  }
+}
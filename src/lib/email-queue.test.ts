@@ -0,0 +1,113 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the persistent email queue and retry backoff
+ */
+
+jest.mock('./prisma', () => ({
+  prisma: {
+    emailMessage: {
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      count: jest.fn(),
+    },
+  },
+}))
+
+import { prisma } from './prisma'
+import {
+  deliverEmail,
+  enqueueEmail,
+  getRetryDelay,
+  processEmailQueue,
+  setEmailTransport,
+  EMAIL_RETRY_BASE_MS,
+  EMAIL_RETRY_MAX_MS,
+  MAX_EMAIL_ATTEMPTS,
+} from './email-queue'
+
+const mockPrisma = prisma as unknown as {
+  emailMessage: Record<'create' | 'update' | 'updateMany' | 'findMany' | 'findUnique' | 'count', jest.Mock>
+}
+
+const send = jest.fn()
+
+function storedMessage(overrides: Record<string, any> = {}) {
+  return {
+    id: 'email1',
+    to: 'buyer@example.com',
+    from: 'noreply@pipesupply.com',
+    subject: 'Quote Request Confirmation',
+    text: 'Thanks',
+    html: null,
+    status: 'PENDING',
+    attempts: 0,
+    lastError: null,
+    nextAttemptAt: new Date(),
+    sentAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  } as any
+}
+
+describe('Email Queue', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+    setEmailTransport({ name: 'test', send })
+    send.mockResolvedValue(undefined)
+    mockPrisma.emailMessage.update.mockImplementation(({ data }) => Promise.resolve(storedMessage(data)))
+    mockPrisma.emailMessage.updateMany.mockResolvedValue({ count: 1 })
+  })
+
+  test('retry delay doubles per attempt up to the cap', () => {
+    expect(getRetryDelay(1)).toBe(EMAIL_RETRY_BASE_MS)
+    expect(getRetryDelay(2)).toBe(EMAIL_RETRY_BASE_MS * 2)
+    expect(getRetryDelay(4)).toBe(EMAIL_RETRY_BASE_MS * 8)
+    expect(getRetryDelay(30)).toBe(EMAIL_RETRY_MAX_MS)
+  })
+
+  test('enqueueEmail stores the message before delivering it', async () => {
+    mockPrisma.emailMessage.create.mockResolvedValue(storedMessage())
+
+    expect(await enqueueEmail({ to: 'buyer@example.com', subject: 'Hi', text: 'Thanks' })).toBe(true)
+
+    expect(mockPrisma.emailMessage.create.mock.calls[0][0].data).toMatchObject({ to: 'buyer@example.com', status: 'PENDING' })
+    expect(send).toHaveBeenCalledWith(expect.objectContaining({ id: 'email1' }))
+    expect(mockPrisma.emailMessage.update.mock.calls[0][0].data).toMatchObject({ status: 'SENT', attempts: 1 })
+  })
+
+  test('failed deliveries are rescheduled, then marked failed after the last attempt', async () => {
+    send.mockRejectedValue(new Error('connection refused'))
+
+    const retrying = await deliverEmail(storedMessage({ attempts: 1 }))
+    expect(retrying.status).toBe('PENDING')
+    expect(retrying.lastError).toBe('connection refused')
+    expect(retrying.nextAttemptAt.getTime()).toBeGreaterThan(Date.now() + EMAIL_RETRY_BASE_MS)
+
+    const exhausted = await deliverEmail(storedMessage({ attempts: MAX_EMAIL_ATTEMPTS - 1 }))
+    expect(exhausted.status).toBe('FAILED')
+    expect(exhausted.attempts).toBe(MAX_EMAIL_ATTEMPTS)
+  })
+
+  test('processEmailQueue skips messages claimed by another run', async () => {
+    mockPrisma.emailMessage.findMany.mockResolvedValue([
+      storedMessage({ id: 'email1' }),
+      storedMessage({ id: 'email2' }),
+    ])
+    mockPrisma.emailMessage.updateMany
+      .mockResolvedValueOnce({ count: 1 })
+      .mockResolvedValueOnce({ count: 0 })
+
+    const result = await processEmailQueue()
+
+    expect(result).toEqual({ processed: 1, sent: 1, retrying: 0, failed: 0 })
+    expect(send).toHaveBeenCalledTimes(1)
+  })
+})
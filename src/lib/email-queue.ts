@@ -0,0 +1,216 @@
+/**
+ * Persistent outbound email queue. Every message is stored in the
+ * email_messages table before delivery and retried with exponential backoff
+ * until it is sent or runs out of attempts.
+ */
+
+import { EmailMessage, EmailStatus, Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+import { logger } from './monitoring'
+import { createEmailTransport, EmailTransport } from './email-transport'
+import { readStorageObject } from './storage'
+import type { EmailAttachment, EmailOptions } from './email-utils'
+
+export const MAX_EMAIL_ATTEMPTS = 5
+export const EMAIL_RETRY_BASE_MS = 60 * 1000 // 1 minute
+export const EMAIL_RETRY_MAX_MS = 6 * 60 * 60 * 1000 // 6 hours
+
+// How long a worker holds a message while delivering it
+const DELIVERY_LEASE_MS = 5 * 60 * 1000
+
+export interface OutboxFilters {
+  status?: EmailStatus
+  page?: number
+  limit?: number
+}
+
+let transport: EmailTransport | null = null
+
+function getTransport(): EmailTransport {
+  if (!transport) transport = createEmailTransport()
+  return transport
+}
+
+/**
+ * Override the transport (used by tests and scripts)
+ */
+export function setEmailTransport(next: EmailTransport | null) {
+  transport = next
+}
+
+/**
+ * Delay before the next attempt after `attempts` failures
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(EMAIL_RETRY_MAX_MS, EMAIL_RETRY_BASE_MS * Math.pow(2, Math.max(0, attempts - 1)))
+}
+
+async function loadAttachments(stored: Prisma.JsonValue | null) {
+  const attachments = (stored ?? []) as unknown as EmailAttachment[]
+  return Promise.all(attachments.map(async attachment => {
+    const content = await readStorageObject(attachment.storageKey)
+    if (!content) throw new Error(`Attachment ${attachment.filename} is missing from storage`)
+    return { filename: attachment.filename, contentType: attachment.contentType, content }
+  }))
+}
+
+/**
+ * Attempt delivery of one stored message and record the outcome
+ */
+export async function deliverEmail(message: EmailMessage): Promise<EmailMessage> {
+  const attempts = message.attempts + 1
+
+  try {
+    await getTransport().send({
+      id: message.id,
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+      attachments: await loadAttachments(message.attachments)
+    })
+
+    return await prisma.emailMessage.update({
+      where: { id: message.id },
+      data: { status: EmailStatus.SENT, attempts, sentAt: new Date(), lastError: null }
+    })
+  } catch (error) {
+    const exhausted = attempts >= MAX_EMAIL_ATTEMPTS
+    const lastError = error instanceof Error ? error.message : String(error)
+
+    logger.warn('Email delivery failed', {
+      emailId: message.id,
+      attempts,
+      exhausted,
+      error: lastError
+    })
+
+    return prisma.emailMessage.update({
+      where: { id: message.id },
+      data: {
+        status: exhausted ? EmailStatus.FAILED : EmailStatus.PENDING,
+        attempts,
+        lastError,
+        nextAttemptAt: new Date(Date.now() + getRetryDelay(attempts))
+      }
+    })
+  }
+}
+
+/**
+ * Store a message and make a first delivery attempt. Returns false only when
+ * the message could not be queued at all; a failed first attempt is retried
+ * by processEmailQueue.
+ */
+export async function enqueueEmail(options: EmailOptions): Promise<boolean> {
+  try {
+    const message = await prisma.emailMessage.create({
+      data: {
+        to: options.to,
+        from: process.env.FROM_EMAIL || 'noreply@pipesupply.com',
+        subject: options.subject,
+        text: options.text,
+        html: options.html ?? null,
+        attachments: options.attachments?.length
+          ? (options.attachments as unknown as Prisma.InputJsonArray)
+          : Prisma.JsonNull,
+        status: EmailStatus.PENDING,
+        // Leased to this request so a concurrent queue run does not pick it up
+        nextAttemptAt: new Date(Date.now() + DELIVERY_LEASE_MS)
+      }
+    })
+
+    await deliverEmail(message)
+    return true
+  } catch (error) {
+    logger.error('Failed to queue email', error as Error, { to: options.to, subject: options.subject })
+    return false
+  }
+}
+
+/**
+ * Deliver pending messages whose retry time has passed. Each message is
+ * claimed before sending so overlapping runs do not send it twice.
+ */
+export async function processEmailQueue(limit: number = 20) {
+  const due = await prisma.emailMessage.findMany({
+    where: { status: EmailStatus.PENDING, nextAttemptAt: { lte: new Date() } },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: limit
+  })
+
+  const result = { processed: 0, sent: 0, retrying: 0, failed: 0 }
+
+  for (const message of due) {
+    const claimed = await prisma.emailMessage.updateMany({
+      where: { id: message.id, status: EmailStatus.PENDING, nextAttemptAt: message.nextAttemptAt },
+      data: { nextAttemptAt: new Date(Date.now() + DELIVERY_LEASE_MS) }
+    })
+    if (claimed.count === 0) continue
+
+    const delivered = await deliverEmail(message)
+    result.processed++
+    if (delivered.status === EmailStatus.SENT) result.sent++
+    else if (delivered.status === EmailStatus.FAILED) result.failed++
+    else result.retrying++
+  }
+
+  return result
+}
+
+/**
+ * Put a failed message back on the queue for immediate delivery
+ */
+export async function retryEmail(id: string): Promise<EmailMessage | null> {
+  const requeued = await prisma.emailMessage.updateMany({
+    where: { id, status: EmailStatus.FAILED },
+    data: { status: EmailStatus.PENDING, attempts: 0, nextAttemptAt: new Date(Date.now() + DELIVERY_LEASE_MS) }
+  })
+  if (requeued.count === 0) return null
+
+  const message = await prisma.emailMessage.findUnique({ where: { id } })
+  return message ? deliverEmail(message) : null
+}
+
+/**
+ * List stored messages, newest first
+ */
+export async function queryOutbox(filters: OutboxFilters = {}) {
+  const page = Math.max(1, filters.page || 1)
+  const limit = Math.min(100, Math.max(1, filters.limit || 20))
+
+  const where: Prisma.EmailMessageWhereInput = {}
+  if (filters.status) where.status = filters.status
+
+  const [messages, total] = await Promise.all([
+    prisma.emailMessage.findMany({
+      where,
+      skip: (page - 1) * limit,
+      take: limit,
+      orderBy: { createdAt: 'desc' },
+      select: {
+        id: true,
+        to: true,
+        subject: true,
+        status: true,
+        attempts: true,
+        lastError: true,
+        nextAttemptAt: true,
+        sentAt: true,
+        createdAt: true
+      }
+    }),
+    prisma.emailMessage.count({ where })
+  ])
+
+  return {
+    messages,
+    pagination: {
+      page,
+      limit,
+      total,
+      pages: Math.ceil(total / limit)
+    }
+  }
+}
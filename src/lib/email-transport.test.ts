@@ -0,0 +1,202 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for MIME rendering and the SMTP and file outbox transports
+ */
+
+import net from 'net'
+import os from 'os'
+import path from 'path'
+import { promises as fs } from 'fs'
+import {
+  buildMimeMessage,
+  createEmailTransport,
+  FileOutboxTransport,
+  SmtpTransport,
+  OutgoingEmail,
+} from './email-transport'
+
+const message: OutgoingEmail = {
+  id: 'msg1',
+  from: 'noreply@pipesupply.com',
+  to: 'buyer@example.com, ops@example.com',
+  subject: 'Quote Request Confirmation - Q-20240115-7KQ2M',
+  text: 'Thank you for your quote request!\n.\nSee you soon',
+  html: '<p>Thank you for your quote request!</p>',
+}
+
+function decodeParts(raw: string): string[] {
+  return raw
+    .split(/\r\n\r\n/)
+    .slice(1)
+    .map(part => Buffer.from(part.split(/\r\n--/)[0].replace(/\r\n/g, ''), 'base64').toString('utf8'))
+}
+
+/**
+ * Start a scripted SMTP server on a random port and capture the session
+ */
+async function startSmtpServer(options: { rejectRecipient?: boolean } = {}) {
+  const commands: string[] = []
+  let data = ''
+
+  const server = net.createServer(socket => {
+    let inData = false
+    let buffer = ''
+    socket.write('220 test.local ESMTP\r\n')
+
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8')
+      let index: number
+      while ((index = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, index)
+        buffer = buffer.slice(index + 2)
+
+        if (inData) {
+          if (line === '.') {
+            inData = false
+            socket.write('250 2.0.0 queued\r\n')
+          } else {
+            data += `${line}\r\n`
+          }
+          continue
+        }
+
+        commands.push(line)
+        if (line.startsWith('EHLO')) socket.write('250-test.local\r\n250 AUTH LOGIN\r\n')
+        else if (line === 'AUTH LOGIN') socket.write('334 VXNlcm5hbWU6\r\n')
+        else if (commands[commands.length - 2] === 'AUTH LOGIN') socket.write('334 UGFzc3dvcmQ6\r\n')
+        else if (commands[commands.length - 3] === 'AUTH LOGIN') socket.write('235 2.7.0 accepted\r\n')
+        else if (line.startsWith('RCPT') && options.rejectRecipient) socket.write('550 5.1.1 no such user\r\n')
+        else if (line === 'DATA') {
+          inData = true
+          socket.write('354 end with .\r\n')
+        } else if (line === 'QUIT') {
+          socket.end('221 bye\r\n')
+        } else socket.write('250 OK\r\n')
+      }
+    })
+  })
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const port = (server.address() as net.AddressInfo).port
+
+  return {
+    port,
+    commands,
+    getData: () => data,
+    close: () => new Promise(resolve => server.close(resolve)),
+  }
+}
+
+describe('Email Transport', () => {
+  test('buildMimeMessage renders multipart/alternative with base64 parts', () => {
+    const raw = buildMimeMessage(message, new Date('2024-01-15T10:00:00Z'))
+
+    expect(raw).toContain('To: buyer@example.com, ops@example.com')
+    expect(raw).toContain('Date: Mon, 15 Jan 2024 10:00:00 GMT')
+    expect(raw).toContain('Message-ID: <msg1@pipesupply.com>')
+    expect(raw).toMatch(/Content-Type: multipart\/alternative; boundary="=_[0-9a-f]+"/)
+    expect(raw.split('\r\n').every(line => line.length <= 998)).toBe(true)
+
+    const parts = decodeParts(raw)
+    expect(parts).toContain(message.text)
+    expect(parts).toContain(message.html)
+  })
+
+  test('non-ASCII subjects are encoded and header injection is stripped', () => {
+    const raw = buildMimeMessage({ ...message, html: null, subject: 'Résumé\r\nBcc: evil@example.com' })
+
+    expect(raw).toContain(`Subject: =?UTF-8?B?${Buffer.from('Résumé Bcc: evil@example.com').toString('base64')}?=`)
+    expect(raw).not.toMatch(/^Bcc:/m)
+    expect(raw).toContain('Content-Type: text/plain; charset=UTF-8')
+  })
+
+  test('FileOutboxTransport writes an .eml file', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'outbox-'))
+
+    try {
+      await new FileOutboxTransport(directory).send(message)
+
+      const files = await fs.readdir(directory)
+      expect(files).toHaveLength(1)
+      expect(files[0]).toMatch(/-msg1\.eml$/)
+      expect(await fs.readFile(path.join(directory, files[0]), 'utf8')).toContain('Subject: Quote Request Confirmation')
+    } finally {
+      await fs.rm(directory, { recursive: true, force: true })
+    }
+  })
+
+  test('SmtpTransport authenticates, sends to every recipient', async () => {
+    const server = await startSmtpServer()
+
+    try {
+      const transport = new SmtpTransport({
+        host: '127.0.0.1',
+        port: server.port,
+        secure: false,
+        user: 'mailer',
+        password: 'secret',
+        allowPlaintextAuth: true,
+        timeoutMs: 5000,
+      })
+      await transport.send({ ...message, html: null })
+
+      expect(server.commands).toEqual([
+        expect.stringMatching(/^EHLO /),
+        'AUTH LOGIN',
+        Buffer.from('mailer').toString('base64'),
+        Buffer.from('secret').toString('base64'),
+        'MAIL FROM:<noreply@pipesupply.com>',
+        'RCPT TO:<buyer@example.com>',
+        'RCPT TO:<ops@example.com>',
+        'DATA',
+        'QUIT',
+      ])
+      expect(server.getData()).toContain('Subject: Quote Request Confirmation')
+    } finally {
+      await server.close()
+    }
+  })
+
+  test('SmtpTransport will not send credentials to a server without STARTTLS', async () => {
+    const server = await startSmtpServer()
+
+    try {
+      const transport = new SmtpTransport({
+        host: '127.0.0.1',
+        port: server.port,
+        secure: false,
+        user: 'mailer',
+        password: 'secret',
+        timeoutMs: 5000,
+      })
+
+      await expect(transport.send(message)).rejects.toThrow('SMTP server does not offer STARTTLS')
+      expect(server.commands).toEqual([expect.stringMatching(/^EHLO /)])
+    } finally {
+      await server.close()
+    }
+  })
+
+  test('SmtpTransport surfaces rejected recipients as errors', async () => {
+    const server = await startSmtpServer({ rejectRecipient: true })
+
+    try {
+      const transport = new SmtpTransport({ host: '127.0.0.1', port: server.port, secure: false, timeoutMs: 5000 })
+      await expect(transport.send(message)).rejects.toThrow('SMTP RCPT failed: 550 5.1.1 no such user')
+    } finally {
+      await server.close()
+    }
+  })
+
+  test('createEmailTransport picks the backend from the environment', () => {
+    expect(createEmailTransport({}).name).toBe('file')
+    expect(createEmailTransport({ SMTP_HOST: 'smtp.example.com' }).name).toBe('smtp')
+    expect(() => createEmailTransport({ NODE_ENV: 'production' })).toThrow('SMTP_HOST is required in production')
+    expect(createEmailTransport({ NODE_ENV: 'production', EMAIL_TRANSPORT: 'file' }).name).toBe('file')
+    expect(() => createEmailTransport({ EMAIL_TRANSPORT: 'smtp' })).toThrow('SMTP_HOST')
+    expect(() => createEmailTransport({ EMAIL_TRANSPORT: 'pigeon' })).toThrow('Unknown')
+  })
+})
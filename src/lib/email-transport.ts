@@ -0,0 +1,361 @@
+/**
+ * Email transports. Messages are rendered to RFC 5322 and handed to either a
+ * raw SMTP connection or a local outbox directory of .eml files.
+ */
+
+import net from 'net'
+import tls from 'tls'
+import os from 'os'
+import path from 'path'
+import { promises as fs } from 'fs'
+import { randomBytes } from 'crypto'
+
+export interface OutgoingAttachment {
+  filename: string
+  contentType: string
+  content: Buffer
+}
+
+export interface OutgoingEmail {
+  id: string
+  from: string
+  to: string
+  subject: string
+  text: string
+  html?: string | null
+  attachments?: OutgoingAttachment[]
+}
+
+export interface EmailTransport {
+  name: string
+  send(message: OutgoingEmail): Promise<void>
+}
+
+export interface SmtpConfig {
+  host: string
+  port: number
+  secure: boolean
+  user?: string
+  password?: string
+  // Send credentials even when the server offers no STARTTLS
+  allowPlaintextAuth?: boolean
+  timeoutMs?: number
+}
+
+/**
+ * Split a comma-separated recipient list into bare addresses
+ */
+export function parseRecipients(to: string): string[] {
+  return to.split(',').map(address => address.trim()).filter(Boolean)
+}
+
+function encodeHeader(value: string): string {
+  // RFC 2047 encoded-word for non-ASCII subjects
+  return /^[\x20-\x7e]*$/.test(value)
+    ? value
+    : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`
+}
+
+function encodeBody(content: string | Buffer): string {
+  const buffer = typeof content === 'string' ? Buffer.from(content, 'utf8') : content
+  return buffer.toString('base64').replace(/.{1,76}/g, '$&\r\n').trimEnd()
+}
+
+function newBoundary(): string {
+  return `=_${randomBytes(12).toString('hex')}`
+}
+
+/**
+ * Headers and body of the readable part: plain text, or
+ * multipart/alternative when an HTML version is present
+ */
+function buildBodyPart(message: OutgoingEmail): string[] {
+  if (!message.html) {
+    return [
+      'Content-Type: text/plain; charset=UTF-8',
+      'Content-Transfer-Encoding: base64',
+      '',
+      encodeBody(message.text)
+    ]
+  }
+
+  const boundary = newBoundary()
+  return [
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.html),
+    `--${boundary}--`
+  ]
+}
+
+/**
+ * Render a message as an RFC 5322 document with base64 bodies, wrapping the
+ * text in multipart/mixed when there are attachments
+ */
+export function buildMimeMessage(message: OutgoingEmail, date: Date = new Date()): string {
+  const domain = message.from.split('@')[1]?.replace(/>$/, '') || 'localhost'
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${parseRecipients(message.to).join(', ')}`,
+    `Subject: ${encodeHeader(message.subject.replace(/[\r\n]+/g, ' '))}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${message.id}@${domain}>`,
+    'MIME-Version: 1.0'
+  ]
+
+  if (!message.attachments?.length) {
+    return [...headers, ...buildBodyPart(message), ''].join('\r\n')
+  }
+
+  const boundary = newBoundary()
+  const parts = message.attachments.flatMap(attachment => {
+    const filename = encodeHeader(attachment.filename.replace(/["\r\n]/g, ''))
+    return [
+      `--${boundary}`,
+      `Content-Type: ${attachment.contentType}; name="${filename}"`,
+      'Content-Transfer-Encoding: base64',
+      `Content-Disposition: attachment; filename="${filename}"`,
+      '',
+      encodeBody(attachment.content)
+    ]
+  })
+
+  return [
+    ...headers,
+    `Content-Type: multipart/mixed; boundary="${boundary}"`,
+    '',
+    `--${boundary}`,
+    ...buildBodyPart(message),
+    ...parts,
+    `--${boundary}--`,
+    ''
+  ].join('\r\n')
+}
+
+interface SmtpReply {
+  code: number
+  lines: string[]
+}
+
+/**
+ * Minimal line-oriented SMTP client: one command, one reply
+ */
+class SmtpConnection {
+  private buffer = ''
+  private lines: string[] = []
+  private replies: SmtpReply[] = []
+  private pending: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null
+  private failure: Error | null = null
+
+  constructor(private socket: net.Socket, private timeoutMs: number) {
+    this.attach(socket)
+  }
+
+  private attach(socket: net.Socket) {
+    this.socket = socket
+    socket.setTimeout(this.timeoutMs)
+    socket.on('data', chunk => this.receive(chunk.toString('utf8')))
+    socket.on('timeout', () => this.fail(new Error('SMTP connection timed out')))
+    socket.on('error', error => this.fail(error))
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')))
+  }
+
+  private receive(data: string) {
+    this.buffer += data
+    let index: number
+    while ((index = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, index).replace(/\r$/, '')
+      this.buffer = this.buffer.slice(index + 1)
+      this.lines.push(line)
+
+      // "250-..." continues a multi-line reply, "250 ..." ends it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.replies.push({ code: parseInt(line.slice(0, 3)), lines: this.lines })
+        this.lines = []
+      }
+    }
+    this.flush()
+  }
+
+  private flush() {
+    if (!this.pending) return
+    const { resolve, reject } = this.pending
+    if (this.replies.length > 0) {
+      this.pending = null
+      resolve(this.replies.shift()!)
+    } else if (this.failure) {
+      this.pending = null
+      reject(this.failure)
+    }
+  }
+
+  private fail(error: Error) {
+    if (this.failure) return
+    this.failure = error
+    this.flush()
+  }
+
+  read(): Promise<SmtpReply> {
+    return new Promise((resolve, reject) => {
+      this.pending = { resolve, reject }
+      this.flush()
+    })
+  }
+
+  async command(line: string | null, expected: number[]): Promise<SmtpReply> {
+    const reply = this.read()
+    if (line !== null) this.socket.write(`${line}\r\n`)
+    const result = await reply
+    if (!expected.includes(result.code)) {
+      const command = line?.split(' ')[0] || 'greeting'
+      throw new Error(`SMTP ${command} failed: ${result.lines.join(' ')}`)
+    }
+    return result
+  }
+
+  async upgrade(host: string) {
+    this.socket.removeAllListeners()
+    const secure = tls.connect({ socket: this.socket, servername: host })
+    await new Promise<void>((resolve, reject) => {
+      secure.once('secureConnect', resolve)
+      secure.once('error', reject)
+    })
+    this.attach(secure)
+  }
+
+  close() {
+    this.socket.removeAllListeners()
+    this.socket.on('error', () => {})
+    this.socket.end()
+  }
+}
+
+function connect(config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+      : net.connect({ host: config.host, port: config.port })
+    socket.once(config.secure ? 'secureConnect' : 'connect', () => {
+      socket.removeListener('error', reject)
+      resolve(socket)
+    })
+    socket.once('error', reject)
+    socket.setTimeout(config.timeoutMs ?? 30000, () => {
+      socket.destroy(new Error('SMTP connection timed out'))
+    })
+  })
+}
+
+/**
+ * Delivers mail over SMTP with optional STARTTLS and AUTH LOGIN. Credentials
+ * are only sent over TLS unless allowPlaintextAuth is set.
+ */
+export class SmtpTransport implements EmailTransport {
+  name = 'smtp'
+
+  constructor(private config: SmtpConfig) {}
+
+  async send(message: OutgoingEmail): Promise<void> {
+    const connection = new SmtpConnection(await connect(this.config), this.config.timeoutMs ?? 30000)
+
+    try {
+      await connection.command(null, [220])
+      const ehlo = await connection.command(`EHLO ${os.hostname()}`, [250])
+
+      const startTls = !this.config.secure && ehlo.lines.some(line => /STARTTLS/i.test(line))
+      if (startTls) {
+        await connection.command('STARTTLS', [220])
+        await connection.upgrade(this.config.host)
+        await connection.command(`EHLO ${os.hostname()}`, [250])
+      }
+
+      if (this.config.user && !this.config.secure && !startTls && !this.config.allowPlaintextAuth) {
+        throw new Error('SMTP server does not offer STARTTLS; refusing to send credentials unencrypted')
+      }
+
+      if (this.config.user) {
+        await connection.command('AUTH LOGIN', [334])
+        await connection.command(Buffer.from(this.config.user).toString('base64'), [334])
+        await connection.command(Buffer.from(this.config.password || '').toString('base64'), [235])
+      }
+
+      const sender = message.from.match(/<([^>]+)>/)?.[1] || message.from
+      await connection.command(`MAIL FROM:<${sender}>`, [250])
+      for (const recipient of parseRecipients(message.to)) {
+        await connection.command(`RCPT TO:<${recipient}>`, [250, 251])
+      }
+
+      await connection.command('DATA', [354])
+      // Dot-stuff lines that begin with a period, then terminate with <CRLF>.<CRLF>
+      const body = buildMimeMessage(message).replace(/^\./gm, '..')
+      await connection.command(`${body}\r\n.`, [250])
+      await connection.command('QUIT', [221]).catch(() => undefined)
+    } finally {
+      connection.close()
+    }
+  }
+}
+
+/**
+ * Writes each message to an .eml file so mail can be inspected locally
+ * without network access
+ */
+export class FileOutboxTransport implements EmailTransport {
+  name = 'file'
+
+  constructor(private directory: string) {}
+
+  async send(message: OutgoingEmail): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true })
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
+    await fs.writeFile(
+      path.join(this.directory, `${timestamp}-${message.id}.eml`),
+      buildMimeMessage(message),
+      'utf8'
+    )
+  }
+}
+
+/**
+ * Select a transport from the environment. EMAIL_TRANSPORT picks the backend
+ * explicitly; otherwise SMTP is used when SMTP_HOST is set. The file outbox
+ * is only a default outside production, so a deploy missing its SMTP config
+ * fails delivery instead of marking mail as sent.
+ */
+export function createEmailTransport(env: Record<string, string | undefined> = process.env): EmailTransport {
+  if (!env.EMAIL_TRANSPORT && !env.SMTP_HOST && env.NODE_ENV === 'production') {
+    throw new Error('SMTP_HOST is required in production; set EMAIL_TRANSPORT=file to write mail to the outbox instead')
+  }
+
+  const kind = env.EMAIL_TRANSPORT || (env.SMTP_HOST ? 'smtp' : 'file')
+
+  if (kind === 'smtp') {
+    if (!env.SMTP_HOST) {
+      throw new Error('SMTP_HOST is required when EMAIL_TRANSPORT is smtp')
+    }
+    const secure = env.SMTP_SECURE === 'true'
+    return new SmtpTransport({
+      host: env.SMTP_HOST,
+      port: parseInt(env.SMTP_PORT || (secure ? '465' : '587')),
+      secure,
+      user: env.SMTP_USER || undefined,
+      password: env.SMTP_PASSWORD || undefined,
+      allowPlaintextAuth: env.SMTP_ALLOW_PLAINTEXT_AUTH === 'true'
+    })
+  }
+
+  if (kind === 'file') {
+    return new FileOutboxTransport(path.resolve(env.EMAIL_OUTBOX_DIR || './outbox'))
+  }
+
+  throw new Error(`Unknown EMAIL_TRANSPORT: ${kind}`)
+}
@@ -1,11 +1,19 @@
-// Simple email utility for quote notifications
-// In production, this would integrate with services like SendGrid, AWS SES, etc.
+// Email notifications for quotes and staff accounts
+// Messages are stored and delivered through the queue in email-queue.ts
+import { enqueueEmail } from './email-queue'
+
+export interface EmailAttachment {
+  filename: string
+  contentType: string
+  storageKey: string // Read from storage when the message is delivered
+}
 
 export interface EmailOptions {
   to: string
   subject: string
   text: string
   html?: string
+  attachments?: EmailAttachment[]
 }
 
 export interface QuoteNotificationData {
@@ -27,28 +35,12 @@ export async function sendQuoteNotificationToAdmin(data: QuoteNotificationData):
     const text = generateAdminNotificationText(data)
     const html = generateAdminNotificationHtml(data)
 
-    // In development, just log the email
-    if (process.env.NODE_ENV === 'development') {
-      console.log('=== ADMIN EMAIL NOTIFICATION ===')
-      console.log(`To: ${process.env.ADMIN_EMAIL || 'admin@pipesupply.com'}`)
-      console.log(`Subject: ${subject}`)
-      console.log(`Text: ${text}`)
-      console.log('================================')
-      return true
-    }
-
-    // TODO: Implement actual email sending in production
-    // Example with SendGrid:
-    // const msg = {
-    //   to: process.env.ADMIN_EMAIL,
-    //   from: process.env.FROM_EMAIL,
-    //   subject,
-    //   text,
-    //   html
-    // }
-    // await sgMail.send(msg)
-
-    return true
+    return await enqueueEmail({
+      to: process.env.ADMIN_EMAIL || 'admin@pipesupply.com',
+      subject,
+      text,
+      html
+    })
   } catch (error) {
     console.error('Failed to send admin notification:', error)
     return false
@@ -61,24 +53,92 @@ export async function sendQuoteConfirmationToCustomer(data: QuoteNotificationDat
     const text = generateCustomerConfirmationText(data)
     const html = generateCustomerConfirmationHtml(data)
 
-    // In development, just log the email
-    if (process.env.NODE_ENV === 'development') {
-      console.log('=== CUSTOMER EMAIL CONFIRMATION ===')
-      console.log(`To: ${data.customerEmail}`)
-      console.log(`Subject: ${subject}`)
-      console.log(`Text: ${text}`)
-      console.log('===================================')
-      return true
-    }
-
-    // TODO: Implement actual email sending in production
-    return true
+    return await enqueueEmail({
+      to: data.customerEmail,
+      subject,
+      text,
+      html
+    })
   } catch (error) {
     console.error('Failed to send customer confirmation:', error)
     return false
   }
 }
 
+export interface QuoteResponseEmailData {
+  quoteNumber: string
+  customerName: string
+  customerEmail: string
+  response: string
+  validUntil: Date
+  document?: EmailAttachment
+}
+
+export async function sendQuoteResponseToCustomer(data: QuoteResponseEmailData): Promise<boolean> {
+  try {
+    const subject = `Your Quotation - ${data.quoteNumber}`
+    const text = generateQuoteResponseText(data)
+    const html = generateQuoteResponseHtml(data)
+
+    return await enqueueEmail({
+      to: data.customerEmail,
+      subject,
+      text,
+      html,
+      attachments: data.document ? [data.document] : undefined
+    })
+  } catch (error) {
+    console.error('Failed to send quote response:', error)
+    return false
+  }
+}
+
+export interface PasswordSetupEmailData {
+  to: string
+  name: string
+  setupUrl: string
+  purpose: 'INVITE' | 'RESET'
+  expiresAt: Date
+}
+
+export async function sendPasswordSetupEmail(data: PasswordSetupEmailData): Promise<boolean> {
+  try {
+    const subject = data.purpose === 'INVITE'
+      ? 'You have been invited to the Pipe Supply admin'
+      : 'Reset your Pipe Supply admin password'
+    const text = generatePasswordSetupText(data)
+
+    return await enqueueEmail({ to: data.to, subject, text })
+  } catch (error) {
+    console.error('Failed to send password setup email:', error)
+    return false
+  }
+}
+
+export interface CertificationReminderEmailData {
+  name: string
+  issuer: string
+  certificateNumber?: string | null
+  expiresAt: Date
+  daysLeft: number
+}
+
+export async function sendCertificationExpiryReminder(data: CertificationReminderEmailData): Promise<boolean> {
+  try {
+    const subject = `Certification expiring in ${data.daysLeft} day${data.daysLeft === 1 ? '' : 's'} - ${data.name}`
+    const text = generateCertificationReminderText(data)
+
+    return await enqueueEmail({
+      to: process.env.ADMIN_EMAIL || 'admin@pipesupply.com',
+      subject,
+      text
+    })
+  } catch (error) {
+    console.error('Failed to send certification reminder:', error)
+    return false
+  }
+}
+
 function generateAdminNotificationText(data: QuoteNotificationData): string {
   const products = data.products.map(p => 
     `- ${p.productName} (Qty: ${p.quantity})${p.notes ? ` - Notes: ${p.notes}` : ''}`
@@ -167,4 +227,71 @@ function generateCustomerConfirmationHtml(data: QuoteNotificationData): string {
     
     <p>Thank you for choosing our pipe supply services!</p>
   `
-}
\ No newline at end of file
+}
+
+function generateQuoteResponseText(data: QuoteResponseEmailData): string {
+  return `
+Hello ${data.customerName},
+
+Thank you for your interest. Our response to quote request ${data.quoteNumber}:
+
+${data.response}
+
+${data.document ? 'Your priced quotation is attached as a PDF.' : ''}
+This quotation is valid until ${data.validUntil.toDateString()}.
+
+If you have any questions, please contact us at:
+Email: ${process.env.CONTACT_EMAIL || 'info@pipesupply.com'}
+Phone: ${process.env.CONTACT_PHONE || '(555) 123-4567'}
+  `.trim()
+}
+
+function generateQuoteResponseHtml(data: QuoteResponseEmailData): string {
+  return `
+    <h2>Your Quotation - ${data.quoteNumber}</h2>
+    <p>Hello ${data.customerName},</p>
+    <p>Thank you for your interest. Our response to your quote request:</p>
+    <p>${data.response.replace(/\n/g, '<br>')}</p>
+    ${data.document ? '<p>Your priced quotation is attached as a PDF.</p>' : ''}
+    <p>This quotation is valid until <strong>${data.validUntil.toDateString()}</strong>.</p>
+    
+    <p>If you have any questions, please contact us at:</p>
+    <p>
+      <strong>Email:</strong> ${process.env.CONTACT_EMAIL || 'info@pipesupply.com'}<br>
+      <strong>Phone:</strong> ${process.env.CONTACT_PHONE || '(555) 123-4567'}
+    </p>
+  `
+}
+
+function generatePasswordSetupText(data: PasswordSetupEmailData): string {
+  const intro = data.purpose === 'INVITE'
+    ? 'An account has been created for you on the Pipe Supply admin panel.'
+    : 'A password reset was requested for your Pipe Supply admin account.'
+
+  return `
+Hello ${data.name},
+
+${intro}
+
+Set your password using the link below:
+${data.setupUrl}
+
+This link can only be used once and expires on ${data.expiresAt.toUTCString()}.
+
+If you were not expecting this email, you can ignore it.
+  `.trim()
+}
+
+function generateCertificationReminderText(data: CertificationReminderEmailData): string {
+  return `
+Certification Expiry Reminder
+
+Certification: ${data.name}
+Issued by: ${data.issuer}
+${data.certificateNumber ? `Certificate number: ${data.certificateNumber}` : ''}
+Expires: ${data.expiresAt.toDateString()} (in ${data.daysLeft} day${data.daysLeft === 1 ? '' : 's'})
+
+Once it lapses it is no longer shown on the certifications page. After renewal,
+update the expiry date and certificate file in the admin panel.
+  `.trim()
+}
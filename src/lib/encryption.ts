@@ -108,4 +108,30 @@ export function generateSecureToken(length: number = 32): string {
 // Hash sensitive data for storage (one-way)
 export function hashSensitiveData(data: string): string {
   return crypto.createHash('sha256').update(data).digest('hex')
-}
\ No newline at end of file
+}
+
+// Get the secret used for HMAC signatures (session tokens, signed URLs)
+function getSigningSecret(): string {
+  const secret = process.env.SESSION_SECRET || process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('SESSION_SECRET environment variable is required')
+  }
+  return secret
+}
+
+// Sign data with HMAC-SHA256
+export function signData(data: string): string {
+  return crypto.createHmac('sha256', getSigningSecret()).update(data).digest('hex')
+}
+
+// Verify an HMAC signature in constant time
+export function verifySignature(data: string, signature: string): boolean {
+  const expected = Buffer.from(signData(data), 'hex')
+  const actual = Buffer.from(signature, 'hex')
+
+  if (expected.length !== actual.length) {
+    return false
+  }
+
+  return crypto.timingSafeEqual(expected, actual)
+}
@@ -38,6 +38,37 @@ export const detailImageBreakpoints = [
   { maxWidth: '1024px', size: '50vw' },
 ]
 
+/**
+ * Widths the image route renders. Matches imageSizes and deviceSizes in
+ * next.config.js plus the breakpoint widths above; other requested widths
+ * are rounded up to the next entry so the on-disk cache stays bounded.
+ */
+export const imageWidths = [16, 32, 48, 64, 96, 128, 256, 384, 640, 750, 768, 828, 1024, 1080, 1200, 1280, 1920, 2048, 3840]
+
+/**
+ * Pixel widths named by a set of breakpoints
+ */
+export function getBreakpointWidths(breakpoints: { maxWidth: string }[]): number[] {
+  return breakpoints
+    .map(bp => parseInt(bp.maxWidth))
+    .filter(width => !isNaN(width))
+}
+
+/**
+ * Whether a URL points at an uploaded image served by the media file route
+ */
+export function isMediaImageUrl(url: string): boolean {
+  return /^\/api\/media\/[^/?]+\/file$/.test(url)
+}
+
+/**
+ * next/image loader for uploaded images, which are resized by the media
+ * file route rather than the built-in optimizer
+ */
+export function mediaImageLoader({ src, width, quality }: { src: string; width: number; quality?: number }): string {
+  return optimizeImageUrl(src, { width, quality })
+}
+
 /**
  * Blur data URL for image placeholders
  */
@@ -0,0 +1,114 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for upload-time image variants and on-request resizing
+ */
+
+import os from 'os'
+import path from 'path'
+import { promises as fs } from 'fs'
+import sharp from 'sharp'
+import { LocalStorageProvider, readStorageObject, setStorageProvider } from './storage'
+import {
+  getTransformedImage,
+  getVariantKey,
+  parseImageTransform,
+  processUploadedImage,
+  DEFAULT_IMAGE_QUALITY,
+  VARIANT_WIDTHS,
+} from './image-processing'
+
+function photo(width: number, height: number): Promise<Buffer> {
+  return sharp({ create: { width, height, channels: 3, background: { r: 40, g: 90, b: 160 } } })
+    .withExif({ IFD0: { Copyright: 'Acme Photography', Make: 'CameraCo' } })
+    .jpeg()
+    .toBuffer()
+}
+
+describe('Image Processing', () => {
+  let root: string
+  let storage: LocalStorageProvider
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'images-'))
+    storage = new LocalStorageProvider(path.join(root, 'storage'))
+    setStorageProvider(storage)
+    process.env.IMAGE_CACHE_DIR = path.join(root, 'cache')
+  })
+
+  afterEach(async () => {
+    setStorageProvider(null)
+    delete process.env.IMAGE_CACHE_DIR
+    await fs.rm(root, { recursive: true, force: true })
+  })
+
+  test('variant widths come from the responsive breakpoints', () => {
+    expect(VARIANT_WIDTHS).toEqual([640, 768, 1024, 1280])
+    expect(getVariantKey('media/2024/01/abc.jpg', 640, 'webp')).toBe('media/2024/01/abc-640w.webp')
+    expect(getVariantKey('media/2024/01/abc', 640, 'avif')).toBe('media/2024/01/abc-640w.avif')
+  })
+
+  test('uploads are stripped of metadata and given smaller variants', async () => {
+    const original = await photo(900, 600)
+    expect((await sharp(original).metadata()).exif).toBeDefined()
+    await storage.put('media/photo.jpg', original, { contentType: 'image/jpeg' })
+
+    const processed = await processUploadedImage('media/photo.jpg', 'image/jpeg')
+
+    expect(processed).toMatchObject({ width: 900, height: 600 })
+    expect(processed.variants.map(v => `${v.width}x${v.height}.${v.format}`)).toEqual([
+      '640x427.avif', '640x427.webp', '768x512.avif', '768x512.webp',
+    ])
+
+    const stored = (await readStorageObject('media/photo.jpg'))!
+    expect(stored.length).toBe(processed.size)
+    expect((await sharp(stored).metadata()).exif).toBeUndefined()
+
+    const variant = (await readStorageObject('media/photo-640w.webp'))!
+    expect(await sharp(variant).metadata()).toMatchObject({ format: 'webp', width: 640 })
+  })
+
+  test('files that are not images are rejected', async () => {
+    await storage.put('media/fake.png', Buffer.from('not really a png'), { contentType: 'image/png' })
+
+    await expect(processUploadedImage('media/fake.png', 'image/png')).rejects.toThrow()
+  })
+
+  test('parses resize parameters and negotiates the format', () => {
+    const parse = (query: string, accept: string | null = null) => parseImageTransform(new URLSearchParams(query), accept)
+
+    expect(parse('')).toEqual({ transform: null })
+    expect(parse('w=700', 'image/avif,image/webp,*/*').transform).toEqual({
+      width: 750, height: undefined, quality: DEFAULT_IMAGE_QUALITY, format: 'avif', negotiated: true,
+    })
+    expect(parse('w=100&q=83&f=png', 'image/avif').transform).toMatchObject({ width: 128, quality: 85, format: 'png', negotiated: false })
+    expect(parse('w=99999').transform?.width).toBe(3840)
+    expect(parse('w=0').error).toBeDefined()
+    expect(parse('q=101').error).toBeDefined()
+    expect(parse('f=gif').error).toBe('Format must be one of: webp, avif, jpeg, png')
+  })
+
+  test('serves matching variants and caches other renditions', async () => {
+    await storage.put('media/photo.jpg', await photo(900, 600), { contentType: 'image/jpeg' })
+    await storage.put('media/photo-640w.webp', Buffer.from('pre-generated'), { contentType: 'image/webp' })
+
+    const media = {
+      id: 'm1',
+      storageKey: 'media/photo.jpg',
+      variants: [{ width: 640, format: 'webp', storageKey: 'media/photo-640w.webp' }],
+    }
+    const transform = { width: 640, quality: DEFAULT_IMAGE_QUALITY, format: 'webp' as const, negotiated: true }
+
+    expect((await getTransformedImage(media, transform))!.toString()).toBe('pre-generated')
+
+    const resized = (await getTransformedImage(media, { ...transform, width: 256, height: 256, format: 'png' }))!
+    expect(await sharp(resized).metadata()).toMatchObject({ format: 'png', width: 256, height: 256 })
+    expect(await fs.readdir(path.join(root, 'cache', 'm1'))).toEqual(['256x256-q75.png'])
+
+    // Served from the cache once the original is gone
+    await storage.delete('media/photo.jpg')
+    expect((await getTransformedImage(media, { ...transform, width: 256, height: 256, format: 'png' }))!.equals(resized)).toBe(true)
+  })
+})
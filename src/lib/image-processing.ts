@@ -0,0 +1,253 @@
+/**
+ * Server-side image processing with sharp. Uploaded images are re-encoded
+ * without metadata and given responsive webp/avif variants; the media file
+ * route uses the same helpers to resize on request, caching results on disk.
+ */
+
+import path from 'path'
+import { promises as fs } from 'fs'
+import { randomBytes } from 'crypto'
+import sharp from 'sharp'
+import { MediaVariant } from '@prisma/client'
+import { getStorage, readStorageObject } from './storage'
+import {
+  detailImageBreakpoints,
+  getBreakpointWidths,
+  imageWidths,
+  productImageBreakpoints
+} from './image-optimization'
+
+export type ImageFormat = 'webp' | 'avif' | 'jpeg' | 'png'
+
+export const IMAGE_FORMATS: ImageFormat[] = ['webp', 'avif', 'jpeg', 'png']
+
+// Formats generated for every upload, most compact first
+export const VARIANT_FORMATS: ImageFormat[] = ['avif', 'webp']
+
+export const VARIANT_WIDTHS = Array.from(new Set([
+  ...getBreakpointWidths(productImageBreakpoints),
+  ...getBreakpointWidths(detailImageBreakpoints)
+])).sort((a, b) => a - b)
+
+export const DEFAULT_IMAGE_QUALITY = parseInt(process.env.IMAGE_QUALITY || '75')
+
+// Reject decompression bombs before sharp allocates the pixel buffer
+const MAX_INPUT_PIXELS = 50_000_000
+
+export interface ImageTransform {
+  width?: number
+  height?: number
+  quality: number
+  format: ImageFormat
+  // The format came from the Accept header, so responses must vary on it
+  negotiated: boolean
+}
+
+export interface GeneratedVariant {
+  width: number
+  height: number
+  format: ImageFormat
+  size: number
+  storageKey: string
+}
+
+export interface ProcessedUpload {
+  size: number
+  width: number
+  height: number
+  variants: GeneratedVariant[]
+}
+
+export function getImageCacheDir(): string {
+  return path.resolve(process.env.IMAGE_CACHE_DIR || './.cache/images')
+}
+
+function formatForMimeType(mimeType: string): ImageFormat {
+  const format = mimeType.replace(/^image\//, '')
+  return format === 'jpg' ? 'jpeg' : (IMAGE_FORMATS.includes(format as ImageFormat) ? format as ImageFormat : 'jpeg')
+}
+
+function encode(image: sharp.Sharp, format: ImageFormat, quality: number): sharp.Sharp {
+  switch (format) {
+    case 'avif':
+      // Lower effort keeps encoding time reasonable on small servers
+      return image.avif({ quality, effort: 2 })
+    case 'webp':
+      return image.webp({ quality })
+    case 'png':
+      return image.png({ compressionLevel: 9 })
+    default:
+      return image.jpeg({ quality, mozjpeg: true })
+  }
+}
+
+/**
+ * Re-encode an image in its own format, applying the EXIF orientation and
+ * dropping all metadata (camera details, GPS position)
+ */
+export async function sanitizeImage(input: Buffer, mimeType: string) {
+  const { data, info } = await encode(
+    sharp(input, { limitInputPixels: MAX_INPUT_PIXELS }).rotate(),
+    formatForMimeType(mimeType),
+    90
+  ).toBuffer({ resolveWithObject: true })
+
+  return { data, width: info.width, height: info.height }
+}
+
+/**
+ * Resize and encode an image. Images are never enlarged.
+ */
+export async function renderImage(input: Buffer, transform: Pick<ImageTransform, 'width' | 'height' | 'quality' | 'format'>) {
+  let image = sharp(input, { limitInputPixels: MAX_INPUT_PIXELS }).rotate()
+  if (transform.width || transform.height) {
+    image = image.resize({
+      width: transform.width,
+      height: transform.height,
+      fit: 'cover',
+      withoutEnlargement: true
+    })
+  }
+
+  const { data, info } = await encode(image, transform.format, transform.quality).toBuffer({ resolveWithObject: true })
+  return { data, width: info.width, height: info.height }
+}
+
+/**
+ * Storage key for a variant, stored beside the original
+ */
+export function getVariantKey(storageKey: string, width: number, format: ImageFormat): string {
+  return storageKey.replace(/(\.[a-z0-9]+)?$/i, `-${width}w.${format}`)
+}
+
+/**
+ * Strip metadata from a freshly stored upload, record its dimensions and
+ * store its responsive variants. Throws when the file is not a readable image;
+ * any variants already stored are removed first.
+ */
+export async function processUploadedImage(storageKey: string, mimeType: string): Promise<ProcessedUpload> {
+  const storage = getStorage()
+  const original = await readStorageObject(storageKey)
+  if (!original) throw new Error(`Uploaded image ${storageKey} is missing from storage`)
+
+  const sanitized = await sanitizeImage(original, mimeType)
+  // Overwritten before any record points at it, so no one has seen the original
+  await storage.put(storageKey, sanitized.data, { contentType: mimeType })
+
+  // Images narrower than every breakpoint still get one variant at full width
+  const widths = VARIANT_WIDTHS.filter(width => width < sanitized.width)
+  if (widths.length === 0) widths.push(sanitized.width)
+
+  const variants: GeneratedVariant[] = []
+  try {
+    for (const width of widths) {
+      for (const format of VARIANT_FORMATS) {
+        const rendered = await renderImage(sanitized.data, { width, quality: DEFAULT_IMAGE_QUALITY, format })
+        const key = getVariantKey(storageKey, width, format)
+        await storage.put(key, rendered.data, { contentType: `image/${format}` })
+        variants.push({ width, height: rendered.height, format, size: rendered.data.length, storageKey: key })
+      }
+    }
+  } catch (error) {
+    await Promise.all(variants.map(variant => storage.delete(variant.storageKey).catch(() => undefined)))
+    throw error
+  }
+
+  return { size: sanitized.data.length, width: sanitized.width, height: sanitized.height, variants }
+}
+
+function snapWidth(requested: number): number {
+  return imageWidths.find(width => width >= requested) ?? imageWidths[imageWidths.length - 1]
+}
+
+/**
+ * Read w/h/q/f query parameters. Returns null when no transformation was
+ * requested. Without `f` the best format the client accepts is chosen.
+ */
+export function parseImageTransform(
+  params: URLSearchParams,
+  accept: string | null
+): { transform: ImageTransform | null; error?: string } {
+  const keys = ['w', 'h', 'q', 'f']
+  if (!keys.some(key => params.has(key))) return { transform: null }
+
+  const readSize = (key: string) => {
+    const value = params.get(key)
+    if (value === null) return undefined
+    const size = Number(value)
+    return Number.isInteger(size) && size > 0 ? snapWidth(size) : NaN
+  }
+
+  const width = readSize('w')
+  const height = readSize('h')
+  if (Number.isNaN(width) || Number.isNaN(height)) {
+    return { transform: null, error: 'Width and height must be positive integers' }
+  }
+
+  let quality = DEFAULT_IMAGE_QUALITY
+  if (params.has('q')) {
+    quality = Number(params.get('q'))
+    if (!Number.isInteger(quality) || quality < 1 || quality > 100) {
+      return { transform: null, error: 'Quality must be an integer from 1 to 100' }
+    }
+    // Rounded so near-identical requests share a cache entry
+    quality = Math.max(5, Math.round(quality / 5) * 5)
+  }
+
+  const requestedFormat = params.get('f')
+  if (requestedFormat !== null && !IMAGE_FORMATS.includes(requestedFormat as ImageFormat)) {
+    return { transform: null, error: `Format must be one of: ${IMAGE_FORMATS.join(', ')}` }
+  }
+
+  const format = (requestedFormat as ImageFormat | null) ??
+    (accept?.includes('image/avif') ? 'avif' : accept?.includes('image/webp') ? 'webp' : 'jpeg')
+
+  return { transform: { width, height, quality, format, negotiated: requestedFormat === null } }
+}
+
+/**
+ * Produce the requested rendition of a stored image. Pre-generated variants
+ * are used when they match exactly; anything else is rendered from the
+ * original and cached on disk.
+ */
+export async function getTransformedImage(
+  media: { id: string; storageKey: string | null; variants: Pick<MediaVariant, 'width' | 'format' | 'storageKey'>[] },
+  transform: ImageTransform
+): Promise<Buffer | null> {
+  if (!media.storageKey) return null
+
+  const variant = transform.height === undefined && transform.quality === DEFAULT_IMAGE_QUALITY
+    ? media.variants.find(v => v.width === transform.width && v.format === transform.format)
+    : undefined
+  if (variant) {
+    const stored = await readStorageObject(variant.storageKey)
+    if (stored) return stored
+  }
+
+  const directory = path.join(getImageCacheDir(), media.id)
+  const cached = path.join(directory, `${transform.width ?? 0}x${transform.height ?? 0}-q${transform.quality}.${transform.format}`)
+  try {
+    return await fs.readFile(cached)
+  } catch {
+    // Not rendered yet
+  }
+
+  const original = await readStorageObject(media.storageKey)
+  if (!original) return null
+
+  const { data } = await renderImage(original, transform)
+
+  await fs.mkdir(directory, { recursive: true })
+  const temporary = `${cached}.${randomBytes(6).toString('hex')}.tmp`
+  await fs.writeFile(temporary, data)
+  await fs.rename(temporary, cached)
+
+  return data
+}
+
+/**
+ * Remove cached renditions of a media item
+ */
+export async function clearImageCache(mediaId: string) {
+  await fs.rm(path.join(getImageCacheDir(), mediaId), { recursive: true, force: true })
+}
@@ -0,0 +1,205 @@
+/**
+ * Tests for stock levels, the movement ledger and derived availability
+ */
+
+import {
+  deriveAvailability,
+  parseInventoryLevelInput,
+  parseStockMovementInput,
+  recordStockMovement,
+  refreshProductAvailability,
+  reserveQuoteStock,
+  shipQuoteStock,
+} from './inventory'
+
+const level = (id: string, onHand: number, reserved = 0, reorderPoint = 0, location = id.toUpperCase(), variantId: string | null = null) => ({
+  id,
+  productId: 'pipe',
+  variantId,
+  location,
+  onHand,
+  reserved,
+  reorderPoint,
+  leadTimeDays: null,
+})
+
+function mockDb() {
+  return {
+    product: {
+      findUnique: jest.fn().mockResolvedValue({ id: 'pipe', availability: 'IN_STOCK' }),
+      update: jest.fn(),
+    },
+    productVariant: {
+      findMany: jest.fn().mockResolvedValue([]),
+      update: jest.fn(),
+    },
+    inventoryLevel: {
+      findMany: jest.fn().mockResolvedValue([]),
+      findFirst: jest.fn().mockResolvedValue(null),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+      findUniqueOrThrow: jest.fn(),
+    },
+    stockMovement: {
+      findMany: jest.fn().mockResolvedValue([]),
+      create: jest.fn(),
+    },
+    quoteProduct: {
+      findMany: jest.fn().mockResolvedValue([]),
+    },
+  }
+}
+
+describe('Inventory', () => {
+  test('availability follows available stock against the reorder point', () => {
+    expect(deriveAvailability('IN_STOCK', [level('a', 30, 5, 10)])).toBe('IN_STOCK')
+    expect(deriveAvailability('IN_STOCK', [level('a', 8, 0, 5), level('b', 2, 0, 5)])).toBe('LOW_STOCK')
+    expect(deriveAvailability('LOW_STOCK', [level('a', 10, 10, 5)])).toBe('OUT_OF_STOCK')
+    // Manual overrides and untracked products are left alone
+    expect(deriveAvailability('SPECIAL_ORDER', [level('a', 0)])).toBe('SPECIAL_ORDER')
+    expect(deriveAvailability('DISCONTINUED', [level('a', 100)])).toBe('DISCONTINUED')
+    expect(deriveAvailability('OUT_OF_STOCK', [])).toBe('OUT_OF_STOCK')
+  })
+
+  test('level settings and movements are validated', () => {
+    expect(parseInventoryLevelInput({ location: ' houston ', reorderPoint: 20, leadTimeDays: 14 }).input)
+      .toEqual({ location: 'HOUSTON', variantId: null, reorderPoint: 20, leadTimeDays: 14 })
+    expect(parseInventoryLevelInput({ reorderPoint: -1, leadTimeDays: 1.5 }).errors.map(error => error.field))
+      .toEqual(['reorderPoint', 'leadTimeDays'])
+
+    expect(parseStockMovementInput({ type: 'ADJUSTMENT', quantity: -3, note: ' damaged ' }).input)
+      .toEqual({ location: 'MAIN', variantId: null, type: 'ADJUSTMENT', quantity: -3, note: 'damaged' })
+    expect(parseStockMovementInput({ variantId: 'v2', type: 'RECEIPT', quantity: 3 }).input).toMatchObject({ variantId: 'v2' })
+    expect(parseStockMovementInput({ variantId: 2, type: 'RECEIPT', quantity: 3 }).errors.map(error => error.field)).toEqual(['variantId'])
+    expect(parseStockMovementInput({ type: 'RECEIPT', quantity: -3 }).errors.map(error => error.field)).toEqual(['quantity'])
+    // Reservations and shipments come from quotes, not from staff
+    expect(parseStockMovementInput({ type: 'RESERVATION', quantity: 3 }).errors.map(error => error.field)).toEqual(['type'])
+  })
+
+  test('a receipt updates the level, is recorded, and refreshes availability', async () => {
+    const db = mockDb()
+    db.product.findUnique.mockResolvedValue({ id: 'pipe', availability: 'OUT_OF_STOCK' })
+    db.inventoryLevel.create.mockResolvedValue(level('main', 0))
+    db.inventoryLevel.findMany.mockResolvedValue([level('main', 40, 0, 10)])
+
+    const result = await recordStockMovement(db as any, 'pipe', { location: 'MAIN', variantId: null, type: 'RECEIPT', quantity: 40, note: 'PO 1187' }, 'admin')
+
+    // The location is added on first use
+    expect(db.inventoryLevel.create).toHaveBeenCalledWith({ data: { productId: 'pipe', variantId: null, location: 'MAIN' } })
+    expect(db.inventoryLevel.updateMany).toHaveBeenCalledWith({
+      where: { id: 'main', onHand: { gte: -40 } },
+      data: { onHand: { increment: 40 } },
+    })
+    expect(db.stockMovement.create).toHaveBeenCalledWith({
+      data: { inventoryLevelId: 'main', type: 'RECEIPT', quantity: 40, quoteId: null, note: 'PO 1187', userId: 'admin' },
+    })
+    expect(db.product.update).toHaveBeenCalledWith({ where: { id: 'pipe' }, data: { availability: 'IN_STOCK' } })
+    expect(result).toMatchObject({ availability: 'IN_STOCK' })
+  })
+
+  test('adjustments cannot take on-hand stock below zero', async () => {
+    const db = mockDb()
+    db.inventoryLevel.findFirst.mockResolvedValue(level('main', 5))
+    // The level held 5 when read, but another adjustment took one first
+    db.inventoryLevel.updateMany.mockResolvedValue({ count: 0 })
+    db.inventoryLevel.findUniqueOrThrow.mockResolvedValue(level('main', 4))
+
+    const result = await recordStockMovement(db as any, 'pipe', { location: 'MAIN', variantId: null, type: 'ADJUSTMENT', quantity: -5, note: null }, 'admin')
+
+    expect(db.inventoryLevel.updateMany.mock.calls[0][0].where).toEqual({ id: 'main', onHand: { gte: 5 } })
+    expect(result.error).toBe('Only 4 on hand at MAIN')
+    expect(db.stockMovement.create).not.toHaveBeenCalled()
+  })
+
+  test('won quotes reserve from the best-stocked locations, backordering any shortfall', async () => {
+    const db = mockDb()
+    db.quoteProduct.findMany.mockResolvedValue([
+      { productId: 'pipe', quantity: 30 },
+      { productId: 'pipe', quantity: 10 },
+      { productId: 'untracked', quantity: 5 },
+    ])
+    db.inventoryLevel.findMany.mockImplementation(({ where }: any) =>
+      where.productId === 'pipe' ? [level('main', 10, 2), level('houston', 25)] : []
+    )
+
+    await reserveQuoteStock(db as any, 'q1', 'admin')
+
+    const reservations = db.stockMovement.create.mock.calls.map(([{ data }]) => [data.inventoryLevelId, data.type, data.quantity, data.quoteId])
+    expect(reservations).toEqual([
+      ['houston', 'RESERVATION', 32, 'q1'],
+      ['main', 'RESERVATION', 8, 'q1'],
+    ])
+  })
+
+  test('variant lines reserve that variant\'s stock, falling back to the product\'s', async () => {
+    const db = mockDb()
+    db.quoteProduct.findMany.mockResolvedValue([
+      { productId: 'pipe', variantId: 'sch40', quantity: 5 },
+      { productId: 'pipe', variantId: 'sch80', quantity: 3 },
+    ])
+    db.inventoryLevel.findMany.mockImplementation(({ where }: any) =>
+      where.variantId === 'sch40' ? [level('sch40-main', 20, 0, 0, 'MAIN', 'sch40')]
+        : where.variantId === null ? [level('main', 10)]
+          : []
+    )
+
+    await reserveQuoteStock(db as any, 'q1', 'admin')
+
+    const reservations = db.stockMovement.create.mock.calls.map(([{ data }]) => [data.inventoryLevelId, data.quantity])
+    expect(reservations).toEqual([['sch40-main', 5], ['main', 3]])
+  })
+
+  test('variants stocked on their own follow their own stock', async () => {
+    const db = mockDb()
+    db.inventoryLevel.findMany.mockResolvedValue([level('main', 30), level('sch80-main', 0, 0, 0, 'MAIN', 'sch80')])
+    db.productVariant.findMany.mockResolvedValue([{ id: 'sch80', availability: 'IN_STOCK' }])
+
+    await refreshProductAvailability(db as any, 'pipe')
+
+    expect(db.productVariant.findMany).toHaveBeenCalledWith({ where: { id: { in: ['sch80'] } }, select: { id: true, availability: true } })
+    expect(db.productVariant.update).toHaveBeenCalledWith({ where: { id: 'sch80' }, data: { availability: 'OUT_OF_STOCK' } })
+    expect(db.product.update).not.toHaveBeenCalled()
+  })
+
+  test('closing a won quote ships what it still holds', async () => {
+    const db = mockDb()
+    db.stockMovement.findMany.mockResolvedValue([
+      { inventoryLevelId: 'main', type: 'RESERVATION', quantity: 8, inventoryLevel: { productId: 'pipe' } },
+      { inventoryLevelId: 'houston', type: 'RESERVATION', quantity: 25, inventoryLevel: { productId: 'pipe' } },
+      { inventoryLevelId: 'houston', type: 'SHIPMENT', quantity: 25, inventoryLevel: { productId: 'pipe' } },
+    ])
+
+    await shipQuoteStock(db as any, 'q1', 'admin')
+
+    expect(db.inventoryLevel.updateMany).toHaveBeenCalledTimes(1)
+    expect(db.inventoryLevel.updateMany).toHaveBeenCalledWith({
+      where: { id: 'main', onHand: { gte: 8 } },
+      data: { onHand: { decrement: 8 }, reserved: { decrement: 8 } },
+    })
+    expect(db.stockMovement.create.mock.calls[0][0].data).toMatchObject({ type: 'SHIPMENT', quantity: 8, quoteId: 'q1' })
+  })
+
+  test('a backorder still short when the quote closes is released, not shipped from stock that is not there', async () => {
+    const db = mockDb()
+    db.stockMovement.findMany.mockResolvedValue([
+      { inventoryLevelId: 'main', type: 'RESERVATION', quantity: 8, inventoryLevel: { productId: 'pipe' } },
+    ])
+    // Only 3 of the 8 reserved were ever on hand
+    db.inventoryLevel.updateMany.mockImplementation(({ where }: any) => ({ count: where.onHand.gte <= 3 ? 1 : 0 }))
+    db.inventoryLevel.findUniqueOrThrow.mockResolvedValue(level('main', 3, 8))
+
+    await shipQuoteStock(db as any, 'q1', 'admin')
+
+    expect(db.inventoryLevel.updateMany).toHaveBeenLastCalledWith({
+      where: { id: 'main', onHand: { gte: 3 } },
+      data: { onHand: { decrement: 3 }, reserved: { decrement: 3 } },
+    })
+    expect(db.inventoryLevel.update).toHaveBeenCalledWith({ where: { id: 'main' }, data: { reserved: { increment: -5 } } })
+    const movements = db.stockMovement.create.mock.calls.map(([{ data }]) => [data.type, data.quantity, data.note])
+    expect(movements).toEqual([
+      ['SHIPMENT', 3, null],
+      ['RESERVATION', -5, 'Short 5 when shipped; only 3 on hand, so the backorder was released'],
+    ])
+  })
+})
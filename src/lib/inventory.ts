@@ -0,0 +1,431 @@
+/**
+ * Inventory: stock on hand and reserved per product, or per variant of it,
+ * and warehouse location, kept as running totals of a ledger of stock
+ * movements. A product's availability follows its stock once it has any
+ * inventory levels, and a variant's once it has levels of its own, except
+ * SPECIAL_ORDER and DISCONTINUED, which are set by hand.
+ */
+
+import type { AvailabilityStatus, InventoryLevel, Prisma, StockMovementType } from '@prisma/client'
+import type { ValidationError } from './quote-validation'
+
+type InventoryClient = Pick<Prisma.TransactionClient, 'product' | 'productVariant' | 'inventoryLevel' | 'stockMovement' | 'quoteProduct'>
+
+// Location used when none is given
+export const DEFAULT_LOCATION = 'MAIN'
+
+// Availability set by hand that stock levels do not change
+export const MANUAL_AVAILABILITY: AvailabilityStatus[] = ['SPECIAL_ORDER', 'DISCONTINUED']
+
+// Movements entered by staff; reservations and shipments come from won quotes
+export const MANUAL_MOVEMENT_TYPES: StockMovementType[] = ['RECEIPT', 'ADJUSTMENT']
+
+// Movements listed with a product's inventory
+export const RECENT_MOVEMENT_LIMIT = 50
+
+const MAX_LOCATION_LENGTH = 50
+const MAX_NOTE_LENGTH = 500
+
+export interface InventoryLevelInput {
+  location: string
+  variantId: string | null
+  reorderPoint: number
+  leadTimeDays: number | null
+}
+
+export interface StockMovementInput {
+  location: string
+  variantId: string | null
+  type: StockMovementType
+  quantity: number
+  note: string | null
+}
+
+interface MovementDetails {
+  quoteId?: string
+  note?: string | null
+  userId: string | null
+}
+
+type StockTotals = Pick<InventoryLevel, 'onHand' | 'reserved' | 'reorderPoint'>
+
+/**
+ * Stock that can still be promised: on hand less what won quotes hold
+ */
+export function availableStock(level: Pick<InventoryLevel, 'onHand' | 'reserved'>): number {
+  return level.onHand - level.reserved
+}
+
+/**
+ * The availability a product's stock calls for. Products without inventory
+ * levels, and those marked special order or discontinued, keep their current
+ * availability.
+ */
+export function deriveAvailability(current: AvailabilityStatus, levels: StockTotals[]): AvailabilityStatus {
+  if (MANUAL_AVAILABILITY.includes(current) || levels.length === 0) return current
+
+  const available = levels.reduce((sum, level) => sum + availableStock(level), 0)
+  const reorderPoint = levels.reduce((sum, level) => sum + level.reorderPoint, 0)
+
+  if (available <= 0) return 'OUT_OF_STOCK'
+  if (available <= reorderPoint) return 'LOW_STOCK'
+  return 'IN_STOCK'
+}
+
+/**
+ * Bring a product's availability, and that of its variants stocked on their
+ * own, in line with its stock. Called after every stock movement and product
+ * update, inside the same transaction.
+ */
+export async function refreshProductAvailability(db: InventoryClient, productId: string): Promise<AvailabilityStatus | null> {
+  const [product, levels] = await Promise.all([
+    db.product.findUnique({ where: { id: productId }, select: { availability: true } }),
+    db.inventoryLevel.findMany({ where: { productId } })
+  ])
+  if (!product) return null
+
+  const availability = deriveAvailability(product.availability, levels)
+  if (availability !== product.availability) {
+    await db.product.update({ where: { id: productId }, data: { availability } })
+  }
+
+  const variantIds = Array.from(new Set(levels.map(level => level.variantId).filter((id): id is string => Boolean(id))))
+  if (variantIds.length > 0) {
+    const variants = await db.productVariant.findMany({
+      where: { id: { in: variantIds } },
+      select: { id: true, availability: true }
+    })
+    for (const variant of variants) {
+      const stocked = deriveAvailability(variant.availability, levels.filter(level => level.variantId === variant.id))
+      if (stocked !== variant.availability) {
+        await db.productVariant.update({ where: { id: variant.id }, data: { availability: stocked } })
+      }
+    }
+  }
+
+  return availability
+}
+
+/**
+ * The inventory level of a product, or of one of its variants, at a
+ * location, created on first use
+ */
+export async function findOrCreateLevel(
+  db: InventoryClient,
+  productId: string,
+  variantId: string | null,
+  location: string
+) {
+  const key = { productId, variantId, location }
+  return (await db.inventoryLevel.findFirst({ where: key })) ?? db.inventoryLevel.create({ data: key })
+}
+
+function parseLocation(value: unknown, errors: ValidationError[]): string {
+  if (value === undefined || value === null || value === '') return DEFAULT_LOCATION
+  if (typeof value !== 'string' || !value.trim()) {
+    errors.push({ field: 'location', message: 'Location must be a non-empty string' })
+    return DEFAULT_LOCATION
+  }
+  if (value.trim().length > MAX_LOCATION_LENGTH) {
+    errors.push({ field: 'location', message: `Location must be at most ${MAX_LOCATION_LENGTH} characters` })
+  }
+  return value.trim().toUpperCase()
+}
+
+function parseVariantId(value: unknown, errors: ValidationError[]): string | null {
+  if (value === undefined || value === null || value === '') return null
+  if (typeof value !== 'string') {
+    errors.push({ field: 'variantId', message: 'Variant id must be a string' })
+    return null
+  }
+  return value
+}
+
+function isWholeNumber(value: unknown, min: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min
+}
+
+/**
+ * Validate a location's stock settings: `{ location?, variantId?, reorderPoint, leadTimeDays? }`
+ */
+export function parseInventoryLevelInput(data: any): {
+  errors: ValidationError[]
+  input: InventoryLevelInput | null
+} {
+  const errors: ValidationError[] = []
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { errors: [{ field: 'body', message: 'Request body must be an object' }], input: null }
+  }
+
+  const location = parseLocation(data.location, errors)
+  const variantId = parseVariantId(data.variantId, errors)
+  if (!isWholeNumber(data.reorderPoint, 0)) {
+    errors.push({ field: 'reorderPoint', message: 'Reorder point must be a non-negative whole number' })
+  }
+  const leadTimeDays = data.leadTimeDays ?? null
+  if (leadTimeDays !== null && !isWholeNumber(leadTimeDays, 0)) {
+    errors.push({ field: 'leadTimeDays', message: 'Lead time must be a non-negative whole number of days' })
+  }
+
+  if (errors.length > 0) return { errors, input: null }
+  return { errors, input: { location, variantId, reorderPoint: data.reorderPoint, leadTimeDays } }
+}
+
+/**
+ * Validate a receipt or adjustment: `{ location?, variantId?, type, quantity, note? }`.
+ * Receipts add stock; adjustments may add or remove it.
+ */
+export function parseStockMovementInput(data: any): {
+  errors: ValidationError[]
+  input: StockMovementInput | null
+} {
+  const errors: ValidationError[] = []
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { errors: [{ field: 'body', message: 'Request body must be an object' }], input: null }
+  }
+
+  const location = parseLocation(data.location, errors)
+  const variantId = parseVariantId(data.variantId, errors)
+  if (!MANUAL_MOVEMENT_TYPES.includes(data.type)) {
+    errors.push({ field: 'type', message: `Type must be one of: ${MANUAL_MOVEMENT_TYPES.join(', ')}` })
+  }
+  if (!Number.isInteger(data.quantity) || data.quantity === 0) {
+    errors.push({ field: 'quantity', message: 'Quantity must be a non-zero whole number' })
+  } else if (data.type === 'RECEIPT' && data.quantity < 0) {
+    errors.push({ field: 'quantity', message: 'Received quantity must be positive' })
+  }
+  if (data.note !== undefined && data.note !== null && typeof data.note !== 'string') {
+    errors.push({ field: 'note', message: 'Note must be a string' })
+  } else if (typeof data.note === 'string' && data.note.trim().length > MAX_NOTE_LENGTH) {
+    errors.push({ field: 'note', message: `Note must be at most ${MAX_NOTE_LENGTH} characters` })
+  }
+
+  if (errors.length > 0) return { errors, input: null }
+  return {
+    errors,
+    input: { location, variantId, type: data.type, quantity: data.quantity, note: data.note?.trim() || null }
+  }
+}
+
+async function applyMovement(
+  db: InventoryClient,
+  levelId: string,
+  type: StockMovementType,
+  quantity: number,
+  details: MovementDetails
+) {
+  const change: Record<StockMovementType, Prisma.InventoryLevelUpdateInput> = {
+    RECEIPT: { onHand: { increment: quantity } },
+    ADJUSTMENT: { onHand: { increment: quantity } },
+    RESERVATION: { reserved: { increment: quantity } },
+    SHIPMENT: { onHand: { decrement: quantity }, reserved: { decrement: quantity } }
+  }
+
+  const [level, movement] = await Promise.all([
+    db.inventoryLevel.update({ where: { id: levelId }, data: change[type] }),
+    createMovement(db, levelId, type, quantity, details)
+  ])
+  return { level, movement }
+}
+
+function createMovement(
+  db: InventoryClient,
+  levelId: string,
+  type: StockMovementType,
+  quantity: number,
+  details: MovementDetails
+) {
+  return db.stockMovement.create({
+    data: {
+      inventoryLevelId: levelId,
+      type,
+      quantity,
+      quoteId: details.quoteId ?? null,
+      note: details.note ?? null,
+      userId: details.userId
+    }
+  })
+}
+
+/**
+ * Record a receipt or adjustment at a location, creating the location's
+ * inventory level for the product or variant on first use. Returns an error message instead when an
+ * adjustment would take on-hand stock below zero.
+ */
+export async function recordStockMovement(
+  db: InventoryClient,
+  productId: string,
+  input: StockMovementInput,
+  userId: string | null
+) {
+  const level = await findOrCreateLevel(db, productId, input.variantId, input.location)
+
+  // Checked and applied in one conditional update, so concurrent adjustments
+  // cannot both pass the check and overdraw the level
+  const { count } = await db.inventoryLevel.updateMany({
+    where: { id: level.id, onHand: { gte: -input.quantity } },
+    data: { onHand: { increment: input.quantity } }
+  })
+  if (count === 0) {
+    const current = await db.inventoryLevel.findUniqueOrThrow({ where: { id: level.id } })
+    return { error: `Only ${current.onHand} on hand at ${input.location}` }
+  }
+
+  const [updated, movement] = await Promise.all([
+    db.inventoryLevel.findUniqueOrThrow({ where: { id: level.id } }),
+    createMovement(db, level.id, input.type, input.quantity, { note: input.note, userId })
+  ])
+  const availability = await refreshProductAvailability(db, productId)
+  return { level: updated, movement, availability }
+}
+
+/**
+ * Hold stock for a won quote. Each line is reserved from the locations with
+ * the most available stock first; any shortfall is still reserved, at the
+ * best-stocked location, so it shows as a backorder. Lines for a variant
+ * draw on that variant's stock, or on the product's when the variant is not
+ * stocked on its own. Products without inventory levels are not tracked and
+ * are skipped.
+ */
+export async function reserveQuoteStock(db: InventoryClient, quoteId: string, userId: string | null) {
+  const lines = await db.quoteProduct.findMany({
+    where: { quoteId },
+    select: { productId: true, variantId: true, quantity: true }
+  })
+
+  const quantities = new Map<string, { productId: string; variantId: string | null; quantity: number }>()
+  for (const { productId, variantId, quantity } of lines) {
+    const key = `${productId}:${variantId ?? ''}`
+    const entry = quantities.get(key) ?? { productId, variantId, quantity: 0 }
+    entry.quantity += quantity
+    quantities.set(key, entry)
+  }
+
+  for (const { productId, variantId, quantity } of Array.from(quantities.values())) {
+    const orderBy = { location: 'asc' } as const
+    let levels = await db.inventoryLevel.findMany({ where: { productId, variantId }, orderBy })
+    if (levels.length === 0 && variantId) {
+      levels = await db.inventoryLevel.findMany({ where: { productId, variantId: null }, orderBy })
+    }
+    if (levels.length === 0) continue
+
+    const byAvailable = [...levels].sort((a, b) => availableStock(b) - availableStock(a))
+    const allocations = new Map<string, number>()
+    let remaining = quantity
+    for (const level of byAvailable) {
+      const take = Math.min(Math.max(availableStock(level), 0), remaining)
+      if (take > 0) allocations.set(level.id, take)
+      remaining -= take
+    }
+    if (remaining > 0) {
+      allocations.set(byAvailable[0].id, (allocations.get(byAvailable[0].id) ?? 0) + remaining)
+    }
+
+    for (const [levelId, reserved] of Array.from(allocations)) {
+      await applyMovement(db, levelId, 'RESERVATION', reserved, { quoteId, userId })
+    }
+    await refreshProductAvailability(db, productId)
+  }
+}
+
+/**
+ * Ship what a quote holds at one level. Only stock on hand leaves, so a
+ * backordered shortfall cannot take on-hand stock below zero; it is released
+ * instead, with a movement recording what went unshipped.
+ */
+async function shipReservation(db: InventoryClient, levelId: string, quantity: number, details: MovementDetails) {
+  // Checked and applied in one conditional update, as for adjustments; a
+  // failed update means less is on hand, so retry with what is there
+  let shipped = quantity
+  while (shipped > 0) {
+    const { count } = await db.inventoryLevel.updateMany({
+      where: { id: levelId, onHand: { gte: shipped } },
+      data: { onHand: { decrement: shipped }, reserved: { decrement: shipped } }
+    })
+    if (count > 0) break
+    const level = await db.inventoryLevel.findUniqueOrThrow({ where: { id: levelId } })
+    shipped = Math.min(shipped, Math.max(level.onHand, 0))
+  }
+
+  if (shipped > 0) {
+    await createMovement(db, levelId, 'SHIPMENT', shipped, details)
+  }
+  const short = quantity - shipped
+  if (short > 0) {
+    await applyMovement(db, levelId, 'RESERVATION', -short, {
+      ...details,
+      note: `Short ${short} when shipped; only ${shipped} on hand, so the backorder was released`
+    })
+  }
+}
+
+/**
+ * Ship a won quote when it is closed: its reservations leave on-hand stock
+ */
+export async function shipQuoteStock(db: InventoryClient, quoteId: string, userId: string | null) {
+  const movements = await db.stockMovement.findMany({
+    where: { quoteId },
+    include: { inventoryLevel: { select: { productId: true } } }
+  })
+
+  const held = new Map<string, { productId: string; quantity: number }>()
+  for (const movement of movements) {
+    const entry = held.get(movement.inventoryLevelId) ?? { productId: movement.inventoryLevel.productId, quantity: 0 }
+    entry.quantity += movement.type === 'RESERVATION' ? movement.quantity : movement.type === 'SHIPMENT' ? -movement.quantity : 0
+    held.set(movement.inventoryLevelId, entry)
+  }
+
+  const productIds = new Set<string>()
+  for (const [levelId, { productId, quantity }] of Array.from(held)) {
+    if (quantity <= 0) continue
+    await shipReservation(db, levelId, quantity, { quoteId, userId })
+    productIds.add(productId)
+  }
+  for (const productId of Array.from(productIds)) {
+    await refreshProductAvailability(db, productId)
+  }
+}
+
+/**
+ * A product's locations with totals and its latest stock movements
+ */
+export async function getProductInventory(db: InventoryClient, productId: string) {
+  const product = await db.product.findUnique({
+    where: { id: productId },
+    select: { id: true, availability: true, variants: { select: { id: true, sku: true }, orderBy: { position: 'asc' } } }
+  })
+  if (!product) return null
+
+  const [levels, movements] = await Promise.all([
+    db.inventoryLevel.findMany({
+      where: { productId },
+      include: { variant: { select: { id: true, sku: true } } },
+      orderBy: [{ location: 'asc' }, { variant: { position: 'asc' } }]
+    }),
+    db.stockMovement.findMany({
+      where: { inventoryLevel: { productId } },
+      include: {
+        inventoryLevel: { select: { location: true, variant: { select: { sku: true } } } },
+        quote: { select: { id: true, referenceNumber: true } },
+        user: { select: { id: true, name: true } }
+      },
+      orderBy: { createdAt: 'desc' },
+      take: RECENT_MOVEMENT_LIMIT
+    })
+  ])
+
+  return {
+    availability: product.availability,
+    tracked: levels.length > 0,
+    totals: {
+      onHand: levels.reduce((sum, level) => sum + level.onHand, 0),
+      reserved: levels.reduce((sum, level) => sum + level.reserved, 0),
+      available: levels.reduce((sum, level) => sum + availableStock(level), 0)
+    },
+    levels: levels.map(level => ({ ...level, available: availableStock(level) })),
+    movements,
+    variants: product.variants
+  }
+}
@@ -0,0 +1,186 @@
+/**
+ * Server-side handling of uploaded media: validation, streaming to storage
+ * and creation of the Media record.
+ */
+
+import path from 'path'
+import { randomBytes } from 'crypto'
+import { Readable, Transform } from 'stream'
+import { NextResponse } from 'next/server'
+import { Media, MediaType } from '@prisma/client'
+import { prisma } from './prisma'
+import { logger } from './monitoring'
+import { getStorage, parseByteRange } from './storage'
+import { processUploadedImage, ProcessedUpload } from './image-processing'
+import type { MultipartFile } from './multipart'
+import {
+  formatFileSize,
+  getDownloadPath,
+  getFileExtension,
+  isImageFile,
+  validateFileSize,
+  validateFileType,
+  MAX_FILE_SIZE
+} from './media-utils'
+
+export interface StoredUpload {
+  success: boolean
+  originalName: string
+  filename?: string
+  error?: string
+  media?: Media
+}
+
+/**
+ * Public URL for a stored media item. Images are served inline to the site;
+ * documents go through the authenticated download route, or a signed link.
+ */
+export function getMediaUrl(media: Pick<Media, 'id' | 'type'>): string {
+  return media.type === MediaType.IMAGE ? `/api/media/${media.id}/file` : getDownloadPath(media.id)
+}
+
+/**
+ * Strip any client-supplied directory and control characters from a filename
+ */
+export function sanitizeFilename(filename: string): string {
+  const name = path.posix.basename(filename.replace(/\\/g, '/')).replace(/[\x00-\x1f\x7f]/g, '').trim()
+  return name.slice(0, 255) || 'upload'
+}
+
+function buildStorageKey(originalName: string, now: Date): { key: string; filename: string } {
+  const extension = getFileExtension(originalName)
+  const filename = randomBytes(16).toString('hex') + (/^[a-z0-9]{1,10}$/.test(extension) ? `.${extension}` : '')
+  const month = String(now.getUTCMonth() + 1).padStart(2, '0')
+  return { key: `media/${now.getUTCFullYear()}/${month}/${filename}`, filename }
+}
+
+/**
+ * Pass data through until it exceeds MAX_FILE_SIZE, then fail the stream
+ */
+function sizeLimit(): Transform {
+  let size = 0
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length
+      if (!validateFileSize({ size })) {
+        callback(new Error('FILE_TOO_LARGE'))
+        return
+      }
+      callback(null, chunk)
+    }
+  })
+}
+
+/**
+ * Validate an uploaded file, stream it to storage and create its Media row.
+ * Failures are reported in the result rather than thrown so bulk uploads can
+ * continue with the remaining files.
+ */
+export async function storeMediaFile(file: MultipartFile, now: Date = new Date()): Promise<StoredUpload> {
+  const originalName = sanitizeFilename(file.filename)
+  const expectedType = isImageFile(file.contentType) ? 'image' : 'document'
+
+  if (!validateFileType({ type: file.contentType }, expectedType)) {
+    file.stream.resume()
+    return { success: false, originalName, error: `File type ${file.contentType} is not supported` }
+  }
+
+  const { key, filename } = buildStorageKey(originalName, now)
+  const storage = getStorage()
+
+  const limited = file.stream.pipe(sizeLimit())
+  // pipe() does not forward errors, e.g. a request body that ends early
+  file.stream.on('error', error => limited.destroy(error))
+
+  let size: number
+  try {
+    size = await storage.put(key, limited, { contentType: file.contentType })
+  } catch (error) {
+    file.stream.resume()
+    if (error instanceof Error && error.message === 'FILE_TOO_LARGE') {
+      return { success: false, originalName, error: `File is too large. Maximum size is ${formatFileSize(MAX_FILE_SIZE)}` }
+    }
+    logger.error('Failed to store upload', error as Error, { originalName })
+    return { success: false, originalName, error: 'Failed to store file' }
+  }
+
+  if (size === 0) {
+    await storage.delete(key)
+    return { success: false, originalName, error: 'File is empty' }
+  }
+
+  let image: ProcessedUpload | null = null
+  if (expectedType === 'image') {
+    try {
+      image = await processUploadedImage(key, file.contentType)
+    } catch (error) {
+      logger.warn('Rejected unreadable image upload', { originalName, error: (error as Error).message })
+      await storage.delete(key).catch(() => undefined)
+      return { success: false, originalName, error: 'File is not a valid image' }
+    }
+  }
+
+  try {
+    const created = await prisma.media.create({
+      data: {
+        filename,
+        originalName,
+        mimeType: file.contentType,
+        size: image?.size ?? size,
+        width: image?.width,
+        height: image?.height,
+        type: expectedType === 'image' ? MediaType.IMAGE : MediaType.DOCUMENT,
+        storageKey: key,
+        url: '',
+        variants: image ? { create: image.variants } : undefined
+      }
+    })
+    const media = await prisma.media.update({
+      where: { id: created.id },
+      data: { url: getMediaUrl(created) },
+      include: { variants: true }
+    })
+    return { success: true, originalName, filename, media }
+  } catch (error) {
+    const keys = [key, ...(image?.variants.map(variant => variant.storageKey) ?? [])]
+    await Promise.all(keys.map(stored => storage.delete(stored).catch(() => undefined)))
+    throw error
+  }
+}
+
+/**
+ * Stream a stored object as an HTTP response, or null when it is missing.
+ * Pass the request's Range header to serve partial content.
+ */
+export async function serveStoredFile(
+  media: Pick<Media, 'storageKey' | 'mimeType' | 'size' | 'originalName'>,
+  options: { disposition: 'inline' | 'attachment'; cacheControl: string; range?: string | null }
+): Promise<NextResponse | null> {
+  if (!media.storageKey) return null
+
+  const range = parseByteRange(options.range, media.size)
+  if (range === 'unsatisfiable') {
+    return new NextResponse(null, {
+      status: 416,
+      headers: { 'Content-Range': `bytes */${media.size}`, 'Accept-Ranges': 'bytes' }
+    })
+  }
+
+  const stream = await getStorage().get(media.storageKey, range ?? undefined)
+  if (!stream) return null
+
+  // Header values must be ASCII; the UTF-8 name is sent as filename*
+  const fallback = media.originalName.replace(/[^\x20-\x7e]|["\\]/g, '_')
+  return new NextResponse(Readable.toWeb(stream) as ReadableStream<Uint8Array>, {
+    status: range ? 206 : 200,
+    headers: {
+      'Content-Type': media.mimeType,
+      'Content-Length': (range ? range.end - range.start + 1 : media.size).toString(),
+      ...(range ? { 'Content-Range': `bytes ${range.start}-${range.end}/${media.size}` } : {}),
+      'Accept-Ranges': 'bytes',
+      'Content-Disposition': `${options.disposition}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(media.originalName)}`,
+      'Cache-Control': options.cacheControl,
+      'X-Content-Type-Options': 'nosniff'
+    }
+  })
+}
@@ -1,3 +1,6 @@
+import { optimizeImageUrl } from './image-optimization';
+import { signDownloadPath, SignedUrlOptions } from './signed-urls';
+
 type MediaType = 'IMAGE' | 'DOCUMENT' | 'VIDEO' | 'OTHER';
 
 export interface MediaFile {
@@ -8,6 +11,9 @@ export interface MediaFile {
   mimeType: string;
   size: number;
   type: MediaType;
+  storageKey?: string | null;
+  width?: number | null;
+  height?: number | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -47,14 +53,16 @@ export const ALLOWED_DOCUMENT_TYPES = [
 ];
 
 export const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+export const THUMBNAIL_WIDTH = 256;
 export const MAX_BULK_FILES = 20;
 
-export function validateFileType(file: File, expectedType: 'image' | 'document'): boolean {
+// Accepts browser File objects as well as uploads parsed on the server
+export function validateFileType(file: Pick<File, 'type'>, expectedType: 'image' | 'document'): boolean {
   const allowedTypes = expectedType === 'image' ? ALLOWED_IMAGE_TYPES : ALLOWED_DOCUMENT_TYPES;
   return allowedTypes.includes(file.type);
 }
 
-export function validateFileSize(file: File): boolean {
+export function validateFileSize(file: Pick<File, 'size'>): boolean {
   return file.size <= MAX_FILE_SIZE;
 }
 
@@ -85,14 +93,19 @@ export function isDocumentFile(mimeType: string): boolean {
   return ALLOWED_DOCUMENT_TYPES.includes(mimeType);
 }
 
-// Generate secure download URL for documents
-export function generateSecureDownloadUrl(mediaId: string): string {
+// Download route for a media item; requires MANAGE_MEDIA unless signed
+export function getDownloadPath(mediaId: string): string {
   return `/api/media/${mediaId}/download`;
 }
 
-// Generate thumbnail URL for images
-export function getThumbnailUrl(filename: string): string {
-  return `/uploads/thumb_${filename}`;
+// Generate a signed, expiring download URL that works without signing in
+export function generateSecureDownloadUrl(mediaId: string, options: SignedUrlOptions = {}): string {
+  return signDownloadPath(getDownloadPath(mediaId), options);
+}
+
+// Generate thumbnail URL for an uploaded image, resized by the media file route
+export function getThumbnailUrl(url: string): string {
+  return optimizeImageUrl(url, { width: THUMBNAIL_WIDTH });
 }
 
 // Media organization utilities
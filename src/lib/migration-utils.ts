@@ -1,5 +1,7 @@
 import { PrismaClient } from '@prisma/client'
 import { prisma } from './prisma'
+import { parseSpecifications } from './product-specs'
+import { refreshProductSearchIndex } from './product-search'
 
 export interface MigrationStatus {
   applied: boolean
@@ -45,8 +47,14 @@ export async function getDatabaseInfo(): Promise<DatabaseInfo> {
       recordCounts.products = await prisma.product.count()
       recordCounts.quote_requests = await prisma.quoteRequest.count()
       recordCounts.media = await prisma.media.count()
+      recordCounts.product_variants = await prisma.productVariant.count()
+      recordCounts.product_relations = await prisma.productRelation.count()
+      recordCounts.inventory_levels = await prisma.inventoryLevel.count()
+      recordCounts.stock_movements = await prisma.stockMovement.count()
       recordCounts.product_images = await prisma.productImage.count()
       recordCounts.product_documents = await prisma.productDocument.count()
+      recordCounts.company_content_versions = await prisma.companyContentVersion.count()
+      recordCounts.certifications = await prisma.certification.count()
     } catch (error) {
       console.warn('Could not get record counts:', error)
     }
@@ -90,13 +98,19 @@ export async function resetDatabase(): Promise<void> {
 
   try {
     // Delete all data in reverse dependency order
+    await prisma.stockMovement.deleteMany()
+    await prisma.inventoryLevel.deleteMany()
     await prisma.quoteProduct.deleteMany()
     await prisma.bulkDiscount.deleteMany()
+    await prisma.productVariant.deleteMany()
+    await prisma.productRelation.deleteMany()
     await prisma.productDocument.deleteMany()
     await prisma.productImage.deleteMany()
     await prisma.quoteRequest.deleteMany()
     await prisma.product.deleteMany()
+    await prisma.certification.deleteMany()
     await prisma.media.deleteMany()
+    await prisma.companyContentVersion.deleteMany()
     await prisma.user.deleteMany()
 
     console.log('✅ Database reset completed')
@@ -126,6 +140,8 @@ export async function backupDatabase(): Promise<{
           images: true,
           documents: true,
           bulkDiscounts: true,
+          variants: { include: { bulkDiscounts: true } },
+          relations: true,
         }
       }),
       prisma.quoteRequest.findMany({
@@ -232,4 +248,25 @@ export async function cleanupOldData(daysOld: number = 90): Promise<void> {
     console.error('❌ Cleanup failed:', error)
     throw error
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Parse the text spec fields of every product into structured specs. Run
+ * after deploying the spec columns; products edited since are re-parsed too.
+ * Each product's search index is refreshed with it, as on any product write.
+ */
+export async function backfillProductSpecifications(): Promise<number> {
+  const products = await prisma.product.findMany({
+    select: { id: true, category: true, diameter: true, length: true, pressureRating: true, temperature: true }
+  })
+
+  for (const { id, category, ...fields } of products) {
+    await prisma.product.update({
+      where: { id },
+      data: parseSpecifications(fields, category)
+    })
+    await refreshProductSearchIndex(prisma, id)
+  }
+
+  return products.length
+}
@@ -0,0 +1,137 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the streaming multipart/form-data parser
+ */
+
+import * as fc from 'fast-check'
+import { getBoundary, parseMultipart, MultipartError, MultipartFile } from './multipart'
+
+const boundary = '----formboundary7MA4YWxk'
+
+function buildBody(parts: Array<{ name: string; value: string | Buffer; filename?: string; type?: string }>): Buffer {
+  const chunks: Buffer[] = [Buffer.from('preamble is ignored\r\n')]
+  for (const part of parts) {
+    const disposition = `form-data; name="${part.name}"` + (part.filename !== undefined ? `; filename="${part.filename}"` : '')
+    chunks.push(Buffer.from(
+      `--${boundary}\r\nContent-Disposition: ${disposition}\r\n` +
+      (part.type ? `Content-Type: ${part.type}\r\n` : '') +
+      '\r\n'
+    ))
+    chunks.push(Buffer.isBuffer(part.value) ? part.value : Buffer.from(part.value))
+    chunks.push(Buffer.from('\r\n'))
+  }
+  chunks.push(Buffer.from(`--${boundary}--\r\nepilogue`))
+  return Buffer.concat(chunks)
+}
+
+// Deliver a body in the given chunk sizes, as a network stream would
+async function* chunked(body: Buffer, sizes: number[] = [body.length]): AsyncGenerator<Uint8Array> {
+  let offset = 0
+  let i = 0
+  while (offset < body.length) {
+    const size = Math.max(1, sizes[i++ % sizes.length])
+    yield body.subarray(offset, offset + size)
+    offset += size
+  }
+}
+
+async function collectFiles(body: AsyncIterable<Uint8Array>) {
+  const files: Array<Omit<MultipartFile, 'stream'> & { data: Buffer }> = []
+  const result = await parseMultipart(body, boundary, async ({ stream, ...file }) => {
+    const chunks: Buffer[] = []
+    for await (const chunk of stream) chunks.push(chunk)
+    files.push({ ...file, data: Buffer.concat(chunks) })
+  })
+  return { ...result, files }
+}
+
+describe('Multipart Parser', () => {
+  test('extracts the boundary from the content type', () => {
+    expect(getBoundary(`multipart/form-data; boundary=${boundary}`)).toBe(boundary)
+    expect(getBoundary('multipart/form-data; boundary="quoted boundary"; charset=utf-8')).toBe('quoted boundary')
+    expect(getBoundary('application/json')).toBeNull()
+    expect(getBoundary(null)).toBeNull()
+  })
+
+  test('parses fields and files', async () => {
+    const image = Buffer.from([0xff, 0xd8, 0xff, 0x0d, 0x0a, 0x2d, 0x2d, 0x00])
+    const body = buildBody([
+      { name: 'folder', value: 'catalogue' },
+      { name: 'file', value: image, filename: 'pipe.jpg', type: 'image/jpeg' },
+      { name: 'file', value: 'line one\r\nline two', filename: 'C:\\docs\\notes.txt', type: 'text/plain' },
+    ])
+
+    const { fields, files } = await collectFiles(chunked(body))
+
+    expect(fields).toEqual({ folder: 'catalogue' })
+    expect(files).toEqual([
+      { fieldName: 'file', filename: 'pipe.jpg', contentType: 'image/jpeg', data: image },
+      { fieldName: 'file', filename: 'C:\\docs\\notes.txt', contentType: 'text/plain', data: Buffer.from('line one\r\nline two') },
+    ])
+  })
+
+  test('results do not depend on how the body is split into chunks', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.uint8Array({ minLength: 0, maxLength: 300 }),
+        fc.string({ maxLength: 40 }),
+        fc.array(fc.integer({ min: 1, max: 64 }), { minLength: 1, maxLength: 10 }),
+        async (content, text, sizes) => {
+          const data = Buffer.from(content)
+          const body = buildBody([
+            { name: 'note', value: text },
+            { name: 'upload', value: data, filename: 'data.bin', type: 'application/octet-stream' },
+          ])
+
+          const { fields, files } = await collectFiles(chunked(body, sizes))
+
+          expect(fields.note).toBe(text)
+          expect(files).toHaveLength(1)
+          expect(files[0].data.equals(data)).toBe(true)
+        }
+      ),
+      { numRuns: 100 }
+    )
+  })
+
+  test('handlers may skip the rest of a file', async () => {
+    const body = buildBody([
+      { name: 'file', value: Buffer.alloc(256 * 1024, 1), filename: 'skipped.bin' },
+      { name: 'file', value: 'kept', filename: 'kept.txt', type: 'text/plain' },
+    ])
+    const seen: string[] = []
+
+    await parseMultipart(chunked(body, [4096]), boundary, async (file) => {
+      seen.push(file.filename)
+      if (file.filename === 'kept.txt') {
+        for await (const chunk of file.stream) seen.push(chunk.toString())
+      }
+    })
+
+    expect(seen).toEqual(['skipped.bin', 'kept.txt', 'kept'])
+  })
+
+  test('truncated bodies fail and error the open file stream', async () => {
+    const body = buildBody([{ name: 'file', value: Buffer.alloc(1000, 2), filename: 'cut.bin' }])
+    let streamError: unknown = null
+
+    const parsing = parseMultipart(chunked(body.subarray(0, 600), [100]), boundary, async (file) => {
+      try {
+        for await (const chunk of file.stream) void chunk
+      } catch (error) {
+        streamError = error
+      }
+    })
+
+    await expect(parsing).rejects.toThrow(MultipartError)
+    expect(streamError).toBeInstanceOf(MultipartError)
+  })
+
+  test('parts without a field name are rejected', async () => {
+    const body = Buffer.from(`--${boundary}\r\nContent-Disposition: form-data\r\n\r\nx\r\n--${boundary}--`)
+    await expect(parseMultipart(chunked(body), boundary, async () => undefined)).rejects.toThrow('missing a field name')
+  })
+})
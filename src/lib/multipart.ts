@@ -0,0 +1,256 @@
+/**
+ * Streaming multipart/form-data parser. File parts are handed over as
+ * streams while the request body is still arriving, so uploads are written
+ * to storage without being buffered in memory.
+ */
+
+import { PassThrough, Readable } from 'stream'
+
+export interface MultipartFile {
+  fieldName: string
+  filename: string
+  contentType: string
+  stream: Readable
+}
+
+export interface MultipartResult {
+  fields: Record<string, string>
+}
+
+// Thrown for malformed bodies; routes answer these with 400
+export class MultipartError extends Error {}
+
+const MAX_HEADER_SIZE = 16 * 1024
+const MAX_FIELD_SIZE = 1024 * 1024
+
+/**
+ * Extract the boundary from a multipart/form-data Content-Type header
+ */
+export function getBoundary(contentType: string | null): string | null {
+  if (!contentType || !/^multipart\/form-data\b/i.test(contentType)) return null
+  const match = contentType.match(/boundary=(?:"([^"]+)"|([^;\s]+))/i)
+  return match ? (match[1] ?? match[2]) : null
+}
+
+function parseHeaders(block: string): Record<string, string> {
+  const headers: Record<string, string> = {}
+  for (const line of block.split('\r\n')) {
+    const colon = line.indexOf(':')
+    if (colon > 0) headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim()
+  }
+  return headers
+}
+
+function parseDisposition(value: string | undefined): { name?: string; filename?: string } {
+  if (!value) return {}
+  const params: Record<string, string> = {}
+  // Browsers percent-encode quotes rather than backslash-escaping them, and
+  // some send Windows paths, so backslashes are kept as-is
+  const pattern = /;\s*([\w*-]+)=(?:"([^"]*)"|([^;]*))/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(value))) {
+    params[match[1].toLowerCase()] = match[2] !== undefined ? match[2] : match[3].trim()
+  }
+
+  let filename = params.filename
+  // RFC 5987 extended value, e.g. filename*=UTF-8''r%C3%A9sum%C3%A9.pdf
+  const extended = params['filename*']?.match(/^UTF-8''(.*)$/i)
+  if (extended) {
+    try {
+      filename = decodeURIComponent(extended[1])
+    } catch {
+      // Keep the plain filename
+    }
+  }
+
+  return { name: params.name, filename }
+}
+
+async function* readBody(body: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>): AsyncGenerator<Buffer> {
+  if ('getReader' in body) {
+    const reader = body.getReader()
+    try {
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) return
+        yield Buffer.from(value)
+      }
+    } finally {
+      reader.releaseLock()
+    }
+  }
+  for await (const chunk of body) yield Buffer.from(chunk)
+}
+
+/**
+ * Parse a multipart body, calling `onFile` for each file part. Parts are
+ * processed one at a time: the next part is not read until the handler's
+ * promise settles. A handler that does not want the data may simply return;
+ * the rest of the part is discarded.
+ */
+export async function parseMultipart(
+  body: ReadableStream<Uint8Array> | AsyncIterable<Uint8Array>,
+  boundary: string,
+  onFile: (file: MultipartFile) => Promise<void>
+): Promise<MultipartResult> {
+  const delimiter = Buffer.from(`\r\n--${boundary}`)
+  const fields: Record<string, string> = {}
+
+  // The opening boundary is not preceded by CRLF; adding one lets every
+  // boundary be matched the same way
+  let buffer: Buffer = Buffer.from('\r\n')
+  let state: 'preamble' | 'boundary' | 'headers' | 'body' | 'done' = 'preamble'
+
+  let field: { name: string; chunks: Buffer[]; size: number } | null = null
+  let file: { stream: PassThrough; handled: Promise<void>; settled: boolean } | null = null
+
+  const writeFile = async (data: Buffer) => {
+    if (!file || data.length === 0 || file.stream.destroyed) return
+    if (file.settled) {
+      // Handler finished without reading everything
+      return
+    }
+    if (!file.stream.write(data)) {
+      const current = file
+      await new Promise<void>(resolve => {
+        const done = () => {
+          current.stream.off('drain', done)
+          current.stream.off('close', done)
+          resolve()
+        }
+        current.stream.on('drain', done)
+        current.stream.on('close', done)
+        current.handled.then(done, done)
+      })
+    }
+  }
+
+  const appendField = (data: Buffer) => {
+    if (!field) return
+    field.size += data.length
+    if (field.size > MAX_FIELD_SIZE) {
+      throw new MultipartError(`Field ${field.name} is too large`)
+    }
+    field.chunks.push(data)
+  }
+
+  const finishPart = async () => {
+    if (field) {
+      fields[field.name] = Buffer.concat(field.chunks).toString('utf8')
+      field = null
+    }
+    if (file) {
+      const current = file
+      file = null
+      if (!current.stream.destroyed) current.stream.end()
+      await current.handled
+    }
+  }
+
+  // A failed or truncated body must not leave a file handler waiting for data
+  const abort = async (error: unknown) => {
+    const current = file
+    file = null
+    if (current) {
+      current.stream.destroy(error instanceof Error ? error : new Error(String(error)))
+      await current.handled.catch(() => undefined)
+    }
+  }
+
+  try {
+    for await (const chunk of readBody(body)) {
+      buffer = buffer.length ? Buffer.concat([buffer, chunk]) : chunk
+
+      while (buffer.length > 0) {
+        if (state === 'preamble' || state === 'body') {
+          const index = buffer.indexOf(delimiter)
+          if (index === -1) {
+            // Keep enough bytes to match a delimiter split across chunks
+            const safe = buffer.length - delimiter.length + 1
+            if (safe > 0 && state === 'body') {
+              const data = buffer.subarray(0, safe)
+              if (file) await writeFile(data)
+              else appendField(data)
+            }
+            if (safe > 0) buffer = buffer.subarray(safe)
+            break
+          }
+
+          if (state === 'body') {
+            const data = buffer.subarray(0, index)
+            if (file) await writeFile(data)
+            else appendField(data)
+            await finishPart()
+          }
+          buffer = buffer.subarray(index + delimiter.length)
+          state = 'boundary'
+          continue
+        }
+
+        if (state === 'boundary') {
+          if (buffer.length < 2) break
+          if (buffer[0] === 0x2d && buffer[1] === 0x2d) {
+            state = 'done'
+            break
+          }
+          const lineEnd = buffer.indexOf('\r\n')
+          if (lineEnd === -1) {
+            if (buffer.length > 1024) throw new MultipartError('Malformed multipart boundary')
+            break
+          }
+          // Transport padding may follow the boundary
+          buffer = buffer.subarray(lineEnd + 2)
+          state = 'headers'
+          continue
+        }
+
+        if (state === 'headers') {
+          const end = buffer.indexOf('\r\n\r\n')
+          if (end === -1) {
+            if (buffer.length > MAX_HEADER_SIZE) throw new MultipartError('Multipart headers are too large')
+            break
+          }
+          const headers = parseHeaders(buffer.subarray(0, end).toString('utf8'))
+          buffer = buffer.subarray(end + 4)
+          state = 'body'
+
+          const disposition = parseDisposition(headers['content-disposition'])
+          if (!disposition.name) throw new MultipartError('Multipart part is missing a field name')
+
+          if (disposition.filename !== undefined) {
+            const stream = new PassThrough()
+            const entry = {
+              stream,
+              settled: false,
+              handled: Promise.resolve()
+            }
+            entry.handled = onFile({
+              fieldName: disposition.name,
+              filename: disposition.filename,
+              contentType: headers['content-type'] || 'application/octet-stream',
+              stream
+            }).finally(() => {
+              entry.settled = true
+            })
+            // Surfaced by finishPart; avoids an unhandled rejection in between
+            entry.handled.catch(() => undefined)
+            file = entry
+          } else {
+            field = { name: disposition.name, chunks: [], size: 0 }
+          }
+        }
+      }
+
+      if (state === 'done') break
+    }
+
+    if (state !== 'done') {
+      throw new MultipartError('Unexpected end of form data')
+    }
+  } catch (error) {
+    await abort(error)
+    throw error
+  }
+
+  return { fields }
+}
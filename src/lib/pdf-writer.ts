@@ -0,0 +1,234 @@
+/**
+ * Minimal PDF 1.4 writer for server-generated documents.
+ * Supports multiple pages, text in the standard Helvetica fonts, lines and
+ * filled rectangles. Coordinates are in points measured from the top-left
+ * corner of the page.
+ */
+
+import { deflateSync } from 'zlib'
+
+export type PdfFont = 'regular' | 'bold'
+export type PdfColor = [number, number, number]
+
+export interface TextOptions {
+  size?: number
+  font?: PdfFont
+  color?: PdfColor
+  align?: 'left' | 'right' | 'center'
+}
+
+// Helvetica and Helvetica-Bold advance widths for characters 32-126 (per 1000 units)
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+]
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+]
+
+// Unicode punctuation that WinAnsiEncoding places in the 0x80-0x9F range
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92,
+  '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99
+}
+
+/**
+ * Encode text as WinAnsi bytes; characters outside the encoding become "?"
+ */
+function encodeWinAnsi(text: string): number[] {
+  return Array.from(text).map(char => {
+    if (WIN_ANSI_EXTRAS[char] !== undefined) return WIN_ANSI_EXTRAS[char]
+    const code = char.codePointAt(0)!
+    if (code === 9) return 32
+    return code >= 32 && code <= 255 && (code < 127 || code >= 160) ? code : 63
+  })
+}
+
+function escapePdfString(bytes: number[]): string {
+  return bytes.map(byte => {
+    if (byte === 0x28 || byte === 0x29 || byte === 0x5c) return `\\${String.fromCharCode(byte)}`
+    return String.fromCharCode(byte)
+  }).join('')
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString()
+}
+
+function formatPdfDate(date: Date): string {
+  const pad = (n: number) => n.toString().padStart(2, '0')
+  return `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+}
+
+export class PdfDocument {
+  readonly width: number
+  readonly height: number
+  private pages: string[][] = []
+
+  constructor(private info: { title?: string; author?: string } = {}, size: { width: number; height: number } = { width: 612, height: 792 }) {
+    this.width = size.width
+    this.height = size.height
+    this.addPage()
+  }
+
+  get pageCount(): number {
+    return this.pages.length
+  }
+
+  addPage() {
+    this.pages.push([])
+  }
+
+  private get current(): string[] {
+    return this.pages[this.pages.length - 1]
+  }
+
+  /**
+   * Width of a string in points
+   */
+  measureText(text: string, size: number = 10, font: PdfFont = 'regular'): number {
+    const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS
+    const units = encodeWinAnsi(text).reduce(
+      (sum, byte) => sum + (byte >= 32 && byte <= 126 ? widths[byte - 32] : 556),
+      0
+    )
+    return (units * size) / 1000
+  }
+
+  /**
+   * Break text into lines no wider than maxWidth, honouring existing newlines
+   */
+  wrapText(text: string, maxWidth: number, size: number = 10, font: PdfFont = 'regular'): string[] {
+    const lines: string[] = []
+
+    for (const paragraph of text.split(/\r?\n/)) {
+      let line = ''
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word
+        if (this.measureText(candidate, size, font) <= maxWidth) {
+          line = candidate
+          continue
+        }
+        if (line) lines.push(line)
+
+        // Hard-break words longer than the line
+        let rest = word
+        while (this.measureText(rest, size, font) > maxWidth && rest.length > 1) {
+          let cut = rest.length - 1
+          while (cut > 1 && this.measureText(rest.slice(0, cut), size, font) > maxWidth) cut--
+          lines.push(rest.slice(0, cut))
+          rest = rest.slice(cut)
+        }
+        line = rest
+      }
+      lines.push(line)
+    }
+
+    return lines
+  }
+
+  text(text: string, x: number, y: number, options: TextOptions = {}) {
+    const size = options.size ?? 10
+    const font = options.font ?? 'regular'
+    const width = this.measureText(text, size, font)
+    const left = options.align === 'right' ? x - width : options.align === 'center' ? x - width / 2 : x
+    const [r, g, b] = options.color ?? [0, 0, 0]
+
+    this.current.push(
+      `BT /${font === 'bold' ? 'F2' : 'F1'} ${formatNumber(size)} Tf ` +
+      `${formatNumber(r)} ${formatNumber(g)} ${formatNumber(b)} rg ` +
+      `${formatNumber(left)} ${formatNumber(this.height - y)} Td ` +
+      `(${escapePdfString(encodeWinAnsi(text))}) Tj ET`
+    )
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, options: { width?: number; color?: PdfColor } = {}) {
+    const [r, g, b] = options.color ?? [0, 0, 0]
+    this.current.push(
+      `${formatNumber(options.width ?? 0.5)} w ${formatNumber(r)} ${formatNumber(g)} ${formatNumber(b)} RG ` +
+      `${formatNumber(x1)} ${formatNumber(this.height - y1)} m ${formatNumber(x2)} ${formatNumber(this.height - y2)} l S`
+    )
+  }
+
+  rect(x: number, y: number, width: number, height: number, fill: PdfColor) {
+    const [r, g, b] = fill
+    this.current.push(
+      `${formatNumber(r)} ${formatNumber(g)} ${formatNumber(b)} rg ` +
+      `${formatNumber(x)} ${formatNumber(this.height - y - height)} ${formatNumber(width)} ${formatNumber(height)} re f`
+    )
+  }
+
+  /**
+   * Serialize the document with a cross-reference table
+   */
+  toBuffer(createdAt: Date = new Date()): Buffer {
+    const chunks: Buffer[] = []
+    const offsets: number[] = []
+    let length = 0
+
+    const write = (data: string | Buffer) => {
+      const buffer = typeof data === 'string' ? Buffer.from(data, 'latin1') : data
+      chunks.push(buffer)
+      length += buffer.length
+    }
+    const object = (id: number, body: string | Buffer[]) => {
+      offsets[id] = length
+      write(`${id} 0 obj\n`)
+      if (typeof body === 'string') write(body)
+      else body.forEach(write)
+      write('\nendobj\n')
+    }
+
+    // Objects 1-5 are fixed; each page then takes a page object and a content stream
+    const pageIds = this.pages.map((_, i) => 6 + i * 2)
+
+    write('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n')
+    object(1, '<< /Type /Catalog /Pages 2 0 R >>')
+    object(2, `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`)
+    object(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>')
+    object(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>')
+
+    const infoString = (value: string) => `(${escapePdfString(encodeWinAnsi(value))})`
+    object(5,
+      '<< /Producer (Pipe Supply)' +
+      (this.info.title ? ` /Title ${infoString(this.info.title)}` : '') +
+      (this.info.author ? ` /Author ${infoString(this.info.author)}` : '') +
+      ` /CreationDate (${formatPdfDate(createdAt)}) >>`
+    )
+
+    this.pages.forEach((operations, i) => {
+      const pageId = pageIds[i]
+      const content = deflateSync(Buffer.from(operations.join('\n'), 'latin1'))
+
+      object(pageId,
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.width} ${this.height}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`
+      )
+      object(pageId + 1, [
+        Buffer.from(`<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+        content,
+        Buffer.from('\nendstream', 'latin1')
+      ])
+    })
+
+    const xrefOffset = length
+    const objectCount = offsets.length
+    write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`)
+    for (let id = 1; id < objectCount; id++) {
+      write(`${offsets[id].toString().padStart(10, '0')} 00000 n \n`)
+    }
+    write(`trailer\n<< /Size ${objectCount} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`)
+
+    return Buffer.concat(chunks)
+  }
+}
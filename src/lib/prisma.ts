@@ -73,16 +73,18 @@ export async function withRetry<T>(
   throw lastError!
 }
 
-// Safe transaction wrapper
+// Safe transaction wrapper; long-running batch writes may raise the timeout
+// and should pass retries: 1, since a failed batch would only fail again
 export async function safeTransaction<T>(
-  callback: (prisma: Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>) => Promise<T>
+  callback: (prisma: Omit<PrismaClient, '$connect' | '$disconnect' | '$on' | '$transaction' | '$use' | '$extends'>) => Promise<T>,
+  { timeout = 10000, retries = 3 }: { timeout?: number; retries?: number } = {}
 ): Promise<T> {
   return withRetry(async () => {
     return prisma.$transaction(callback, {
       maxWait: 5000, // 5 seconds
-      timeout: 10000, // 10 seconds
+      timeout, // 10 seconds by default
     }) as Promise<T>
-  })
+  }, retries)
 }
 
 if (process.env.NODE_ENV !== 'production') {
@@ -0,0 +1,165 @@
+/**
+ * Tests for catalog export: options, batching, the three formats and the
+ * round trip back through the import
+ */
+
+import { findExportProducts, parseExportOptions, writeProductExport } from './product-export'
+import { mapImportColumns, mapImportRow, parseCsv, parseXlsx, planProductImport } from './product-import'
+
+const pipe = {
+  id: 'p1',
+  sku: 'SP-2-40',
+  name: 'Steel Pipe 2"',
+  description: 'Black steel pipe, threaded\nboth ends',
+  category: 'STEEL_PIPE',
+  brand: 'Acme',
+  diameter: '2"',
+  length: '21 ft',
+  material: 'Carbon Steel',
+  pressureRating: '300 PSI',
+  temperature: '-20 to 400 F',
+  standards: ['ASTM A53', 'ASME B36.10'],
+  applications: [],
+  basePrice: 1250.5,
+  currency: 'USD',
+  pricePerUnit: 'per length',
+  availability: 'IN_STOCK',
+  images: [{ id: 'i1', url: '/uploads/pipe.jpg' }, { id: 'i2', url: 'https://cdn.example.com/pipe-2.jpg' }],
+  documents: [{ id: 'd1', name: 'Mill Certificate', category: 'CERTIFICATE', url: '/uploads/mtr.pdf' }],
+  bulkDiscounts: [
+    { id: 'b1', minQuantity: 100, discount: 0.05 },
+    { id: 'b2', minQuantity: 500, discount: 0.075 },
+  ],
+}
+
+async function collect(chunks: AsyncIterable<Buffer>): Promise<Buffer> {
+  const parts: Buffer[] = []
+  for await (const chunk of chunks) parts.push(chunk)
+  return Buffer.concat(parts)
+}
+
+async function* batches(...lists: any[][]) {
+  for (const list of lists) yield list
+}
+
+const ALL = parseExportOptions(new URLSearchParams()).columns
+const BASE_URL = 'https://pipes.example.com'
+
+describe('Product export', () => {
+  test('format and columns are read from the query, always keeping the id and SKU', () => {
+    expect(parseExportOptions(new URLSearchParams('format=XLSX&columns=basePrice,name'))).toEqual({
+      format: 'xlsx',
+      columns: ['id', 'sku', 'name', 'basePrice'],
+      errors: [],
+    })
+    expect(ALL).toHaveLength(20)
+    expect(parseExportOptions(new URLSearchParams('format=pdf&columns=name,cost')).errors).toEqual([
+      'format must be one of: csv, xlsx, json',
+      'Unknown columns: cost',
+    ])
+  })
+
+  test('products are read in cursor-paged batches in catalog order', async () => {
+    const page = Array.from({ length: 200 }, (_, i) => ({ id: `p${i}` }))
+    const db = { product: { findMany: jest.fn().mockResolvedValueOnce(page).mockResolvedValueOnce([{ id: 'last' }]) } }
+
+    const read: any[][] = []
+    for await (const batch of findExportProducts(db as any, { AND: [] }, { sort: 'price-asc', rankedIds: null })) read.push(batch)
+
+    expect(read.map(batch => batch.length)).toEqual([200, 1])
+    expect(db.product.findMany.mock.calls[0][0]).toMatchObject({ orderBy: [{ basePrice: 'asc' }, { id: 'asc' }], take: 200 })
+    expect(db.product.findMany.mock.calls[1][0]).toMatchObject({ cursor: { id: 'p199' }, skip: 1 })
+  })
+
+  test('search results keep their relevance order', async () => {
+    const db = { product: { findMany: jest.fn().mockResolvedValue([{ id: 'b' }, { id: 'a' }]) } }
+
+    const read: any[][] = []
+    for await (const batch of findExportProducts(db as any, { AND: [] }, { rankedIds: ['a', 'b'] })) read.push(batch)
+
+    expect(read).toEqual([[{ id: 'a' }, { id: 'b' }]])
+    expect(db.product.findMany.mock.calls[0][0].where).toEqual({ AND: [{ AND: [] }, { id: { in: ['a', 'b'] } }] })
+  })
+
+  test('CSV uses the import formats, absolute links and formula-safe cells', async () => {
+    const csv = (await collect(writeProductExport(batches([pipe]), 'csv', ALL, BASE_URL))).toString('utf8')
+    const [headers, row] = parseCsv(csv)
+    const cell = (column: string) => row[headers.indexOf(column)]
+
+    expect(csv.startsWith('\uFEFFid,sku,name,')).toBe(true)
+    expect(cell('description')).toBe('Black steel pipe, threaded\nboth ends')
+    expect(cell('temperature')).toBe("'-20 to 400 F")
+    expect(cell('standards')).toBe('ASTM A53; ASME B36.10')
+    expect(cell('bulkDiscounts')).toBe('100:5%; 500:7.5%')
+    expect(cell('imageUrls')).toBe('https://pipes.example.com/uploads/pipe.jpg; https://cdn.example.com/pipe-2.jpg')
+    expect(cell('documentLinks')).toBe('https://pipes.example.com/uploads/mtr.pdf')
+  })
+
+  test('cells spreadsheet apps would run as formulas are quoted, and the import strips the quote', async () => {
+    const risky = { ...pipe, name: '=HYPERLINK("https://evil.example")', brand: '@Acme', material: '\tSteel', pricePerUnit: '\rper length' }
+    const csv = (await collect(writeProductExport(batches([risky]), 'csv', ALL, BASE_URL))).toString('utf8')
+    const [headers, row] = parseCsv(csv)
+
+    for (const column of ['name', 'brand', 'material', 'pricePerUnit']) {
+      expect(row[headers.indexOf(column)].startsWith("'")).toBe(true)
+    }
+    const { columns } = mapImportColumns(headers)
+    expect(mapImportRow(row, columns).input).toMatchObject({
+      name: '=HYPERLINK("https://evil.example")',
+      brand: '@Acme',
+      material: '\tSteel',
+      pricePerUnit: '\rper length',
+    })
+  })
+
+  test('JSON keeps structured values for the selected columns', async () => {
+    const { columns } = parseExportOptions(new URLSearchParams('format=json&columns=bulkDiscounts,documentLinks'))
+    const json = JSON.parse((await collect(writeProductExport(batches([pipe], [pipe]), 'json', columns, BASE_URL))).toString('utf8'))
+
+    expect(json).toHaveLength(2)
+    expect(json[0]).toEqual({
+      id: 'p1',
+      sku: 'SP-2-40',
+      bulkDiscounts: [{ minQuantity: 100, discount: 0.05 }, { minQuantity: 500, discount: 0.075 }],
+      documentLinks: [{ name: 'Mill Certificate', category: 'CERTIFICATE', url: 'https://pipes.example.com/uploads/mtr.pdf' }],
+    })
+    expect(JSON.parse((await collect(writeProductExport(batches(), 'json', ALL, BASE_URL))).toString('utf8'))).toEqual([])
+  })
+
+  test('XLSX output is a valid zip holding the same cells', async () => {
+    const xlsx = await collect(writeProductExport(batches([pipe]), 'xlsx', ALL, BASE_URL))
+    const csv = await collect(writeProductExport(batches([pipe]), 'csv', ALL, BASE_URL))
+
+    // Sizes in the central directory match the deflated data
+    const end = xlsx.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]))
+    expect(xlsx.readUInt16LE(end + 10)).toBe(5)
+
+    const sheet = parseXlsx(xlsx)
+    const fromCsv = parseCsv(csv.toString('utf8'))
+    expect(sheet[0]).toEqual(fromCsv[0])
+    // CSV protects formula characters with a quote; XLSX cells are plain text
+    expect(sheet[1]).toEqual(fromCsv[1].map(value => value.replace(/^'/, '')))
+  })
+
+  test.each(['csv', 'xlsx'] as const)('an unedited %s export imports back with no changes', async (format) => {
+    const file = await collect(writeProductExport(batches([pipe]), format, ALL, BASE_URL))
+    const sheet = format === 'csv' ? parseCsv(file.toString('utf8')) : parseXlsx(file)
+    const db = { product: { findMany: jest.fn().mockResolvedValue([pipe]) } }
+
+    const plan = await planProductImport(db as any, sheet)
+
+    expect(plan.ignoredColumns).toEqual([])
+    expect(plan.summary).toMatchObject({ total: 1, unchanged: 1, errors: 0 })
+  })
+
+  test('products without a SKU are matched by id when imported back', async () => {
+    const unlabelled = { ...pipe, sku: null }
+    const file = await collect(writeProductExport(batches([unlabelled]), 'csv', ALL, BASE_URL))
+    const db = { product: { findMany: jest.fn().mockResolvedValue([unlabelled]) } }
+
+    const plan = await planProductImport(db as any, parseCsv(file.toString('utf8')))
+
+    expect(db.product.findMany.mock.calls[0][0].where).toEqual({ OR: [{ id: { in: ['p1'] } }, { sku: { in: [] } }] })
+    expect(plan.summary).toMatchObject({ total: 1, unchanged: 1, errors: 0 })
+  })
+})
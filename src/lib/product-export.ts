@@ -0,0 +1,359 @@
+/**
+ * Catalog export for distributors and ERP loads. Spreadsheet rows use the
+ * import columns and cell formats, so an exported sheet can be edited and
+ * imported back; image URLs and public document links follow as read-only
+ * columns. Products are read in batches and written out as they arrive.
+ */
+
+import { createDeflateRaw } from 'zlib'
+import { pipeline, Readable } from 'stream'
+import type { Prisma } from '@prisma/client'
+import { formatDiscountTiers, IMPORT_COLUMNS, READ_ONLY_COLUMNS } from './product-import'
+import { getProductOrderBy, ProductSortKey } from './query-optimization'
+import { sortByRank } from './product-search'
+
+export const EXPORT_FORMATS = ['csv', 'xlsx', 'json'] as const
+
+export type ExportFormat = typeof EXPORT_FORMATS[number]
+
+export const EXPORT_COLUMNS = [...IMPORT_COLUMNS, ...READ_ONLY_COLUMNS] as const
+
+export type ExportColumn = typeof EXPORT_COLUMNS[number]
+
+// Always exported, so every row can be matched again on import
+export const EXPORT_KEY_COLUMNS: readonly ExportColumn[] = ['id', 'sku']
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  json: 'application/json; charset=utf-8'
+}
+
+// Products read per query while streaming
+const EXPORT_BATCH_SIZE = 200
+
+// Only documents anyone may see leave in an export
+const EXPORT_INCLUDE = {
+  images: { orderBy: { createdAt: 'asc' } },
+  documents: { where: { visibility: 'PUBLIC', supersededById: null }, orderBy: { createdAt: 'asc' } },
+  bulkDiscounts: { orderBy: { minQuantity: 'asc' } }
+} satisfies Prisma.ProductInclude
+
+export type ExportProduct = Prisma.ProductGetPayload<{ include: typeof EXPORT_INCLUDE }>
+
+/**
+ * Read the format and column selection of an export request. Columns come
+ * as a comma-separated list and default to all; the id and SKU are always
+ * included so the file can be imported back.
+ */
+export function parseExportOptions(searchParams: URLSearchParams): {
+  format: ExportFormat
+  columns: ExportColumn[]
+  errors: string[]
+} {
+  const errors: string[] = []
+
+  const format = (searchParams.get('format') || 'csv').toLowerCase() as ExportFormat
+  if (!EXPORT_FORMATS.includes(format)) {
+    errors.push(`format must be one of: ${EXPORT_FORMATS.join(', ')}`)
+  }
+
+  const requested = searchParams.getAll('columns')
+    .flatMap(value => value.split(','))
+    .map(value => value.trim())
+    .filter(Boolean)
+  const unknown = requested.filter(column => !(EXPORT_COLUMNS as readonly string[]).includes(column))
+  if (unknown.length > 0) {
+    errors.push(`Unknown columns: ${unknown.join(', ')}`)
+  }
+
+  // Selected columns keep the export order
+  const columns = requested.length === 0
+    ? [...EXPORT_COLUMNS]
+    : EXPORT_COLUMNS.filter(column => EXPORT_KEY_COLUMNS.includes(column) || requested.includes(column))
+
+  return { format, columns, errors }
+}
+
+/**
+ * Read the products to export in batches, in the catalog's order: by rank
+ * for searches sorted by relevance, otherwise by the sort key
+ */
+export async function* findExportProducts(
+  db: Pick<Prisma.TransactionClient, 'product'>,
+  where: Prisma.ProductWhereInput,
+  { sort, rankedIds }: { sort?: ProductSortKey; rankedIds: string[] | null }
+): AsyncGenerator<ExportProduct[]> {
+  if (rankedIds && (!sort || sort === 'relevance')) {
+    for (let start = 0; start < rankedIds.length; start += EXPORT_BATCH_SIZE) {
+      const ids = rankedIds.slice(start, start + EXPORT_BATCH_SIZE)
+      const products = await db.product.findMany({ where: { AND: [where, { id: { in: ids } }] }, include: EXPORT_INCLUDE })
+      if (products.length > 0) yield sortByRank(products, ids)
+    }
+    return
+  }
+
+  // Paged by cursor; the id breaks ties so no product is skipped or repeated
+  let cursor: string | undefined
+  while (true) {
+    const products = await db.product.findMany({
+      where,
+      include: EXPORT_INCLUDE,
+      orderBy: [getProductOrderBy(sort), { id: 'asc' }],
+      take: EXPORT_BATCH_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {})
+    })
+    if (products.length > 0) yield products
+    if (products.length < EXPORT_BATCH_SIZE) return
+    cursor = products[products.length - 1].id
+  }
+}
+
+/**
+ * A product's value for a column. Relative image and document URLs are
+ * made absolute against the site URL, since exports are used off-site.
+ */
+export function exportValue(product: ExportProduct, column: ExportColumn, baseUrl: string): unknown {
+  const absolute = (url: string) => new URL(url, baseUrl).toString()
+
+  switch (column) {
+    case 'bulkDiscounts':
+      return product.bulkDiscounts.map(({ minQuantity, discount }) => ({ minQuantity, discount }))
+    case 'imageUrls':
+      return product.images.map(image => absolute(image.url))
+    case 'documentLinks':
+      return product.documents.map(document => ({ name: document.name, category: document.category, url: absolute(document.url) }))
+    default:
+      return product[column] ?? null
+  }
+}
+
+/**
+ * A product's value for a column as a spreadsheet cell, in the import format
+ */
+export function exportCell(product: ExportProduct, column: ExportColumn, baseUrl: string): string | number {
+  const value = exportValue(product, column, baseUrl)
+
+  if (column === 'bulkDiscounts') return formatDiscountTiers(value as ExportProduct['bulkDiscounts'])
+  if (column === 'documentLinks') return (value as Array<{ url: string }>).map(document => document.url).join('; ')
+  if (Array.isArray(value)) return value.join('; ')
+  if (typeof value === 'number') return value
+  return value === null ? '' : String(value)
+}
+
+function csvCell(value: string | number): string {
+  if (typeof value === 'number') return String(value)
+  // Spreadsheet apps run cells starting with these as formulas; imports strip the quote again
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+async function* csvExport(batches: AsyncIterable<ExportProduct[]>, columns: ExportColumn[], baseUrl: string) {
+  // The byte order mark lets Excel detect UTF-8
+  yield Buffer.from(`\uFEFF${columns.join(',')}\r\n`)
+  for await (const products of batches) {
+    yield Buffer.from(products
+      .map(product => `${columns.map(column => csvCell(exportCell(product, column, baseUrl))).join(',')}\r\n`)
+      .join(''))
+  }
+}
+
+async function* jsonExport(batches: AsyncIterable<ExportProduct[]>, columns: ExportColumn[], baseUrl: string) {
+  let first = true
+  yield Buffer.from('[')
+  for await (const products of batches) {
+    for (const product of products) {
+      const record = Object.fromEntries(columns.map(column => [column, exportValue(product, column, baseUrl)]))
+      yield Buffer.from(`${first ? '' : ','}\n${JSON.stringify(record)}`)
+      first = false
+    }
+  }
+  yield Buffer.from(first ? ']' : '\n]')
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+function crc32(data: Buffer, crc = 0): number {
+  let c = crc ^ 0xffffffff
+  for (let i = 0; i < data.length; i++) c = CRC_TABLE[(c ^ data[i]) & 0xff] ^ (c >>> 8)
+  return (c ^ 0xffffffff) >>> 0
+}
+
+/**
+ * Write a zip archive as a stream. Entries are deflated as their content
+ * arrives, with sizes and checksums in data descriptors after each entry.
+ */
+async function* zipStream(entries: Array<{ name: string; content: AsyncIterable<Buffer> }>): AsyncGenerator<Buffer> {
+  // General purpose flags: sizes follow the data (bit 3), UTF-8 names (bit 11)
+  const FLAGS = 0x0808
+  const now = new Date()
+  const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2)
+  const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate()
+
+  const written: Array<{ name: Buffer; crc: number; compressedSize: number; size: number; offset: number }> = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name)
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(20, 4)
+    local.writeUInt16LE(FLAGS, 6)
+    local.writeUInt16LE(8, 8)
+    local.writeUInt16LE(dosTime, 10)
+    local.writeUInt16LE(dosDate, 12)
+    local.writeUInt16LE(name.length, 26)
+    yield Buffer.concat([local, name])
+
+    const record = { name, crc: 0, compressedSize: 0, size: 0, offset }
+    const counted = async function* () {
+      for await (const chunk of entry.content) {
+        record.crc = crc32(chunk, record.crc)
+        record.size += chunk.length
+        yield chunk
+      }
+    }
+    // Errors reading the content end the deflate stream, and with it the download
+    const deflate = createDeflateRaw()
+    pipeline(Readable.from(counted()), deflate, () => undefined)
+    for await (const chunk of deflate) {
+      record.compressedSize += chunk.length
+      yield chunk
+    }
+
+    const descriptor = Buffer.alloc(16)
+    descriptor.writeUInt32LE(0x08074b50, 0)
+    descriptor.writeUInt32LE(record.crc, 4)
+    descriptor.writeUInt32LE(record.compressedSize, 8)
+    descriptor.writeUInt32LE(record.size, 12)
+    yield descriptor
+
+    offset += local.length + name.length + record.compressedSize + descriptor.length
+    written.push(record)
+  }
+
+  const directory = Buffer.concat(written.flatMap(record => {
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(20, 4)
+    central.writeUInt16LE(20, 6)
+    central.writeUInt16LE(FLAGS, 8)
+    central.writeUInt16LE(8, 10)
+    central.writeUInt16LE(dosTime, 12)
+    central.writeUInt16LE(dosDate, 14)
+    central.writeUInt32LE(record.crc, 16)
+    central.writeUInt32LE(record.compressedSize, 20)
+    central.writeUInt32LE(record.size, 24)
+    central.writeUInt16LE(record.name.length, 28)
+    central.writeUInt32LE(record.offset, 42)
+    return [central, record.name]
+  }))
+
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(written.length, 8)
+  end.writeUInt16LE(written.length, 10)
+  end.writeUInt32LE(directory.length, 12)
+  end.writeUInt32LE(offset, 16)
+  yield Buffer.concat([directory, end])
+}
+
+function escapeXml(text: string): string {
+  return text
+    // Control characters other than tab and line breaks are not allowed in XML
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// Column letters of a zero-based index, e.g. 27 → AB
+function columnLetters(index: number): string {
+  let letters = ''
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters
+  }
+  return letters
+}
+
+function xlsxRow(rowNumber: number, cells: Array<string | number>): string {
+  const xml = cells.map((value, index) => {
+    const reference = `${columnLetters(index)}${rowNumber}`
+    if (typeof value === 'number') return `<c r="${reference}"><v>${value}</v></c>`
+    if (value === '') return ''
+    return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`
+  })
+  return `<row r="${rowNumber}">${xml.join('')}</row>`
+}
+
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+
+// The workbook parts around the streamed worksheet
+const XLSX_PARTS: Record<string, string> = {
+  '[Content_Types].xml':
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+    '</Types>',
+  '_rels/.rels':
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    '</Relationships>',
+  'xl/workbook.xml':
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    '<sheets><sheet name="Products" sheetId="1" r:id="rId1"/></sheets>' +
+    '</workbook>',
+  'xl/_rels/workbook.xml.rels':
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+    '</Relationships>'
+}
+
+async function* xlsxExport(batches: AsyncIterable<ExportProduct[]>, columns: ExportColumn[], baseUrl: string) {
+  async function* worksheet() {
+    yield Buffer.from(`${XML_DECLARATION}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>`)
+    yield Buffer.from(xlsxRow(1, columns))
+    let rowNumber = 1
+    for await (const products of batches) {
+      yield Buffer.from(products
+        .map(product => xlsxRow(++rowNumber, columns.map(column => exportCell(product, column, baseUrl))))
+        .join(''))
+    }
+    yield Buffer.from('</sheetData></worksheet>')
+  }
+
+  async function* part(xml: string) {
+    yield Buffer.from(XML_DECLARATION + xml)
+  }
+
+  yield* zipStream([
+    ...Object.entries(XLSX_PARTS).map(([name, xml]) => ({ name, content: part(xml) })),
+    { name: 'xl/worksheets/sheet1.xml', content: worksheet() }
+  ])
+}
+
+/**
+ * Write the exported products in a format, as a stream of chunks
+ */
+export function writeProductExport(
+  batches: AsyncIterable<ExportProduct[]>,
+  format: ExportFormat,
+  columns: ExportColumn[],
+  baseUrl: string
+): AsyncGenerator<Buffer> {
+  switch (format) {
+    case 'xlsx':
+      return xlsxExport(batches, columns, baseUrl)
+    case 'json':
+      return jsonExport(batches, columns, baseUrl)
+    default:
+      return csvExport(batches, columns, baseUrl)
+  }
+}
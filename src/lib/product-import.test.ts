@@ -0,0 +1,289 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for spreadsheet product import: CSV/XLSX parsing, column mapping,
+ * the dry-run plan and the commit
+ */
+
+import { deflateRawSync } from 'zlib'
+import { Prisma } from '@prisma/client'
+import {
+  commitProductImport,
+  formatDiscountTiers,
+  importReport,
+  mapImportColumns,
+  mapImportRow,
+  parseCsv,
+  parseDiscountTiers,
+  parseImportFile,
+  parseXlsx,
+  planProductImport,
+  ProductImportConflictError,
+  ProductImportError,
+} from './product-import'
+
+// Minimal zip writer for building XLSX fixtures; the reader does not check CRCs
+function zip(files: Record<string, string>): Buffer {
+  const locals: Buffer[] = []
+  const centrals: Buffer[] = []
+  let offset = 0
+
+  for (const [name, content] of Object.entries(files)) {
+    const data = deflateRawSync(Buffer.from(content))
+    const nameBytes = Buffer.from(name)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(8, 8)
+    local.writeUInt32LE(data.length, 18)
+    local.writeUInt32LE(content.length, 22)
+    local.writeUInt16LE(nameBytes.length, 26)
+    locals.push(local, nameBytes, data)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(8, 10)
+    central.writeUInt32LE(data.length, 20)
+    central.writeUInt32LE(content.length, 24)
+    central.writeUInt16LE(nameBytes.length, 28)
+    central.writeUInt32LE(offset, 42)
+    centrals.push(central, nameBytes)
+
+    offset += local.length + nameBytes.length + data.length
+  }
+
+  const directory = Buffer.concat(centrals)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(Object.keys(files).length, 10)
+  end.writeUInt32LE(directory.length, 12)
+  end.writeUInt32LE(offset, 16)
+  return Buffer.concat([...locals, directory, end])
+}
+
+const HEADERS = 'SKU,Name,Description,Category,Brand,Diameter,Length,Material,Pressure Rating,Temperature,Standards,Base Price,Price Per Unit,Bulk Discounts'
+const NEW_ROW = 'sp-2-40,Steel Pipe 2",Black steel pipe,Steel Pipe,Acme,2",21 ft,Carbon Steel,300 PSI,-20 to 400 F,ASTM A53; ASME B36.10,"$1,250.00",per length,100:5%; 500:10%'
+
+const existingPipe = {
+  id: 'p1',
+  sku: 'PVC-4',
+  name: 'PVC Pipe 4"',
+  description: 'Schedule 40 PVC',
+  category: 'PVC_PIPE',
+  brand: 'Acme',
+  diameter: '4"',
+  length: '20 ft',
+  material: 'PVC',
+  pressureRating: '220 PSI',
+  temperature: '140 F',
+  standards: ['ASTM D1785'],
+  applications: [],
+  basePrice: 42,
+  currency: 'USD',
+  pricePerUnit: 'per length',
+  availability: 'IN_STOCK',
+  bulkDiscounts: [{ id: 'd1', productId: 'p1', variantId: null, minQuantity: 50, discount: 0.05 }],
+}
+
+function mockDb(products: any[] = []) {
+  return {
+    product: {
+      findMany: jest.fn().mockResolvedValue(products),
+      findUnique: jest.fn().mockResolvedValue({ availability: 'IN_STOCK' }),
+      create: jest.fn().mockImplementation(({ data }: any) => ({ id: 'new1', ...data })),
+      update: jest.fn().mockImplementation(({ where, data }: any) => ({ ...existingPipe, id: where.id, ...data })),
+    },
+    bulkDiscount: {
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    inventoryLevel: {
+      findMany: jest.fn().mockResolvedValue([]),
+    },
+    stockMovement: {},
+    quoteProduct: {},
+    $executeRaw: jest.fn(),
+  }
+}
+
+describe('Product import', () => {
+  test('CSV cells may be quoted, and semicolon-delimited files are detected', () => {
+    expect(parseCsv('\uFEFFsku,name\r\nA-1,"Pipe, 2"" OD"\r\nB-2,"Two\nlines"\n')).toEqual([
+      ['sku', 'name'],
+      ['A-1', 'Pipe, 2" OD'],
+      ['B-2', 'Two\nlines'],
+    ])
+    expect(parseCsv('sku;name;price\nA-1;Pipe;1,50')).toEqual([['sku', 'name', 'price'], ['A-1', 'Pipe', '1,50']])
+    expect(() => parseCsv('sku,name\nA-1,"open')).toThrow(ProductImportError)
+  })
+
+  test('the first worksheet of an XLSX workbook is read with shared strings and row numbers', () => {
+    const workbook = zip({
+      'xl/workbook.xml': '<workbook><sheets><sheet name="Products" sheetId="1" r:id="rId3"/></sheets></workbook>',
+      'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId3" Type="worksheet" Target="worksheets/products.xml"/></Relationships>',
+      'xl/sharedStrings.xml': '<sst><si><t>sku</t></si><si><r><t>Pipe &amp; </t></r><r><t xml:space="preserve">Fitting</t></r></si></sst>',
+      'xl/worksheets/products.xml':
+        '<worksheet><sheetData>' +
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="inlineStr"><is><t>price</t></is></c></row>' +
+        '<row r="3"><c r="A3" t="s"><v>1</v></c><c r="C3"><v>0.10000000000000001</v></c></row>' +
+        '</sheetData></worksheet>',
+    })
+
+    expect(parseXlsx(workbook)).toEqual([
+      ['sku', '', 'price'],
+      [],
+      ['Pipe & Fitting', '', '0.1'],
+    ])
+    expect(() => parseXlsx(Buffer.from('not a zip'))).toThrow('The file is not a valid XLSX workbook')
+    expect(() => parseImportFile('catalog.xls', Buffer.alloc(0))).toThrow(ProductImportError)
+  })
+
+  test('headers map to product fields by name or common alias', () => {
+    const { columns, ignored } = mapImportColumns(['Part Number', 'Product Name', 'Unit Price', 'Warehouse', ''])
+    expect(columns).toEqual(['sku', 'name', 'basePrice', null, null])
+    expect(ignored).toEqual(['Warehouse'])
+
+    expect(() => mapImportColumns(['name', 'price'])).toThrow('The sheet needs a SKU or id column to match products')
+    expect(() => mapImportColumns(['sku', 'price', 'Base Price'])).toThrow('More than one column maps to basePrice')
+  })
+
+  test('lists, discount tiers, enum labels and formatted prices are mapped', () => {
+    const { columns } = mapImportColumns(HEADERS.split(','))
+    const { input, errors } = mapImportRow(parseCsv(`${HEADERS}\n${NEW_ROW}`)[1], columns)
+
+    expect(errors).toEqual([])
+    expect(input).toMatchObject({
+      sku: 'sp-2-40',
+      category: 'STEEL_PIPE',
+      standards: ['ASTM A53', 'ASME B36.10'],
+      basePrice: '1250.00',
+      bulkDiscounts: [{ minQuantity: 100, discount: 0.05 }, { minQuantity: 500, discount: 0.1 }],
+    })
+
+    expect(parseDiscountTiers('100+: 0.05 | 250:7.5%')).toEqual({
+      tiers: [{ minQuantity: 100, discount: 0.05 }, { minQuantity: 250, discount: 0.075 }],
+      error: null,
+    })
+    expect(parseDiscountTiers('100 units 5%').error).toBe('Discount tier "100 units 5%" should look like 100:5%')
+  })
+
+  test('discount tiers are written back in the import format', () => {
+    const tiers = [{ minQuantity: 500, discount: 0.1 }, { minQuantity: 100, discount: 0.07 }]
+    expect(formatDiscountTiers(tiers)).toBe('100:7%; 500:10%')
+    expect(parseDiscountTiers(formatDiscountTiers(tiers)).tiers).toEqual([...tiers].reverse())
+  })
+
+  test('the dry-run plan reports new, changed, unchanged and invalid rows', async () => {
+    const db = mockDb([existingPipe])
+    const sheet = parseCsv([
+      HEADERS,
+      NEW_ROW,
+      'pvc-4,,,,,,,,,,,45.50,,50:5%',
+      'PVC-4,,,,,,,,,,,,,',
+      ',Unnamed,,,,,,,,,,,,',
+      'NEW-9,Valve,,Gate Valve,,,,,,,,,,',
+      ',,,,,,,,,,,,,',
+    ].join('\n'))
+
+    const plan = await planProductImport(db as any, sheet)
+
+    expect(db.product.findMany.mock.calls[0][0].where).toEqual({
+      OR: [{ id: { in: [] } }, { sku: { in: ['SP-2-40', 'PVC-4', 'PVC-4', 'NEW-9'] } }],
+    })
+    expect(plan.summary).toEqual({ total: 5, create: 1, update: 1, unchanged: 0, errors: 3 })
+
+    const [created, updated, repeated, missingSku, invalid] = importReport(plan).rows
+    expect(created).toMatchObject({ row: 2, sku: 'SP-2-40', action: 'create' })
+    expect(created.changes?.basePrice).toEqual({ from: null, to: 1250 })
+    // Blank cells leave the product as it is; same discount tiers are not a change
+    expect(updated).toEqual({
+      row: 3,
+      sku: 'PVC-4',
+      name: 'PVC Pipe 4"',
+      action: 'update',
+      changes: { basePrice: { from: 42, to: 45.5 } },
+    })
+    expect(repeated.errors?.map(error => error.code)).toEqual(['DUPLICATE_SKU'])
+    expect(missingSku.errors?.[0]).toMatchObject({ field: 'sku', code: 'REQUIRED_FIELD_MISSING' })
+    // New products need every required field
+    expect(invalid.errors?.map(error => error.field)).toEqual(
+      expect.arrayContaining(['description', 'brand', 'basePrice', 'category'])
+    )
+    expect(invalid.row).toBe(6)
+    expect(created).not.toHaveProperty('data')
+  })
+
+  test('rows with an id update that product, which can give it a SKU', async () => {
+    const unlabelled = { ...existingPipe, id: 'p2', sku: null, name: 'Old Fitting' }
+    const db = mockDb([existingPipe, unlabelled])
+    const plan = await planProductImport(db as any, parseCsv([
+      'id,sku,basePrice',
+      'p2,fit-1,',
+      'p1,,43',
+      'p9,,10',
+      'p1,,44',
+      'p1,FIT-1,',
+    ].join('\n')))
+
+    expect(db.product.findMany.mock.calls[0][0].where).toEqual({
+      OR: [{ id: { in: ['p2', 'p1', 'p9', 'p1', 'p1'] } }, { sku: { in: ['FIT-1', 'FIT-1'] } }],
+    })
+    const [labelled, priced, unknown, repeated, taken] = importReport(plan).rows
+    expect(labelled).toMatchObject({ sku: 'FIT-1', name: 'Old Fitting', action: 'update', changes: { sku: { from: null, to: 'FIT-1' } } })
+    expect(priced).toMatchObject({ sku: 'PVC-4', action: 'update', changes: { basePrice: { from: 42, to: 43 } } })
+    expect(unknown.errors?.map(error => error.code)).toEqual(['UNKNOWN_PRODUCT'])
+    expect(repeated.errors?.map(error => error.code)).toEqual(['DUPLICATE_PRODUCT'])
+    expect(taken.errors?.map(error => error.code)).toEqual(['DUPLICATE_SKU'])
+  })
+
+  test('a SKU already held by another product cannot be given by id', async () => {
+    const unlabelled = { ...existingPipe, id: 'p2', sku: null, name: 'Old Fitting' }
+    const db = mockDb([existingPipe, unlabelled])
+    const plan = await planProductImport(db as any, parseCsv('id,sku\np2,PVC-4'))
+
+    expect(plan.rows[0].errors).toEqual([
+      { field: 'sku', message: 'SKU PVC-4 is already used by PVC Pipe 4"', code: 'DUPLICATE_SKU' },
+    ])
+  })
+
+  test('sheets without rows, or with too many, are refused', async () => {
+    const db = mockDb()
+    await expect(planProductImport(db as any, [['sku', 'name'], ['', '']])).rejects.toThrow('The sheet has no product rows')
+
+    const rows = Array.from({ length: 501 }, (_, i) => [`SKU-${i}`])
+    await expect(planProductImport(db as any, [['sku'], ...rows])).rejects.toThrow('Too many rows. Maximum is 500 per import')
+  })
+
+  test('committing creates new SKUs and updates changed products, replacing their discount tiers', async () => {
+    const db = mockDb([existingPipe])
+    const plan = await planProductImport(db as any, parseCsv(`${HEADERS}\n${NEW_ROW}\nPVC-4,,,,,,,,,,,,,25:3%`))
+
+    const written = await commitProductImport(db as any, plan)
+
+    expect(db.product.create.mock.calls[0][0].data).toMatchObject({
+      sku: 'SP-2-40',
+      basePrice: 1250,
+      bulkDiscounts: { create: [{ minQuantity: 100, discount: 0.05 }, { minQuantity: 500, discount: 0.1 }] },
+    })
+    expect(db.product.update).toHaveBeenCalledWith({ where: { id: 'p1' }, data: { sku: 'PVC-4' } })
+    expect(db.bulkDiscount.deleteMany).toHaveBeenCalledWith({ where: { productId: 'p1' } })
+    expect(db.bulkDiscount.createMany).toHaveBeenCalledWith({ data: [{ minQuantity: 25, discount: 0.03, productId: 'p1' }] })
+    expect(db.$executeRaw).toHaveBeenCalledTimes(2)
+    expect(written.map(({ action, before }) => [action, before?.id ?? null])).toEqual([['create', null], ['update', 'p1']])
+  })
+
+  test('a SKU taken by another write during the commit is reported as a conflict', async () => {
+    const db = mockDb()
+    db.product.create.mockRejectedValue(
+      new Prisma.PrismaClientKnownRequestError('Unique constraint failed on the fields: (`sku`)', { code: 'P2002', clientVersion: 'test' })
+    )
+    const plan = await planProductImport(db as any, parseCsv(`${HEADERS}\n${NEW_ROW}`))
+
+    const error = await commitProductImport(db as any, plan).catch(error => error)
+
+    expect(error).toBeInstanceOf(ProductImportConflictError)
+    expect(error.sku).toBe('SP-2-40')
+  })
+})
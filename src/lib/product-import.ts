@@ -0,0 +1,613 @@
+/**
+ * Bulk product import from supplier spreadsheets. CSV and XLSX files are
+ * read here without third-party parsers; each row is mapped to ProductData,
+ * checked with the same validation as a single product write, and matched to
+ * an existing product by the id exports include, or else by SKU. The
+ * resulting plan is both the dry-run report and what a commit writes.
+ */
+
+import { inflateRawSync } from 'zlib'
+import type { Readable } from 'stream'
+import { Prisma } from '@prisma/client'
+import type { BulkDiscount, Product } from '@prisma/client'
+import { prepareProductData, BulkDiscountData, ProductData, ValidationError } from './product-validation'
+import { refreshProductSearchIndex } from './product-search'
+import { refreshProductAvailability } from './inventory'
+
+type ImportClient = Pick<
+  Prisma.TransactionClient,
+  'product' | 'productVariant' | 'bulkDiscount' | 'inventoryLevel' | 'stockMovement' | 'quoteProduct' | '$executeRaw'
+>
+
+// Spreadsheet columns, in the order exports write them. The id is only used
+// to match rows, so products without a SKU can be exported and imported back.
+export const IMPORT_COLUMNS = [
+  'id', 'sku', 'name', 'description', 'category', 'brand', 'diameter', 'length', 'material',
+  'pressureRating', 'temperature', 'standards', 'applications', 'basePrice', 'currency',
+  'pricePerUnit', 'availability', 'bulkDiscounts'
+] as const
+
+export type ImportColumn = typeof IMPORT_COLUMNS[number]
+
+// Columns exports add for reference; imports skip them without reporting them
+export const READ_ONLY_COLUMNS = ['imageUrls', 'documentLinks'] as const
+
+// Other headers suppliers commonly use, compared without case, spaces or punctuation
+const COLUMN_ALIASES: Record<string, ImportColumn> = {
+  partnumber: 'sku',
+  productname: 'name',
+  price: 'basePrice',
+  unitprice: 'basePrice',
+  unit: 'pricePerUnit',
+  priceunit: 'pricePerUnit',
+  pressure: 'pressureRating',
+  temp: 'temperature',
+  standard: 'standards',
+  application: 'applications',
+  discounts: 'bulkDiscounts',
+  discounttiers: 'bulkDiscounts'
+}
+
+export const MAX_IMPORT_FILE_SIZE = 5 * 1024 * 1024 // 5MB
+export const MAX_IMPORT_ROWS = 500
+
+// Large imports write many rows in one transaction
+export const IMPORT_TRANSACTION_TIMEOUT = 60000
+
+// Zip entries are inflated in memory, so a small file must not expand without limit
+const MAX_XLSX_ENTRY_SIZE = 50 * 1024 * 1024
+
+// Separates the items of list cells and discount tiers
+const LIST_SEPARATOR = /[;|\n]/
+
+// Thrown for files that cannot be read as a product sheet; routes answer these with 400
+export class ProductImportError extends Error {}
+
+// Thrown when another write takes a SKU between the check and the import; routes answer these with 409
+export class ProductImportConflictError extends Error {
+  constructor(public sku: string) {
+    super(`SKU ${sku} was taken by another product during the import; nothing was imported`)
+  }
+}
+
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'error'
+
+export interface ImportRowResult {
+  // Spreadsheet row number; the header is row 1
+  row: number
+  sku: string | null
+  name: string | null
+  action: ImportAction
+  // Imported fields that differ from the current product, or that a new product gets
+  changes?: Record<string, { from: unknown; to: unknown }>
+  errors?: ValidationError[]
+}
+
+interface PlannedRow extends ImportRowResult {
+  data?: ProductData
+  existing?: Product & { bulkDiscounts: BulkDiscount[] }
+}
+
+export interface ImportPlan {
+  summary: { total: number; create: number; update: number; unchanged: number; errors: number }
+  // Headers that do not match an import column
+  ignoredColumns: string[]
+  rows: PlannedRow[]
+}
+
+/**
+ * Read an uploaded file into memory, refusing files over the import limit
+ */
+export async function readImportUpload(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of stream) {
+    size += chunk.length
+    if (size > MAX_IMPORT_FILE_SIZE) {
+      throw new ProductImportError(`File is too large. Maximum size is ${MAX_IMPORT_FILE_SIZE / 1024 / 1024}MB`)
+    }
+    chunks.push(Buffer.from(chunk))
+  }
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Split CSV text into rows of cells. Handles quoted cells with embedded
+ * delimiters, quotes and line breaks, and files saved with a BOM. The
+ * delimiter is whichever of comma, semicolon or tab the header uses most.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '')
+  const header = input.slice(0, input.search(/\r?\n|$/))
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    header.split(candidate).length > header.split(best).length ? candidate : best
+  )
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (quoted) throw new ProductImportError('The CSV file has an unterminated quoted cell')
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+  return rows
+}
+
+// Reads entries of a zip archive (an XLSX file) by name
+function openZip(buffer: Buffer): (name: string) => Buffer | null {
+  const invalid = () => new ProductImportError('The file is not a valid XLSX workbook')
+
+  // The end of central directory record sits in the last 64KB, before an optional comment
+  let end = -1
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      end = i
+      break
+    }
+  }
+  if (end === -1) throw invalid()
+
+  const entries = new Map<string, { method: number; size: number; offset: number }>()
+  let position = buffer.readUInt32LE(end + 16)
+  for (let count = buffer.readUInt16LE(end + 10); count > 0; count--) {
+    if (position + 46 > buffer.length || buffer.readUInt32LE(position) !== 0x02014b50) throw invalid()
+    const nameLength = buffer.readUInt16LE(position + 28)
+    const name = buffer.toString('utf8', position + 46, position + 46 + nameLength)
+    entries.set(name, {
+      method: buffer.readUInt16LE(position + 10),
+      size: buffer.readUInt32LE(position + 20),
+      offset: buffer.readUInt32LE(position + 42)
+    })
+    position += 46 + nameLength + buffer.readUInt16LE(position + 30) + buffer.readUInt16LE(position + 32)
+  }
+
+  return (name) => {
+    const entry = entries.get(name)
+    if (!entry) return null
+    if (entry.offset + 30 > buffer.length || buffer.readUInt32LE(entry.offset) !== 0x04034b50) throw invalid()
+    const start = entry.offset + 30 + buffer.readUInt16LE(entry.offset + 26) + buffer.readUInt16LE(entry.offset + 28)
+    const data = buffer.subarray(start, start + entry.size)
+    if (entry.method === 0) return data
+    if (entry.method !== 8) throw invalid()
+    try {
+      return inflateRawSync(data, { maxOutputLength: MAX_XLSX_ENTRY_SIZE })
+    } catch {
+      throw invalid()
+    }
+  }
+}
+
+const XML_ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" }
+
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      return String.fromCodePoint(code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10))
+    }
+    return XML_ENTITIES[code.toLowerCase()] ?? entity
+  })
+}
+
+function xmlAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {}
+  for (const match of Array.from(tag.matchAll(/([\w:]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g))) {
+    attributes[match[1]] = decodeXml(match[2] ?? match[3])
+  }
+  return attributes
+}
+
+// Text of the <t> elements in a shared or inline string, leaving out phonetic hints
+function xmlText(xml: string): string {
+  const text = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '')
+  return Array.from(text.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)).map(match => decodeXml(match[1])).join('')
+}
+
+// Zero-based column index of a cell reference such as "AB12"
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? ''
+  return letters.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1
+}
+
+/**
+ * Read the first worksheet of an XLSX workbook into rows of cells. Numbers
+ * come back as their shortest decimal form and booleans as TRUE/FALSE; row
+ * numbers are kept, so blank rows stay in place as empty arrays.
+ */
+export function parseXlsx(buffer: Buffer): string[][] {
+  const read = openZip(buffer)
+  const invalid = () => new ProductImportError('The file is not a valid XLSX workbook')
+
+  const sharedStrings = Array.from((read('xl/sharedStrings.xml')?.toString('utf8') ?? '').matchAll(/<si>([\s\S]*?)<\/si>|<si\/>/g))
+    .map(match => xmlText(match[1] ?? ''))
+
+  // The first sheet in workbook order, found through the workbook relationships
+  let sheetPath = 'xl/worksheets/sheet1.xml'
+  const workbook = read('xl/workbook.xml')?.toString('utf8')
+  const relationships = read('xl/_rels/workbook.xml.rels')?.toString('utf8')
+  const firstSheet = workbook?.match(/<sheet\b[^>]*>/)?.[0]
+  if (firstSheet && relationships) {
+    const id = xmlAttributes(firstSheet)['r:id']
+    const target = Array.from(relationships.matchAll(/<Relationship\b[^>]*>/g))
+      .map(match => xmlAttributes(match[0]))
+      .find(relationship => relationship.Id === id)?.Target
+    if (target) sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`
+  }
+
+  const sheet = read(sheetPath)?.toString('utf8')
+  if (!sheet) throw invalid()
+
+  const rows: string[][] = []
+  for (const rowMatch of Array.from(sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g))) {
+    const rowNumber = Number(xmlAttributes(rowMatch[1]).r) || rows.length + 1
+    const cells: string[] = []
+
+    for (const cellMatch of Array.from((rowMatch[2] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g))) {
+      const attributes = xmlAttributes(cellMatch[1])
+      const content = cellMatch[2] ?? ''
+      const raw = content.match(/<v>([\s\S]*?)<\/v>/)?.[1]
+      const value = raw === undefined ? '' : decodeXml(raw)
+
+      let text: string
+      switch (attributes.t) {
+        case 's':
+          text = sharedStrings[Number(value)] ?? ''
+          break
+        case 'inlineStr':
+          text = xmlText(content)
+          break
+        case 'b':
+          text = value === '1' ? 'TRUE' : 'FALSE'
+          break
+        case 'e':
+          text = ''
+          break
+        case 'str':
+          text = value
+          break
+        default:
+          // Floating point noise such as 0.10000000000000001 is dropped
+          text = value !== '' && Number.isFinite(Number(value)) ? String(Number(value)) : value
+      }
+
+      const index = attributes.r ? columnIndex(attributes.r) : cells.length
+      while (cells.length < index) cells.push('')
+      cells[index] = text
+    }
+
+    while (rows.length < rowNumber - 1) rows.push([])
+    rows[rowNumber - 1] = cells
+  }
+  return rows
+}
+
+/**
+ * Read a CSV or XLSX upload into rows of cells, by file extension
+ */
+export function parseImportFile(filename: string, data: Buffer): string[][] {
+  const extension = filename.toLowerCase().split('.').pop()
+  if (extension === 'csv' || extension === 'txt') return parseCsv(data.toString('utf8'))
+  if (extension === 'xlsx') return parseXlsx(data)
+  if (extension === 'xls') throw new ProductImportError('Legacy .xls files are not supported; save the sheet as .xlsx or .csv')
+  throw new ProductImportError('Upload a .csv or .xlsx file')
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+/**
+ * Match header cells to import columns. Returns the column for each
+ * position, null where a header is not recognized.
+ */
+export function mapImportColumns(headers: string[]): { columns: Array<ImportColumn | null>; ignored: string[] } {
+  const byName = new Map<string, ImportColumn>([
+    ...IMPORT_COLUMNS.map(column => [normalizeHeader(column), column] as const),
+    ...Object.entries(COLUMN_ALIASES)
+  ])
+
+  const seen = new Set<ImportColumn>()
+  const ignored: string[] = []
+  const columns = headers.map(header => {
+    const column = byName.get(normalizeHeader(header)) ?? null
+    if (!column) {
+      const readOnly = READ_ONLY_COLUMNS.some(name => normalizeHeader(name) === normalizeHeader(header))
+      if (header.trim() && !readOnly) ignored.push(header.trim())
+      return null
+    }
+    if (seen.has(column)) throw new ProductImportError(`More than one column maps to ${column}`)
+    seen.add(column)
+    return column
+  })
+
+  if (!seen.has('sku') && !seen.has('id')) {
+    throw new ProductImportError('The sheet needs a SKU or id column to match products')
+  }
+  return { columns, ignored }
+}
+
+/**
+ * Parse discount tiers written as `minQuantity:discount` pairs separated by
+ * semicolons, e.g. `100:5%; 500:0.1`. Discounts are percentages or fractions.
+ */
+export function parseDiscountTiers(value: string): { tiers: BulkDiscountData[]; error: string | null } {
+  const tiers: BulkDiscountData[] = []
+  for (const tier of value.split(LIST_SEPARATOR).map(part => part.trim()).filter(Boolean)) {
+    const match = tier.match(/^(\d+)\+?\s*:\s*(\d*\.?\d+)\s*(%?)$/)
+    if (!match) {
+      return { tiers: [], error: `Discount tier "${tier}" should look like 100:5%` }
+    }
+    const discount = Number(match[2])
+    tiers.push({ minQuantity: Number(match[1]), discount: match[3] ? discount / 100 : discount })
+  }
+  return { tiers, error: null }
+}
+
+/**
+ * Write discount tiers in the import format, e.g. `100:5%; 500:10%`
+ */
+export function formatDiscountTiers(tiers: BulkDiscountData[]): string {
+  return [...tiers]
+    .sort((a, b) => a.minQuantity - b.minQuantity)
+    .map(tier => `${tier.minQuantity}:${Number((tier.discount * 100).toFixed(4))}%`)
+    .join('; ')
+}
+
+/**
+ * Turn one sheet row into product input. Blank cells are left out, so
+ * updates keep the current value; prices may carry currency symbols and
+ * thousands separators, and enum cells may be written as labels. The quote
+ * exports put before formula characters is removed.
+ */
+export function mapImportRow(cells: string[], columns: Array<ImportColumn | null>): {
+  input: Record<string, unknown>
+  errors: ValidationError[]
+} {
+  const input: Record<string, unknown> = {}
+  const errors: ValidationError[] = []
+
+  columns.forEach((column, index) => {
+    const value = cells[index]?.trim().replace(/^'(?=[=+\-@\t\r])/, '') ?? ''
+    if (!column || value === '') return
+
+    switch (column) {
+      case 'standards':
+      case 'applications':
+        input[column] = value.split(LIST_SEPARATOR).map(item => item.trim()).filter(Boolean)
+        break
+      case 'bulkDiscounts': {
+        const { tiers, error } = parseDiscountTiers(value)
+        if (error) errors.push({ field: column, message: error, code: 'INVALID_BULK_DISCOUNTS' })
+        else input[column] = tiers
+        break
+      }
+      case 'category':
+      case 'availability':
+        input[column] = value.toUpperCase().replace(/[\s-]+/g, '_')
+        break
+      case 'basePrice':
+        input[column] = value.replace(/[$€£,\s]/g, '')
+        break
+      default:
+        input[column] = value
+    }
+  })
+
+  return { input, errors }
+}
+
+// Discount tiers compared by value, ignoring ids and order
+function comparable(field: string, value: unknown): string {
+  if (field === 'bulkDiscounts' && Array.isArray(value)) {
+    return JSON.stringify(
+      value
+        .map(({ minQuantity, discount }) => ({ minQuantity, discount }))
+        .sort((a, b) => a.minQuantity - b.minQuantity)
+    )
+  }
+  return JSON.stringify(value ?? null)
+}
+
+function diffImportedFields(existing: Record<string, any> | undefined, data: ProductData) {
+  const changes: Record<string, { from: unknown; to: unknown }> = {}
+  for (const field of IMPORT_COLUMNS) {
+    const to = (data as Record<string, unknown>)[field]
+    if (to === undefined) continue
+    const from = existing ? existing[field] : null
+    if (comparable(field, from) !== comparable(field, to)) {
+      changes[field] = {
+        from: field === 'bulkDiscounts' && Array.isArray(from) ? JSON.parse(comparable(field, from)) : from ?? null,
+        to
+      }
+    }
+  }
+  return changes
+}
+
+/**
+ * Validate every row of a sheet and match it to a product by id, or by SKU
+ * when the id is blank. Rows for new SKUs must have every required field;
+ * rows for existing products only change the cells that are filled in.
+ */
+export async function planProductImport(db: ImportClient, sheet: string[][]): Promise<ImportPlan> {
+  const [headers = [], ...body] = sheet
+  const { columns, ignored } = mapImportColumns(headers)
+
+  const records = body
+    .map((cells, index) => ({ row: index + 2, cells }))
+    .filter(({ cells }) => cells.some(cell => cell.trim() !== ''))
+  if (records.length === 0) throw new ProductImportError('The sheet has no product rows')
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new ProductImportError(`Too many rows. Maximum is ${MAX_IMPORT_ROWS} per import`)
+  }
+
+  const mapped = records.map(({ row, cells }) => {
+    const { input: { id, ...input }, errors } = mapImportRow(cells, columns)
+    const sku = typeof input.sku === 'string' ? input.sku.toUpperCase() : null
+    return { row, id: typeof id === 'string' ? id : null, input, errors, sku }
+  })
+
+  const ids = mapped.flatMap(({ id }) => (id ? [id] : []))
+  const skus = mapped.flatMap(({ sku }) => (sku ? [sku] : []))
+  const existing = await db.product.findMany({
+    where: { OR: [{ id: { in: ids } }, { sku: { in: skus } }] },
+    include: { bulkDiscounts: true }
+  })
+  const byId = new Map(existing.map(product => [product.id, product]))
+  const bySku = new Map(existing.map(product => [product.sku, product]))
+
+  const seenIds = new Set<string>()
+  const seenSkus = new Set<string>()
+  const rows = mapped.map(({ row, id, input, errors, sku }): PlannedRow => {
+    // Rows with an id update that product, which may also set or change its SKU
+    const product = id ? byId.get(id) : sku ? bySku.get(sku) : undefined
+    const owner = sku ? bySku.get(sku) : undefined
+    const rowErrors = [...errors]
+
+    if (id && !product) {
+      rowErrors.push({ field: 'id', message: `No product has id ${id}`, code: 'UNKNOWN_PRODUCT' })
+    } else if (!id && !sku) {
+      rowErrors.push({ field: 'sku', message: 'SKU is required to import a row', code: 'REQUIRED_FIELD_MISSING' })
+    } else if (sku && seenSkus.has(sku)) {
+      rowErrors.push({ field: 'sku', message: `SKU ${sku} appears on an earlier row`, code: 'DUPLICATE_SKU' })
+    } else if (product && seenIds.has(product.id)) {
+      rowErrors.push({ field: 'id', message: `${product.name} appears on an earlier row`, code: 'DUPLICATE_PRODUCT' })
+    } else if (product && owner && owner.id !== product.id) {
+      rowErrors.push({ field: 'sku', message: `SKU ${sku} is already used by ${owner.name}`, code: 'DUPLICATE_SKU' })
+    }
+    if (product) seenIds.add(product.id)
+    if (sku) seenSkus.add(sku)
+
+    // A row with an unknown id is meant as an update, so it is not checked as a new product
+    const validation = prepareProductData(input, Boolean(product || id))
+    rowErrors.push(...validation.errors)
+
+    const name = (input.name as string | undefined) ?? product?.name ?? null
+    if (rowErrors.length > 0) {
+      return { row, sku: sku ?? product?.sku ?? null, name, action: 'error', errors: rowErrors }
+    }
+
+    const changes = diffImportedFields(product, validation.data)
+    const action = !product ? 'create' : Object.keys(changes).length > 0 ? 'update' : 'unchanged'
+    return { row, sku: sku ?? product?.sku ?? null, name, action, changes, data: validation.data, existing: product }
+  })
+
+  const count = (action: ImportAction) => rows.filter(row => row.action === action).length
+  return {
+    summary: {
+      total: rows.length,
+      create: count('create'),
+      update: count('update'),
+      unchanged: count('unchanged'),
+      errors: count('error')
+    },
+    ignoredColumns: ignored,
+    rows
+  }
+}
+
+/**
+ * The plan as reported to the client, without the data to be written
+ */
+export function importReport(plan: ImportPlan): Omit<ImportPlan, 'rows'> & { rows: ImportRowResult[] } {
+  return {
+    ...plan,
+    rows: plan.rows.map(({ data, existing, ...row }) => row)
+  }
+}
+
+/**
+ * Write the new and changed rows of a plan without errors. Discount tiers
+ * are replaced when the sheet has them. Returns each product written with
+ * its state before, for the audit log. A SKU taken by a concurrent write
+ * raises ProductImportConflictError.
+ */
+export async function commitProductImport(db: ImportClient, plan: ImportPlan) {
+  const written: Array<{ action: 'create' | 'update'; before: PlannedRow['existing'] | null; after: Product }> = []
+
+  for (const row of plan.rows) {
+    if ((row.action !== 'create' && row.action !== 'update') || !row.data) continue
+    try {
+      written.push(await commitImportRow(db, row))
+    } catch (error) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ProductImportConflictError(row.sku ?? '')
+      }
+      throw error
+    }
+  }
+
+  return written
+}
+
+async function commitImportRow(db: ImportClient, row: PlannedRow) {
+  const { bulkDiscounts, ...fields } = row.data!
+
+  if (row.action === 'create') {
+    const created = await db.product.create({
+      data: {
+        ...fields,
+        bulkDiscounts: bulkDiscounts ? { create: bulkDiscounts } : undefined
+      } as Prisma.ProductCreateInput
+    })
+    await refreshProductSearchIndex(db, created.id)
+    return { action: 'create' as const, before: null, after: created }
+  }
+
+  const productId = row.existing!.id
+  let updated = await db.product.update({ where: { id: productId }, data: fields as Prisma.ProductUpdateInput })
+  if (bulkDiscounts) {
+    await db.bulkDiscount.deleteMany({ where: { productId } })
+    await db.bulkDiscount.createMany({ data: bulkDiscounts.map(discount => ({ ...discount, productId })) })
+  }
+  await refreshProductSearchIndex(db, productId)
+  // Stocked products keep the availability their stock calls for
+  const availability = await refreshProductAvailability(db, productId)
+  if (availability && availability !== updated.availability) updated = { ...updated, availability }
+  return { action: 'update' as const, before: row.existing!, after: updated }
+}
+
+/**
+ * Why a product cannot take the given SKU, or null when it is free
+ */
+export async function checkProductSku(
+  db: Pick<Prisma.TransactionClient, 'product'>,
+  productId: string | null,
+  sku: string | null | undefined
+): Promise<string | null> {
+  if (!sku) return null
+  const taken = await db.product.findFirst({
+    where: { sku, ...(productId ? { id: { not: productId } } : {}) },
+    select: { name: true }
+  })
+  return taken ? `SKU ${sku} is already used by ${taken.name}` : null
+}
@@ -0,0 +1,133 @@
+/**
+ * Tests for related products, suggestions and frequently-quoted items
+ */
+
+import {
+  checkProductRelations,
+  findSimilarProducts,
+  getRelatedProducts,
+  saveProductRelations,
+  scoreSimilarity,
+} from './product-relations'
+
+const summary = (id: string, fields: Record<string, unknown> = {}) => ({
+  id,
+  name: `Product ${id}`,
+  category: 'STEEL_PIPE',
+  diameter: '2 inch',
+  material: 'Carbon Steel',
+  basePrice: 10,
+  pricePerUnit: 'piece',
+  availability: 'IN_STOCK',
+  images: [],
+  ...fields,
+})
+
+const pipe = { id: 'pipe', material: 'Carbon Steel', diameter: '2 inch', nominalSize: 2, standards: ['ASTM A53', 'ASME B36.10'] }
+
+function mockDb() {
+  return {
+    product: {
+      findUnique: jest.fn().mockResolvedValue(pipe),
+      findMany: jest.fn().mockResolvedValue([]),
+    },
+    productRelation: {
+      findMany: jest.fn().mockResolvedValue([]),
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+    quoteProduct: {
+      groupBy: jest.fn().mockResolvedValue([]),
+    },
+  }
+}
+
+describe('Product Relations', () => {
+  test('suggestions need two of material, size and standards to match', () => {
+    const candidate = { material: 'carbon steel', diameter: '2"', nominalSize: 2, standards: ['ASTM A53'] }
+
+    expect(scoreSimilarity(pipe, candidate)).toBe(5)
+    expect(scoreSimilarity(pipe, { ...candidate, standards: [] })).toBe(4)
+    expect(scoreSimilarity(pipe, { ...candidate, nominalSize: 4, standards: [] })).toBe(0)
+    // Unparsed sizes fall back to comparing the text
+    expect(scoreSimilarity({ ...pipe, nominalSize: null }, { ...candidate, nominalSize: null, diameter: '2 Inch', standards: [] }))
+      .toBe(4)
+  })
+
+  test('similar products are ranked by score', async () => {
+    const db = mockDb()
+    db.product.findMany.mockResolvedValue([
+      summary('a', { nominalSize: 2, standards: [] }),
+      summary('b', { nominalSize: 2, standards: ['ASTM A53', 'ASME B36.10'] }),
+      summary('c', { material: 'PVC', nominalSize: 4, standards: ['ASTM A53'] }),
+    ])
+
+    const similar = await findSimilarProducts(db as any, pipe)
+
+    expect(similar.map(product => product.id)).toEqual(['b', 'a'])
+    expect(similar[0]).not.toHaveProperty('standards')
+    expect(db.product.findMany.mock.calls[0][0].where.id).toEqual({ not: 'pipe' })
+  })
+
+  test('linked items are grouped, and linked fittings list the pipe too', async () => {
+    const db = mockDb()
+    db.productRelation.findMany.mockResolvedValue([
+      { productId: 'valve', relatedProductId: 'pipe', type: 'VALVE', product: summary('valve'), relatedProduct: summary('pipe') },
+      { productId: 'pipe', relatedProductId: 'elbow', type: 'FITTING', product: summary('pipe'), relatedProduct: summary('elbow') },
+      { productId: 'pipe', relatedProductId: 'old', type: 'FITTING', product: summary('pipe'), relatedProduct: summary('old', { availability: 'DISCONTINUED' }) },
+      { productId: 'pipe', relatedProductId: 'xs', type: 'UPGRADE', product: summary('pipe'), relatedProduct: summary('xs') },
+    ])
+    db.quoteProduct.groupBy.mockResolvedValue([{ productId: 'tape' }, { productId: 'elbow' }])
+    db.product.findMany.mockResolvedValue([summary('elbow'), summary('tape')])
+
+    const related = await getRelatedProducts(db as any, 'pipe')
+
+    expect(related?.suggested).toBe(false)
+    expect(related?.compatible.map(item => [item.id, item.relationType])).toEqual([['elbow', 'FITTING'], ['valve', 'VALVE']])
+    expect(related?.alternatives.map(item => item.id)).toEqual(['xs'])
+    // Ordered by how often they were quoted together
+    expect(related?.frequentlyQuotedWith.map(item => item.id)).toEqual(['tape', 'elbow'])
+    expect(db.quoteProduct.groupBy.mock.calls[0][0].where).toEqual({
+      productId: { not: 'pipe' },
+      quote: { products: { some: { productId: 'pipe' } } },
+    })
+  })
+
+  test('products without links get suggestions; unknown products get null', async () => {
+    const db = mockDb()
+    db.product.findMany.mockResolvedValue([summary('coupling', { nominalSize: 2, standards: ['ASTM A53'] })])
+
+    const related = await getRelatedProducts(db as any, 'pipe')
+
+    expect(related).toMatchObject({ suggested: true, alternatives: [], frequentlyQuotedWith: [] })
+    expect(related?.compatible.map(item => item.id)).toEqual(['coupling'])
+
+    db.product.findUnique.mockResolvedValue(null)
+    expect(await getRelatedProducts(db as any, 'missing')).toBeNull()
+  })
+
+  test('relations must point at other existing products and are saved in order', async () => {
+    const db = mockDb()
+
+    expect(await checkProductRelations(db as any, 'pipe', [{ relatedProductId: 'pipe', type: 'FITTING' }]))
+      .toBe('A product cannot be related to itself')
+
+    db.product.findMany.mockResolvedValue([{ id: 'elbow' }])
+    expect(await checkProductRelations(db as any, null, [
+      { relatedProductId: 'elbow', type: 'FITTING' },
+      { relatedProductId: 'gone', type: 'VALVE' },
+    ])).toBe('Related products not found: gone')
+
+    await saveProductRelations(db as any, 'pipe', [
+      { relatedProductId: 'elbow', type: 'FITTING' },
+      { relatedProductId: 'xs', type: 'UPGRADE' },
+    ])
+    expect(db.productRelation.deleteMany).toHaveBeenCalledWith({ where: { productId: 'pipe' } })
+    expect(db.productRelation.createMany).toHaveBeenCalledWith({
+      data: [
+        { relatedProductId: 'elbow', type: 'FITTING', productId: 'pipe', position: 0 },
+        { relatedProductId: 'xs', type: 'UPGRADE', productId: 'pipe', position: 1 },
+      ],
+    })
+  })
+})
@@ -0,0 +1,239 @@
+/**
+ * Related products: the fittings, couplings and valves that go with a product,
+ * its substitutes and upgrades, and what customers quote alongside it. The
+ * labels and similarity scoring are safe to import from client components.
+ */
+
+import type { Prisma, ProductRelationType } from '@prisma/client'
+import type { ProductRelationData } from './product-validation'
+
+type RelationClient = Pick<Prisma.TransactionClient, 'product' | 'productRelation' | 'quoteProduct'>
+
+export const RELATION_TYPE_LABELS: Record<ProductRelationType, string> = {
+  FITTING: 'Fitting',
+  COUPLING: 'Coupling',
+  VALVE: 'Valve',
+  SUBSTITUTE: 'Substitute',
+  UPGRADE: 'Upgrade'
+}
+
+// Relation types listed as compatible fittings
+export const COMPATIBLE_RELATION_TYPES: ProductRelationType[] = ['FITTING', 'COUPLING', 'VALVE']
+
+// Relation types that hold both ways round, so the related product lists this one too
+const SYMMETRIC_RELATION_TYPES: ProductRelationType[] = [...COMPATIBLE_RELATION_TYPES, 'SUBSTITUTE']
+
+// Most items in the suggested and frequently-quoted sections
+export const RELATED_PRODUCT_LIMIT = 4
+
+// Products scored when looking for suggestions
+const SIMILAR_CANDIDATE_LIMIT = 50
+
+export const RELATED_PRODUCT_SELECT = {
+  id: true,
+  name: true,
+  category: true,
+  diameter: true,
+  material: true,
+  basePrice: true,
+  pricePerUnit: true,
+  availability: true,
+  images: { take: 1, orderBy: { createdAt: 'asc' } }
+} as const
+
+export type RelatedProductSummary = Prisma.ProductGetPayload<{ select: typeof RELATED_PRODUCT_SELECT }> & {
+  relationType?: ProductRelationType
+}
+
+export interface RelatedProductsResult {
+  compatible: RelatedProductSummary[]
+  alternatives: RelatedProductSummary[]
+  frequentlyQuotedWith: RelatedProductSummary[]
+  suggested: boolean
+}
+
+interface SimilarityFields {
+  material: string
+  diameter: string
+  nominalSize?: number | null
+  standards: string[]
+}
+
+/**
+ * How good a suggestion a candidate is for a product. Zero unless at least
+ * two of material, size and standards match; more shared standards rank higher.
+ */
+export function scoreSimilarity(product: SimilarityFields, candidate: SimilarityFields): number {
+  const normalize = (value: string) => value.trim().toLowerCase()
+
+  const sameMaterial = normalize(product.material) === normalize(candidate.material)
+  // Parsed sizes compare "2 inch" with `2"`; the text is the fallback when either is unparsed
+  const sameSize = product.nominalSize != null && candidate.nominalSize != null
+    ? product.nominalSize === candidate.nominalSize
+    : normalize(product.diameter) === normalize(candidate.diameter)
+  const standards = new Set(product.standards.map(normalize))
+  const sharedStandards = candidate.standards.filter(standard => standards.has(normalize(standard))).length
+
+  const matches = [sameMaterial, sameSize, sharedStandards > 0].filter(Boolean).length
+  if (matches < 2) return 0
+
+  return (sameMaterial ? 2 : 0) + (sameSize ? 2 : 0) + sharedStandards
+}
+
+/**
+ * Products sharing material, size and standards with the given one, best
+ * matches first. Used in place of compatible items when none are linked.
+ */
+export async function findSimilarProducts(
+  db: RelationClient,
+  product: SimilarityFields & { id: string },
+  limit: number = RELATED_PRODUCT_LIMIT
+): Promise<RelatedProductSummary[]> {
+  const candidates = await db.product.findMany({
+    where: {
+      id: { not: product.id },
+      availability: { not: 'DISCONTINUED' },
+      OR: [
+        { material: { equals: product.material, mode: 'insensitive' } },
+        product.nominalSize != null
+          ? { nominalSize: product.nominalSize }
+          : { diameter: { equals: product.diameter, mode: 'insensitive' } },
+        ...(product.standards.length > 0 ? [{ standards: { hasSome: product.standards } }] : [])
+      ]
+    },
+    select: { ...RELATED_PRODUCT_SELECT, nominalSize: true, standards: true },
+    orderBy: { name: 'asc' },
+    take: SIMILAR_CANDIDATE_LIMIT
+  })
+
+  return candidates
+    .map(candidate => ({ candidate, score: scoreSimilarity(product, candidate) }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ candidate: { nominalSize, standards, ...summary } }) => summary)
+}
+
+/**
+ * Products that appear most often on the same quotes as the given one
+ */
+export async function getFrequentlyQuotedWith(
+  db: RelationClient,
+  productId: string,
+  limit: number = RELATED_PRODUCT_LIMIT
+): Promise<RelatedProductSummary[]> {
+  const counts = await db.quoteProduct.groupBy({
+    by: ['productId'],
+    where: { productId: { not: productId }, quote: { products: { some: { productId } } } },
+    _count: { quoteId: true },
+    orderBy: { _count: { quoteId: 'desc' } },
+    // Extra rows make up for discontinued products dropped below
+    take: limit * 2
+  })
+  if (counts.length === 0) return []
+
+  const products = await db.product.findMany({
+    where: { id: { in: counts.map(count => count.productId) }, availability: { not: 'DISCONTINUED' } },
+    select: RELATED_PRODUCT_SELECT
+  })
+  const byId = new Map(products.map(product => [product.id, product]))
+
+  return counts
+    .map(count => byId.get(count.productId))
+    .filter((product): product is RelatedProductSummary => Boolean(product))
+    .slice(0, limit)
+}
+
+/**
+ * Everything shown alongside a product: linked compatible items (or
+ * suggestions when the product has no links at all), substitutes and
+ * upgrades, and items frequently quoted with it. Null when the product does
+ * not exist; discontinued products are left out.
+ */
+export async function getRelatedProducts(db: RelationClient, productId: string): Promise<RelatedProductsResult | null> {
+  const product = await db.product.findUnique({
+    where: { id: productId },
+    select: { id: true, material: true, diameter: true, nominalSize: true, standards: true }
+  })
+  if (!product) return null
+
+  const relations = await db.productRelation.findMany({
+    where: {
+      OR: [
+        { productId },
+        { relatedProductId: productId, type: { in: SYMMETRIC_RELATION_TYPES } }
+      ]
+    },
+    include: {
+      product: { select: RELATED_PRODUCT_SELECT },
+      relatedProduct: { select: RELATED_PRODUCT_SELECT }
+    },
+    orderBy: { position: 'asc' }
+  })
+
+  // The product's own links come before links made from the other side
+  const seen = new Set<string>()
+  const linked = relations
+    .map(relation => relation.productId === productId
+      ? { ...relation.relatedProduct, relationType: relation.type, inbound: false }
+      : { ...relation.product, relationType: relation.type, inbound: true })
+    .sort((a, b) => Number(a.inbound) - Number(b.inbound))
+    .filter(({ id, relationType, availability }) => {
+      const key = `${id}|${relationType}`
+      if (availability === 'DISCONTINUED' || seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+    .map(({ inbound, ...summary }) => summary)
+
+  const suggested = relations.length === 0
+  const [compatible, frequentlyQuotedWith] = await Promise.all([
+    suggested
+      ? findSimilarProducts(db, product)
+      : linked.filter(item => COMPATIBLE_RELATION_TYPES.includes(item.relationType)),
+    getFrequentlyQuotedWith(db, productId)
+  ])
+
+  return {
+    compatible,
+    alternatives: linked.filter(item => !COMPATIBLE_RELATION_TYPES.includes(item.relationType)),
+    frequentlyQuotedWith,
+    suggested
+  }
+}
+
+/**
+ * Check a product's new related items before saving them. Returns why they
+ * cannot be saved, or null.
+ */
+export async function checkProductRelations(
+  db: RelationClient,
+  productId: string | null,
+  relations: ProductRelationData[]
+): Promise<string | null> {
+  const relatedIds = Array.from(new Set(relations.map(relation => relation.relatedProductId)))
+
+  if (productId && relatedIds.includes(productId)) {
+    return 'A product cannot be related to itself'
+  }
+
+  const found = await db.product.findMany({ where: { id: { in: relatedIds } }, select: { id: true } })
+  const foundIds = new Set(found.map(product => product.id))
+  const missing = relatedIds.filter(id => !foundIds.has(id))
+
+  return missing.length > 0 ? `Related products not found: ${missing.join(', ')}` : null
+}
+
+/**
+ * Replace a product's related items with the given list, kept in order
+ */
+export async function saveProductRelations(
+  db: RelationClient,
+  productId: string,
+  relations: ProductRelationData[]
+): Promise<void> {
+  await db.productRelation.deleteMany({ where: { productId } })
+  await db.productRelation.createMany({
+    data: relations.map((relation, position) => ({ ...relation, productId, position }))
+  })
+}
@@ -0,0 +1,113 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for full-text product search and facet counts
+ */
+
+jest.mock('./prisma', () => ({
+  prisma: {
+    $queryRaw: jest.fn(),
+    product: {
+      groupBy: jest.fn(),
+      count: jest.fn(),
+    },
+  },
+}))
+
+import * as fc from 'fast-check'
+import { prisma } from './prisma'
+import {
+  PRICE_BUCKETS,
+  getProductFacets,
+  normalizeSearchTerms,
+  refreshProductSearchIndex,
+  searchProductIds,
+  sortByRank,
+} from './product-search'
+
+const mockPrisma = prisma as any
+
+describe('Product Search', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  test('queries are split into normalized index terms', () => {
+    expect(normalizeSearchTerms('2 inch Sch 40 ASTM A53')).toEqual(['2', 'sch', '40', 'astm', 'a53'])
+    expect(normalizeSearchTerms('1.5" schedule-80 galvanised pipe')).toEqual(['1.5', 'sch', '80', 'galvanized', 'pipe'])
+    expect(normalizeSearchTerms('  "--" ')).toEqual([])
+  })
+
+  test('index terms never contain tsquery syntax', () => {
+    fc.assert(
+      fc.property(fc.string({ maxLength: 200 }), (query) => {
+        const terms = normalizeSearchTerms(query)
+        expect(terms.length).toBeLessThanOrEqual(12)
+        terms.forEach(term => expect(term).toMatch(/^[a-z0-9]+(\.[0-9]+)?$/))
+        expect(new Set(terms).size).toBe(terms.length)
+      }),
+      { numRuns: 200 }
+    )
+  })
+
+  test('searches rank prefix matches and fall back to trigram similarity', async () => {
+    mockPrisma.$queryRaw.mockResolvedValue([{ id: 'p2' }, { id: 'p1' }])
+
+    const ids = await searchProductIds('Sch 40 ASTM')
+
+    expect(ids).toEqual(['p2', 'p1'])
+    const [strings, ...values] = mockPrisma.$queryRaw.mock.calls[0]
+    expect(strings.join('?')).toContain("search_vector @@ to_tsquery('simple', ?)")
+    expect(strings.join('?')).toContain('word_similarity(?, search_text)')
+    expect(values).toContain('sch:* & 40:* & astm:*')
+    expect(values).toContain('sch:* | 40:* | astm:*')
+    expect(values).toContain('sch 40 astm')
+  })
+
+  test('queries without terms do not hit the database', async () => {
+    expect(await searchProductIds('"  "')).toEqual([])
+    expect(mockPrisma.$queryRaw).not.toHaveBeenCalled()
+  })
+
+  test('the search index is rebuilt for one product or all of them', async () => {
+    const db = { $executeRaw: jest.fn() }
+
+    await refreshProductSearchIndex(db as any, 'p1')
+    await refreshProductSearchIndex(db as any)
+
+    const [single, all] = db.$executeRaw.mock.calls.map(([strings, ...values]) => ({ sql: strings.join('?'), values }))
+    expect(single.sql).toContain('UPDATE products SET')
+    expect(JSON.stringify(single.values)).toContain('p1')
+    expect(JSON.stringify(all.values)).not.toContain('WHERE')
+  })
+
+  test('results are put back into rank order', () => {
+    const products = [{ id: 'a' }, { id: 'b' }, { id: 'c' }]
+    expect(sortByRank(products, ['c', 'a', 'b']).map(product => product.id)).toEqual(['c', 'a', 'b'])
+  })
+
+  test('each facet is counted without its own selection', async () => {
+    mockPrisma.product.groupBy.mockImplementation(({ by }: any) => Promise.resolve(
+      by[0] === 'brand'
+        ? [{ brand: 'Charlotte', _count: { _all: 2 } }, { brand: 'Wheatland', _count: { _all: 5 } }]
+        : []
+    ))
+    mockPrisma.product.count.mockResolvedValue(3)
+
+    const base = { id: { in: ['p1', 'p2'] } }
+    const selections = { category: { category: 'PVC_PIPE' as const }, brand: { brand: 'Wheatland' } }
+    const facets = await getProductFacets(base, selections)
+
+    expect(facets.brands).toEqual([{ value: 'Wheatland', count: 5 }, { value: 'Charlotte', count: 2 }])
+    expect(facets.priceRanges.map(range => [range.value, range.count])).toEqual(PRICE_BUCKETS.map(bucket => [bucket.id, 3]))
+
+    const whereFor = (field: string) =>
+      mockPrisma.product.groupBy.mock.calls.find(([args]: any) => args.by[0] === field)[0].where
+    expect(whereFor('category')).toEqual({ AND: [base, { brand: 'Wheatland' }] })
+    expect(whereFor('brand')).toEqual({ AND: [base, { category: 'PVC_PIPE' }] })
+    expect(whereFor('material')).toEqual({ AND: [base, { category: 'PVC_PIPE' }, { brand: 'Wheatland' }] })
+    expect(mockPrisma.product.count.mock.calls[1][0].where.AND[1]).toEqual({ basePrice: { gte: 25, lt: 100 } })
+  })
+})
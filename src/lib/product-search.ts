@@ -0,0 +1,190 @@
+/**
+ * Full-text product search and facet counts. Spec fields are indexed into a
+ * weighted tsvector for ranked matching and a lowercased text column with a
+ * trigram index, so misspelt terms still find close matches.
+ */
+
+import { Prisma } from '@prisma/client'
+import { prisma } from './prisma'
+
+// Most matches ranked for a single search; later pages are cut off here
+export const MAX_SEARCH_RESULTS = 500
+
+// Minimum pg_trgm word similarity for a typo-tolerant match
+export const TYPO_SIMILARITY_THRESHOLD = 0.5
+
+// Words that carry no meaning once sizes are tokenized, e.g. `2 inch` -> `2`
+const IGNORED_TERMS = new Set(['inch', 'inches', 'in', 'and', 'or', 'the', 'for', 'with'])
+
+// Spellings customers use for terms stored in a shorter form
+const TERM_ALIASES: Record<string, string> = {
+  schedule: 'sch',
+  galvanised: 'galvanized'
+}
+
+export interface PriceBucket {
+  id: string
+  label: string
+  min?: number
+  max?: number
+}
+
+// Price facet ranges; min is inclusive and max exclusive
+export const PRICE_BUCKETS: PriceBucket[] = [
+  { id: 'under-25', label: 'Under $25', max: 25 },
+  { id: '25-100', label: '$25 - $100', min: 25, max: 100 },
+  { id: '100-500', label: '$100 - $500', min: 100, max: 500 },
+  { id: '500-plus', label: '$500 and up', min: 500 }
+]
+
+export type FacetField = 'category' | 'brand' | 'material' | 'availability' | 'price'
+
+export interface FacetCount {
+  value: string
+  count: number
+}
+
+export interface ProductFacets {
+  categories: FacetCount[]
+  brands: FacetCount[]
+  materials: FacetCount[]
+  availability: FacetCount[]
+  priceRanges: Array<FacetCount & { label: string; min?: number; max?: number }>
+}
+
+export interface FilterOptions {
+  brands: string[]
+  materials: string[]
+}
+
+type SearchIndexClient = Pick<Prisma.TransactionClient, '$executeRaw'>
+
+/**
+ * Split a search query into index terms: lowercased alphanumeric words with
+ * aliases applied, filler words dropped and duplicates removed
+ */
+export function normalizeSearchTerms(query: string): string[] {
+  const words = query.toLowerCase().match(/[a-z0-9]+(?:\.[0-9]+)?/g) ?? []
+  const terms = words
+    .map(word => TERM_ALIASES[word] ?? word)
+    .filter(word => !IGNORED_TERMS.has(word))
+  return Array.from(new Set(terms)).slice(0, 12)
+}
+
+/**
+ * Rebuild the search columns of a product from its current fields, or of
+ * every product when no id is given. Called after every create and update,
+ * inside the same transaction.
+ */
+export async function refreshProductSearchIndex(db: SearchIndexClient, productId?: string): Promise<void> {
+  await db.$executeRaw`
+    UPDATE products SET
+      search_vector =
+        setweight(to_tsvector('simple', coalesce(name, '')), 'A') ||
+        setweight(to_tsvector('simple', concat_ws(' ', brand, diameter, material, "pressureRating", array_to_string(standards, ' '))), 'B') ||
+        setweight(to_tsvector('simple', concat_ws(' ', description, length, temperature, array_to_string(applications, ' '))), 'C'),
+      search_text = lower(concat_ws(' ', name, brand, diameter, material, "pressureRating", array_to_string(standards, ' '), array_to_string(applications, ' ')))
+    ${productId ? Prisma.sql`WHERE id = ${productId}` : Prisma.empty}
+  `
+}
+
+/**
+ * Ids of products matching a search, best match first. A product matches when
+ * it contains every term (terms match as prefixes) or, failing that, when the
+ * query is a close trigram match for words in its specs.
+ */
+export async function searchProductIds(query: string, limit: number = MAX_SEARCH_RESULTS): Promise<string[]> {
+  const terms = normalizeSearchTerms(query)
+  if (terms.length === 0) return []
+
+  const allTerms = terms.map(term => `${term}:*`).join(' & ')
+  const anyTerm = terms.map(term => `${term}:*`).join(' | ')
+  const text = terms.join(' ')
+
+  const rows = await prisma.$queryRaw<Array<{ id: string }>>`
+    SELECT id FROM products
+    WHERE search_vector @@ to_tsquery('simple', ${allTerms})
+       OR word_similarity(${text}, search_text) >= ${TYPO_SIMILARITY_THRESHOLD}
+    ORDER BY
+      coalesce(ts_rank_cd(search_vector, to_tsquery('simple', ${anyTerm})), 0) +
+        coalesce(word_similarity(${text}, search_text), 0) DESC,
+      name ASC
+    LIMIT ${limit}
+  `
+  return rows.map(row => row.id)
+}
+
+/**
+ * Put products back into the order their ids were ranked in
+ */
+export function sortByRank<T extends { id: string }>(products: T[], rankedIds: string[]): T[] {
+  const rank = new Map(rankedIds.map((id, index) => [id, index]))
+  return [...products].sort((a, b) => (rank.get(a.id) ?? Infinity) - (rank.get(b.id) ?? Infinity))
+}
+
+function priceFilter(bucket: PriceBucket): Prisma.ProductWhereInput {
+  return { basePrice: { gte: bucket.min, lt: bucket.max } }
+}
+
+/**
+ * Count products per filter option. Each facet is counted against the base
+ * conditions and every other facet's selection, but not its own, so options
+ * in a facet that already has a selection still show what choosing them adds.
+ */
+export async function getProductFacets(
+  base: Prisma.ProductWhereInput,
+  selections: Partial<Record<FacetField, Prisma.ProductWhereInput>> = {}
+): Promise<ProductFacets> {
+  const whereFor = (field: FacetField): Prisma.ProductWhereInput => ({
+    AND: [
+      base,
+      ...Object.entries(selections)
+        .filter(([key, condition]) => key !== field && condition)
+        .map(([, condition]) => condition as Prisma.ProductWhereInput)
+    ]
+  })
+
+  const [categories, brands, materials, availability, priceCounts] = await Promise.all([
+    prisma.product.groupBy({ by: ['category'], where: whereFor('category'), _count: { _all: true } }),
+    prisma.product.groupBy({ by: ['brand'], where: whereFor('brand'), _count: { _all: true } }),
+    prisma.product.groupBy({ by: ['material'], where: whereFor('material'), _count: { _all: true } }),
+    prisma.product.groupBy({ by: ['availability'], where: whereFor('availability'), _count: { _all: true } }),
+    Promise.all(PRICE_BUCKETS.map(bucket =>
+      prisma.product.count({ where: { AND: [whereFor('price'), priceFilter(bucket)] } })
+    ))
+  ])
+
+  const byValue = <K extends string>(rows: Array<Record<K, string> & { _count: { _all: number } }>, key: K) =>
+    rows
+      .map(row => ({ value: row[key], count: row._count._all }))
+      .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+
+  return {
+    categories: byValue(categories, 'category'),
+    brands: byValue(brands, 'brand'),
+    materials: byValue(materials, 'material'),
+    availability: byValue(availability, 'availability'),
+    priceRanges: PRICE_BUCKETS.map((bucket, index) => ({
+      value: bucket.id,
+      label: bucket.label,
+      min: bucket.min,
+      max: bucket.max,
+      count: priceCounts[index]
+    }))
+  }
+}
+
+/**
+ * Every brand and material in the catalogue, for the filter dropdowns
+ */
+export async function getFilterOptions(): Promise<FilterOptions> {
+  const [brands, materials] = await Promise.all([
+    prisma.product.findMany({ distinct: ['brand'], select: { brand: true }, orderBy: { brand: 'asc' } }),
+    prisma.product.findMany({ distinct: ['material'], select: { material: true }, orderBy: { material: 'asc' } })
+  ])
+
+  return {
+    brands: brands.map(product => product.brand),
+    materials: materials.map(product => product.material)
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Tests for structured product specifications and unit conversion
+ */
+
+import * as fc from 'fast-check'
+import {
+  barToPsi,
+  formatSpecifications,
+  parseDiameter,
+  parseLength,
+  parsePressure,
+  parseSpecifications,
+  parseTemperatureRange,
+  psiToBar,
+} from './product-specs'
+
+describe('Product Specifications', () => {
+  test('diameters are read as nominal size, outside diameter, wall and schedule', () => {
+    expect(parseDiameter('2 inches')).toEqual({
+      nominalSize: 2,
+      outerDiameterMm: 60.33,
+      innerDiameterMm: null,
+      wallThicknessMm: null,
+      schedule: null,
+    })
+    expect(parseDiameter('1-1/2" Sch 80')).toMatchObject({ nominalSize: 1.5, outerDiameterMm: 48.26, schedule: '80' })
+    expect(parseDiameter('DN50, 60.3 mm OD, 3.91 mm wall')).toMatchObject({
+      nominalSize: 2,
+      outerDiameterMm: 60.3,
+      wallThicknessMm: 3.91,
+      innerDiameterMm: 52.48,
+    })
+    expect(parseDiameter('Various')).toMatchObject({ nominalSize: null, outerDiameterMm: null })
+  })
+
+  test('standard outside diameters only apply to pipe sized by NPS', () => {
+    expect(parseDiameter('3/4 inch', 'COPPER_PIPE')).toMatchObject({ nominalSize: 0.75, outerDiameterMm: null })
+    expect(parseDiameter('3/4 inch', 'PVC_PIPE')).toMatchObject({ nominalSize: 0.75, outerDiameterMm: 26.67 })
+  })
+
+  test('lengths, pressures and temperatures are converted to metric', () => {
+    expect(parseLength('10 feet')).toBe(3.048)
+    expect(parseLength("20'")).toBe(6.096)
+    expect(parseLength('6 m')).toBe(6)
+    expect(parseLength('Custom')).toBeNull()
+
+    expect(parsePressure('150 PSI')).toBe(10.342)
+    expect(parsePressure('PN16')).toBe(16)
+    expect(parsePressure('1.6 MPa')).toBe(16)
+    expect(parsePressure('Non-pressure')).toBeNull()
+
+    expect(parseTemperatureRange('-20°F to 400°F')).toEqual({ minTemperatureC: -28.9, maxTemperatureC: 204.4 })
+    expect(parseTemperatureRange('0-60°C')).toEqual({ minTemperatureC: 0, maxTemperatureC: 60 })
+    expect(parseTemperatureRange('Up to 140°F')).toEqual({ minTemperatureC: null, maxTemperatureC: 60 })
+    expect(parseTemperatureRange('Ambient')).toEqual({ minTemperatureC: null, maxTemperatureC: null })
+  })
+
+  test('only the text fields given are parsed', () => {
+    expect(parseSpecifications({ pressureRating: '10 bar' })).toEqual({ pressureBar: 10 })
+  })
+
+  test('specs are shown in either unit system', () => {
+    const specs = parseSpecifications({
+      diameter: '2" Sch 40, 0.154" wall',
+      length: '21 ft',
+      pressureRating: '300 psi',
+      temperature: '-20°F to 400°F',
+    }, 'STEEL_PIPE')
+
+    expect(formatSpecifications(specs, 'imperial')).toEqual({
+      diameter: '2", OD 2.375", Sch 40',
+      innerDiameter: '2.067"',
+      wallThickness: '0.154"',
+      length: '21 ft',
+      pressure: '300 psi',
+      temperature: '-20°F to 400°F',
+    })
+    expect(formatSpecifications(specs, 'metric')).toEqual({
+      diameter: 'DN50, OD 60.3 mm, Sch 40',
+      innerDiameter: '52.5 mm',
+      wallThickness: '3.9 mm',
+      length: '6.4 m',
+      pressure: '20.7 bar',
+      temperature: '-29°C to 204°C',
+    })
+    expect(formatSpecifications({}, 'metric').diameter).toBeNull()
+  })
+
+  test('pressure conversion round-trips', () => {
+    fc.assert(
+      fc.property(fc.double({ min: 0, max: 10000, noNaN: true }), (psi) => {
+        expect(barToPsi(psiToBar(psi))).toBeCloseTo(psi, 6)
+      }),
+      { numRuns: 100 }
+    )
+  })
+})
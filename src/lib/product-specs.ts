@@ -0,0 +1,319 @@
+/**
+ * Structured product specifications. The free-text spec fields on a product
+ * are parsed into normalized metric values (mm, m, bar, °C) that can be
+ * filtered and sorted, and converted back for metric or imperial display.
+ * Safe to import from client components.
+ */
+
+export type UnitSystem = 'imperial' | 'metric'
+
+export interface ProductSpecifications {
+  // Nominal pipe size (NPS) in inches
+  nominalSize: number | null
+  outerDiameterMm: number | null
+  innerDiameterMm: number | null
+  wallThicknessMm: number | null
+  // Pipe schedule, e.g. 40, 80 or XS
+  schedule: string | null
+  lengthM: number | null
+  pressureBar: number | null
+  minTemperatureC: number | null
+  maxTemperatureC: number | null
+}
+
+export const SPECIFICATION_FIELDS: Array<keyof ProductSpecifications> = [
+  'nominalSize', 'outerDiameterMm', 'innerDiameterMm', 'wallThicknessMm', 'schedule',
+  'lengthM', 'pressureBar', 'minTemperatureC', 'maxTemperatureC'
+]
+
+const MM_PER_INCH = 25.4
+const M_PER_FOOT = 0.3048
+const PSI_PER_BAR = 14.5037738
+
+// Outside diameters in inches for nominal pipe sizes up to 12 (ASME B36.10);
+// from NPS 14 the outside diameter equals the nominal size
+const NPS_OUTSIDE_DIAMETERS: Record<string, number> = {
+  '0.125': 0.405, '0.25': 0.54, '0.375': 0.675, '0.5': 0.84, '0.75': 1.05,
+  '1': 1.315, '1.25': 1.66, '1.5': 1.9, '2': 2.375, '2.5': 2.875, '3': 3.5,
+  '3.5': 4, '4': 4.5, '5': 5.563, '6': 6.625, '8': 8.625, '10': 10.75, '12': 12.75
+}
+
+// Metric nominal diameters (DN) and the nominal pipe sizes they correspond to
+const DN_TO_NPS: Record<number, number> = {
+  6: 0.125, 8: 0.25, 10: 0.375, 15: 0.5, 20: 0.75, 25: 1, 32: 1.25, 40: 1.5,
+  50: 2, 65: 2.5, 80: 3, 90: 3.5, 100: 4, 125: 5, 150: 6, 200: 8, 250: 10,
+  300: 12, 350: 14, 400: 16, 450: 18, 500: 20, 600: 24
+}
+
+// Categories sized to the NPS outside diameters; copper tube, cast iron soil
+// pipe and hose use their own sizing, so their OD is only taken as stated
+const NPS_SIZED_CATEGORIES = ['STEEL_PIPE', 'GALVANIZED_PIPE', 'PVC_PIPE']
+
+const NUMBER = String.raw`-?\d+(?:\.\d+)?`
+// Whole, decimal or mixed fraction, e.g. 2, 1.5, 3/4, 1-1/2 or 1 1/2
+const SIZE = String.raw`\d+(?:\.\d+)?(?:[\s-]+\d+\/\d+)?|\d+\/\d+`
+
+function round(value: number, places: number = 3): number {
+  const factor = Math.pow(10, places)
+  return Math.round(value * factor) / factor
+}
+
+function parseSize(text: string): number {
+  const mixed = text.trim().match(/^(\d+)[\s-]+(\d+)\/(\d+)$/)
+  if (mixed) return Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3])
+
+  const fraction = text.trim().match(/^(\d+)\/(\d+)$/)
+  if (fraction) return Number(fraction[1]) / Number(fraction[2])
+
+  return Number(text)
+}
+
+export function inchesToMm(inches: number): number {
+  return inches * MM_PER_INCH
+}
+
+export function mmToInches(mm: number): number {
+  return mm / MM_PER_INCH
+}
+
+export function barToPsi(bar: number): number {
+  return bar * PSI_PER_BAR
+}
+
+export function psiToBar(psi: number): number {
+  return psi / PSI_PER_BAR
+}
+
+export function celsiusToFahrenheit(celsius: number): number {
+  return celsius * 9 / 5 + 32
+}
+
+export function fahrenheitToCelsius(fahrenheit: number): number {
+  return (fahrenheit - 32) * 5 / 9
+}
+
+export function metresToFeet(metres: number): number {
+  return metres / M_PER_FOOT
+}
+
+export function feetToMetres(feet: number): number {
+  return feet * M_PER_FOOT
+}
+
+/**
+ * Outside diameter in mm of a nominal pipe size, if it is a standard size
+ */
+export function getStandardOuterDiameterMm(nominalSize: number): number | null {
+  const inches = nominalSize >= 14 ? nominalSize : NPS_OUTSIDE_DIAMETERS[String(nominalSize)]
+  return inches ? round(inchesToMm(inches), 2) : null
+}
+
+/**
+ * Nominal pipe size for a metric DN; sizes not in the table are converted
+ */
+export function dnToNominalSize(dn: number): number {
+  return DN_TO_NPS[dn] ?? round(mmToInches(dn), 3)
+}
+
+export function nominalSizeToDn(nominalSize: number): number {
+  const entry = Object.entries(DN_TO_NPS).find(([, nps]) => nps === nominalSize)
+  return entry ? Number(entry[0]) : Math.round(inchesToMm(nominalSize))
+}
+
+/**
+ * Parse a diameter such as `2 inches`, `1-1/2" Sch 80`, `NPS 4`, `DN50` or
+ * `60.3 mm OD, 3.91 mm wall`
+ */
+export function parseDiameter(text: string, category?: string): Pick<
+  ProductSpecifications,
+  'nominalSize' | 'outerDiameterMm' | 'innerDiameterMm' | 'wallThicknessMm' | 'schedule'
+> {
+  const value = text.toLowerCase()
+  const specs = {
+    nominalSize: null as number | null,
+    outerDiameterMm: null as number | null,
+    innerDiameterMm: null as number | null,
+    wallThicknessMm: null as number | null,
+    schedule: null as string | null
+  }
+
+  const schedule = value.match(/\b(?:sch(?:edule)?\.?\s*)(\d+s?|xs|xxs|std)\b/)
+  if (schedule) specs.schedule = schedule[1].toUpperCase()
+
+  const wall = value.match(new RegExp(`(${NUMBER})\\s*(mm|"|in(?:ch(?:es)?)?)\\s*wall|wall(?:\\s*thickness)?\\s*(${NUMBER})\\s*(mm|"|in(?:ch(?:es)?)?)`))
+  if (wall) {
+    const amount = Number(wall[1] ?? wall[3])
+    specs.wallThicknessMm = round((wall[2] ?? wall[4]) === 'mm' ? amount : inchesToMm(amount), 2)
+  }
+
+  const od = value.match(new RegExp(`(${NUMBER})\\s*(mm|"|in(?:ch(?:es)?)?)\\s*od\\b|\\bod\\s*(${NUMBER})\\s*(mm|"|in(?:ch(?:es)?)?)`))
+  if (od) {
+    const amount = Number(od[1] ?? od[3])
+    specs.outerDiameterMm = round((od[2] ?? od[4]) === 'mm' ? amount : inchesToMm(amount), 2)
+  }
+
+  const dn = value.match(/\bdn\s*(\d+)\b/)
+  const nps = value.match(new RegExp(`\\bnps\\s*(${SIZE})`))
+  const inches = value.match(new RegExp(`(?:^|[^\\d./-])(${SIZE})\\s*(?:"|''|in\\b|inch(?:es)?\\b)(?!\\s*(?:od|wall)\\b)`))
+  if (dn) {
+    specs.nominalSize = dnToNominalSize(Number(dn[1]))
+  } else if (nps) {
+    specs.nominalSize = round(parseSize(nps[1]), 3)
+  } else if (inches) {
+    specs.nominalSize = round(parseSize(inches[1]), 3)
+  }
+
+  if (specs.outerDiameterMm === null && specs.nominalSize !== null &&
+      (!category || NPS_SIZED_CATEGORIES.includes(category))) {
+    specs.outerDiameterMm = getStandardOuterDiameterMm(specs.nominalSize)
+  }
+  if (specs.outerDiameterMm !== null && specs.wallThicknessMm !== null) {
+    specs.innerDiameterMm = round(specs.outerDiameterMm - 2 * specs.wallThicknessMm, 2)
+  }
+
+  return specs
+}
+
+/**
+ * Parse a length such as `10 feet`, `20 ft`, `20'`, `6 m` or `3.5 metres`
+ */
+export function parseLength(text: string): number | null {
+  const match = text.toLowerCase().match(new RegExp(`(${NUMBER})\\s*(feet|foot|ft|'|metres?|meters?|m|mm|inch(?:es)?|in|")(?![a-z])`))
+  if (!match) return null
+
+  const amount = Number(match[1])
+  switch (match[2]) {
+    case 'mm':
+      return round(amount / 1000)
+    case 'm':
+    case 'metre':
+    case 'metres':
+    case 'meter':
+    case 'meters':
+      return round(amount)
+    case 'in':
+    case 'inch':
+    case 'inches':
+    case '"':
+      return round(inchesToMm(amount) / 1000)
+    default:
+      return round(feetToMetres(amount))
+  }
+}
+
+/**
+ * Parse a pressure rating such as `150 PSI`, `10 bar`, `PN16` or `1.6 MPa`
+ */
+export function parsePressure(text: string): number | null {
+  const value = text.toLowerCase()
+
+  const pn = value.match(/\bpn\s*(\d+(?:\.\d+)?)\b/)
+  if (pn) return round(Number(pn[1]))
+
+  const match = value.match(new RegExp(`(${NUMBER})\\s*(psi|bar|mpa|kpa)\\b`))
+  if (!match) return null
+
+  const amount = Number(match[1])
+  switch (match[2]) {
+    case 'psi':
+      return round(psiToBar(amount))
+    case 'mpa':
+      return round(amount * 10)
+    case 'kpa':
+      return round(amount / 100)
+    default:
+      return round(amount)
+  }
+}
+
+/**
+ * Parse a temperature or range such as `-20°F to 400°F`, `0-60°C`,
+ * `-40 to 120 C` or `up to 200°F`. A single value is taken as the maximum.
+ */
+export function parseTemperatureRange(text: string): Pick<ProductSpecifications, 'minTemperatureC' | 'maxTemperatureC'> {
+  const value = text.toLowerCase().replace(/º/g, '°')
+  const unit = value.match(/(?:°|\d)\s*([cf])\b/)
+  const numbers = Array.from(value.matchAll(new RegExp(`(?:^|[^\\d.])(${NUMBER})`, 'g')), match => Number(match[1]))
+  const range = value.match(new RegExp(`(${NUMBER})\\s*°?\\s*[cf]?\\s*(?:to|–|-(?=\\s*-?\\d))\\s*(${NUMBER})`))
+
+  if (!unit || numbers.length === 0) {
+    return { minTemperatureC: null, maxTemperatureC: null }
+  }
+
+  const toCelsius = (amount: number) => round(unit[1] === 'f' ? fahrenheitToCelsius(amount) : amount, 1)
+  if (range) {
+    const [low, high] = [Number(range[1]), Number(range[2])].sort((a, b) => a - b)
+    return { minTemperatureC: toCelsius(low), maxTemperatureC: toCelsius(high) }
+  }
+
+  return { minTemperatureC: null, maxTemperatureC: toCelsius(numbers[numbers.length - 1]) }
+}
+
+/**
+ * Structured specifications for the text spec fields that are present. Used
+ * when products are saved and to migrate products saved before specs existed.
+ */
+export function parseSpecifications(
+  fields: { diameter?: string; length?: string; pressureRating?: string; temperature?: string },
+  category?: string
+): Partial<ProductSpecifications> {
+  return {
+    ...(fields.diameter !== undefined ? parseDiameter(fields.diameter, category) : {}),
+    ...(fields.length !== undefined ? { lengthM: parseLength(fields.length) } : {}),
+    ...(fields.pressureRating !== undefined ? { pressureBar: parsePressure(fields.pressureRating) } : {}),
+    ...(fields.temperature !== undefined ? parseTemperatureRange(fields.temperature) : {})
+  }
+}
+
+function formatNumber(value: number, places: number): string {
+  return String(round(value, places))
+}
+
+function formatInches(inches: number): string {
+  const whole = Math.floor(inches)
+  const fraction = inches - whole
+  const fractions: Record<string, string> = { '0.125': '1/8', '0.25': '1/4', '0.375': '3/8', '0.5': '1/2', '0.75': '3/4' }
+  const label = fractions[String(round(fraction, 3))]
+  if (label) return whole > 0 ? `${whole}-${label}"` : `${label}"`
+  return `${formatNumber(inches, 3)}"`
+}
+
+/**
+ * Display strings for structured specs in a unit system; a spec is null when
+ * it was not parsed, so callers can fall back to the product's text field
+ */
+export function formatSpecifications(specs: Partial<ProductSpecifications>, system: UnitSystem) {
+  const metric = system === 'metric'
+  const size = (mm: number) => metric ? `${formatNumber(mm, 1)} mm` : `${formatNumber(mmToInches(mm), 3)}"`
+  const temperature = (celsius: number) =>
+    metric ? `${Math.round(celsius)}°C` : `${Math.round(celsiusToFahrenheit(celsius))}°F`
+
+  const nominal = specs.nominalSize != null
+    ? (metric ? `DN${nominalSizeToDn(specs.nominalSize)}` : formatInches(specs.nominalSize))
+    : null
+  const diameterParts = [
+    nominal,
+    specs.outerDiameterMm != null ? `OD ${size(specs.outerDiameterMm)}` : null,
+    specs.schedule ? `Sch ${specs.schedule}` : null
+  ].filter(Boolean)
+
+  let temperatureRange: string | null = null
+  if (specs.minTemperatureC != null && specs.maxTemperatureC != null) {
+    temperatureRange = `${temperature(specs.minTemperatureC)} to ${temperature(specs.maxTemperatureC)}`
+  } else if (specs.maxTemperatureC != null) {
+    temperatureRange = `Up to ${temperature(specs.maxTemperatureC)}`
+  }
+
+  return {
+    diameter: diameterParts.length > 0 ? diameterParts.join(', ') : null,
+    innerDiameter: specs.innerDiameterMm != null ? size(specs.innerDiameterMm) : null,
+    wallThickness: specs.wallThicknessMm != null ? size(specs.wallThicknessMm) : null,
+    length: specs.lengthM != null
+      ? (metric ? `${formatNumber(specs.lengthM, 2)} m` : `${formatNumber(metresToFeet(specs.lengthM), 1)} ft`)
+      : null,
+    pressure: specs.pressureBar != null
+      ? (metric ? `${formatNumber(specs.pressureBar, 1)} bar` : `${Math.round(barToPsi(specs.pressureBar))} psi`)
+      : null,
+    temperature: temperatureRange
+  }
+}
@@ -2,7 +2,7 @@
  * Tests for product validation utilities
  */
 
-import { validateProductData, sanitizeProductData, createAuditLogEntry, formatValidationErrors } from './product-validation'
+import { validateProductData, sanitizeProductData, prepareProductData, createAuditLogEntry, formatValidationErrors } from './product-validation'
 
 describe('Product Validation', () => {
   describe('validateProductData', () => {
@@ -92,6 +92,173 @@ describe('Product Validation', () => {
     })
   })
   
+  describe('prepareProductData', () => {
+    const validProduct = {
+      name: '  Steel Pipe 6"  ',
+      description: 'High quality steel pipe',
+      category: 'STEEL_PIPE',
+      brand: 'AcmePipe',
+      diameter: '6 inches',
+      length: '10 feet',
+      material: 'Carbon Steel',
+      pressureRating: '150 PSI',
+      temperature: '200°F',
+      basePrice: '99.99',
+      pricePerUnit: 'per foot'
+    }
+
+    it('should drop fields clients are not allowed to set', () => {
+      const result = prepareProductData({ ...validProduct, id: 'forged', createdAt: '2020-01-01', quoteProducts: [] })
+
+      expect(result.isValid).toBe(true)
+      expect(result.data).not.toHaveProperty('id')
+      expect(result.data).not.toHaveProperty('createdAt')
+      expect(result.data).not.toHaveProperty('quoteProducts')
+      expect(result.data.name).toBe('Steel Pipe 6"')
+      expect(result.data.basePrice).toBe(99.99)
+    })
+
+    it('should validate nested images and documents', () => {
+      const result = prepareProductData({
+        images: [{ url: '' }],
+        documents: [{ name: 'Spec sheet', url: '/docs/spec.pdf' }]
+      }, true)
+
+      expect(result.isValid).toBe(false)
+      expect(result.errors.map(e => e.field)).toEqual(['images[0].url', 'documents[0].category'])
+      expect(result.data).toEqual({})
+    })
+
+    it('should accept the legacy document type field as the category', () => {
+      const result = prepareProductData({
+        documents: [{ name: ' Mill cert ', url: '/docs/cert.pdf', type: 'certifications', expiresAt: '2025-06-30' }]
+      }, true)
+
+      expect(result.isValid).toBe(true)
+      expect(result.data.documents).toEqual([{
+        name: 'Mill cert',
+        url: '/docs/cert.pdf',
+        category: 'certifications',
+        expiresAt: new Date('2025-06-30')
+      }])
+
+      const invalid = prepareProductData({
+        documents: [{ name: 'Mill cert', url: '/docs/cert.pdf', category: 'certifications', expiresAt: 'soon' }]
+      }, true)
+      expect(invalid.errors.map(e => e.field)).toEqual(['documents[0].expiresAt'])
+    })
+
+    it('should parse structured specs from the text fields', () => {
+      const result = prepareProductData(validProduct)
+
+      expect(result.isValid).toBe(true)
+      expect(result.data).toMatchObject({
+        nominalSize: 6,
+        outerDiameterMm: 168.27,
+        lengthM: 3.048,
+        pressureBar: 10.342,
+        minTemperatureC: null,
+        maxTemperatureC: 93.3
+      })
+
+      const explicit = prepareProductData({ diameter: '4 inches', nominalSize: 4.5, schedule: ' 80s ' }, true)
+      expect(explicit.data).toMatchObject({ nominalSize: 4.5, outerDiameterMm: 114.3, schedule: '80S' })
+      expect(prepareProductData({ name: 'Renamed' }, true).data).toEqual({ name: 'Renamed' })
+    })
+
+    it('should reject inconsistent specs', () => {
+      const result = prepareProductData({
+        outerDiameterMm: 60.3,
+        innerDiameterMm: 61,
+        wallThicknessMm: 40,
+        pressureBar: -1,
+        minTemperatureC: 100,
+        maxTemperatureC: 20,
+        schedule: 'schedule 40'
+      }, true)
+
+      expect(result.errors.map(e => [e.field, e.code])).toEqual([
+        ['pressureBar', 'SPECIFICATION_OUT_OF_RANGE'],
+        ['schedule', 'INVALID_SPECIFICATION'],
+        ['innerDiameterMm', 'INCONSISTENT_SPECIFICATION'],
+        ['wallThicknessMm', 'INCONSISTENT_SPECIFICATION'],
+        ['minTemperatureC', 'INCONSISTENT_SPECIFICATION'],
+      ])
+    })
+
+    it('should validate and normalize variants', () => {
+      const result = prepareProductData({
+        variants: [
+          { sku: ' sp-2-40 ', diameter: '2"', length: '21 ft', schedule: '40', basePrice: '80' },
+          { id: 'v2', sku: 'SP-2-80', diameter: '2"', length: '21 ft', schedule: ' ', basePrice: 95, bulkDiscounts: [] }
+        ]
+      }, true)
+
+      expect(result.isValid).toBe(true)
+      expect(result.data.variants).toEqual([
+        { sku: 'SP-2-40', diameter: '2"', length: '21 ft', schedule: '40', basePrice: 80 },
+        { id: 'v2', sku: 'SP-2-80', diameter: '2"', length: '21 ft', schedule: null, basePrice: 95, bulkDiscounts: [] }
+      ])
+
+      const invalid = prepareProductData({
+        variants: [
+          { sku: 'SP 1', diameter: '', length: '21 ft', basePrice: 0, availability: 'SOON' },
+          { sku: 'SP-2', diameter: '2"', length: '21 ft', basePrice: 10, bulkDiscounts: [{ minQuantity: 0, discount: 0.1 }] },
+          { sku: 'sp-2', diameter: '2"', length: '21 FT', basePrice: 10 }
+        ]
+      }, true)
+      expect(invalid.errors.map(e => [e.field, e.code])).toEqual([
+        ['variants[0].sku', 'INVALID_SKU'],
+        ['variants[0].diameter', 'REQUIRED_FIELD_MISSING'],
+        ['variants[0].basePrice', 'INVALID_PRICE'],
+        ['variants[0].availability', 'INVALID_AVAILABILITY'],
+        ['variants[1].bulkDiscounts[0].minQuantity', 'INVALID_MIN_QUANTITY'],
+        ['variants[2].sku', 'DUPLICATE_SKU'],
+        ['variants[2]', 'DUPLICATE_VARIANT'],
+      ])
+    })
+
+    it('should normalize the product SKU and clear it when blank', () => {
+      expect(prepareProductData({ sku: ' pvc-4 ' }, true).data.sku).toBe('PVC-4')
+      expect(prepareProductData({ sku: '' }, true).data.sku).toBeNull()
+      expect(prepareProductData({ sku: 'PVC 4' }, true).errors.map(e => [e.field, e.code])).toEqual([['sku', 'INVALID_SKU']])
+    })
+
+    it('should validate related products', () => {
+      const result = prepareProductData({
+        relations: [{ relatedProductId: ' elbow ', type: 'FITTING', name: 'Elbow' }]
+      }, true)
+
+      expect(result.isValid).toBe(true)
+      expect(result.data.relations).toEqual([{ relatedProductId: 'elbow', type: 'FITTING' }])
+
+      const invalid = prepareProductData({
+        relations: [
+          { relatedProductId: '', type: 'FITTING' },
+          { relatedProductId: 'elbow', type: 'ADAPTER' },
+          { relatedProductId: 'valve', type: 'VALVE' },
+          { relatedProductId: 'valve', type: 'VALVE' }
+        ]
+      }, true)
+      expect(invalid.errors.map(e => [e.field, e.code])).toEqual([
+        ['relations[0].relatedProductId', 'REQUIRED_FIELD_MISSING'],
+        ['relations[1].type', 'INVALID_RELATION_TYPE'],
+        ['relations[3]', 'DUPLICATE_RELATION'],
+      ])
+    })
+
+    it('should reject fractional bulk discount quantities', () => {
+      const result = prepareProductData({ bulkDiscounts: [{ minQuantity: 2.5, discount: 0.1 }] }, true)
+
+      expect(result.errors.some(e => e.code === 'INVALID_MIN_QUANTITY')).toBe(true)
+    })
+
+    it('should reject non-object bodies', () => {
+      expect(prepareProductData(null).errors[0].code).toBe('INVALID_BODY')
+      expect(prepareProductData([validProduct]).errors[0].code).toBe('INVALID_BODY')
+    })
+  })
+  
   describe('createAuditLogEntry', () => {
     it('should create audit log for product creation', () => {
       const productData = {
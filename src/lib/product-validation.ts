@@ -3,6 +3,8 @@
  * Implements validation for product specifications and audit logging
  */
 
+import { parseSpecifications, ProductSpecifications, SPECIFICATION_FIELDS } from './product-specs'
+
 // Define enum values for validation
 const ProductCategory = {
   STEEL_PIPE: 'STEEL_PIPE',
@@ -22,6 +24,20 @@ const AvailabilityStatus = {
   LOW_STOCK: 'LOW_STOCK'
 } as const
 
+const ProductRelationType = {
+  FITTING: 'FITTING',
+  COUPLING: 'COUPLING',
+  VALVE: 'VALVE',
+  SUBSTITUTE: 'SUBSTITUTE',
+  UPGRADE: 'UPGRADE'
+} as const
+
+const DocumentVisibility = {
+  PUBLIC: 'PUBLIC',
+  CUSTOMER: 'CUSTOMER',
+  INTERNAL: 'INTERNAL'
+} as const
+
 export interface ValidationError {
   field: string
   message: string
@@ -33,7 +49,31 @@ export interface ValidationResult {
   errors: ValidationError[]
 }
 
-export interface ProductData {
+export interface BulkDiscountData {
+  minQuantity: number
+  discount: number
+}
+
+export interface ProductVariantData {
+  // Present when updating a variant that already exists
+  id?: string
+  sku: string
+  diameter: string
+  length: string
+  schedule?: string | null
+  basePrice: number
+  availability?: string
+  bulkDiscounts?: BulkDiscountData[]
+}
+
+export interface ProductRelationData {
+  relatedProductId: string
+  type: keyof typeof ProductRelationType
+}
+
+export interface ProductData extends Partial<ProductSpecifications> {
+  // Null clears the SKU of an existing product
+  sku?: string | null
   name?: string
   description?: string
   category?: string
@@ -49,10 +89,46 @@ export interface ProductData {
   currency?: string
   pricePerUnit?: string
   availability?: string
-  bulkDiscounts?: Array<{
-    minQuantity: number
-    discount: number
+  bulkDiscounts?: BulkDiscountData[]
+  variants?: ProductVariantData[]
+  relations?: ProductRelationData[]
+  images?: Array<{
+    url: string
+    alt?: string
   }>
+  documents?: Array<{
+    // Present when updating a document that already exists
+    id?: string
+    name: string
+    url: string
+    category: string
+    // Accepted in place of category from clients written before documents had one
+    type?: string
+    visibility?: keyof typeof DocumentVisibility
+    effectiveDate?: string | Date
+    expiresAt?: string | Date
+  }>
+}
+
+// Fields a client may set on a product; anything else in a request body is dropped
+const PRODUCT_FIELDS: Array<keyof ProductData> = [
+  'sku', 'name', 'description', 'category', 'brand', 'diameter', 'length', 'material',
+  'pressureRating', 'temperature', 'standards', 'applications', 'basePrice',
+  'currency', 'pricePerUnit', 'availability', 'bulkDiscounts', 'variants', 'relations',
+  'images', 'documents',
+  ...SPECIFICATION_FIELDS
+]
+
+// Structured spec limits, in the metric units the specs are stored in
+const SPECIFICATION_LIMITS: Partial<Record<keyof ProductSpecifications, { min: number; max: number }>> = {
+  nominalSize: { min: 0.125, max: 120 },
+  outerDiameterMm: { min: 1, max: 4000 },
+  innerDiameterMm: { min: 0.5, max: 4000 },
+  wallThicknessMm: { min: 0.1, max: 200 },
+  lengthM: { min: 0.01, max: 1000 },
+  pressureBar: { min: 0.01, max: 2000 },
+  minTemperatureC: { min: -273, max: 1500 },
+  maxTemperatureC: { min: -273, max: 1500 }
 }
 
 export interface AuditLogEntry {
@@ -66,6 +142,188 @@ export interface AuditLogEntry {
   userAgent?: string
 }
 
+// Most variants a single product can be sold in
+export const MAX_VARIANTS = 100
+
+const SKU_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,49}$/
+
+// Most related items a single product can link to
+export const MAX_RELATIONS = 50
+
+function validateBulkDiscounts(discounts: unknown, field: string, errors: ValidationError[]): void {
+  if (!Array.isArray(discounts)) {
+    errors.push({
+      field,
+      message: 'Bulk discounts must be an array',
+      code: 'INVALID_BULK_DISCOUNTS'
+    })
+    return
+  }
+
+  for (let i = 0; i < discounts.length; i++) {
+    const discount = discounts[i] || ({} as any)
+
+    if (typeof discount.minQuantity !== 'number' || !Number.isInteger(discount.minQuantity) || discount.minQuantity < 1) {
+      errors.push({
+        field: `${field}[${i}].minQuantity`,
+        message: 'Minimum quantity must be a positive integer',
+        code: 'INVALID_MIN_QUANTITY'
+      })
+    }
+
+    if (typeof discount.discount !== 'number' || discount.discount < 0 || discount.discount > 1) {
+      errors.push({
+        field: `${field}[${i}].discount`,
+        message: 'Discount must be a number between 0 and 1',
+        code: 'INVALID_DISCOUNT'
+      })
+    }
+  }
+
+  // Check for duplicate minimum quantities
+  const minQuantities = discounts.map(d => d?.minQuantity)
+  const uniqueQuantities = new Set(minQuantities)
+  if (minQuantities.length !== uniqueQuantities.size) {
+    errors.push({
+      field,
+      message: 'Bulk discounts cannot have duplicate minimum quantities',
+      code: 'DUPLICATE_MIN_QUANTITIES'
+    })
+  }
+}
+
+function validateVariants(variants: unknown, errors: ValidationError[]): void {
+  if (!Array.isArray(variants)) {
+    errors.push({
+      field: 'variants',
+      message: 'Variants must be an array',
+      code: 'INVALID_VARIANTS'
+    })
+    return
+  }
+
+  if (variants.length > MAX_VARIANTS) {
+    errors.push({
+      field: 'variants',
+      message: `A product can have at most ${MAX_VARIANTS} variants`,
+      code: 'TOO_MANY_VARIANTS'
+    })
+  }
+
+  const skus = new Set<string>()
+  const combinations = new Set<string>()
+
+  variants.forEach((input, i) => {
+    const variant = input || ({} as any)
+    const field = `variants[${i}]`
+
+    if (variant.id !== undefined && typeof variant.id !== 'string') {
+      errors.push({ field: `${field}.id`, message: 'Variant id must be a string', code: 'INVALID_VARIANT_ID' })
+    }
+
+    if (typeof variant.sku !== 'string' || !SKU_PATTERN.test(variant.sku.trim())) {
+      errors.push({
+        field: `${field}.sku`,
+        message: 'SKU must be 1-50 letters, digits, dots, dashes or underscores',
+        code: 'INVALID_SKU'
+      })
+    } else if (skus.has(variant.sku.trim().toUpperCase())) {
+      errors.push({ field: `${field}.sku`, message: `SKU ${variant.sku.trim()} is used more than once`, code: 'DUPLICATE_SKU' })
+    } else {
+      skus.add(variant.sku.trim().toUpperCase())
+    }
+
+    for (const key of ['diameter', 'length'] as const) {
+      if (typeof variant[key] !== 'string' || variant[key].trim().length === 0) {
+        errors.push({ field: `${field}.${key}`, message: `Variant ${key} is required`, code: 'REQUIRED_FIELD_MISSING' })
+      }
+    }
+
+    if (variant.schedule !== undefined && variant.schedule !== null &&
+        (typeof variant.schedule !== 'string' || variant.schedule.trim().length > 10)) {
+      errors.push({ field: `${field}.schedule`, message: 'Schedule must be at most 10 characters', code: 'INVALID_SPECIFICATION' })
+    }
+
+    if (typeof variant.basePrice !== 'number' || isNaN(variant.basePrice) || variant.basePrice <= 0 || variant.basePrice > 1000000) {
+      errors.push({
+        field: `${field}.basePrice`,
+        message: 'Variant price must be positive and less than $1,000,000',
+        code: 'INVALID_PRICE'
+      })
+    }
+
+    if (variant.availability !== undefined && !Object.values(AvailabilityStatus).includes(variant.availability)) {
+      errors.push({
+        field: `${field}.availability`,
+        message: `Availability must be one of: ${Object.values(AvailabilityStatus).join(', ')}`,
+        code: 'INVALID_AVAILABILITY'
+      })
+    }
+
+    if (variant.bulkDiscounts !== undefined) {
+      validateBulkDiscounts(variant.bulkDiscounts, `${field}.bulkDiscounts`, errors)
+    }
+
+    if (typeof variant.diameter === 'string' && typeof variant.length === 'string') {
+      const combination = [variant.diameter, variant.length, variant.schedule ?? '']
+        .map(value => String(value).trim().toLowerCase())
+        .join('|')
+      if (combinations.has(combination)) {
+        errors.push({
+          field,
+          message: 'Each variant needs a different diameter, length or schedule',
+          code: 'DUPLICATE_VARIANT'
+        })
+      }
+      combinations.add(combination)
+    }
+  })
+}
+
+function validateRelations(relations: unknown, errors: ValidationError[]): void {
+  if (!Array.isArray(relations)) {
+    errors.push({
+      field: 'relations',
+      message: 'Related products must be an array',
+      code: 'INVALID_RELATIONS'
+    })
+    return
+  }
+
+  if (relations.length > MAX_RELATIONS) {
+    errors.push({
+      field: 'relations',
+      message: `A product can have at most ${MAX_RELATIONS} related products`,
+      code: 'TOO_MANY_RELATIONS'
+    })
+  }
+
+  const seen = new Set<string>()
+
+  relations.forEach((input, i) => {
+    const relation = input || ({} as any)
+    const field = `relations[${i}]`
+
+    if (typeof relation.relatedProductId !== 'string' || relation.relatedProductId.trim().length === 0) {
+      errors.push({ field: `${field}.relatedProductId`, message: 'Related product is required', code: 'REQUIRED_FIELD_MISSING' })
+    }
+
+    if (!Object.values(ProductRelationType).includes(relation.type)) {
+      errors.push({
+        field: `${field}.type`,
+        message: `Relation type must be one of: ${Object.values(ProductRelationType).join(', ')}`,
+        code: 'INVALID_RELATION_TYPE'
+      })
+    }
+
+    const key = `${relation.relatedProductId}|${relation.type}`
+    if (seen.has(key)) {
+      errors.push({ field, message: 'Each related product can be linked once per type', code: 'DUPLICATE_RELATION' })
+    }
+    seen.add(key)
+  })
+}
+
 /**
  * Validates product data for creation or update
  */
@@ -91,6 +349,17 @@ export function validateProductData(data: ProductData, isUpdate: boolean = false
     }
   }
 
+  // SKU validation; blank clears it
+  if (data.sku !== undefined && data.sku !== null && data.sku !== '') {
+    if (typeof data.sku !== 'string' || !SKU_PATTERN.test(data.sku.trim())) {
+      errors.push({
+        field: 'sku',
+        message: 'SKU must be 1-50 letters, digits, dots, dashes or underscores',
+        code: 'INVALID_SKU'
+      })
+    }
+  }
+
   // Name validation
   if (data.name !== undefined) {
     if (typeof data.name !== 'string' || data.name.trim().length === 0) {
@@ -174,6 +443,57 @@ export function validateProductData(data: ProductData, isUpdate: boolean = false
     }
   }
 
+  // Structured specification validation; null clears a spec
+  for (const [field, limits] of Object.entries(SPECIFICATION_LIMITS)) {
+    const value = data[field as keyof ProductSpecifications]
+    if (value === undefined || value === null || !limits) continue
+    if (typeof value !== 'number' || !isFinite(value)) {
+      errors.push({
+        field,
+        message: `${field} must be a number`,
+        code: 'INVALID_SPECIFICATION'
+      })
+    } else if (value < limits.min || value > limits.max) {
+      errors.push({
+        field,
+        message: `${field} must be between ${limits.min} and ${limits.max}`,
+        code: 'SPECIFICATION_OUT_OF_RANGE'
+      })
+    }
+  }
+
+  if (data.schedule !== undefined && data.schedule !== null &&
+      (typeof data.schedule !== 'string' || !/^[A-Za-z0-9]{1,10}$/.test(data.schedule.trim()))) {
+    errors.push({
+      field: 'schedule',
+      message: 'Schedule must be a short code such as 40, 80S or XS',
+      code: 'INVALID_SPECIFICATION'
+    })
+  }
+
+  const isSize = (value: unknown): value is number => typeof value === 'number' && isFinite(value)
+  if (isSize(data.outerDiameterMm) && isSize(data.innerDiameterMm) && data.innerDiameterMm >= data.outerDiameterMm) {
+    errors.push({
+      field: 'innerDiameterMm',
+      message: 'Inside diameter must be smaller than the outside diameter',
+      code: 'INCONSISTENT_SPECIFICATION'
+    })
+  }
+  if (isSize(data.outerDiameterMm) && isSize(data.wallThicknessMm) && data.wallThicknessMm * 2 >= data.outerDiameterMm) {
+    errors.push({
+      field: 'wallThicknessMm',
+      message: 'Wall thickness must be less than half the outside diameter',
+      code: 'INCONSISTENT_SPECIFICATION'
+    })
+  }
+  if (isSize(data.minTemperatureC) && isSize(data.maxTemperatureC) && data.minTemperatureC > data.maxTemperatureC) {
+    errors.push({
+      field: 'minTemperatureC',
+      message: 'Minimum temperature cannot be above the maximum',
+      code: 'INCONSISTENT_SPECIFICATION'
+    })
+  }
+
   // Base price validation
   if (data.basePrice !== undefined) {
     if (typeof data.basePrice !== 'number' || isNaN(data.basePrice)) {
@@ -264,42 +584,99 @@ export function validateProductData(data: ProductData, isUpdate: boolean = false
 
   // Bulk discounts validation
   if (data.bulkDiscounts !== undefined) {
-    if (!Array.isArray(data.bulkDiscounts)) {
+    validateBulkDiscounts(data.bulkDiscounts, 'bulkDiscounts', errors)
+  }
+
+  // Variant validation
+  if (data.variants !== undefined) {
+    validateVariants(data.variants, errors)
+  }
+
+  // Related product validation
+  if (data.relations !== undefined) {
+    validateRelations(data.relations, errors)
+  }
+
+  // Image validation
+  if (data.images !== undefined) {
+    if (!Array.isArray(data.images)) {
       errors.push({
-        field: 'bulkDiscounts',
-        message: 'Bulk discounts must be an array',
-        code: 'INVALID_BULK_DISCOUNTS'
+        field: 'images',
+        message: 'Images must be an array',
+        code: 'INVALID_IMAGES'
       })
     } else {
-      for (let i = 0; i < data.bulkDiscounts.length; i++) {
-        const discount = data.bulkDiscounts[i]
-        
-        if (typeof discount.minQuantity !== 'number' || discount.minQuantity < 1) {
+      for (let i = 0; i < data.images.length; i++) {
+        const image = data.images[i]
+
+        if (!image || typeof image.url !== 'string' || image.url.trim().length === 0) {
           errors.push({
-            field: `bulkDiscounts[${i}].minQuantity`,
-            message: 'Minimum quantity must be a positive integer',
-            code: 'INVALID_MIN_QUANTITY'
+            field: `images[${i}].url`,
+            message: 'Image URL must be a non-empty string',
+            code: 'INVALID_IMAGE_URL'
           })
         }
-        
-        if (typeof discount.discount !== 'number' || discount.discount < 0 || discount.discount > 1) {
+
+        if (image?.alt !== undefined && image.alt !== null && typeof image.alt !== 'string') {
           errors.push({
-            field: `bulkDiscounts[${i}].discount`,
-            message: 'Discount must be a number between 0 and 1',
-            code: 'INVALID_DISCOUNT'
+            field: `images[${i}].alt`,
+            message: 'Image alt text must be a string',
+            code: 'INVALID_IMAGE_ALT'
           })
         }
       }
-      
-      // Check for duplicate minimum quantities
-      const minQuantities = data.bulkDiscounts.map(d => d.minQuantity)
-      const uniqueQuantities = new Set(minQuantities)
-      if (minQuantities.length !== uniqueQuantities.size) {
-        errors.push({
-          field: 'bulkDiscounts',
-          message: 'Bulk discounts cannot have duplicate minimum quantities',
-          code: 'DUPLICATE_MIN_QUANTITIES'
-        })
+    }
+  }
+
+  // Document validation
+  if (data.documents !== undefined) {
+    if (!Array.isArray(data.documents)) {
+      errors.push({
+        field: 'documents',
+        message: 'Documents must be an array',
+        code: 'INVALID_DOCUMENTS'
+      })
+    } else {
+      for (let i = 0; i < data.documents.length; i++) {
+        const document = data.documents[i]
+
+        if (document?.id !== undefined && typeof document.id !== 'string') {
+          errors.push({
+            field: `documents[${i}].id`,
+            message: 'Document id must be a string',
+            code: 'INVALID_DOCUMENT'
+          })
+        }
+
+        const fields = { name: document?.name, url: document?.url, category: document?.category ?? document?.type }
+        for (const [key, value] of Object.entries(fields)) {
+          if (typeof value !== 'string' || value.trim().length === 0) {
+            errors.push({
+              field: `documents[${i}].${key}`,
+              message: `Document ${key} must be a non-empty string`,
+              code: 'INVALID_DOCUMENT'
+            })
+          }
+        }
+
+        for (const key of ['effectiveDate', 'expiresAt'] as const) {
+          const value = document?.[key]
+          if (value !== undefined && value !== null && isNaN(new Date(value).getTime())) {
+            errors.push({
+              field: `documents[${i}].${key}`,
+              message: `Document ${key} must be a valid date`,
+              code: 'INVALID_DOCUMENT'
+            })
+          }
+        }
+
+        if (document?.visibility !== undefined && !Object.values(DocumentVisibility).includes(document.visibility as any)) {
+          errors.push({
+            field: `documents[${i}].visibility`,
+            message: `Document visibility must be one of: ${Object.values(DocumentVisibility).join(', ')}`,
+            code: 'INVALID_DOCUMENT'
+          })
+        }
       }
     }
   }
@@ -310,6 +687,63 @@ export function validateProductData(data: ProductData, isUpdate: boolean = false
   }
 }
 
+/**
+ * Full server-side pipeline for product writes: drops unknown fields, coerces
+ * numeric strings, validates and sanitizes
+ */
+export function prepareProductData(
+  input: unknown,
+  isUpdate: boolean = false
+): ValidationResult & { data: ProductData } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return {
+      isValid: false,
+      errors: [{ field: 'body', message: 'Request body must be an object', code: 'INVALID_BODY' }],
+      data: {}
+    }
+  }
+
+  const raw = input as Record<string, any>
+  const data: ProductData = {}
+  for (const field of PRODUCT_FIELDS) {
+    if (raw[field] !== undefined) {
+      (data as any)[field] = raw[field]
+    }
+  }
+
+  // Structured specs follow the text fields unless the client sets them itself
+  const textFields = Object.fromEntries(
+    (['diameter', 'length', 'pressureRating', 'temperature'] as const)
+      .filter(field => typeof data[field] === 'string')
+      .map(field => [field, data[field]])
+  )
+  const parsed = parseSpecifications(textFields, data.category)
+  for (const [field, value] of Object.entries(parsed)) {
+    if (raw[field] === undefined) {
+      (data as any)[field] = value
+    }
+  }
+
+  // Form inputs and spreadsheets often send prices as strings
+  if (typeof data.basePrice === 'string' && (data.basePrice as string).trim() !== '') {
+    data.basePrice = Number(data.basePrice)
+  }
+  if (Array.isArray(data.variants)) {
+    data.variants = data.variants.map(variant =>
+      variant && typeof variant.basePrice === 'string' && (variant.basePrice as string).trim() !== ''
+        ? { ...variant, basePrice: Number(variant.basePrice) }
+        : variant
+    )
+  }
+
+  const validation = validateProductData(data, isUpdate)
+  if (!validation.isValid) {
+    return { ...validation, data: {} }
+  }
+
+  return { ...validation, data: sanitizeProductData(data) }
+}
+
 /**
  * Creates an audit log entry for product changes
  */
@@ -403,6 +837,10 @@ export function sanitizeProductData(data: ProductData): ProductData {
     }
   }
 
+  if (data.sku !== undefined) {
+    sanitized.sku = data.sku?.trim() ? data.sku.trim().toUpperCase() : null
+  }
+
   // Handle arrays
   if (data.standards) {
     sanitized.standards = data.standards.map(s => s.trim()).filter(s => s.length > 0)
@@ -416,7 +854,59 @@ export function sanitizeProductData(data: ProductData): ProductData {
   if (data.category !== undefined) sanitized.category = data.category
   if (data.availability !== undefined) sanitized.availability = data.availability
   if (data.basePrice !== undefined) sanitized.basePrice = data.basePrice
-  if (data.bulkDiscounts !== undefined) sanitized.bulkDiscounts = data.bulkDiscounts
+  for (const field of SPECIFICATION_FIELDS) {
+    const value = data[field]
+    if (value !== undefined) {
+      (sanitized as any)[field] = typeof value === 'string' ? value.trim().toUpperCase() : value
+    }
+  }
+  if (data.bulkDiscounts !== undefined) {
+    sanitized.bulkDiscounts = data.bulkDiscounts.map(d => ({
+      minQuantity: d.minQuantity,
+      discount: d.discount
+    }))
+  }
+
+  if (data.variants !== undefined) {
+    sanitized.variants = data.variants.map(variant => ({
+      ...(variant.id ? { id: variant.id } : {}),
+      sku: variant.sku.trim().toUpperCase(),
+      diameter: variant.diameter.trim(),
+      length: variant.length.trim(),
+      schedule: variant.schedule?.trim() ? variant.schedule.trim().toUpperCase() : null,
+      basePrice: variant.basePrice,
+      ...(variant.availability ? { availability: variant.availability } : {}),
+      ...(variant.bulkDiscounts
+        ? { bulkDiscounts: variant.bulkDiscounts.map(d => ({ minQuantity: d.minQuantity, discount: d.discount })) }
+        : {})
+    }))
+  }
+
+  if (data.relations !== undefined) {
+    sanitized.relations = data.relations.map(relation => ({
+      relatedProductId: relation.relatedProductId.trim(),
+      type: relation.type
+    }))
+  }
+
+  if (data.images !== undefined) {
+    sanitized.images = data.images.map(image => ({
+      url: image.url.trim(),
+      ...(image.alt ? { alt: image.alt.trim() } : {})
+    }))
+  }
+
+  if (data.documents !== undefined) {
+    sanitized.documents = data.documents.map(document => ({
+      ...(document.id ? { id: document.id } : {}),
+      name: document.name.trim(),
+      url: document.url.trim(),
+      category: (document.category ?? document.type)!.trim(),
+      ...(document.visibility ? { visibility: document.visibility } : {}),
+      ...(document.effectiveDate ? { effectiveDate: new Date(document.effectiveDate) } : {}),
+      ...(document.expiresAt ? { expiresAt: new Date(document.expiresAt) } : {})
+    }))
+  }
 
   return sanitized
 }
\ No newline at end of file
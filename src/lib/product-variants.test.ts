@@ -0,0 +1,136 @@
+/**
+ * Tests for product variant selection and saving
+ */
+
+import {
+  checkVariantChanges,
+  getVariantPriceRange,
+  getVariantSelectorOptions,
+  saveProductVariants,
+  selectVariant,
+  variantLabel,
+} from './product-variants'
+
+const variant = (id: string, diameter: string, schedule: string | null, length: string, basePrice = 10) => ({
+  id,
+  sku: `SP-${id.toUpperCase()}`,
+  diameter,
+  schedule,
+  length,
+  basePrice,
+  availability: 'IN_STOCK',
+})
+
+const variants = [
+  variant('a', '2"', '40', '21 ft', 80),
+  variant('b', '2"', '80', '21 ft', 110),
+  variant('c', '4"', '40', '21 ft', 190),
+  variant('d', '4"', '40', '10 ft', 95),
+]
+
+function mockDb() {
+  return {
+    productVariant: {
+      findMany: jest.fn().mockResolvedValue([]),
+      deleteMany: jest.fn(),
+      update: jest.fn(),
+      create: jest.fn(),
+    },
+    bulkDiscount: {
+      deleteMany: jest.fn(),
+      createMany: jest.fn(),
+    },
+  }
+}
+
+describe('Product Variants', () => {
+  test('variants are labelled and priced for display', () => {
+    expect(variantLabel(variants[0])).toBe('2" / Sch 40 / 21 ft')
+    expect(variantLabel({ diameter: '1/2"', schedule: null, length: '10 ft' })).toBe('1/2" / 10 ft')
+    expect(getVariantPriceRange(variants)).toEqual({ min: 80, max: 190 })
+    expect(getVariantPriceRange([])).toBeNull()
+  })
+
+  test('selector options follow the chosen size and schedule', () => {
+    expect(getVariantSelectorOptions(variants, variants[2])).toEqual({
+      diameters: ['2"', '4"'],
+      schedules: ['40'],
+      lengths: ['21 ft', '10 ft'],
+    })
+    expect(getVariantSelectorOptions(variants, variants[0]).schedules).toEqual(['40', '80'])
+  })
+
+  test('changing one selector keeps the other choices where possible', () => {
+    expect(selectVariant(variants, variants[0], { diameter: '4"' })?.id).toBe('c')
+    expect(selectVariant(variants, variants[3], { diameter: '2"' })?.id).toBe('a')
+    expect(selectVariant(variants, variants[0], { schedule: '80' })?.id).toBe('b')
+    expect(selectVariant(variants, variants[2], { length: '10 ft' })?.id).toBe('d')
+    expect(selectVariant([], null, { diameter: '2"' })).toBeNull()
+  })
+
+  test('SKUs of other products and quoted variants block a save', async () => {
+    const db = mockDb()
+    db.productVariant.findMany.mockResolvedValueOnce([{ sku: 'SP-A' }])
+
+    expect(await checkVariantChanges(db as any, 'p1', [{ sku: 'SP-A', diameter: '2"', length: '21 ft', basePrice: 80 }]))
+      .toBe('SKU already used by another product: SP-A')
+    expect(db.productVariant.findMany.mock.calls[0][0].where).toEqual({ sku: { in: ['SP-A'] }, productId: { not: 'p1' } })
+
+    db.productVariant.findMany.mockResolvedValueOnce([]).mockResolvedValueOnce([{ sku: 'SP-B' }])
+    expect(await checkVariantChanges(db as any, 'p1', [{ id: 'a', sku: 'SP-A', diameter: '2"', length: '21 ft', basePrice: 80 }]))
+      .toContain('SP-B')
+    expect(db.productVariant.findMany.mock.calls[2][0].where).toEqual({ productId: 'p1', id: { notIn: ['a'] }, quoteProducts: { some: {} } })
+
+    db.productVariant.findMany.mockResolvedValueOnce([])
+    expect(await checkVariantChanges(db as any, null, [])).toBeNull()
+  })
+
+  test('saving updates kept variants, creates new ones and deletes the rest', async () => {
+    const db = mockDb()
+    db.productVariant.findMany.mockResolvedValue([{ id: 'a', sku: 'SP-A' }, { id: 'b', sku: 'SP-B' }])
+
+    await saveProductVariants(db as any, 'p1', [
+      { id: 'unknown', sku: 'SP-NEW', diameter: '6"', length: '21 ft', basePrice: 300, bulkDiscounts: [{ minQuantity: 10, discount: 0.05 }] },
+      { id: 'a', sku: 'SP-A', diameter: '2"', length: '21 ft', schedule: '40', basePrice: 85 },
+    ])
+
+    expect(db.productVariant.deleteMany).toHaveBeenCalledWith({ where: { productId: 'p1', id: { notIn: ['a'] } } })
+    expect(db.productVariant.create).toHaveBeenCalledWith({
+      data: {
+        sku: 'SP-NEW',
+        diameter: '6"',
+        length: '21 ft',
+        basePrice: 300,
+        availability: undefined,
+        position: 0,
+        productId: 'p1',
+        bulkDiscounts: { create: [{ minQuantity: 10, discount: 0.05 }] },
+      },
+    })
+    expect(db.productVariant.update).toHaveBeenCalledWith({
+      where: { id: 'a' },
+      data: { sku: 'SP-A', diameter: '2"', length: '21 ft', schedule: '40', basePrice: 85, availability: undefined, position: 1 },
+    })
+    // Tiers of a kept variant are left alone when none are sent
+    expect(db.bulkDiscount.deleteMany).not.toHaveBeenCalled()
+  })
+
+  test('SKUs swapped between variants go through placeholders first', async () => {
+    const db = mockDb()
+    db.productVariant.findMany.mockResolvedValue([{ id: 'a', sku: 'SP-A' }, { id: 'b', sku: 'SP-B' }, { id: 'c', sku: 'SP-C' }])
+
+    await saveProductVariants(db as any, 'p1', [
+      { id: 'a', sku: 'SP-B', diameter: '2"', length: '21 ft', basePrice: 80 },
+      { id: 'b', sku: 'SP-A', diameter: '2"', length: '21 ft', basePrice: 110 },
+      { id: 'c', sku: 'SP-C', diameter: '4"', length: '21 ft', basePrice: 190 },
+    ])
+
+    expect(db.productVariant.update.mock.calls.map(([call]) => [call.where.id, call.data.sku])).toEqual([
+      ['a', '~a'],
+      ['b', '~b'],
+      ['a', 'SP-B'],
+      ['b', 'SP-A'],
+      ['c', 'SP-C'],
+    ])
+  })
+})
@@ -0,0 +1,165 @@
+/**
+ * Product variants: the sizes, schedules and lengths a product is sold in.
+ * The display helpers are safe to import from client components; the save
+ * helpers take the transaction client they run in.
+ */
+
+import type { Prisma } from '@prisma/client'
+import type { ProductVariantData } from './product-validation'
+
+type VariantClient = Pick<Prisma.TransactionClient, 'productVariant' | 'bulkDiscount'>
+
+export interface VariantOption {
+  id: string
+  sku: string
+  diameter: string
+  length: string
+  schedule?: string | null
+  basePrice: number
+  availability: string
+}
+
+/**
+ * Short description of a variant, e.g. `2" / Sch 40 / 21 ft`
+ */
+export function variantLabel(variant: Pick<VariantOption, 'diameter' | 'length' | 'schedule'>): string {
+  return [variant.diameter, variant.schedule ? `Sch ${variant.schedule}` : null, variant.length]
+    .filter(Boolean)
+    .join(' / ')
+}
+
+/**
+ * Lowest and highest variant price, or null for products without variants
+ */
+export function getVariantPriceRange(variants: Array<Pick<VariantOption, 'basePrice'>>): { min: number; max: number } | null {
+  if (variants.length === 0) return null
+  const prices = variants.map(variant => variant.basePrice)
+  return { min: Math.min(...prices), max: Math.max(...prices) }
+}
+
+/**
+ * Options for each selector given the current choice. Diameters list every
+ * size; schedules and lengths list those available in the chosen size, and
+ * lengths also in the chosen schedule.
+ */
+export function getVariantSelectorOptions<T extends VariantOption>(variants: T[], selected: T | null) {
+  const unique = (values: string[]) => Array.from(new Set(values))
+  const sameSize = variants.filter(variant => variant.diameter === selected?.diameter)
+  const sameSchedule = sameSize.filter(variant => (variant.schedule ?? '') === (selected?.schedule ?? ''))
+
+  return {
+    diameters: unique(variants.map(variant => variant.diameter)),
+    schedules: unique(sameSize.map(variant => variant.schedule ?? '').filter(Boolean)),
+    lengths: unique(sameSchedule.map(variant => variant.length))
+  }
+}
+
+/**
+ * The variant closest to the current one after a selector changes: an exact
+ * match on the chosen values, else the first variant matching the changed
+ * value and as many of the others as possible
+ */
+export function selectVariant<T extends VariantOption>(
+  variants: T[],
+  current: T | null,
+  change: Partial<Pick<VariantOption, 'diameter' | 'schedule' | 'length'>>
+): T | null {
+  const wanted = {
+    diameter: change.diameter ?? current?.diameter,
+    schedule: change.schedule !== undefined ? change.schedule : current?.schedule ?? null,
+    length: change.length ?? current?.length
+  }
+  const score = (variant: T) =>
+    (variant.diameter === wanted.diameter ? 4 : 0) +
+    ((variant.schedule ?? '') === (wanted.schedule ?? '') ? 2 : 0) +
+    (variant.length === wanted.length ? 1 : 0)
+
+  const changedKey = Object.keys(change)[0] as keyof typeof change | undefined
+  const candidates = changedKey
+    ? variants.filter(variant => (variant[changedKey] ?? '') === (change[changedKey] ?? ''))
+    : variants
+
+  return candidates.reduce<T | null>((best, variant) => (!best || score(variant) > score(best) ? variant : best), null)
+}
+
+/**
+ * Check a product's new variant list before saving it. Returns why it cannot
+ * be saved, or null: SKUs must not belong to another product, and variants
+ * on quotes cannot be removed since the quotes still refer to them.
+ */
+export async function checkVariantChanges(
+  db: VariantClient,
+  productId: string | null,
+  variants: ProductVariantData[]
+): Promise<string | null> {
+  const taken = await db.productVariant.findMany({
+    where: {
+      sku: { in: variants.map(variant => variant.sku) },
+      ...(productId ? { productId: { not: productId } } : {})
+    },
+    select: { sku: true }
+  })
+  if (taken.length > 0) {
+    return `SKU already used by another product: ${taken.map(variant => variant.sku).join(', ')}`
+  }
+
+  if (!productId) return null
+
+  const keptIds = variants.map(variant => variant.id).filter((id): id is string => Boolean(id))
+  const quoted = await db.productVariant.findMany({
+    where: { productId, id: { notIn: keptIds }, quoteProducts: { some: {} } },
+    select: { sku: true }
+  })
+  if (quoted.length > 0) {
+    return `Variants on quotes cannot be removed; mark them discontinued instead: ${quoted.map(variant => variant.sku).join(', ')}`
+  }
+
+  return null
+}
+
+/**
+ * Replace a product's variants with the given list. Variants with the id of
+ * an existing variant are updated in place so quote lines keep pointing at
+ * them, keeping their discount tiers unless new ones are given; the rest are
+ * created, and variants left out are deleted. Kept variants whose SKU changes
+ * are first moved to a placeholder SKU, so SKUs can be swapped or handed on
+ * between variants of the product without tripping the unique constraint.
+ */
+export async function saveProductVariants(
+  db: VariantClient,
+  productId: string,
+  variants: ProductVariantData[]
+): Promise<void> {
+  const existing = await db.productVariant.findMany({ where: { productId }, select: { id: true, sku: true } })
+  const existingSkus = new Map(existing.map(variant => [variant.id, variant.sku]))
+  const keptIds = new Set(variants.map(variant => variant.id).filter(id => id && existingSkus.has(id)))
+
+  await db.productVariant.deleteMany({
+    where: { productId, id: { notIn: Array.from(keptIds) as string[] } }
+  })
+
+  for (const { id, sku } of variants) {
+    if (id && keptIds.has(id) && existingSkus.get(id) !== sku) {
+      // Valid SKUs cannot start with ~, so the placeholder never clashes
+      await db.productVariant.update({ where: { id }, data: { sku: `~${id}` } })
+    }
+  }
+
+  for (const [position, { id, bulkDiscounts, ...fields }] of variants.entries()) {
+    const data = { ...fields, availability: fields.availability as Prisma.ProductVariantCreateInput['availability'], position }
+
+    if (id && keptIds.has(id)) {
+      await db.productVariant.update({ where: { id }, data })
+      if (bulkDiscounts) {
+        await db.bulkDiscount.deleteMany({ where: { variantId: id } })
+        await db.bulkDiscount.createMany({
+          data: bulkDiscounts.map(discount => ({ ...discount, variantId: id }))
+        })
+      }
+    } else {
+      await db.productVariant.create({
+        data: { ...data, productId, bulkDiscounts: { create: bulkDiscounts ?? [] } }
+      })
+    }
+  }
+}
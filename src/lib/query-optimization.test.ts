@@ -0,0 +1,143 @@
+/**
+ * Tests for product list query parsing and filter building
+ */
+
+import * as fc from 'fast-check'
+import {
+  buildPaginationResponse,
+  buildProductFilterSelections,
+  buildProductFilters,
+  buildSpecificationFilters,
+  getProductOrderBy,
+  parseProductListQuery,
+} from './query-optimization'
+
+function parse(query: string) {
+  return parseProductListQuery(new URLSearchParams(query))
+}
+
+describe('Product List Queries', () => {
+  test('reads filters, multi-select values and sort keys', () => {
+    const { query, errors } = parse(
+      'page=2&limit=12&category=STEEL_PIPE,PVC_PIPE&brand=Wheatland&brand=Charlotte&material=PVC' +
+      '&availability=IN_STOCK&minPrice=10&maxPrice=250.5&sort=price-asc&search=sch%2040'
+    )
+
+    expect(errors).toEqual([])
+    expect(query).toEqual({
+      page: 2,
+      limit: 12,
+      offset: 12,
+      sort: 'price-asc',
+      units: 'imperial',
+      filters: {
+        category: ['STEEL_PIPE', 'PVC_PIPE'],
+        brand: ['Wheatland', 'Charlotte'],
+        material: ['PVC'],
+        availability: ['IN_STOCK'],
+        search: 'sch 40',
+        minPrice: 10,
+        maxPrice: 250.5,
+      },
+    })
+  })
+
+  test('defaults apply to an empty query', () => {
+    const { query, errors } = parse('')
+
+    expect(errors).toEqual([])
+    expect(query).toMatchObject({ page: 1, limit: 20, offset: 0, sort: undefined, units: 'imperial' })
+    expect(buildProductFilterSelections(query.filters)).toEqual({})
+    expect(buildSpecificationFilters(query.filters)).toEqual([])
+  })
+
+  test('rejects unknown options, bad prices and sort keys', () => {
+    const { errors } = parse('category=STEEL_PIPE,PLASTIC&availability=SOON&minPrice=-1&maxPrice=abc&sort=random')
+
+    expect(errors).toEqual([
+      'Unknown category: PLASTIC',
+      'Unknown availability: SOON',
+      'minPrice must be a non-negative number',
+      'maxPrice must be a non-negative number',
+      'sort must be one of: relevance, name-asc, name-desc, price-asc, price-desc, newest, oldest, ' +
+        'size-asc, size-desc, pressure-asc, pressure-desc',
+    ])
+    expect(parse('minPrice=50&maxPrice=20').errors).toEqual(['minPrice cannot be greater than maxPrice'])
+    expect(parse(`search=${'steel '.repeat(40)}`).errors).toEqual(['search must be at most 200 characters'])
+    expect(parse('search=%3C%3E%28%29').errors).toEqual(['search has no searchable characters'])
+    expect(parse('search=%20').errors).toEqual([])
+  })
+
+  test('spec ranges are converted from the requested units', () => {
+    const imperial = parse('minSize=2&maxSize=6&minPressure=150&minLength=20&minTemperature=-20&maxTemperature=400&sort=size-asc')
+    expect(imperial.errors).toEqual([])
+    expect(imperial.query.filters).toMatchObject({
+      minSize: 2,
+      maxSize: 6,
+      minPressure: 10.342,
+      minLength: 6.096,
+      minTemperature: -28.9,
+      maxTemperature: 204.4,
+    })
+    expect(buildSpecificationFilters(imperial.query.filters)).toEqual([
+      { nominalSize: { gte: 2, lte: 6 } },
+      { pressureBar: { gte: 10.342, lte: undefined } },
+      { lengthM: { gte: 6.096, lte: undefined } },
+      { minTemperatureC: { lte: -28.9 } },
+      { maxTemperatureC: { gte: 204.4 } },
+    ])
+    expect(getProductOrderBy(imperial.query.sort)).toEqual({ nominalSize: { sort: 'asc', nulls: 'last' } })
+
+    const metric = parse('units=metric&minSize=50&maxPressure=16&maxLength=6')
+    expect(metric.query.units).toBe('metric')
+    expect(metric.query.filters).toMatchObject({ minSize: 2, maxPressure: 16, maxLength: 6 })
+  })
+
+  test('rejects invalid spec ranges and units', () => {
+    expect(parse('units=si&minPressure=-5&minTemperature=hot&minSize=8&maxSize=4').errors).toEqual([
+      'units must be imperial or metric',
+      'minPressure must be a non-negative number',
+      'minTemperature must be a number',
+      'minSize cannot be greater than maxSize',
+    ])
+  })
+
+  test('pagination stays within bounds for any input', () => {
+    fc.assert(
+      fc.property(fc.string(), fc.string(), (page, limit) => {
+        const { query } = parse(new URLSearchParams({ page, limit }).toString())
+        expect(query.page).toBeGreaterThanOrEqual(1)
+        expect(query.limit).toBeGreaterThanOrEqual(1)
+        expect(query.limit).toBeLessThanOrEqual(100)
+        expect(query.offset).toBe((query.page - 1) * query.limit)
+      }),
+      { numRuns: 100 }
+    )
+  })
+
+  test('each filter narrows its own facet', () => {
+    const selections = buildProductFilterSelections({
+      brand: ['Wheatland', 'Charlotte'],
+      availability: ['LOW_STOCK'],
+      maxPrice: 100,
+    })
+
+    expect(selections).toEqual({
+      brand: { brand: { in: ['Wheatland', 'Charlotte'] } },
+      availability: { availability: { in: ['LOW_STOCK'] } },
+      price: { basePrice: { gte: undefined, lte: 100 } },
+    })
+    expect(buildProductFilters({ brand: ['Wheatland'] })).toEqual({ AND: [{ brand: { in: ['Wheatland'] } }] })
+  })
+
+  test('pagination responses use the products API field names', () => {
+    expect(buildPaginationResponse(['a', 'b'], 45, 2, 20).pagination).toEqual({
+      page: 2,
+      limit: 20,
+      total: 45,
+      pages: 3,
+      hasNextPage: true,
+      hasPreviousPage: true,
+    })
+  })
+})
@@ -3,7 +3,10 @@
  * Provides helpers for efficient data fetching and pagination
  */
 
-import { Prisma } from '@prisma/client'
+import { AvailabilityStatus, Prisma, ProductCategory } from '@prisma/client'
+import { sanitizeNumber, sanitizePagination, sanitizeSearchQuery } from './input-sanitization'
+import type { FacetField } from './product-search'
+import { dnToNominalSize, fahrenheitToCelsius, feetToMetres, psiToBar, UnitSystem } from './product-specs'
 
 /**
  * Standard pagination parameters
@@ -69,33 +72,96 @@ export const optimizedQuoteInclude = {
 } satisfies Prisma.QuoteRequestInclude
 
 /**
- * Build product filter conditions
+ * Product list filters. Option filters hold every selected value and match
+ * products with any of them.
  */
-export function buildProductFilters(filters: {
-  category?: string
-  brand?: string
-  material?: string
-  availability?: string
+export interface ProductFilters {
+  category?: ProductCategory[]
+  brand?: string[]
+  material?: string[]
+  availability?: AvailabilityStatus[]
   search?: string
   minPrice?: number
   maxPrice?: number
-}): Prisma.ProductWhereInput {
-  const where: Prisma.ProductWhereInput = {}
+  // Spec ranges in stored units: NPS inches, bar, metres and °C
+  minSize?: number
+  maxSize?: number
+  minPressure?: number
+  maxPressure?: number
+  minLength?: number
+  maxLength?: number
+  // Products must be rated down to minTemperature and up to maxTemperature
+  minTemperature?: number
+  maxTemperature?: number
+}
+
+/**
+ * Build the spec range conditions. They narrow every facet, so they go with
+ * the base conditions rather than the facet selections.
+ */
+export function buildSpecificationFilters(filters: ProductFilters): Prisma.ProductWhereInput[] {
+  const conditions: Prisma.ProductWhereInput[] = []
+
+  if (filters.minSize !== undefined || filters.maxSize !== undefined) {
+    conditions.push({ nominalSize: { gte: filters.minSize, lte: filters.maxSize } })
+  }
+
+  if (filters.minPressure !== undefined || filters.maxPressure !== undefined) {
+    conditions.push({ pressureBar: { gte: filters.minPressure, lte: filters.maxPressure } })
+  }
+
+  if (filters.minLength !== undefined || filters.maxLength !== undefined) {
+    conditions.push({ lengthM: { gte: filters.minLength, lte: filters.maxLength } })
+  }
+
+  if (filters.minTemperature !== undefined) {
+    conditions.push({ minTemperatureC: { lte: filters.minTemperature } })
+  }
+
+  if (filters.maxTemperature !== undefined) {
+    conditions.push({ maxTemperatureC: { gte: filters.maxTemperature } })
+  }
+
+  return conditions
+}
+
+/**
+ * Build the condition for each active filter, keyed by the facet it narrows
+ */
+export function buildProductFilterSelections(
+  filters: ProductFilters
+): Partial<Record<FacetField, Prisma.ProductWhereInput>> {
+  const selections: Partial<Record<FacetField, Prisma.ProductWhereInput>> = {}
 
-  if (filters.category) {
-    where.category = filters.category as any
+  if (filters.category?.length) {
+    selections.category = { category: { in: filters.category } }
   }
 
-  if (filters.brand) {
-    where.brand = filters.brand
+  if (filters.brand?.length) {
+    selections.brand = { brand: { in: filters.brand } }
   }
 
-  if (filters.material) {
-    where.material = filters.material
+  if (filters.material?.length) {
+    selections.material = { material: { in: filters.material } }
   }
 
-  if (filters.availability) {
-    where.availability = filters.availability as any
+  if (filters.availability?.length) {
+    selections.availability = { availability: { in: filters.availability } }
+  }
+
+  if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
+    selections.price = { basePrice: { gte: filters.minPrice, lte: filters.maxPrice } }
+  }
+
+  return selections
+}
+
+/**
+ * Build product filter conditions
+ */
+export function buildProductFilters(filters: ProductFilters): Prisma.ProductWhereInput {
+  const where: Prisma.ProductWhereInput = {
+    AND: [...buildSpecificationFilters(filters), ...Object.values(buildProductFilterSelections(filters))]
   }
 
   if (filters.search) {
@@ -106,16 +172,6 @@ export function buildProductFilters(filters: {
     ]
   }
 
-  if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
-    where.basePrice = {}
-    if (filters.minPrice !== undefined) {
-      where.basePrice.gte = filters.minPrice
-    }
-    if (filters.maxPrice !== undefined) {
-      where.basePrice.lte = filters.maxPrice
-    }
-  }
-
   return where
 }
 
@@ -130,8 +186,20 @@ export const productOrderBy = {
   priceDesc: { basePrice: 'desc' as const },
   newest: { createdAt: 'desc' as const },
   oldest: { createdAt: 'asc' as const },
+  sizeAsc: { nominalSize: { sort: 'asc' as const, nulls: 'last' as const } },
+  sizeDesc: { nominalSize: { sort: 'desc' as const, nulls: 'last' as const } },
+  pressureAsc: { pressureBar: { sort: 'asc' as const, nulls: 'last' as const } },
+  pressureDesc: { pressureBar: { sort: 'desc' as const, nulls: 'last' as const } },
 }
 
+// Sort keys accepted by the products API; relevance only applies to searches
+export const PRODUCT_SORT_KEYS = [
+  'relevance', 'name-asc', 'name-desc', 'price-asc', 'price-desc', 'newest', 'oldest',
+  'size-asc', 'size-desc', 'pressure-asc', 'pressure-desc'
+] as const
+
+export type ProductSortKey = typeof PRODUCT_SORT_KEYS[number]
+
 /**
  * Get order by clause from string
  */
@@ -149,6 +217,14 @@ export function getProductOrderBy(orderBy?: string): Prisma.ProductOrderByWithRe
       return productOrderBy.newest
     case 'oldest':
       return productOrderBy.oldest
+    case 'size-asc':
+      return productOrderBy.sizeAsc
+    case 'size-desc':
+      return productOrderBy.sizeDesc
+    case 'pressure-asc':
+      return productOrderBy.pressureAsc
+    case 'pressure-desc':
+      return productOrderBy.pressureDesc
     default:
       return productOrderBy.default
   }
@@ -170,19 +246,162 @@ export function buildPaginationResponse<T>(
   page: number,
   limit: number
 ) {
+  const pages = calculateTotalPages(totalCount, limit)
+
   return {
     data,
     pagination: {
       page,
       limit,
-      totalCount,
-      totalPages: calculateTotalPages(totalCount, limit),
-      hasNextPage: page < calculateTotalPages(totalCount, limit),
+      total: totalCount,
+      pages,
+      hasNextPage: page < pages,
       hasPreviousPage: page > 1,
     },
   }
 }
 
+export interface ProductListQuery {
+  page: number
+  limit: number
+  offset: number
+  sort?: ProductSortKey
+  units: UnitSystem
+  filters: ProductFilters
+}
+
+// Round a converted filter bound to the precision specs are stored at, so a
+// bound entered in the other unit system still matches the stored value
+function toStoredPrecision(value: number | undefined, places: number): number | undefined {
+  if (value === undefined) return undefined
+  const factor = Math.pow(10, places)
+  return Math.round(value * factor) / factor
+}
+
+/**
+ * Read and validate the query string of a product list request. Repeated
+ * parameters and comma-separated values both select several options.
+ */
+export function parseProductListQuery(searchParams: URLSearchParams): {
+  query: ProductListQuery
+  errors: string[]
+} {
+  const errors: string[] = []
+  const { page, limit, offset } = sanitizePagination(searchParams.get('page'), searchParams.get('limit'))
+
+  const values = (name: string) => Array.from(new Set(
+    searchParams.getAll(name)
+      .flatMap(value => value.split(','))
+      .map(value => value.trim())
+      .filter(Boolean)
+  ))
+
+  const enumValues = <T extends string>(name: string, allowed: Record<string, T>): T[] => {
+    const selected = values(name)
+    const invalid = selected.filter(value => !(Object.values(allowed) as string[]).includes(value))
+    if (invalid.length > 0) {
+      errors.push(`Unknown ${name}: ${invalid.join(', ')}`)
+    }
+    return selected.filter((value): value is T => !invalid.includes(value))
+  }
+
+  const price = (name: string) => {
+    const raw = searchParams.get(name)
+    if (raw === null || raw.trim() === '') return undefined
+    const value = sanitizeNumber(raw, { min: 0 })
+    if (value === null) {
+      errors.push(`${name} must be a non-negative number`)
+      return undefined
+    }
+    return value
+  }
+
+  const temperature = (name: string) => {
+    const raw = searchParams.get(name)
+    if (raw === null || raw.trim() === '') return undefined
+    const value = sanitizeNumber(raw)
+    if (value === null) {
+      errors.push(`${name} must be a number`)
+      return undefined
+    }
+    return value
+  }
+
+  const units = searchParams.get('units') || 'imperial'
+  if (units !== 'imperial' && units !== 'metric') {
+    errors.push('units must be imperial or metric')
+  }
+  const metric = units === 'metric'
+
+  // Spec bounds are given in the requested units: sizes as NPS inches or DN,
+  // pressure in psi or bar, length in feet or metres, temperature in °F or °C
+  const size = (name: string) => {
+    const value = price(name)
+    return value !== undefined && metric ? dnToNominalSize(value) : value
+  }
+  const pressure = (name: string) => {
+    const value = price(name)
+    return toStoredPrecision(value !== undefined && !metric ? psiToBar(value) : value, 3)
+  }
+  const length = (name: string) => {
+    const value = price(name)
+    return toStoredPrecision(value !== undefined && !metric ? feetToMetres(value) : value, 3)
+  }
+  const degrees = (name: string) => {
+    const value = temperature(name)
+    return toStoredPrecision(value !== undefined && !metric ? fahrenheitToCelsius(value) : value, 1)
+  }
+
+  // A search that sanitizes away is rejected rather than dropped, which would
+  // return the whole unfiltered catalog
+  const search = () => {
+    const raw = searchParams.get('search')
+    if (raw === null || raw.trim() === '') return undefined
+    const value = sanitizeSearchQuery(raw)
+    if (value === null) {
+      errors.push(raw.trim().length > 200 ? 'search must be at most 200 characters' : 'search has no searchable characters')
+      return undefined
+    }
+    return value
+  }
+
+  const filters: ProductFilters = {
+    category: enumValues('category', ProductCategory),
+    brand: values('brand'),
+    material: values('material'),
+    availability: enumValues('availability', AvailabilityStatus),
+    search: search(),
+    minPrice: price('minPrice'),
+    maxPrice: price('maxPrice'),
+    minSize: size('minSize'),
+    maxSize: size('maxSize'),
+    minPressure: pressure('minPressure'),
+    maxPressure: pressure('maxPressure'),
+    minLength: length('minLength'),
+    maxLength: length('maxLength'),
+    minTemperature: degrees('minTemperature'),
+    maxTemperature: degrees('maxTemperature')
+  }
+
+  for (const range of ['Price', 'Size', 'Pressure', 'Length', 'Temperature'] as const) {
+    const min = filters[`min${range}`]
+    const max = filters[`max${range}`]
+    if (min !== undefined && max !== undefined && min > max) {
+      errors.push(`min${range} cannot be greater than max${range}`)
+    }
+  }
+
+  const sort = searchParams.get('sort') || undefined
+  if (sort && !(PRODUCT_SORT_KEYS as readonly string[]).includes(sort)) {
+    errors.push(`sort must be one of: ${PRODUCT_SORT_KEYS.join(', ')}`)
+  }
+
+  return {
+    query: { page, limit, offset, sort: sort as ProductSortKey | undefined, units: metric ? 'metric' : 'imperial', filters },
+    errors
+  }
+}
+
 /**
  * Batch query helper to prevent N+1 queries
  */
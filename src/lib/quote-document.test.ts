@@ -0,0 +1,183 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the PDF writer and quotation document generation
+ */
+
+import os from 'os'
+import path from 'path'
+import { promises as fs } from 'fs'
+import { inflateSync } from 'zlib'
+
+jest.mock('./prisma', () => ({
+  prisma: {
+    quoteRequest: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    companyContent: {
+      findUnique: jest.fn(),
+    },
+    media: {
+      create: jest.fn(),
+      delete: jest.fn(),
+    },
+  },
+}))
+
+import { prisma } from './prisma'
+import { PdfDocument } from './pdf-writer'
+import { LocalStorageProvider, readStorageObject, setStorageProvider } from './storage'
+import { generateQuoteDocument, renderQuoteDocument, QuoteDocumentData } from './quote-document'
+import { priceQuoteLines } from './quote-pricing'
+
+const mockPrisma = prisma as unknown as {
+  quoteRequest: Record<'findUnique' | 'update', jest.Mock>
+  companyContent: Record<'findUnique', jest.Mock>
+  media: Record<'create' | 'delete', jest.Mock>
+}
+
+const product = {
+  id: 'p1',
+  name: 'Carbon Steel Pipe (Schedule 40)',
+  brand: 'SteelCo',
+  diameter: '4 inch',
+  length: '20 feet',
+  material: 'Carbon Steel',
+  basePrice: 12.5,
+  currency: 'USD',
+  pricePerUnit: 'per foot',
+  bulkDiscounts: [{ minQuantity: 10, discount: 0.05 }],
+}
+
+/**
+ * Decompress every content stream so the rendered text can be inspected
+ */
+function extractText(pdf: Buffer): string {
+  const raw = pdf.toString('latin1')
+  const streams: string[] = []
+  const pattern = /stream\n([\s\S]*?)\nendstream/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(raw))) {
+    streams.push(inflateSync(Buffer.from(match[1], 'latin1')).toString('latin1'))
+  }
+  return streams.join('\n')
+}
+
+function documentData(lineCount: number): QuoteDocumentData {
+  const lines = Array.from({ length: lineCount }, (_, i) => ({ id: `qp${i}`, quantity: 10 + i, product }))
+  return {
+    quoteNumber: 'Q-20240115-7KQ2M',
+    issuedAt: new Date('2024-01-15T00:00:00Z'),
+    validUntil: new Date('2024-02-14T00:00:00Z'),
+    company: {
+      name: 'Professional Pipe Supply Co.',
+      address: '123 Industrial Blvd',
+      city: 'Houston',
+      state: 'TX',
+      zipCode: '77001',
+      country: 'USA',
+      phone: '(555) 123-4567',
+      email: 'info@pipesupply.com',
+      website: null,
+    },
+    customer: { name: 'Jane (Buyer)', email: 'jane@example.com', company: 'Acme Corp' },
+    lines: lines.map(line => ({ quoteProductId: line.id, description: 'SteelCo · 4 inch' })),
+    pricing: priceQuoteLines('q1', lines),
+    response: 'Delivery available within two weeks.',
+  }
+}
+
+describe('Quote Document', () => {
+  test('PdfDocument writes a valid cross-reference table', () => {
+    const pdf = new PdfDocument({ title: 'Test' })
+    pdf.text('Hello (world)', 50, 50)
+    pdf.addPage()
+    const buffer = pdf.toBuffer()
+    const raw = buffer.toString('latin1')
+
+    expect(raw.startsWith('%PDF-1.4')).toBe(true)
+    expect(raw.trimEnd().endsWith('%%EOF')).toBe(true)
+
+    // Every xref entry must point at the start of its object
+    const xrefStart = parseInt(raw.match(/startxref\n(\d+)/)![1])
+    const entries = raw.slice(xrefStart).split('\n').slice(3).filter(line => / n $/.test(line))
+    entries.forEach((entry, i) => {
+      const offset = parseInt(entry.slice(0, 10))
+      expect(raw.slice(offset, offset + 10)).toMatch(new RegExp(`^${i + 1} 0 obj`))
+    })
+    expect(raw).toContain('/Count 2')
+    expect(extractText(buffer)).toContain('(Hello \\(world\\)) Tj')
+  })
+
+  test('wrapText keeps lines within the requested width', () => {
+    const pdf = new PdfDocument()
+    const lines = pdf.wrapText('Seamless carbon steel line pipe for oil and gas transmission ' + 'X'.repeat(80), 150)
+
+    expect(lines.length).toBeGreaterThan(2)
+    lines.forEach(line => expect(pdf.measureText(line)).toBeLessThanOrEqual(150))
+  })
+
+  test('renders letterhead, line items, totals and terms', () => {
+    const text = extractText(renderQuoteDocument(documentData(2)))
+
+    expect(text).toContain('(Professional Pipe Supply Co.)')
+    expect(text).toContain('(Q-20240115-7KQ2M)')
+    expect(text).toContain('(February 14, 2024)')
+    expect(text).toContain('(Jane \\(Buyer\\))')
+    expect(text).toContain('($250.00)')
+    expect(text).toContain('(Total \\(USD\\))')
+    expect(text).toContain('TERMS AND CONDITIONS')
+  })
+
+  test('long quotes flow onto additional pages', () => {
+    const raw = renderQuoteDocument(documentData(40)).toString('latin1')
+    const count = parseInt(raw.match(/\/Count (\d+)/)![1])
+
+    expect(count).toBeGreaterThan(1)
+  })
+
+  test('generateQuoteDocument stores the PDF and links it to the quote', async () => {
+    const uploadDir = await fs.mkdtemp(path.join(os.tmpdir(), 'uploads-'))
+    setStorageProvider(new LocalStorageProvider(uploadDir))
+
+    try {
+      mockPrisma.quoteRequest.findUnique.mockResolvedValue({
+        id: 'q1',
+        referenceNumber: 'Q-20240115-7KQ2M',
+        customerName: 'Jane',
+        customerEmail: 'jane@example.com',
+        validUntil: null,
+        response: 'Thanks',
+        document: null,
+        products: [{ id: 'qp1', quantity: 10, notes: null, product }],
+      })
+      mockPrisma.companyContent.findUnique.mockResolvedValue(null)
+      mockPrisma.media.create.mockImplementation(({ data }) => Promise.resolve({ id: 'm1', ...data }))
+
+      const issuedAt = new Date('2024-01-15T00:00:00Z')
+      const result = await generateQuoteDocument('q1', issuedAt)
+
+      expect(result!.media).toMatchObject({
+        originalName: 'Quotation-Q-20240115-7KQ2M.pdf',
+        mimeType: 'application/pdf',
+        type: 'DOCUMENT',
+        url: '/api/quotes/q1/document',
+        storageKey: result!.storageKey,
+      })
+      expect(result!.storageKey).toMatch(/^quotes\/Q-20240115-7KQ2M-[0-9a-f]{8}\.pdf$/)
+      expect(mockPrisma.quoteRequest.update).toHaveBeenCalledWith({
+        where: { id: 'q1' },
+        data: { documentId: 'm1', validUntil: new Date('2024-02-14T00:00:00Z') },
+      })
+      const stored = (await readStorageObject(result!.storageKey))!
+      expect(stored.length).toBe(result!.media.size)
+      expect(stored.toString('latin1', 0, 8)).toBe('%PDF-1.4')
+    } finally {
+      setStorageProvider(null)
+      await fs.rm(uploadDir, { recursive: true, force: true })
+    }
+  })
+})
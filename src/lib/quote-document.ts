@@ -0,0 +1,343 @@
+/**
+ * Priced quotation documents. Renders a quote as a PDF on company
+ * letterhead, stores it as a DOCUMENT media record and links it to the quote.
+ */
+
+import { randomBytes } from 'crypto'
+import { CompanyContent, MediaType } from '@prisma/client'
+import { prisma } from './prisma'
+import { getStorage } from './storage'
+import { PdfDocument, PdfColor } from './pdf-writer'
+import { priceQuoteLines, QuotePricing } from './quote-pricing'
+
+export const QUOTE_VALIDITY_DAYS = parseInt(process.env.QUOTE_VALIDITY_DAYS || '30')
+
+export const DEFAULT_QUOTE_TERMS = [
+  'Prices are quoted per piece unless stated otherwise and exclude applicable taxes.',
+  'Freight is quoted separately and billed at cost.',
+  'Payment terms are net 30 days from invoice date, subject to credit approval.',
+  'Availability is confirmed at the time of order; lead times may vary.',
+  'This quotation is valid until the date shown and may be revised after expiry.'
+]
+
+export interface QuoteDocumentData {
+  quoteNumber: string
+  issuedAt: Date
+  validUntil: Date
+  company: Pick<CompanyContent, 'name' | 'address' | 'city' | 'state' | 'zipCode' | 'country' | 'phone' | 'email' | 'website'>
+  customer: {
+    name: string
+    email: string
+    phone?: string | null
+    company?: string | null
+    address?: string | null
+    city?: string | null
+    state?: string | null
+    zipCode?: string | null
+    country?: string | null
+  }
+  lines: Array<{
+    quoteProductId: string
+    description: string
+    notes?: string | null
+  }>
+  pricing: QuotePricing
+  response?: string | null
+  terms?: string[]
+}
+
+const DEFAULT_COMPANY: QuoteDocumentData['company'] = {
+  name: 'Professional Pipe Supply Co.',
+  address: null,
+  city: null,
+  state: null,
+  zipCode: null,
+  country: null,
+  phone: process.env.CONTACT_PHONE || '(555) 123-4567',
+  email: process.env.CONTACT_EMAIL || 'info@pipesupply.com',
+  website: null
+}
+
+const MARGIN = 50
+const ACCENT: PdfColor = [0.12, 0.25, 0.5]
+const MUTED: PdfColor = [0.4, 0.4, 0.4]
+const RULE: PdfColor = [0.8, 0.8, 0.8]
+
+function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount)
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`
+  }
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' })
+}
+
+function joinAddress(parts: { address?: string | null; city?: string | null; state?: string | null; zipCode?: string | null; country?: string | null }): string[] {
+  const locality = [parts.city, [parts.state, parts.zipCode].filter(Boolean).join(' ')].filter(Boolean).join(', ')
+  return [parts.address, locality, parts.country].filter((line): line is string => !!line)
+}
+
+/**
+ * Render a quotation as a PDF
+ */
+export function renderQuoteDocument(data: QuoteDocumentData): Buffer {
+  const pdf = new PdfDocument({ title: `Quotation ${data.quoteNumber}`, author: data.company.name })
+  const right = pdf.width - MARGIN
+  const bottom = pdf.height - MARGIN
+  let y = MARGIN
+
+  const ensureSpace = (needed: number) => {
+    if (y + needed <= bottom) return
+    pdf.addPage()
+    y = MARGIN
+  }
+
+  // Letterhead
+  pdf.text(data.company.name, MARGIN, y + 14, { size: 18, font: 'bold', color: ACCENT })
+  let letterheadY = y + 30
+  const contact = [
+    ...joinAddress(data.company),
+    [data.company.phone, data.company.email].filter(Boolean).join('  |  '),
+    data.company.website || ''
+  ].filter(Boolean)
+  for (const line of contact) {
+    pdf.text(line, MARGIN, letterheadY, { size: 9, color: MUTED })
+    letterheadY += 12
+  }
+
+  pdf.text('QUOTATION', right, y + 14, { size: 18, font: 'bold', align: 'right' })
+  const meta: Array<[string, string]> = [
+    ['Quote No.', data.quoteNumber],
+    ['Date', formatDate(data.issuedAt)],
+    ['Valid Until', formatDate(data.validUntil)]
+  ]
+  meta.forEach(([label, value], i) => {
+    pdf.text(`${label}:`, right - 130, y + 32 + i * 13, { size: 9, font: 'bold' })
+    pdf.text(value, right, y + 32 + i * 13, { size: 9, align: 'right' })
+  })
+
+  y = Math.max(letterheadY, y + 32 + meta.length * 13) + 10
+  pdf.line(MARGIN, y, right, y, { width: 1.5, color: ACCENT })
+  y += 22
+
+  // Customer
+  pdf.text('PREPARED FOR', MARGIN, y, { size: 8, font: 'bold', color: MUTED })
+  y += 14
+  const customerLines = [
+    data.customer.company || '',
+    ...joinAddress(data.customer),
+    [data.customer.email, data.customer.phone].filter(Boolean).join('  |  ')
+  ].filter(Boolean)
+  pdf.text(data.customer.name, MARGIN, y, { size: 11, font: 'bold' })
+  for (const line of customerLines) {
+    y += 13
+    pdf.text(line, MARGIN, y, { size: 9 })
+  }
+  y += 28
+
+  // Line items
+  const columns = {
+    item: MARGIN + 6,
+    qty: right - 250,
+    unit: right - 170,
+    discount: right - 85,
+    total: right - 6
+  }
+  const descriptionWidth = columns.qty - columns.item - 40
+
+  const drawTableHeader = () => {
+    pdf.rect(MARGIN, y - 13, right - MARGIN, 20, ACCENT)
+    const header = { size: 9, font: 'bold' as const, color: [1, 1, 1] as PdfColor }
+    pdf.text('Item', columns.item, y, header)
+    pdf.text('Qty', columns.qty, y, { ...header, align: 'right' })
+    pdf.text('Unit Price', columns.unit, y, { ...header, align: 'right' })
+    pdf.text('Discount', columns.discount, y, { ...header, align: 'right' })
+    pdf.text('Amount', columns.total, y, { ...header, align: 'right' })
+    y += 22
+  }
+  drawTableHeader()
+
+  for (const line of data.lines) {
+    const priced = data.pricing.lines.find(p => p.quoteProductId === line.quoteProductId)
+    if (!priced) continue
+
+    const description = pdf.wrapText(priced.productName, descriptionWidth, 10, 'bold')
+    const details = [
+      ...pdf.wrapText(line.description, descriptionWidth, 8),
+      ...(priced.basis !== 'PIECE'
+        ? [`${Number(priced.unitsPerPiece.toFixed(2))} × ${formatMoney(priced.basePrice, priced.currency)} ${priced.pricePerUnit}`]
+        : []),
+      ...(line.notes ? pdf.wrapText(`Note: ${line.notes}`, descriptionWidth, 8) : [])
+    ]
+    const rowHeight = description.length * 13 + details.length * 11 + 8
+
+    if (y + rowHeight > bottom) {
+      pdf.addPage()
+      y = MARGIN + 13
+      drawTableHeader()
+    }
+
+    pdf.text(String(priced.quantity), columns.qty, y, { align: 'right' })
+    pdf.text(formatMoney(priced.unitPrice, priced.currency), columns.unit, y, { align: 'right' })
+    pdf.text(
+      priced.appliedTier ? `${Math.round(priced.appliedTier.discount * 100)}% (-${formatMoney(priced.discountAmount, priced.currency)})` : '-',
+      columns.discount, y, { size: 8, align: 'right' }
+    )
+    pdf.text(formatMoney(priced.lineTotal, priced.currency), columns.total, y, { font: 'bold', align: 'right' })
+
+    for (const text of description) {
+      pdf.text(text, columns.item, y, { font: 'bold' })
+      y += 13
+    }
+    for (const text of details) {
+      pdf.text(text, columns.item, y - 2, { size: 8, color: MUTED })
+      y += 11
+    }
+    y += 4
+    pdf.line(MARGIN, y - 8, right, y - 8, { color: RULE })
+    y += 6
+  }
+
+  // Totals
+  for (const total of data.pricing.totals) {
+    ensureSpace(60)
+    const rows: Array<[string, string, boolean]> = [
+      ['Subtotal', formatMoney(total.grossTotal, total.currency), false],
+      ['Bulk discounts', `-${formatMoney(total.discountTotal, total.currency)}`, false],
+      [`Total (${total.currency})`, formatMoney(total.subtotal, total.currency), true]
+    ]
+    for (const [label, value, bold] of rows) {
+      pdf.text(label, columns.discount, y, { font: bold ? 'bold' : 'regular', align: 'right' })
+      pdf.text(value, columns.total, y, { font: bold ? 'bold' : 'regular', align: 'right' })
+      y += 15
+    }
+    y += 6
+  }
+
+  for (const warning of data.pricing.warnings) {
+    ensureSpace(12)
+    pdf.text(warning, MARGIN, y, { size: 8, color: MUTED })
+    y += 12
+  }
+
+  // Response from the sales team
+  if (data.response) {
+    const responseLines = pdf.wrapText(data.response, right - MARGIN, 10)
+    ensureSpace(30)
+    y += 10
+    pdf.text('NOTES', MARGIN, y, { size: 8, font: 'bold', color: MUTED })
+    y += 15
+    for (const line of responseLines) {
+      ensureSpace(13)
+      pdf.text(line, MARGIN, y)
+      y += 13
+    }
+  }
+
+  // Terms
+  const terms = data.terms ?? DEFAULT_QUOTE_TERMS
+  if (terms.length > 0) {
+    ensureSpace(40)
+    y += 14
+    pdf.text('TERMS AND CONDITIONS', MARGIN, y, { size: 8, font: 'bold', color: MUTED })
+    y += 14
+    terms.forEach((term, i) => {
+      const lines = pdf.wrapText(`${i + 1}. ${term}`, right - MARGIN, 8)
+      ensureSpace(lines.length * 11)
+      for (const line of lines) {
+        pdf.text(line, MARGIN, y, { size: 8 })
+        y += 11
+      }
+    })
+  }
+
+  return pdf.toBuffer(data.issuedAt)
+}
+
+/**
+ * Generate the quotation PDF for a quote, store it as a DOCUMENT media record
+ * and link it to the quote. Earlier documents are kept for the quote history.
+ * Returns null when the quote does not exist.
+ */
+export async function generateQuoteDocument(quoteId: string, issuedAt: Date = new Date()) {
+  const quote = await prisma.quoteRequest.findUnique({
+    where: { id: quoteId },
+    include: {
+      products: {
+        include: {
+          product: {
+            include: { bulkDiscounts: { select: { minQuantity: true, discount: true } } }
+          },
+          variant: {
+            include: { bulkDiscounts: { select: { minQuantity: true, discount: true } } }
+          }
+        }
+      }
+    }
+  })
+
+  if (!quote) return null
+
+  const company = await prisma.companyContent.findUnique({ where: { id: 'default' } })
+  const quoteNumber = quote.referenceNumber || quote.id
+  const validUntil = quote.validUntil ?? new Date(issuedAt.getTime() + QUOTE_VALIDITY_DAYS * 24 * 60 * 60 * 1000)
+
+  const content = renderQuoteDocument({
+    quoteNumber,
+    issuedAt,
+    validUntil,
+    company: company ?? DEFAULT_COMPANY,
+    customer: {
+      name: quote.customerName,
+      email: quote.customerEmail,
+      phone: quote.customerPhone,
+      company: quote.company,
+      address: quote.address,
+      city: quote.city,
+      state: quote.state,
+      zipCode: quote.zipCode,
+      country: quote.country
+    },
+    lines: quote.products.map(qp => ({
+      quoteProductId: qp.id,
+      description: [
+        qp.variant ? `SKU ${qp.variant.sku}` : null,
+        qp.product.brand,
+        qp.variant?.diameter ?? qp.product.diameter,
+        qp.variant?.length ?? qp.product.length,
+        qp.product.material
+      ]
+        .filter(Boolean)
+        .join(' · '),
+      notes: qp.notes
+    })),
+    pricing: priceQuoteLines(quote.id, quote.products),
+    response: quote.response
+  })
+
+  const filename = `${quoteNumber}-${randomBytes(4).toString('hex')}.pdf`
+  const storageKey = `quotes/${filename}`
+  await getStorage().put(storageKey, content, { contentType: 'application/pdf' })
+
+  const media = await prisma.media.create({
+    data: {
+      filename,
+      originalName: `Quotation-${quoteNumber}.pdf`,
+      url: `/api/quotes/${quote.id}/document`,
+      mimeType: 'application/pdf',
+      size: content.length,
+      type: MediaType.DOCUMENT,
+      storageKey
+    }
+  })
+
+  await prisma.quoteRequest.update({
+    where: { id: quote.id },
+    data: { documentId: media.id, validUntil }
+  })
+
+  return { media, storageKey, validUntil }
+}
@@ -0,0 +1,171 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for quote line pricing, bulk discount tiers and currency totals
+ */
+
+import * as fc from 'fast-check'
+
+jest.mock('./prisma', () => ({
+  prisma: {
+    quoteRequest: {
+      findUnique: jest.fn(),
+    },
+  },
+}))
+
+import { prisma } from './prisma'
+import {
+  getQuotePricing,
+  parseLengthIn,
+  parsePricingBasis,
+  priceQuoteLines,
+  selectDiscountTier,
+  PricingLineInput,
+} from './quote-pricing'
+
+const mockPrisma = prisma as unknown as {
+  quoteRequest: Record<'findUnique', jest.Mock>
+}
+
+const tiers = [
+  { minQuantity: 10, discount: 0.05 },
+  { minQuantity: 100, discount: 0.15 },
+  { minQuantity: 50, discount: 0.1 },
+]
+
+function line(overrides: Partial<PricingLineInput['product']> = {}, quantity = 1, id = 'qp1'): PricingLineInput {
+  return {
+    id,
+    quantity,
+    product: {
+      id: 'p1',
+      name: 'Steel Pipe',
+      basePrice: 12.5,
+      currency: 'USD',
+      pricePerUnit: 'per foot',
+      length: '20 feet',
+      bulkDiscounts: tiers,
+      ...overrides,
+    },
+  }
+}
+
+describe('Quote Pricing', () => {
+  test('parses pricing basis and product lengths', () => {
+    expect(parsePricingBasis('per foot')).toBe('FOOT')
+    expect(parsePricingBasis('/ft')).toBe('FOOT')
+    expect(parsePricingBasis('per meter')).toBe('METER')
+    expect(parsePricingBasis('per piece')).toBe('PIECE')
+
+    expect(parseLengthIn('20 feet', 'FOOT')).toBe(20)
+    expect(parseLengthIn("21'", 'FOOT')).toBe(21)
+    expect(parseLengthIn('6 m', 'METER')).toBe(6)
+    expect(parseLengthIn('6 m', 'FOOT')).toBeCloseTo(19.685, 3)
+    expect(parseLengthIn('6 mm', 'FOOT')).toBeNull()
+    expect(parseLengthIn('random', 'FOOT')).toBeNull()
+  })
+
+  test('selects the highest tier the quantity qualifies for', () => {
+    expect(selectDiscountTier(tiers, 9)).toBeNull()
+    expect(selectDiscountTier(tiers, 10)).toEqual({ minQuantity: 10, discount: 0.05 })
+    expect(selectDiscountTier(tiers, 75)).toEqual({ minQuantity: 50, discount: 0.1 })
+    expect(selectDiscountTier(tiers, 500)).toEqual({ minQuantity: 100, discount: 0.15 })
+  })
+
+  test('per-foot products are priced per piece from their length', () => {
+    const pricing = priceQuoteLines('q1', [line({}, 50)])
+
+    expect(pricing.lines[0]).toMatchObject({
+      basis: 'FOOT',
+      unitsPerPiece: 20,
+      unitPrice: 250,
+      appliedTier: { minQuantity: 50, discount: 0.1 },
+      discountAmount: 1250,
+      lineTotal: 11250,
+    })
+    expect(pricing.totals).toEqual([{ currency: 'USD', grossTotal: 12500, discountTotal: 1250, subtotal: 11250 }])
+    expect(pricing.warnings).toEqual([])
+  })
+
+  test('variant lines use the variant price, length and tiers', () => {
+    const variant = {
+      id: 'v1',
+      sku: 'SP-2-40',
+      diameter: '2"',
+      length: '10 ft',
+      schedule: '40',
+      basePrice: 8,
+      bulkDiscounts: [{ minQuantity: 5, discount: 0.2 }],
+    }
+
+    const [priced] = priceQuoteLines('q1', [{ ...line({}, 5), variant }]).lines
+    expect(priced).toMatchObject({
+      variantId: 'v1',
+      sku: 'SP-2-40',
+      productName: 'Steel Pipe (2" / Sch 40 / 10 ft)',
+      basePrice: 8,
+      unitsPerPiece: 10,
+      unitPrice: 80,
+      appliedTier: { minQuantity: 5, discount: 0.2 },
+      lineTotal: 320,
+    })
+
+    const [inherited] = priceQuoteLines('q1', [{ ...line({}, 50), variant: { ...variant, bulkDiscounts: [] } }]).lines
+    expect(inherited.appliedTier).toEqual({ minQuantity: 50, discount: 0.1 })
+  })
+
+  test('unreadable lengths fall back to per-piece pricing with a warning', () => {
+    const pricing = priceQuoteLines('q1', [line({ length: 'custom cut' }, 2)])
+
+    expect(pricing.lines[0].unitPrice).toBe(12.5)
+    expect(pricing.lines[0].lineTotal).toBe(25)
+    expect(pricing.warnings[0]).toContain('custom cut')
+  })
+
+  test('totals are kept separate per currency', () => {
+    const pricing = priceQuoteLines('q1', [
+      line({ pricePerUnit: 'per piece' }, 2, 'qp1'),
+      line({ pricePerUnit: 'per piece', currency: 'EUR', bulkDiscounts: [] }, 3, 'qp2'),
+    ])
+
+    expect(pricing.totals.map(total => [total.currency, total.subtotal])).toEqual([['USD', 25], ['EUR', 37.5]])
+    expect(pricing.warnings).toHaveLength(1)
+  })
+
+  test('line totals always add up to the subtotal', () => {
+    fc.assert(
+      fc.property(
+        fc.array(
+          fc.record({
+            basePrice: fc.double({ min: 0.01, max: 10000, noNaN: true }),
+            quantity: fc.integer({ min: 1, max: 1000 }),
+            length: fc.integer({ min: 1, max: 40 }),
+          }),
+          { minLength: 1, maxLength: 8 }
+        ),
+        (items) => {
+          const pricing = priceQuoteLines('q1', items.map((item, i) =>
+            line({ basePrice: item.basePrice, length: `${item.length} ft` }, item.quantity, `qp${i}`)
+          ))
+
+          const lineCents = pricing.lines.reduce((sum, l) => sum + Math.round(l.lineTotal * 100), 0)
+          expect(lineCents).toBe(Math.round(pricing.totals[0].subtotal * 100))
+          pricing.lines.forEach(l => expect(Math.round(l.lineTotal * 100)).toBeLessThanOrEqual(Math.round(l.unitPrice * 100) * l.quantity))
+        }
+      ),
+      { numRuns: 100 }
+    )
+  })
+
+  test('getQuotePricing returns null for unknown quotes', async () => {
+    mockPrisma.quoteRequest.findUnique.mockResolvedValue(null)
+    expect(await getQuotePricing('missing')).toBeNull()
+
+    mockPrisma.quoteRequest.findUnique.mockResolvedValue({ id: 'q1', products: [line({}, 10)] })
+    const pricing = await getQuotePricing('q1')
+    expect(pricing?.lines[0].appliedTier).toEqual({ minQuantity: 10, discount: 0.05 })
+  })
+})
@@ -0,0 +1,240 @@
+/**
+ * Quote pricing engine. Prices each QuoteProduct line from the product's
+ * base price and bulk discount tiers, and totals the quote per currency.
+ * Lines for a product variant use the variant's price and length, and its
+ * own discount tiers when it has any.
+ *
+ * Quote quantities are counted in pieces. Products priced per length unit
+ * ("per foot", "per meter") are converted to a per-piece price using the
+ * product's length, e.g. a 20 foot pipe at $10 per foot is $200 per piece.
+ */
+
+import { prisma } from './prisma'
+import { variantLabel } from './product-variants'
+
+export type PricingBasis = 'FOOT' | 'METER' | 'PIECE'
+
+const FEET_PER_METER = 3.28084
+
+export interface PricingTier {
+  minQuantity: number
+  discount: number
+}
+
+export interface PricingLineInput {
+  id: string
+  quantity: number
+  product: {
+    id: string
+    name: string
+    basePrice: number
+    currency: string
+    pricePerUnit: string
+    length: string
+    bulkDiscounts: PricingTier[]
+  }
+  variant?: {
+    id: string
+    sku: string
+    diameter: string
+    length: string
+    schedule: string | null
+    basePrice: number
+    bulkDiscounts: PricingTier[]
+  } | null
+}
+
+export interface PricedLine {
+  quoteProductId: string
+  productId: string
+  variantId: string | null
+  sku: string | null
+  productName: string
+  quantity: number
+  currency: string
+  basePrice: number
+  pricePerUnit: string
+  basis: PricingBasis
+  unitsPerPiece: number // Feet or meters per piece for length-priced products, otherwise 1
+  unitPrice: number // Per piece, before discount
+  appliedTier: PricingTier | null
+  discountAmount: number
+  lineTotal: number
+}
+
+export interface CurrencyTotal {
+  currency: string
+  grossTotal: number
+  discountTotal: number
+  subtotal: number
+}
+
+export interface QuotePricing {
+  quoteId: string
+  lines: PricedLine[]
+  totals: CurrencyTotal[] // One entry per currency; amounts are never converted
+  warnings: string[]
+}
+
+function toCents(amount: number): number {
+  return Math.round(amount * 100)
+}
+
+/**
+ * Interpret a product's pricePerUnit label ("per foot", "/ft", "per piece")
+ */
+export function parsePricingBasis(pricePerUnit: string): PricingBasis {
+  const label = pricePerUnit.toLowerCase()
+  if (/\b(foot|feet|ft)\b/.test(label)) return 'FOOT'
+  if (/\b(meter|metre|meters|metres|m)\b/.test(label)) return 'METER'
+  return 'PIECE'
+}
+
+/**
+ * Convert a product length such as "20 feet" or "6 m" into the pricing basis.
+ * Returns null when the length cannot be read.
+ */
+export function parseLengthIn(length: string, basis: 'FOOT' | 'METER'): number | null {
+  const match = length.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)\s*([a-z']*)/)
+  if (!match) return null
+
+  const value = parseFloat(match[1])
+  if (!(value > 0)) return null
+
+  const unit = match[2]
+  let inFeet: boolean
+  if (unit === '') inFeet = basis === 'FOOT'
+  else if (/^(feet|foot|ft|')$/.test(unit)) inFeet = true
+  else if (/^(m|meters?|metres?)$/.test(unit)) inFeet = false
+  else return null
+
+  if (basis === 'FOOT') return inFeet ? value : value * FEET_PER_METER
+  return inFeet ? value / FEET_PER_METER : value
+}
+
+/**
+ * Pick the tier with the highest minimum quantity the line qualifies for
+ */
+export function selectDiscountTier(tiers: PricingTier[], quantity: number): PricingTier | null {
+  return tiers
+    .filter(tier => quantity >= tier.minQuantity)
+    .reduce<PricingTier | null>((best, tier) => (!best || tier.minQuantity > best.minQuantity ? tier : best), null)
+}
+
+/**
+ * Price quote lines. Amounts are rounded to cents per line so that line
+ * totals always add up to the currency subtotal.
+ */
+export function priceQuoteLines(quoteId: string, lines: PricingLineInput[]): QuotePricing {
+  const warnings: string[] = []
+  const totals = new Map<string, { gross: number; discount: number }>()
+
+  const priced = lines.map<PricedLine>(line => {
+    const { product, variant } = line
+    const basis = parsePricingBasis(product.pricePerUnit)
+    const name = variant ? `${product.name} (${variantLabel(variant)})` : product.name
+    const basePrice = variant ? variant.basePrice : product.basePrice
+    const lengthText = variant ? variant.length : product.length
+    const tiers = variant && variant.bulkDiscounts.length > 0 ? variant.bulkDiscounts : product.bulkDiscounts
+
+    let unitsPerPiece = 1
+    if (basis !== 'PIECE') {
+      const length = parseLengthIn(lengthText, basis)
+      if (length === null) {
+        warnings.push(`${name}: could not read length "${lengthText}", priced per piece`)
+      } else {
+        unitsPerPiece = length
+      }
+    }
+
+    const unitPriceCents = toCents(basePrice * unitsPerPiece)
+    const grossCents = unitPriceCents * line.quantity
+    const appliedTier = selectDiscountTier(tiers, line.quantity)
+    const discountCents = appliedTier ? Math.round(grossCents * appliedTier.discount) : 0
+
+    const currency = product.currency || 'USD'
+    const total = totals.get(currency) || { gross: 0, discount: 0 }
+    total.gross += grossCents
+    total.discount += discountCents
+    totals.set(currency, total)
+
+    return {
+      quoteProductId: line.id,
+      productId: product.id,
+      variantId: variant?.id ?? null,
+      sku: variant?.sku ?? null,
+      productName: name,
+      quantity: line.quantity,
+      currency,
+      basePrice,
+      pricePerUnit: product.pricePerUnit,
+      basis,
+      unitsPerPiece,
+      unitPrice: unitPriceCents / 100,
+      appliedTier: appliedTier ? { minQuantity: appliedTier.minQuantity, discount: appliedTier.discount } : null,
+      discountAmount: discountCents / 100,
+      lineTotal: (grossCents - discountCents) / 100
+    }
+  })
+
+  if (totals.size > 1) {
+    warnings.push('Quote contains products in more than one currency; totals are shown per currency')
+  }
+
+  return {
+    quoteId,
+    lines: priced,
+    totals: Array.from(totals, ([currency, { gross, discount }]) => ({
+      currency,
+      grossTotal: gross / 100,
+      discountTotal: discount / 100,
+      subtotal: (gross - discount) / 100
+    })),
+    warnings
+  }
+}
+
+/**
+ * Load a quote with its products and discount tiers and price it.
+ * Returns null when the quote does not exist.
+ */
+export async function getQuotePricing(quoteId: string): Promise<QuotePricing | null> {
+  const quote = await prisma.quoteRequest.findUnique({
+    where: { id: quoteId },
+    select: {
+      id: true,
+      products: {
+        select: {
+          id: true,
+          quantity: true,
+          product: {
+            select: {
+              id: true,
+              name: true,
+              basePrice: true,
+              currency: true,
+              pricePerUnit: true,
+              length: true,
+              bulkDiscounts: { select: { minQuantity: true, discount: true } }
+            }
+          },
+          variant: {
+            select: {
+              id: true,
+              sku: true,
+              diameter: true,
+              length: true,
+              schedule: true,
+              basePrice: true,
+              bulkDiscounts: { select: { minQuantity: true, discount: true } }
+            }
+          }
+        }
+      }
+    }
+  })
+
+  if (!quote) return null
+
+  return priceQuoteLines(quote.id, quote.products)
+}
@@ -165,7 +165,7 @@ describe('Quote Validation Property Tests', () => {
     })
 
     test('quote status validation should accept only valid statuses', () => {
-      const validStatuses = ['PENDING', 'RESPONDED', 'CLOSED', 'CANCELLED']
+      const validStatuses = ['PENDING', 'IN_REVIEW', 'RESPONDED', 'WON', 'LOST', 'CLOSED', 'CANCELLED']
       const invalidStatuses = ['INVALID', 'PROCESSING', 'DRAFT', '', 'pending', 'Pending']
       
       validStatuses.forEach(status => {
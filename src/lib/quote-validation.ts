@@ -1,7 +1,10 @@
 // Define enum values directly from schema
 const QuoteStatus = {
   PENDING: 'PENDING',
+  IN_REVIEW: 'IN_REVIEW',
   RESPONDED: 'RESPONDED',
+  WON: 'WON',
+  LOST: 'LOST',
   CLOSED: 'CLOSED',
   CANCELLED: 'CANCELLED'
 } as const
@@ -24,6 +27,8 @@ export interface QuoteRequestData {
 
 export interface QuoteProductData {
   productId: string
+  // Size ordered, for products sold in variants
+  variantId?: string
   quantity: number
   notes?: string
 }
@@ -96,6 +101,10 @@ export function validateQuoteRequest(data: any): ValidationResult {
         errors.push({ field: `products[${index}].productId`, message: 'Product ID is required' })
       }
 
+      if (product.variantId !== undefined && product.variantId !== null && typeof product.variantId !== 'string') {
+        errors.push({ field: `products[${index}].variantId`, message: 'Variant ID must be a string' })
+      }
+
       if (!product.quantity || typeof product.quantity !== 'number' || product.quantity <= 0) {
         errors.push({ field: `products[${index}].quantity`, message: 'Quantity must be a positive number' })
       }
@@ -126,12 +135,28 @@ export function sanitizeQuoteRequest(data: any): QuoteRequestData {
     message: data.message ? sanitizeString(data.message) : undefined,
     products: Array.isArray(data.products) ? data.products.map((product: any) => ({
       productId: sanitizeString(product.productId),
+      ...(product.variantId ? { variantId: sanitizeString(product.variantId) } : {}),
       quantity: parseInt(product.quantity),
       notes: product.notes ? sanitizeString(product.notes) : undefined
     })) : []
   }
 }
 
+// Crockford-style alphabet without easily confused characters (0/O, 1/I/L, U)
+const REFERENCE_ALPHABET = '23456789ABCDEFGHJKMNPQRSTVWXYZ'
+
+/**
+ * Generate a customer-facing quote reference such as Q-20240115-7KQ2M
+ */
+export function generateQuoteReference(date: Date = new Date()): string {
+  const datePart = date.toISOString().slice(0, 10).replace(/-/g, '')
+  let suffix = ''
+  for (let i = 0; i < 5; i++) {
+    suffix += REFERENCE_ALPHABET[Math.floor(Math.random() * REFERENCE_ALPHABET.length)]
+  }
+  return `Q-${datePart}-${suffix}`
+}
+
 export function validateQuoteStatus(status: string): boolean {
   return Object.values(QuoteStatus).includes(status as QuoteStatus)
 }
@@ -0,0 +1,101 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for the quote status state machine and update planning
+ */
+
+import * as fc from 'fast-check'
+import { QuoteEventType, QuoteStatus } from '@prisma/client'
+import { canTransition, planQuoteUpdate, QUOTE_TRANSITIONS } from './quote-workflow'
+
+const now = new Date('2024-01-15T12:00:00Z')
+const statuses = Object.values(QuoteStatus)
+
+describe('Quote Workflow', () => {
+  test('final statuses cannot be left', () => {
+    fc.assert(
+      fc.property(fc.constantFrom(...statuses), (to) => {
+        expect(canTransition(QuoteStatus.CLOSED, to)).toBe(false)
+        expect(canTransition(QuoteStatus.CANCELLED, to)).toBe(false)
+      })
+    )
+    expect(canTransition(QuoteStatus.PENDING, QuoteStatus.IN_REVIEW)).toBe(true)
+    expect(canTransition(QuoteStatus.PENDING, QuoteStatus.WON)).toBe(false)
+    expect(canTransition(QuoteStatus.WON, QuoteStatus.CLOSED)).toBe(true)
+  })
+
+  test('plans are rejected for every disallowed transition', () => {
+    fc.assert(
+      fc.property(fc.constantFrom(...statuses), fc.constantFrom(...statuses), (from, to) => {
+        fc.pre(from !== to && !QUOTE_TRANSITIONS[from].includes(to))
+        const plan = planQuoteUpdate({ status: from }, { status: to, response: 'Offer', reason: 'Why' }, now)
+
+        expect(plan.event).toBeNull()
+        expect(plan.errors.map(error => error.field)).toContain('status')
+      })
+    )
+  })
+
+  test('changing status records a status event', () => {
+    const plan = planQuoteUpdate({ status: QuoteStatus.PENDING }, { status: 'IN_REVIEW' }, now)
+
+    expect(plan.errors).toEqual([])
+    expect(plan.data).toEqual({ status: QuoteStatus.IN_REVIEW })
+    expect(plan.event).toEqual({
+      type: QuoteEventType.STATUS_CHANGED,
+      fromStatus: QuoteStatus.PENDING,
+      toStatus: QuoteStatus.IN_REVIEW
+    })
+    expect(plan.responding).toBe(false)
+  })
+
+  test('a response implies RESPONDED and restarts validity', () => {
+    const plan = planQuoteUpdate({ status: QuoteStatus.IN_REVIEW }, { response: '  We can supply this.  ' }, now)
+
+    expect(plan.errors).toEqual([])
+    expect(plan.responding).toBe(true)
+    expect(plan.data).toEqual({
+      status: QuoteStatus.RESPONDED,
+      response: 'We can supply this.',
+      respondedAt: now,
+      validUntil: null
+    })
+    expect(plan.event?.type).toBe(QuoteEventType.RESPONDED)
+  })
+
+  test('responding to a responded quote is a re-quote', () => {
+    const plan = planQuoteUpdate({ status: QuoteStatus.RESPONDED }, { status: 'RESPONDED', response: 'Revised price' }, now)
+
+    expect(plan.errors).toEqual([])
+    expect(plan.event).toMatchObject({ type: QuoteEventType.REQUOTED, response: 'Revised price' })
+  })
+
+  test('RESPONDED requires a response', () => {
+    const plan = planQuoteUpdate({ status: QuoteStatus.PENDING }, { status: 'RESPONDED' }, now)
+    expect(plan.errors.map(error => error.field)).toEqual(['response'])
+  })
+
+  test('won and lost quotes need a reason', () => {
+    const missing = planQuoteUpdate({ status: QuoteStatus.RESPONDED }, { status: 'LOST', reason: ' ' }, now)
+    expect(missing.errors.map(error => error.field)).toEqual(['reason'])
+
+    const plan = planQuoteUpdate({ status: QuoteStatus.RESPONDED }, { status: 'WON', reason: 'Best lead time' }, now)
+    expect(plan.errors).toEqual([])
+    expect(plan.data).toEqual({ status: QuoteStatus.WON, outcomeReason: 'Best lead time' })
+    expect(plan.event?.reason).toBe('Best lead time')
+  })
+
+  test('unknown fields, bad values and empty updates are rejected', () => {
+    const plan = planQuoteUpdate(
+      { status: QuoteStatus.PENDING },
+      { status: 'DONE', customerEmail: 'x@example.com', validUntil: 'soon' },
+      now
+    )
+    expect(plan.errors.map(error => error.field).sort()).toEqual(['customerEmail', 'status', 'validUntil'])
+
+    const empty = planQuoteUpdate({ status: QuoteStatus.PENDING }, { status: 'PENDING' }, now)
+    expect(empty.errors).toEqual([{ field: 'body', message: 'No changes supplied' }])
+  })
+})
@@ -0,0 +1,157 @@
+/**
+ * Quote status state machine. Validates admin updates against the allowed
+ * transitions and describes the history event each update produces.
+ */
+
+import { Prisma, QuoteEventType, QuoteStatus } from '@prisma/client'
+import type { ValidationError } from './quote-validation'
+
+/**
+ * Statuses each status may move to. CLOSED and CANCELLED are final.
+ * RESPONDED -> RESPONDED is a re-quote with a revised response.
+ */
+export const QUOTE_TRANSITIONS: Record<QuoteStatus, QuoteStatus[]> = {
+  PENDING: [QuoteStatus.IN_REVIEW, QuoteStatus.RESPONDED, QuoteStatus.CANCELLED],
+  IN_REVIEW: [QuoteStatus.PENDING, QuoteStatus.RESPONDED, QuoteStatus.CANCELLED],
+  RESPONDED: [
+    QuoteStatus.IN_REVIEW,
+    QuoteStatus.RESPONDED,
+    QuoteStatus.WON,
+    QuoteStatus.LOST,
+    QuoteStatus.CLOSED,
+    QuoteStatus.CANCELLED
+  ],
+  WON: [QuoteStatus.CLOSED],
+  LOST: [QuoteStatus.CLOSED],
+  CLOSED: [],
+  CANCELLED: []
+}
+
+// Outcomes that must be explained
+export const REASON_REQUIRED_STATUSES: QuoteStatus[] = [QuoteStatus.WON, QuoteStatus.LOST]
+
+const OUTCOME_STATUSES: QuoteStatus[] = [QuoteStatus.WON, QuoteStatus.LOST, QuoteStatus.CANCELLED]
+
+const UPDATE_FIELDS = ['status', 'response', 'reason', 'validUntil']
+
+export interface QuoteEventDraft {
+  type: QuoteEventType
+  fromStatus: QuoteStatus
+  toStatus: QuoteStatus
+  response?: string
+  reason?: string
+}
+
+export interface QuoteUpdatePlan {
+  errors: ValidationError[]
+  data: Prisma.QuoteRequestUpdateManyMutationInput
+  event: QuoteEventDraft | null
+  responding: boolean
+}
+
+export function canTransition(from: QuoteStatus, to: QuoteStatus): boolean {
+  return QUOTE_TRANSITIONS[from].includes(to)
+}
+
+function optionalText(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined
+}
+
+/**
+ * Work out the update and history event for an admin change to a quote.
+ * Sending a response implies RESPONDED; responding again is a re-quote.
+ */
+export function planQuoteUpdate(
+  current: { status: QuoteStatus },
+  input: any,
+  now: Date = new Date()
+): QuoteUpdatePlan {
+  const errors: ValidationError[] = []
+  const data: Prisma.QuoteRequestUpdateManyMutationInput = {}
+
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { errors: [{ field: 'body', message: 'Request body must be an object' }], data, event: null, responding: false }
+  }
+
+  for (const field of Object.keys(input)) {
+    if (!UPDATE_FIELDS.includes(field)) {
+      errors.push({ field, message: 'Field cannot be updated' })
+    }
+  }
+
+  if (input.status !== undefined && !Object.values(QuoteStatus).includes(input.status)) {
+    errors.push({ field: 'status', message: `Status must be one of: ${Object.values(QuoteStatus).join(', ')}` })
+  }
+  if (input.response !== undefined && typeof input.response !== 'string') {
+    errors.push({ field: 'response', message: 'Response must be a string' })
+  }
+  if (input.reason !== undefined && typeof input.reason !== 'string') {
+    errors.push({ field: 'reason', message: 'Reason must be a string' })
+  }
+
+  if (input.validUntil !== undefined) {
+    const validUntil = input.validUntil === null ? null : new Date(input.validUntil)
+    if (validUntil && isNaN(validUntil.getTime())) {
+      errors.push({ field: 'validUntil', message: 'Valid until must be a date' })
+    } else {
+      data.validUntil = validUntil
+    }
+  }
+
+  if (errors.length > 0) {
+    return { errors, data, event: null, responding: false }
+  }
+
+  const response = optionalText(input.response)
+  const reason = optionalText(input.reason)
+  const target: QuoteStatus = input.status ?? (response ? QuoteStatus.RESPONDED : current.status)
+  const statusChanged = target !== current.status
+  const responding = target === QuoteStatus.RESPONDED && (statusChanged || !!response)
+
+  if (response && target !== QuoteStatus.RESPONDED) {
+    errors.push({ field: 'response', message: 'A response can only be sent with status RESPONDED' })
+  }
+  if ((statusChanged || responding) && !canTransition(current.status, target)) {
+    errors.push({ field: 'status', message: `Cannot change status from ${current.status} to ${target}` })
+  }
+  if (responding && !response) {
+    errors.push({ field: 'response', message: 'A response is required to respond to a quote' })
+  }
+  if (statusChanged && REASON_REQUIRED_STATUSES.includes(target) && !reason) {
+    errors.push({ field: 'reason', message: `A reason is required to mark a quote ${target}` })
+  }
+  if (!statusChanged && !responding && data.validUntil === undefined) {
+    errors.push({ field: 'body', message: 'No changes supplied' })
+  }
+
+  if (errors.length > 0) {
+    return { errors, data, event: null, responding: false }
+  }
+
+  let event: QuoteEventDraft | null = null
+
+  if (responding) {
+    data.status = target
+    data.response = response
+    data.respondedAt = now
+    // A new response is a new offer, so validity restarts unless given
+    if (data.validUntil === undefined) data.validUntil = null
+    event = {
+      type: current.status === QuoteStatus.RESPONDED ? QuoteEventType.REQUOTED : QuoteEventType.RESPONDED,
+      fromStatus: current.status,
+      toStatus: target,
+      response
+    }
+  } else if (statusChanged) {
+    data.status = target
+    if (OUTCOME_STATUSES.includes(target)) data.outcomeReason = reason ?? null
+    event = {
+      type: QuoteEventType.STATUS_CHANGED,
+      fromStatus: current.status,
+      toStatus: target,
+      ...(reason ? { reason } : {})
+    }
+  }
+
+  return { errors, data, event, responding }
+}
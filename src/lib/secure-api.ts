@@ -4,8 +4,8 @@ import { UserRole, Permission } from '@prisma/client'
 import { validateApiInput, ValidationResult } from './input-sanitization'
 
 // Simple auth check for MVP
-export function requireAdminAuth(req: NextRequest) {
-  const session = getSession(req)
+export async function requireAdminAuth(req: NextRequest) {
+  const session = await getSession(req)
   if (!session || session.user.role !== 'ADMIN') {
     throw new Error('Unauthorized')
   }
@@ -18,7 +18,7 @@ export function createSecureHandler<T = any>(
 ) {
   return async (req: NextRequest) => {
     try {
-      requireAdminAuth(req)
+      await requireAdminAuth(req)
       
       let data: T | undefined
       if (req.method !== 'GET' && validationSchema) {
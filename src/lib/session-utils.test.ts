@@ -0,0 +1,131 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for database-backed session tokens
+ */
+
+import * as fc from 'fast-check'
+
+jest.mock('./prisma', () => ({
+  prisma: {
+    session: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}))
+
+import { prisma } from './prisma'
+import { createSession, findActiveSession, revokeSession, forceLogout } from './session-utils'
+import { hashSensitiveData } from './encryption'
+
+const mockPrisma = prisma as unknown as {
+  session: Record<'create' | 'findUnique' | 'updateMany', jest.Mock>
+}
+
+const activeUser = { id: 'user1', email: 'admin@test.com', name: 'Admin', role: 'ADMIN', permissions: [] }
+
+describe('Session Utilities', () => {
+  beforeAll(() => {
+    process.env.SESSION_SECRET = 'test-session-secret'
+  })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockPrisma.session.create.mockResolvedValue({})
+    mockPrisma.session.updateMany.mockResolvedValue({ count: 1 })
+  })
+
+  test('createSession stores only a hash of the opaque token', async () => {
+    const { token, expiresAt } = await createSession('user1', { ipAddress: '10.0.0.1' })
+    const [rawToken, signature] = token.split('.')
+
+    expect(signature).toHaveLength(64)
+    expect(expiresAt.getTime()).toBeGreaterThan(Date.now())
+
+    const stored = mockPrisma.session.create.mock.calls[0][0].data
+    expect(stored.tokenHash).toBe(hashSensitiveData(rawToken))
+    expect(JSON.stringify(stored)).not.toContain(rawToken)
+    expect(stored.ipAddress).toBe('10.0.0.1')
+  })
+
+  test('findActiveSession returns the session for a valid token', async () => {
+    const { token } = await createSession('user1')
+    mockPrisma.session.findUnique.mockResolvedValue({
+      id: 'session1',
+      revokedAt: null,
+      expiresAt: new Date(Date.now() + 60000),
+      user: activeUser,
+    })
+
+    const session = await findActiveSession(token)
+
+    expect(session?.user.id).toBe('user1')
+  })
+
+  test('tampered tokens never reach the database', async () => {
+    const { token } = await createSession('user1')
+    const [rawToken] = token.split('.')
+
+    await fc.assert(
+      fc.asyncProperty(
+        fc.hexaString({ minLength: 64, maxLength: 64 }),
+        async (forgedSignature) => {
+          fc.pre(`${rawToken}.${forgedSignature}` !== token)
+          mockPrisma.session.findUnique.mockClear()
+
+          const session = await findActiveSession(`${rawToken}.${forgedSignature}`)
+
+          expect(session).toBeNull()
+          expect(mockPrisma.session.findUnique).not.toHaveBeenCalled()
+        }
+      ),
+      { numRuns: 50 }
+    )
+  })
+
+  test('expired and revoked sessions are rejected', async () => {
+    const { token } = await createSession('user1')
+
+    mockPrisma.session.findUnique.mockResolvedValueOnce({
+      id: 'session1',
+      revokedAt: null,
+      expiresAt: new Date(Date.now() - 1000),
+      user: activeUser,
+    })
+    expect(await findActiveSession(token)).toBeNull()
+
+    mockPrisma.session.findUnique.mockResolvedValueOnce({
+      id: 'session1',
+      revokedAt: new Date(),
+      expiresAt: new Date(Date.now() + 60000),
+      user: activeUser,
+    })
+    expect(await findActiveSession(token)).toBeNull()
+  })
+
+  test('revokeSession marks the matching session as revoked', async () => {
+    const { token } = await createSession('user1')
+    const [rawToken] = token.split('.')
+
+    expect(await revokeSession(token)).toBe(true)
+    expect(mockPrisma.session.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: { tokenHash: hashSensitiveData(rawToken), revokedAt: null },
+      })
+    )
+  })
+
+  test('forceLogout revokes every active session for the user', async () => {
+    mockPrisma.session.updateMany.mockResolvedValue({ count: 3 })
+
+    const result = await forceLogout('user1', 'password reset')
+
+    expect(result).toEqual({ success: true, message: 'User logged out successfully', revoked: 3 })
+    expect(mockPrisma.session.updateMany.mock.calls[0][0].where).toEqual({ userId: 'user1', revokedAt: null })
+    expect(mockPrisma.session.updateMany.mock.calls[0][0].data.revokedReason).toBe('password reset')
+  })
+})
@@ -1,40 +1,140 @@
 import { NextRequest } from 'next/server'
-import { getSession } from './auth-helper'
+import { prisma } from './prisma'
+import { logger } from './monitoring'
+import { generateSecureToken, hashSensitiveData, signData, verifySignature } from './encryption'
+
+export const SESSION_COOKIE_NAME = 'session'
+export const SESSION_TTL_MS = 24 * 60 * 60 * 1000 // 24 hours
+
+export interface SessionMetadata {
+  ipAddress?: string
+  userAgent?: string
+}
+
+/**
+ * Split a signed cookie value into its token and signature
+ */
+function parseSignedToken(signedToken: string): string | null {
+  const [token, signature] = signedToken.split('.')
+  if (!token || !signature) {
+    return null
+  }
+
+  return verifySignature(token, signature) ? token : null
+}
+
+/**
+ * Create a server-side session and return the signed token for the cookie
+ */
+export async function createSession(userId: string, metadata: SessionMetadata = {}) {
+  const token = generateSecureToken()
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS)
+
+  await prisma.session.create({
+    data: {
+      tokenHash: hashSensitiveData(token),
+      userId,
+      expiresAt,
+      ipAddress: metadata.ipAddress,
+      userAgent: metadata.userAgent
+    }
+  })
+
+  return {
+    token: `${token}.${signData(token)}`,
+    expiresAt
+  }
+}
+
+/**
+ * Look up an active (unexpired, unrevoked) session by its signed token.
+ * Sessions belonging to disabled accounts are treated as inactive.
+ */
+export async function findActiveSession(signedToken: string) {
+  const token = parseSignedToken(signedToken)
+  if (!token) {
+    return null
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { tokenHash: hashSensitiveData(token) },
+    include: { user: true }
+  })
+
+  if (!session || session.revokedAt || session.expiresAt <= new Date() || session.user.disabledAt) {
+    return null
+  }
+
+  return session
+}
 
 /**
- * Validate current session for MVP
+ * Revoke the session identified by a signed token (e.g. on logout)
+ */
+export async function revokeSession(signedToken: string, reason: string = 'logout') {
+  const token = parseSignedToken(signedToken)
+  if (!token) {
+    return false
+  }
+
+  const result = await prisma.session.updateMany({
+    where: { tokenHash: hashSensitiveData(token), revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason }
+  })
+
+  return result.count > 0
+}
+
+/**
+ * Validate the session attached to the current request
  */
 export async function validateSession(req: NextRequest) {
-  const session = getSession(req)
-  
+  const signedToken = req.cookies.get(SESSION_COOKIE_NAME)?.value
+  const session = signedToken ? await findActiveSession(signedToken) : null
+
   if (!session) {
     throw new Error('No active session')
   }
-  
+
   return {
     valid: true,
-    user: session.user,
-    expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000) // 24 hours from now
+    user: {
+      id: session.user.id,
+      email: session.user.email,
+      name: session.user.name,
+      role: session.user.role
+    },
+    expiresAt: session.expiresAt
   }
 }
 
 /**
- * Update user activity (MVP - no-op)
+ * Record activity against all of a user's active sessions
  */
 export async function updateUserActivity(userId: string, activity: string) {
-  console.log(`User activity: ${userId} - ${activity}`)
-  return true
+  const result = await prisma.session.updateMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    data: { lastActivity: new Date() }
+  })
+
+  logger.debug('User activity recorded', { userId, activity, sessions: result.count })
+  return result.count > 0
 }
 
 /**
- * Force logout user (MVP - simple implementation)
+ * Force logout user by revoking every active session they hold
  */
 export async function forceLogout(userId: string, reason?: string) {
   try {
-    console.log(`Force logout initiated for user: ${userId}${reason ? ` - Reason: ${reason}` : ''}`)
-    return { success: true, message: 'User logged out successfully' }
+    const result = await prisma.session.updateMany({
+      where: { userId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: reason || 'forced logout' }
+    })
+
+    logger.info('Force logout completed', { userId, reason, revoked: result.count })
+    return { success: true, message: 'User logged out successfully', revoked: result.count }
   } catch (error) {
     console.error('Error during force logout:', error)
-    return { success: false, message: 'Failed to logout user' }
+    return { success: false, message: 'Failed to logout user', revoked: 0 }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,81 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for signed, expiring download links
+ */
+
+import * as fc from 'fast-check'
+import { signDownloadPath, verifySignedUrl, DEFAULT_LINK_TTL_SECONDS, MAX_LINK_TTL_SECONDS } from './signed-urls'
+
+const now = new Date('2024-03-01T12:00:00Z')
+
+function verify(signed: string, at: Date = now) {
+  return verifySignedUrl(new URL(signed, 'https://pipes.example.com'), at)
+}
+
+describe('Signed URLs', () => {
+  beforeAll(() => {
+    process.env.SESSION_SECRET = 'test-session-secret'
+  })
+
+  test('links are valid until they expire', () => {
+    const signed = signDownloadPath('/api/media/m1/download', { now })
+    const expiresAt = new Date(now.getTime() + DEFAULT_LINK_TTL_SECONDS * 1000)
+
+    expect(verify(signed)).toEqual({ valid: true, expiresAt, recipient: null })
+    expect(verify(signed, new Date(expiresAt.getTime() - 1000))).toMatchObject({ valid: true })
+    expect(verify(signed, expiresAt)).toEqual({ valid: false, reason: 'Download link has expired' })
+  })
+
+  test('recipients are normalized and bound to the signature', () => {
+    const signed = signDownloadPath('/api/documents/d1/download', { now, recipient: ' Buyer@Example.com ', expiresIn: 3600 })
+    const url = new URL(signed, 'https://pipes.example.com')
+
+    expect(url.searchParams.get('recipient')).toBe('buyer@example.com')
+    expect(verify(signed)).toMatchObject({ valid: true, recipient: 'buyer@example.com' })
+
+    url.searchParams.set('recipient', 'someone-else@example.com')
+    expect(verify(url.toString())).toEqual({ valid: false, reason: 'Invalid download link' })
+
+    url.searchParams.delete('recipient')
+    expect(verify(url.toString())).toMatchObject({ valid: false })
+  })
+
+  test('unsigned URLs are left to session auth', () => {
+    expect(verify('/api/media/m1/download')).toBeNull()
+    expect(verify('/api/media/m1/download?expires=99999999999')).toBeNull()
+  })
+
+  test('any change to the path or parameters invalidates the link', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom('pathname', 'expires', 'signature'),
+        fc.integer({ min: 1, max: 1000 }),
+        (field, delta) => {
+          const url = new URL(signDownloadPath('/api/media/m1/download', { now }), 'https://pipes.example.com')
+
+          if (field === 'pathname') {
+            url.pathname = `/api/media/m${delta + 1}/download`
+          } else if (field === 'expires') {
+            url.searchParams.set('expires', String(Number(url.searchParams.get('expires')) + delta))
+          } else {
+            const signature = url.searchParams.get('signature')!
+            const flipped = (parseInt(signature[0], 16) ^ (delta % 15 + 1)).toString(16)
+            url.searchParams.set('signature', flipped + signature.slice(1))
+          }
+
+          expect(verifySignedUrl(url, now)).toEqual({ valid: false, reason: 'Invalid download link' })
+        }
+      ),
+      { numRuns: 50 }
+    )
+  })
+
+  test('link lifetimes are bounded', () => {
+    expect(() => signDownloadPath('/x', { expiresIn: 0 })).toThrow()
+    expect(() => signDownloadPath('/x', { expiresIn: MAX_LINK_TTL_SECONDS + 1 })).toThrow()
+    expect(() => signDownloadPath('/x', { expiresIn: MAX_LINK_TTL_SECONDS })).not.toThrow()
+  })
+})
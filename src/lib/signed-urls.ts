@@ -0,0 +1,77 @@
+/**
+ * HMAC-signed, expiring download links. A link carries its expiry and an
+ * optional recipient email in the query string; both are covered by the
+ * signature, so a link cannot be extended or reassigned to someone else.
+ */
+
+import { signData, verifySignature } from './encryption'
+
+export const DEFAULT_LINK_TTL_SECONDS = 7 * 24 * 60 * 60
+export const MAX_LINK_TTL_SECONDS = 90 * 24 * 60 * 60
+
+export interface SignedUrlOptions {
+  // Seconds until the link stops working
+  expiresIn?: number
+  // Email address the link is issued to; recorded with each download
+  recipient?: string
+  now?: Date
+}
+
+export type SignedUrlVerification =
+  | { valid: true; expiresAt: Date; recipient: string | null }
+  | { valid: false; reason: string }
+
+function normalizeRecipient(recipient: string | null | undefined): string | null {
+  const value = recipient?.trim().toLowerCase()
+  return value ? value : null
+}
+
+function payload(path: string, expires: number, recipient: string | null): string {
+  return [path, expires, recipient ?? ''].join('\n')
+}
+
+/**
+ * Append expiry, recipient and signature parameters to a download path
+ */
+export function signDownloadPath(path: string, options: SignedUrlOptions = {}): string {
+  const expiresIn = options.expiresIn ?? DEFAULT_LINK_TTL_SECONDS
+  if (!Number.isInteger(expiresIn) || expiresIn <= 0 || expiresIn > MAX_LINK_TTL_SECONDS) {
+    throw new Error(`Link lifetime must be between 1 second and ${MAX_LINK_TTL_SECONDS / 86400} days`)
+  }
+
+  const now = options.now ?? new Date()
+  const expires = Math.floor(now.getTime() / 1000) + expiresIn
+  const recipient = normalizeRecipient(options.recipient)
+
+  const params = new URLSearchParams({ expires: expires.toString() })
+  if (recipient) params.set('recipient', recipient)
+  params.set('signature', signData(payload(path, expires, recipient)))
+
+  return `${path}?${params.toString()}`
+}
+
+/**
+ * Check the signature parameters of a request URL. Returns null when the URL
+ * carries no signature at all, so callers can fall back to session auth.
+ */
+export function verifySignedUrl(url: URL, now: Date = new Date()): SignedUrlVerification | null {
+  const signature = url.searchParams.get('signature')
+  if (signature === null) return null
+
+  const expires = Number(url.searchParams.get('expires'))
+  if (!Number.isInteger(expires) || !/^[0-9a-f]+$/i.test(signature)) {
+    return { valid: false, reason: 'Invalid download link' }
+  }
+
+  const recipient = normalizeRecipient(url.searchParams.get('recipient'))
+  if (!verifySignature(payload(url.pathname, expires, recipient), signature)) {
+    return { valid: false, reason: 'Invalid download link' }
+  }
+
+  const expiresAt = new Date(expires * 1000)
+  if (expiresAt <= now) {
+    return { valid: false, reason: 'Download link has expired' }
+  }
+
+  return { valid: true, expiresAt, recipient }
+}
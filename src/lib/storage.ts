@@ -0,0 +1,426 @@
+/**
+ * File storage providers. Uploaded media and generated documents are stored
+ * by key either on the local disk or in an S3-compatible bucket.
+ */
+
+import http from 'http'
+import https from 'https'
+import path from 'path'
+import { createReadStream, createWriteStream, promises as fs } from 'fs'
+import { Readable } from 'stream'
+import { pipeline } from 'stream/promises'
+import { createHash, createHmac, randomBytes } from 'crypto'
+
+export interface PutOptions {
+  contentType: string
+}
+
+// Inclusive byte offsets, as in an HTTP Range header
+export interface ByteRange {
+  start: number
+  end: number
+}
+
+/**
+ * Read a single-range `Range: bytes=` header. Returns null when the whole
+ * file should be sent: no header, a malformed one or several ranges.
+ */
+export function parseByteRange(header: string | null | undefined, size: number): ByteRange | 'unsatisfiable' | null {
+  const match = header?.trim().match(/^bytes=(\d*)-(\d*)$/)
+  if (!match || (match[1] === '' && match[2] === '')) return null
+
+  let start: number
+  let end: number
+  if (match[1] === '') {
+    // Suffix range: the last N bytes
+    const length = Number(match[2])
+    if (length === 0) return 'unsatisfiable'
+    start = Math.max(0, size - length)
+    end = size - 1
+  } else {
+    start = Number(match[1])
+    end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1)
+    if (match[2] !== '' && Number(match[2]) < start) return null
+  }
+
+  return start >= size ? 'unsatisfiable' : { start, end }
+}
+
+export interface StorageProvider {
+  name: string
+  /** Store the body under `key` and return the number of bytes written */
+  put(key: string, body: Readable | Buffer, options: PutOptions): Promise<number>
+  /** Stream an object, or part of it, or null when it does not exist */
+  get(key: string, range?: ByteRange): Promise<Readable | null>
+  /** Remove an object; missing objects are ignored */
+  delete(key: string): Promise<void>
+}
+
+export interface S3Config {
+  endpoint: string
+  region: string
+  bucket: string
+  accessKeyId: string
+  secretAccessKey: string
+  // Objects larger than this are sent as a multipart upload
+  partSize?: number
+}
+
+// Smallest part size S3 accepts for all but the last part of a multipart upload
+const S3_MIN_PART_SIZE = 5 * 1024 * 1024
+
+const EMPTY_SHA256 = createHash('sha256').update('').digest('hex')
+
+/**
+ * Reject keys that are empty or could escape the storage root
+ */
+export function assertValidKey(key: string) {
+  const segments = key.split('/')
+  if (!key || key.startsWith('/') || key.includes('\\') || segments.some(segment => segment === '' || segment === '.' || segment === '..')) {
+    throw new Error(`Invalid storage key: ${key}`)
+  }
+}
+
+export class LocalStorageProvider implements StorageProvider {
+  name = 'local'
+
+  constructor(private root: string) {}
+
+  private resolve(key: string): string {
+    assertValidKey(key)
+    return path.join(this.root, ...key.split('/'))
+  }
+
+  async put(key: string, body: Readable | Buffer, options: PutOptions): Promise<number> {
+    const target = this.resolve(key)
+    // Written beside the target and renamed so readers never see a partial file
+    const temporary = `${target}.${randomBytes(6).toString('hex')}.tmp`
+    const source = Buffer.isBuffer(body) ? Readable.from([body]) : body
+    // An error while the directory is created is reported by pipeline() below
+    source.on('error', () => undefined)
+
+    await fs.mkdir(path.dirname(target), { recursive: true })
+    try {
+      const output = createWriteStream(temporary)
+      await pipeline(source, output)
+      await fs.rename(temporary, target)
+      return output.bytesWritten
+    } catch (error) {
+      await fs.rm(temporary, { force: true })
+      throw error
+    }
+  }
+
+  async get(key: string, range?: ByteRange): Promise<Readable | null> {
+    const target = this.resolve(key)
+    try {
+      await fs.access(target)
+    } catch {
+      return null
+    }
+    return createReadStream(target, range ? { start: range.start, end: range.end } : undefined)
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true })
+  }
+}
+
+function sha256(data: string | Buffer): string {
+  return createHash('sha256').update(data).digest('hex')
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest()
+}
+
+// RFC 3986 encoding as required by Signature Version 4
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, c => '%' + c.charCodeAt(0).toString(16).toUpperCase())
+}
+
+export interface SignableRequest {
+  method: string
+  // Canonical (already encoded) path
+  path: string
+  query: Record<string, string>
+  // Lower-case header names; all of them are signed
+  headers: Record<string, string>
+  payloadHash: string
+}
+
+/**
+ * Build the AWS Signature Version 4 Authorization header for a request.
+ * The headers must already include x-amz-date for `date`.
+ */
+export function signRequest(
+  request: SignableRequest,
+  credentials: { accessKeyId: string; secretAccessKey: string; region: string },
+  date: Date,
+  service: string = 's3'
+): string {
+  const amzDate = date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+  const dateStamp = amzDate.slice(0, 8)
+  const scope = `${dateStamp}/${credentials.region}/${service}/aws4_request`
+
+  const query = Object.keys(request.query).sort()
+    .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(request.query[name])}`)
+    .join('&')
+  const headerNames = Object.keys(request.headers).sort()
+  const canonicalHeaders = headerNames
+    .map(name => `${name}:${request.headers[name].trim().replace(/\s+/g, ' ')}\n`)
+    .join('')
+  const signedHeaders = headerNames.join(';')
+
+  const canonicalRequest = [
+    request.method,
+    request.path,
+    query,
+    canonicalHeaders,
+    signedHeaders,
+    request.payloadHash
+  ].join('\n')
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n')
+
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, dateStamp), credentials.region), service), 'aws4_request')
+  const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex')
+
+  return `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+}
+
+/**
+ * Split a stream into parts of exactly `size` bytes. The final part is
+ * flagged so a small body can be sent in a single request.
+ */
+async function* splitParts(stream: Readable, size: number): AsyncGenerator<{ data: Buffer; last: boolean }> {
+  let chunks: Buffer[] = []
+  let length = 0
+
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk))
+    length += chunk.length
+    while (length > size) {
+      const joined = Buffer.concat(chunks)
+      yield { data: joined.subarray(0, size), last: false }
+      chunks = [joined.subarray(size)]
+      length = chunks[0].length
+    }
+  }
+
+  yield { data: Buffer.concat(chunks), last: true }
+}
+
+async function readText(response: http.IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = []
+  for await (const chunk of response) chunks.push(chunk)
+  return Buffer.concat(chunks).toString('utf8')
+}
+
+export class S3StorageProvider implements StorageProvider {
+  name = 's3'
+  private partSize: number
+
+  constructor(private config: S3Config) {
+    this.partSize = config.partSize ?? S3_MIN_PART_SIZE
+  }
+
+  private send(
+    method: string,
+    key: string,
+    options: { query?: Record<string, string>; body?: Buffer; headers?: Record<string, string> } = {}
+  ): Promise<http.IncomingMessage> {
+    assertValidKey(key)
+    const endpoint = new URL(this.config.endpoint)
+    const canonicalPath = endpoint.pathname.replace(/\/$/, '') + '/' +
+      [this.config.bucket, ...key.split('/')].map(encodeRfc3986).join('/')
+    const query = options.query ?? {}
+    const body = options.body
+    const date = new Date()
+
+    const headers: Record<string, string> = {
+      host: endpoint.host,
+      'x-amz-content-sha256': body ? sha256(body) : EMPTY_SHA256,
+      'x-amz-date': date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, ''),
+      ...options.headers
+    }
+    if (body) headers['content-length'] = body.length.toString()
+
+    const authorization = signRequest(
+      { method, path: canonicalPath, query, headers, payloadHash: headers['x-amz-content-sha256'] },
+      this.config,
+      date
+    )
+
+    const search = Object.keys(query)
+      .map(name => query[name] === '' ? encodeRfc3986(name) : `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+      .join('&')
+
+    return new Promise((resolve, reject) => {
+      const request = (endpoint.protocol === 'https:' ? https : http).request({
+        method,
+        protocol: endpoint.protocol,
+        hostname: endpoint.hostname,
+        port: endpoint.port || undefined,
+        path: canonicalPath + (search ? `?${search}` : ''),
+        headers: { ...headers, authorization }
+      }, resolve)
+      request.on('error', reject)
+      request.end(body)
+    })
+  }
+
+  private async expectOk(response: http.IncomingMessage, action: string): Promise<string> {
+    const text = await readText(response)
+    // CompleteMultipartUpload can fail after a 200 status has been sent
+    if (!response.statusCode || response.statusCode >= 300 || text.includes('<Error>')) {
+      const code = text.match(/<Code>([^<]+)<\/Code>/)?.[1]
+      throw new Error(`S3 ${action} failed with status ${response.statusCode}${code ? ` (${code})` : ''}`)
+    }
+    return text
+  }
+
+  async put(key: string, body: Readable | Buffer, options: PutOptions): Promise<number> {
+    const stream = Buffer.isBuffer(body) ? Readable.from([body]) : body
+    const etags: string[] = []
+    let uploadId: string | null = null
+    let size = 0
+
+    try {
+      for await (const part of splitParts(stream, this.partSize)) {
+        size += part.data.length
+
+        if (part.last && uploadId === null) {
+          await this.expectOk(
+            await this.send('PUT', key, { body: part.data, headers: { 'content-type': options.contentType } }),
+            'PutObject'
+          )
+          return size
+        }
+
+        if (uploadId === null) {
+          const created = await this.expectOk(
+            await this.send('POST', key, { query: { uploads: '' }, headers: { 'content-type': options.contentType } }),
+            'CreateMultipartUpload'
+          )
+          uploadId = created.match(/<UploadId>([^<]+)<\/UploadId>/)?.[1] ?? null
+          if (!uploadId) throw new Error('S3 CreateMultipartUpload returned no upload id')
+        }
+
+        const response = await this.send('PUT', key, {
+          query: { partNumber: String(etags.length + 1), uploadId },
+          body: part.data
+        })
+        await this.expectOk(response, 'UploadPart')
+        etags.push(String(response.headers.etag))
+      }
+
+      const manifest = '<CompleteMultipartUpload>' +
+        etags.map((etag, i) => `<Part><PartNumber>${i + 1}</PartNumber><ETag>${etag}</ETag></Part>`).join('') +
+        '</CompleteMultipartUpload>'
+      await this.expectOk(
+        await this.send('POST', key, { query: { uploadId: uploadId! }, body: Buffer.from(manifest) }),
+        'CompleteMultipartUpload'
+      )
+      return size
+    } catch (error) {
+      if (uploadId) {
+        await this.send('DELETE', key, { query: { uploadId } }).then(readText).catch(() => undefined)
+      }
+      stream.destroy()
+      throw error
+    }
+  }
+
+  async get(key: string, range?: ByteRange): Promise<Readable | null> {
+    const response = await this.send('GET', key, range ? { headers: { range: `bytes=${range.start}-${range.end}` } } : {})
+    if (response.statusCode === 404) {
+      response.resume()
+      return null
+    }
+    // Servers may ignore the Range header and send the whole object; the
+    // caller has already announced the range, so only that part is passed on
+    if (range && response.statusCode === 200) {
+      return Readable.from(sliceBytes(response, range))
+    }
+    if (response.statusCode !== (range ? 206 : 200)) {
+      await this.expectOk(response, 'GetObject')
+      throw new Error(`S3 GetObject returned unexpected status ${response.statusCode}`)
+    }
+    return response
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.send('DELETE', key)
+    if (response.statusCode === 404) {
+      response.resume()
+      return
+    }
+    await this.expectOk(response, 'DeleteObject')
+  }
+}
+
+// The bytes of `range` from a stream of the whole object
+async function* sliceBytes(stream: Readable, range: ByteRange): AsyncGenerator<Buffer> {
+  let offset = 0
+  for await (const chunk of stream) {
+    const data = chunk as Buffer
+    const from = Math.max(range.start - offset, 0)
+    const to = Math.min(range.end + 1 - offset, data.length)
+    if (to > from) yield data.subarray(from, to)
+    offset += data.length
+    if (offset > range.end) return
+  }
+}
+
+/**
+ * Build the storage provider described by the environment
+ */
+export function createStorageProvider(env: Record<string, string | undefined> = process.env): StorageProvider {
+  const driver = env.STORAGE_DRIVER || (env.S3_BUCKET ? 's3' : 'local')
+
+  if (driver === 's3') {
+    if (!env.S3_BUCKET || !env.S3_ACCESS_KEY_ID || !env.S3_SECRET_ACCESS_KEY) {
+      throw new Error('S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY are required when STORAGE_DRIVER is s3')
+    }
+    const region = env.S3_REGION || 'us-east-1'
+    return new S3StorageProvider({
+      endpoint: env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`,
+      region,
+      bucket: env.S3_BUCKET,
+      accessKeyId: env.S3_ACCESS_KEY_ID,
+      secretAccessKey: env.S3_SECRET_ACCESS_KEY
+    })
+  }
+
+  if (driver === 'local') {
+    return new LocalStorageProvider(path.resolve(env.UPLOAD_DIR || './uploads'))
+  }
+
+  throw new Error(`Unknown STORAGE_DRIVER: ${driver}`)
+}
+
+let storage: StorageProvider | null = null
+
+export function getStorage(): StorageProvider {
+  if (!storage) storage = createStorageProvider()
+  return storage
+}
+
+/**
+ * Override the storage provider (used by tests and scripts)
+ */
+export function setStorageProvider(next: StorageProvider | null) {
+  storage = next
+}
+
+/**
+ * Read a whole object into memory, or null when it does not exist
+ */
+export async function readStorageObject(key: string): Promise<Buffer | null> {
+  const stream = await getStorage().get(key)
+  if (!stream) return null
+
+  const chunks: Buffer[] = []
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk))
+  return Buffer.concat(chunks)
+}
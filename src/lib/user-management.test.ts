@@ -0,0 +1,145 @@
+/**
+ * @jest-environment node
+ */
+
+/**
+ * Tests for staff account validation and one-time password tokens
+ */
+
+import * as fc from 'fast-check'
+
+jest.mock('./prisma', () => ({
+  prisma: {
+    passwordToken: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    user: {
+      update: jest.fn(),
+    },
+    session: {
+      updateMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  },
+}))
+
+import { prisma } from './prisma'
+import { hashSensitiveData, verifyPassword } from './encryption'
+import {
+  validateUserInput,
+  validatePasswordStrength,
+  createPasswordToken,
+  consumePasswordToken,
+  RESET_TOKEN_TTL_MS,
+} from './user-management'
+
+const mockPrisma = prisma as unknown as {
+  passwordToken: Record<'create' | 'findUnique' | 'updateMany', jest.Mock>
+  user: Record<'update', jest.Mock>
+  session: Record<'updateMany', jest.Mock>
+  $transaction: jest.Mock
+}
+
+const activeUser = { id: 'user1', email: 'staff@test.com', name: 'Staff', disabledAt: null }
+
+describe('User Management', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockPrisma.passwordToken.create.mockResolvedValue({})
+    mockPrisma.passwordToken.updateMany.mockResolvedValue({ count: 0 })
+    mockPrisma.session.updateMany.mockResolvedValue({ count: 0 })
+    mockPrisma.$transaction.mockImplementation((callback) => callback(prisma))
+  })
+
+  describe('validateUserInput', () => {
+    test('normalises email and rejects unknown roles and permissions', () => {
+      const valid = validateUserInput({ email: ' Staff@Test.com ', name: 'Staff', role: 'CONTENT_MANAGER' })
+      expect(valid.isValid).toBe(true)
+      expect(valid.data.email).toBe('staff@test.com')
+
+      const invalid = validateUserInput({ email: 'staff@test.com', name: 'Staff', role: 'ROOT', permissions: ['DO_ANYTHING'] })
+      expect(invalid.isValid).toBe(false)
+      expect(invalid.errors).toHaveLength(2)
+    })
+
+    test('partial updates only validate supplied fields', () => {
+      const result = validateUserInput({ disabled: true }, { partial: true })
+      expect(result).toEqual({ isValid: true, errors: [], data: { disabled: true } })
+    })
+  })
+
+  test('passwords need length plus letters and numbers', () => {
+    fc.assert(
+      fc.property(fc.string({ maxLength: 9 }), (password) => {
+        expect(validatePasswordStrength(password).length).toBeGreaterThan(0)
+      }),
+      { numRuns: 50 }
+    )
+
+    expect(validatePasswordStrength('onlyletterslong')).toHaveLength(1)
+    expect(validatePasswordStrength('Pipes2024Supply')).toEqual([])
+  })
+
+  test('createPasswordToken stores a hash and invalidates earlier tokens', async () => {
+    const { token, expiresAt } = await createPasswordToken('user1', 'RESET')
+
+    expect(mockPrisma.passwordToken.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { userId: 'user1', usedAt: null } })
+    )
+    const stored = mockPrisma.passwordToken.create.mock.calls[0][0].data
+    expect(stored.tokenHash).toBe(hashSensitiveData(token))
+    expect(JSON.stringify(stored)).not.toContain(token)
+    expect(expiresAt.getTime()).toBeLessThanOrEqual(Date.now() + RESET_TOKEN_TTL_MS)
+  })
+
+  test('consumePasswordToken sets the password and revokes sessions', async () => {
+    mockPrisma.passwordToken.findUnique.mockResolvedValue({
+      id: 'token1',
+      userId: 'user1',
+      purpose: 'INVITE',
+      usedAt: null,
+      expiresAt: new Date(Date.now() + 60000),
+      user: activeUser,
+    })
+
+    mockPrisma.passwordToken.updateMany.mockResolvedValue({ count: 1 })
+
+    const result = await consumePasswordToken('raw-token', 'Pipes2024Supply')
+
+    expect(result).toEqual({ success: true, userId: 'user1' })
+    const passwordHash = mockPrisma.user.update.mock.calls[0][0].data.passwordHash
+    expect(await verifyPassword('Pipes2024Supply', passwordHash)).toBe(true)
+    const claim = mockPrisma.passwordToken.updateMany.mock.calls[0][0]
+    expect(claim.where).toMatchObject({ id: 'token1', usedAt: null })
+    expect(claim.data.usedAt).toBeInstanceOf(Date)
+    expect(mockPrisma.session.updateMany.mock.calls[0][0].where).toEqual({ userId: 'user1', revokedAt: null })
+  })
+
+  test('used, expired and disabled-account tokens are rejected', async () => {
+    const base = {
+      id: 'token1',
+      userId: 'user1',
+      purpose: 'RESET',
+      usedAt: null,
+      expiresAt: new Date(Date.now() + 60000),
+      user: activeUser,
+    }
+
+    for (const record of [
+      { ...base, usedAt: new Date() },
+      { ...base, expiresAt: new Date(Date.now() - 1000) },
+      { ...base, user: { ...activeUser, disabledAt: new Date() } },
+      null,
+      // Passes the read but another request claims it first
+      base,
+    ]) {
+      mockPrisma.passwordToken.findUnique.mockResolvedValueOnce(record)
+      const result = await consumePasswordToken('raw-token', 'Pipes2024Supply')
+      expect(result.success).toBe(false)
+    }
+
+    expect(mockPrisma.user.update).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,228 @@
+/**
+ * Staff account management: input validation and one-time password tokens
+ * used for invitations and password resets
+ */
+
+import validator from 'validator'
+import { Permission, PasswordTokenPurpose, UserRole } from '@prisma/client'
+import { prisma } from './prisma'
+import { logger } from './monitoring'
+import { generateSecureToken, hashPassword, hashSensitiveData } from './encryption'
+import { forceLogout } from './session-utils'
+import { getEffectivePermissions, ROLE_PERMISSIONS } from './auth-utils'
+
+export const INVITE_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000 // 7 days
+export const RESET_TOKEN_TTL_MS = 60 * 60 * 1000 // 1 hour
+export const MIN_PASSWORD_LENGTH = 10
+
+// Fields that are safe to return from the users API; never includes passwordHash
+export const USER_SELECT = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  permissions: true,
+  createdAt: true,
+  updatedAt: true,
+  lastLogin: true,
+  disabledAt: true
+} as const
+
+export interface UserInput {
+  email?: string
+  name?: string
+  role?: UserRole
+  permissions?: Permission[]
+  disabled?: boolean
+}
+
+/**
+ * Validate and normalise user input. With `partial`, only provided fields are checked.
+ */
+export function validateUserInput(
+  data: any,
+  options: { partial?: boolean } = {}
+): { isValid: boolean; errors: string[]; data: UserInput } {
+  const errors: string[] = []
+  const result: UserInput = {}
+
+  if (!data || typeof data !== 'object') {
+    return { isValid: false, errors: ['Request body must be an object'], data: result }
+  }
+
+  if (data.email !== undefined || !options.partial) {
+    // Lowercased to match how /api/login looks accounts up
+    const email = typeof data.email === 'string' ? data.email.trim().toLowerCase() : ''
+    if (!validator.isEmail(email)) {
+      errors.push('A valid email address is required')
+    } else {
+      result.email = email
+    }
+  }
+
+  if (data.name !== undefined || !options.partial) {
+    const name = typeof data.name === 'string' ? validator.stripLow(data.name).replace(/[<>]/g, '').trim() : ''
+    if (!name) {
+      errors.push('Name is required')
+    } else if (name.length > 100) {
+      errors.push('Name must be no more than 100 characters')
+    } else {
+      result.name = name
+    }
+  }
+
+  if (data.role !== undefined) {
+    if (!Object.values(UserRole).includes(data.role)) {
+      errors.push(`Role must be one of: ${Object.values(UserRole).join(', ')}`)
+    } else {
+      result.role = data.role
+    }
+  }
+
+  if (data.permissions !== undefined) {
+    if (!Array.isArray(data.permissions) ||
+        data.permissions.some((p: unknown) => !Object.values(Permission).includes(p as Permission))) {
+      errors.push(`Permissions must be a list of: ${Object.values(Permission).join(', ')}`)
+    } else {
+      result.permissions = Array.from(new Set<Permission>(data.permissions))
+    }
+  }
+
+  if (data.disabled !== undefined) {
+    if (typeof data.disabled !== 'boolean') {
+      errors.push('Disabled must be true or false')
+    } else {
+      result.disabled = data.disabled
+    }
+  }
+
+  return { isValid: errors.length === 0, errors, data: result }
+}
+
+/**
+ * Check a new password against the minimum strength policy
+ */
+export function validatePasswordStrength(password: unknown): string[] {
+  const errors: string[] = []
+
+  if (typeof password !== 'string') {
+    return ['Password is required']
+  }
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    errors.push(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`)
+  }
+  if (!/[a-zA-Z]/.test(password) || !/[0-9]/.test(password)) {
+    errors.push('Password must contain both letters and numbers')
+  }
+
+  return errors
+}
+
+/**
+ * Why the acting user may not give an account this role and these
+ * permissions, or null. Staff can only hand out access they hold themselves,
+ * and only admins can make other admins.
+ */
+export function checkGrantableAccess(
+  actor: { role: string; permissions?: Permission[] },
+  role: UserRole | undefined,
+  permissions: Permission[] = []
+): string | null {
+  if (role === UserRole.ADMIN && actor.role !== UserRole.ADMIN) {
+    return 'Only admins can grant the ADMIN role'
+  }
+
+  const held = getEffectivePermissions(actor)
+  const granted = [...(role ? ROLE_PERMISSIONS[role] : []), ...permissions]
+  const missing = Array.from(new Set(granted.filter(permission => !held.includes(permission))))
+  if (missing.length > 0) {
+    return `You cannot grant permissions you do not hold: ${missing.join(', ')}`
+  }
+
+  return null
+}
+
+/**
+ * Issue a one-time password token for a user. Any earlier unused tokens are
+ * invalidated so only the most recent link works.
+ */
+export async function createPasswordToken(userId: string, purpose: PasswordTokenPurpose) {
+  const token = generateSecureToken()
+  const ttl = purpose === PasswordTokenPurpose.INVITE ? INVITE_TOKEN_TTL_MS : RESET_TOKEN_TTL_MS
+  const expiresAt = new Date(Date.now() + ttl)
+
+  await prisma.passwordToken.updateMany({
+    where: { userId, usedAt: null },
+    data: { usedAt: new Date() }
+  })
+
+  await prisma.passwordToken.create({
+    data: {
+      tokenHash: hashSensitiveData(token),
+      userId,
+      purpose,
+      expiresAt
+    }
+  })
+
+  return { token, expiresAt }
+}
+
+/**
+ * Build the link a user follows to set their password
+ */
+export function buildPasswordSetupUrl(token: string): string {
+  const baseUrl = (process.env.NEXTAUTH_URL || 'http://localhost:3000').replace(/\/+$/, '')
+  return `${baseUrl}/set-password?token=${encodeURIComponent(token)}`
+}
+
+/**
+ * Redeem a one-time token and set the user's password. Existing sessions are
+ * revoked so a reset locks out anyone holding the old credentials.
+ */
+export async function consumePasswordToken(
+  token: string,
+  password: string
+): Promise<{ success: true; userId: string } | { success: false; error: string }> {
+  const passwordErrors = validatePasswordStrength(password)
+  if (passwordErrors.length > 0) {
+    return { success: false, error: passwordErrors.join('. ') }
+  }
+
+  const record = await prisma.passwordToken.findUnique({
+    where: { tokenHash: hashSensitiveData(token) },
+    include: { user: true }
+  })
+
+  if (!record || record.usedAt || record.expiresAt <= new Date() || record.user.disabledAt) {
+    return { success: false, error: 'This link is invalid or has expired' }
+  }
+
+  const passwordHash = await hashPassword(password)
+
+  // Claim the token with a conditional update so two concurrent redeems of
+  // the same link cannot both set a password
+  const claimed = await prisma.$transaction(async (tx) => {
+    const now = new Date()
+    const { count } = await tx.passwordToken.updateMany({
+      where: { id: record.id, usedAt: null, expiresAt: { gt: now } },
+      data: { usedAt: now }
+    })
+    if (count === 0) return false
+
+    await tx.user.update({
+      where: { id: record.userId },
+      data: { passwordHash }
+    })
+    return true
+  })
+
+  if (!claimed) {
+    return { success: false, error: 'This link is invalid or has expired' }
+  }
+
+  await forceLogout(record.userId, 'password changed')
+  logger.info('Password set from one-time token', { userId: record.userId, purpose: record.purpose })
+
+  return { success: true, userId: record.userId }
+}
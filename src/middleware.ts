@@ -5,9 +5,10 @@ export function middleware(req: NextRequest) {
   const { pathname } = req.nextUrl
   const session = req.cookies.get("session")
   
-  // Protect admin routes
+  // Protect admin routes. The edge runtime cannot reach the database, so this
+  // only checks for a session cookie; the token is validated server-side.
   if (pathname.startsWith('/admin')) {
-    if (!session || session.value !== "admin") {
+    if (!session?.value) {
       return NextResponse.redirect(new URL('/login', req.url))
     }
   }
@@ -18,6 +18,21 @@ export enum AvailabilityStatus {
   LOW_STOCK = 'LOW_STOCK'
 }
 
+export enum ProductRelationType {
+  FITTING = 'FITTING',
+  COUPLING = 'COUPLING',
+  VALVE = 'VALVE',
+  SUBSTITUTE = 'SUBSTITUTE',
+  UPGRADE = 'UPGRADE'
+}
+
+export enum StockMovementType {
+  RECEIPT = 'RECEIPT',
+  ADJUSTMENT = 'ADJUSTMENT',
+  RESERVATION = 'RESERVATION',
+  SHIPMENT = 'SHIPMENT'
+}
+
 export interface ProductImage {
   id: string
   url: string
@@ -30,20 +45,49 @@ export interface ProductDocument {
   id: string
   name: string
   url: string
-  type: string
+  category: string
+  version: number
+  effectiveDate?: Date | null
+  expiresAt?: Date | null
   productId: string
   createdAt: Date
 }
 
 export interface BulkDiscount {
   id: string
-  productId: string
+  // Set for product tiers; variant tiers have variantId instead
+  productId: string | null
+  variantId?: string | null
   minQuantity: number
   discount: number
 }
 
+export interface ProductVariant {
+  id: string
+  productId: string
+  sku: string
+  diameter: string
+  length: string
+  schedule?: string | null
+  basePrice: number
+  availability: AvailabilityStatus
+  position: number
+  bulkDiscounts?: BulkDiscount[]
+}
+
+export interface ProductRelation {
+  id: string
+  productId: string
+  relatedProductId: string
+  type: ProductRelationType
+  position: number
+  relatedProduct?: RelatedProduct
+}
+
 export interface Product {
   id: string
+  // Catalog code that spreadsheet imports match on
+  sku?: string | null
   name: string
   description: string
   category: ProductCategory
@@ -53,6 +97,16 @@ export interface Product {
   material: string
   pressureRating: string
   temperature: string
+  // Structured specs parsed from the text fields, in metric units
+  nominalSize?: number | null
+  outerDiameterMm?: number | null
+  innerDiameterMm?: number | null
+  wallThicknessMm?: number | null
+  schedule?: string | null
+  lengthM?: number | null
+  pressureBar?: number | null
+  minTemperatureC?: number | null
+  maxTemperatureC?: number | null
   standards: string[]
   applications: string[]
   basePrice: number
@@ -62,6 +116,8 @@ export interface Product {
   images?: ProductImage[]
   documents?: ProductDocument[]
   bulkDiscounts?: BulkDiscount[]
+  variants?: ProductVariant[]
+  relations?: ProductRelation[]
   createdAt: Date
   updatedAt: Date
 }
@@ -70,6 +126,76 @@ export interface ProductWithImages extends Product {
   images: ProductImage[]
 }
 
+// The fields shown for a product listed on another product's page
+export type RelatedProduct = Pick<
+  Product,
+  'id' | 'name' | 'category' | 'diameter' | 'material' | 'basePrice' | 'pricePerUnit' | 'availability'
+> & {
+  images: ProductImage[]
+  relationType?: ProductRelationType
+}
+
+// As returned by GET /api/products/[id]/related
+export interface RelatedProducts {
+  compatible: RelatedProduct[]
+  alternatives: RelatedProduct[]
+  frequentlyQuotedWith: RelatedProduct[]
+  // True when compatible items are suggested from matching specs rather than linked by hand
+  suggested: boolean
+}
+
+export interface InventoryLevel {
+  id: string
+  productId: string
+  // Set for stock of one variant rather than of the product as a whole
+  variantId?: string | null
+  variant?: { id: string; sku: string } | null
+  location: string
+  onHand: number
+  reserved: number
+  // On hand less reserved
+  available: number
+  reorderPoint: number
+  leadTimeDays?: number | null
+}
+
+export interface StockMovement {
+  id: string
+  type: StockMovementType
+  quantity: number
+  note?: string | null
+  createdAt: string
+  inventoryLevel: { location: string; variant?: { sku: string } | null }
+  quote?: { id: string; referenceNumber?: string | null } | null
+  user?: { id: string; name: string } | null
+}
+
+// As returned by GET /api/products/[id]/inventory
+export interface ProductInventory {
+  availability: AvailabilityStatus
+  // False until the product has a stock location; availability is then set by hand
+  tracked: boolean
+  totals: { onHand: number; reserved: number; available: number }
+  levels: InventoryLevel[]
+  movements: StockMovement[]
+  // Variants stock can be kept for, in selector order
+  variants: Array<{ id: string; sku: string }>
+}
+
+export interface FacetCount {
+  value: string
+  count: number
+}
+
+// Number of matching products per filter option, as returned by GET /api/products
+export interface ProductFacets {
+  categories: FacetCount[]
+  brands: FacetCount[]
+  materials: FacetCount[]
+  availability: FacetCount[]
+  priceRanges: Array<FacetCount & { label: string; min?: number; max?: number }>
+}
+
 export interface ProductCatalogResponse {
   products: ProductWithImages[]
   pagination: {
@@ -77,9 +203,17 @@ export interface ProductCatalogResponse {
     limit: number
     total: number
     pages: number
+    hasNextPage?: boolean
+    hasPreviousPage?: boolean
   }
+  facets: ProductFacets
+  filterOptions: FilterOptions
 }
 
+export type ProductSortKey =
+  | 'relevance' | 'name-asc' | 'name-desc' | 'price-asc' | 'price-desc' | 'newest' | 'oldest'
+  | 'size-asc' | 'size-desc' | 'pressure-asc' | 'pressure-desc'
+
 export interface FilterState {
   category: ProductCategory | ''
   brand: string